@@ -86,7 +86,7 @@ export async function PUT(
       UPDATE calculations
       SET name = ?, description = ?, kerf_thickness = ?, 
           available_stocks = ?, required_parts = ?, results = ?,
-          date_modified = ?
+          optimization_options = ?, returned_remnant_sheets = ?, date_modified = ?
       WHERE id = ?
     `).bind(
       dbCalc.name,
@@ -95,6 +95,8 @@ export async function PUT(
       dbCalc.available_stocks,
       dbCalc.required_parts,
       dbCalc.results,
+      dbCalc.optimization_options,
+      dbCalc.returned_remnant_sheets,
       dbCalc.date_modified,
       id
     ).run();
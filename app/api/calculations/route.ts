@@ -68,8 +68,9 @@ export async function POST(request: NextRequest) {
     const result = await DB.prepare(`
       INSERT INTO calculations (
         id, name, description, kerf_thickness, available_stocks, 
-        required_parts, results, date_created, date_modified, user_id
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        required_parts, results, optimization_options, returned_remnant_sheets,
+        date_created, date_modified, user_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `).bind(
       dbCalc.id,
       dbCalc.name,
@@ -78,6 +79,8 @@ export async function POST(request: NextRequest) {
       dbCalc.available_stocks,
       dbCalc.required_parts,
       dbCalc.results,
+      dbCalc.optimization_options,
+      dbCalc.returned_remnant_sheets,
       dbCalc.date_created,
       dbCalc.date_modified,
       dbCalc.user_id
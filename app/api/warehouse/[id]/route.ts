@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { setupD1Binding } from "../../../lib/db-setup";
+import { Stock, DBWarehouseStock, dbToAppWarehouseStock, appToDbWarehouseStock } from "../../../lib/types";
 
 // Type for route parameters
 type Params = {
@@ -28,17 +29,7 @@ export async function GET(request: NextRequest, { params }: Params) {
     }
     
     // Convert DB object to application object
-    const stockItem = {
-      id: item.id,
-      length: item.length,
-      width: item.width,
-      thickness: item.thickness,
-      quantity: item.quantity,
-      material: item.material,
-      location: item.location,
-      dateAdded: item.date_added,
-      dateModified: item.date_modified
-    };
+    const stockItem = dbToAppWarehouseStock(item as DBWarehouseStock);
     
     return NextResponse.json(stockItem);
   } catch (error) {
@@ -56,30 +47,38 @@ export async function PUT(request: NextRequest, { params }: Params) {
   try {
     // Set up D1 database binding (if in development)
     await setupD1Binding();
-    const stockItem = await request.json() as {
-      length: number;
-      width: number;
-      thickness: number;
-      quantity: number;
-      material?: string | null;
-      location?: string | null;
-    };
+    const stockItem = await request.json() as Stock;
     const now = Date.now();
+    const dbStock = appToDbWarehouseStock(stockItem, id, now);
     
     // Update the warehouse stock item
     const result = await globalThis.DB.prepare(
       `UPDATE warehouse_stock 
        SET length = ?, width = ?, thickness = ?, quantity = ?, 
-           material = ?, location = ?, date_modified = ?
+           material = ?, material_type = ?, location = ?, grain_direction = ?,
+           trim_top = ?, trim_bottom = ?, trim_left = ?, trim_right = ?, remnant_of = ?, unit_cost = ?,
+           defects = ?, end_check_start = ?, end_check_end = ?,
+           date_modified = ?
        WHERE id = ?`
     ).bind(
-      stockItem.length,
-      stockItem.width,
-      stockItem.thickness,
-      stockItem.quantity,
-      stockItem.material || null,
-      stockItem.location || null,
-      now,
+      dbStock.length,
+      dbStock.width,
+      dbStock.thickness,
+      dbStock.quantity,
+      dbStock.material,
+      dbStock.material_type,
+      dbStock.location,
+      dbStock.grain_direction,
+      dbStock.trim_top,
+      dbStock.trim_bottom,
+      dbStock.trim_left,
+      dbStock.trim_right,
+      dbStock.remnant_of,
+      dbStock.unit_cost,
+      dbStock.defects,
+      dbStock.end_check_start,
+      dbStock.end_check_end,
+      dbStock.date_modified,
       id
     ).run();
     
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { v4 as uuidv4 } from "uuid";
-import { Stock } from "../../lib/types";
+import { Stock, DBWarehouseStock, dbToAppWarehouseStock, appToDbWarehouseStock } from "../../lib/types";
 import { setupD1Binding } from "../../lib/db-setup";
 
 // Add a type declaration for globalThis.DB
@@ -23,17 +23,7 @@ export async function GET(request: NextRequest) {
     ).all();
     
     // Convert DB objects to application objects
-    const warehouseStock = results.map((item: any) => ({
-      id: item.id,
-      length: item.length,
-      width: item.width,
-      thickness: item.thickness,
-      quantity: item.quantity,
-      material: item.material,
-      location: item.location,
-      dateAdded: item.date_added,
-      dateModified: item.date_modified
-    }));
+    const warehouseStock = results.map((item: DBWarehouseStock) => dbToAppWarehouseStock(item));
     
     return NextResponse.json(warehouseStock);
   } catch (error) {
@@ -58,22 +48,38 @@ export async function POST(request: NextRequest) {
     const id = stockItem.id || uuidv4();
     const now = Date.now();
     
+    const dbStock = appToDbWarehouseStock(stockItem, id, now);
+    
     // Insert the new stock item into the database
     const result = await globalThis.DB.prepare(
       `INSERT INTO warehouse_stock 
-       (id, length, width, thickness, quantity, material, location, date_added, date_modified, user_id)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+       (id, length, width, thickness, quantity, material, material_type, location, grain_direction,
+        trim_top, trim_bottom, trim_left, trim_right, remnant_of, unit_cost,
+        defects, end_check_start, end_check_end,
+        date_added, date_modified, user_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     ).bind(
-      id,
-      stockItem.length,
-      stockItem.width,
-      stockItem.thickness,
-      stockItem.quantity,
-      stockItem.material || null,
-      stockItem.location || null,
-      stockItem.dateAdded || now,
-      now,
-      null // No user system yet
+      dbStock.id,
+      dbStock.length,
+      dbStock.width,
+      dbStock.thickness,
+      dbStock.quantity,
+      dbStock.material,
+      dbStock.material_type,
+      dbStock.location,
+      dbStock.grain_direction,
+      dbStock.trim_top,
+      dbStock.trim_bottom,
+      dbStock.trim_left,
+      dbStock.trim_right,
+      dbStock.remnant_of,
+      dbStock.unit_cost,
+      dbStock.defects,
+      dbStock.end_check_start,
+      dbStock.end_check_end,
+      dbStock.date_added,
+      dbStock.date_modified,
+      dbStock.user_id
     ).run();
     
     if (result.success) {
@@ -1,9 +1,19 @@
 // filepath: /Users/simon.billington/Library/CloudStorage/OneDrive-LEWIS/Documents/Repos/Wooder/app/lib/calculateOptimalCuts.ts
 // Implementation of the calculateOptimalCuts function with optimized 5-phase algorithm
-import { Stock, Part, StockUsage, MaterialType, Results, FreeSpace, Placement, formatDimensions } from './types';
+import { Stock, Part, StockUsage, MaterialType, Results, FreeSpace, Placement, OptimizationOptions, IgnoredSetting, formatDimensions, layoutEfficiency } from './types';
 import { handleSheetMaterialCutting, handleDimensionalLumberCutting } from './cut-helpers';
-import { generateOptimalCutSequence, OptimizedCutSequence } from './cutSequenceOptimizer';
-import { OptimizedCuttingEngine } from './optimized-cutting-engine';
+import { generateOptimalCutSequence, stackCutSequences, OptimizedCutSequence } from './cutSequenceOptimizer';
+import { OptimizedCuttingEngine, ConstraintProcessor } from './optimized-cutting-engine';
+import { MetaheuristicOptimizer } from './metaheuristic-optimizer';
+import { DimensionalOptimizer, LinearCutPlan } from './dimensional-optimizer';
+import { RemnantAnalyzer } from './remnant-analyzer';
+import { GrainGroupPlanner, GrainGroupLayout } from './grain-groups';
+import { NestingEngine } from './nesting-engine';
+import { LockedLayoutPlanner } from './locked-layout';
+import { validateResults } from './layout-validator';
+import { UnplacedPartAnalyzer } from './unplaced-parts';
+import { PatternStacker } from './pattern-stacking';
+import { resolveProfile, profileCandidates, chooseCandidate, scoreWithProfile } from './optimization-profiles';
 // ALGORITHM CONSOLIDATION: Import unified packing engine instead of multiple redundant implementations
 import { 
   consolidatedPackParts, 
@@ -314,12 +324,130 @@ export function tryReorganizeSheet(
 }
 
 /**
- * Main cutting optimization function using the new 5-phase algorithm
+ * Combine the 1D board plan with the 2D layout of everything else
+ */
+function mergeLinearPlan(
+  linearPlan: LinearCutPlan,
+  layoutResult: Results | null,
+  availableStocks: Stock[],
+  requiredParts: Part[],
+  options: OptimizationOptions
+): Results {
+  const boards = linearPlan.stockUsage;
+  const stockUsage = [...(layoutResult?.stockUsage || []), ...boards];
+  const materialSubstitutions = [
+    ...(layoutResult?.materialSubstitutions || []),
+    ...ConstraintProcessor.summarizeMaterialSubstitutions(boards, availableStocks, requiredParts, options)
+  ];
+  const millingOperations = [
+    ...(layoutResult?.millingOperations || []),
+    ...ConstraintProcessor.summarizeMillingOperations(boards, availableStocks, requiredParts, options)
+  ];
+  const totalOffcut = boards.reduce((sum, board) => sum + (board.offcutLength || 0), 0);
+
+  const messages: string[] = [];
+  if (linearPlan.unplacedCount > 0) {
+    messages.push(`⚠ Not enough suitable dimensional lumber: ${linearPlan.unplacedCount} parts could not be cut from the available boards`);
+  }
+  if (layoutResult && (!layoutResult.success || linearPlan.unplacedCount === 0)) {
+    messages.push(layoutResult.message);
+  }
+  if (linearPlan.unplacedCount === 0) {
+    messages.push(`✓ Crosscut plan: ${boards.length} boards used, ${Math.round(totalOffcut)}mm of offcuts`);
+  }
+
+  return {
+    ...layoutResult,
+    success: linearPlan.unplacedCount === 0 && (!layoutResult || layoutResult.success),
+    message: messages.join('; '),
+    stockUsage,
+    totalUsedSheets: stockUsage.length,
+    totalWaste: stockUsage.reduce((sum, usage) => sum + usage.wasteArea, 0),
+    sortedParts: requiredParts,
+    cutSequences: [],
+    ...(materialSubstitutions.length > 0 && { materialSubstitutions }),
+    ...(millingOperations.length > 0 && { millingOperations })
+  };
+}
+
+/**
+ * Split grain-group super-parts back into their members, and summarise substitutions
+ * and milling against the members rather than the super-parts
+ */
+function expandGrainGroups(
+  results: Results,
+  groups: GrainGroupLayout[],
+  layoutStocks: Stock[],
+  layoutParts: Part[],
+  options: OptimizationOptions
+): Results {
+  const expanded = GrainGroupPlanner.expandResults(results, groups, layoutParts);
+  const materialSubstitutions = ConstraintProcessor.summarizeMaterialSubstitutions(expanded.stockUsage, layoutStocks, layoutParts, options);
+  const millingOperations = ConstraintProcessor.summarizeMillingOperations(expanded.stockUsage, layoutStocks, layoutParts, options);
+
+  return {
+    ...expanded,
+    materialSubstitutions: materialSubstitutions.length > 0 ? materialSubstitutions : undefined,
+    millingOperations: millingOperations.length > 0 ? millingOperations : undefined
+  };
+}
+
+/**
+ * Price each used stock item and total the job, when any of the stock used is priced
+ */
+function applyStockCosts(results: Results, availableStocks: Stock[]): Results {
+  const priced = results.stockUsage.some(usage => availableStocks[usage.stockIndex]?.unitCost !== undefined);
+  if (!priced) return results;
+
+  const stockUsage = results.stockUsage.map(usage => ({
+    ...usage,
+    cost: availableStocks[usage.stockIndex]?.unitCost || 0
+  }));
+  const totalCost = stockUsage.reduce((sum, usage) => sum + usage.cost, 0);
+  console.log(`💰 Material cost: ${totalCost.toFixed(2)} for ${stockUsage.length} stock items`);
+
+  return { ...results, stockUsage, totalCost };
+}
+
+/**
+ * Settings asked for that this job's layout cannot honour: nesting outlined parts by shape
+ * leaves no room for a search, guillotine cuts, assemblies or repeated sheets, and the
+ * assembly constraint is kept only by the greedy engine packing sheet by sheet
+ */
+function ignoredSettingsFor(options: OptimizationOptions, nestsOutlines: boolean, constrainsAssemblies: boolean): IgnoredSetting[] {
+  const ignored: IgnoredSetting[] = [];
+  const because = nestsOutlines ? 'outlined parts are nested by shape' : 'the assembly constraint is kept by the standard layout';
+
+  if (options.search && (nestsOutlines || constrainsAssemblies)) {
+    ignored.push({ setting: 'search', message: `The layout search was skipped: ${because}` });
+  }
+  if (nestsOutlines && options.layoutMode === 'guillotine') {
+    ignored.push({ setting: 'layoutMode', message: `Guillotine cuts were not kept: ${because}` });
+  }
+  if (nestsOutlines && constrainsAssemblies) {
+    ignored.push({ setting: 'assemblyConstraint', message: `Assemblies were not kept together: ${because}` });
+  }
+  if (options.favourRepeats && (options.stackHeight || 1) > 1 && (nestsOutlines || constrainsAssemblies)) {
+    ignored.push({
+      setting: 'favourRepeats',
+      message: `Repeated sheet layouts were not favoured: ${nestsOutlines ? because : 'copying a sheet would split its assemblies'}`
+    });
+  }
+
+  return ignored;
+}
+
+/**
+ * Main cutting optimization function using the new 5-phase algorithm. When a prior
+ * layout is given, its locked and cut placements stay where they are and everything
+ * else is re-optimised around them.
  */
 export function calculateOptimalCuts(
   availableStocks: Stock[],
   requiredParts: Part[],
-  kerfThickness: number = 0 // Default to 0 if not provided
+  kerfThickness: number = 0, // Default to 0 if not provided
+  options: OptimizationOptions = {},
+  priorResults?: Partial<Results>
 ): Results {
   console.log('\n🚀 === OPTIMIZED CUTTING ALGORITHM START ===');
   console.log('Using new 5-Phase Processing Pipeline');
@@ -350,13 +478,98 @@ export function calculateOptimalCuts(
     };
   }
 
-  // Use the new optimized 5-phase cutting engine
-  const optimizedResult = OptimizedCuttingEngine.executeOptimization(
-    availableStocks,
-    requiredParts,
-    kerfThickness
+  // A profile packs under its own objective, and every later step follows it
+  const profile = resolveProfile(options);
+  if (profile) {
+    console.log(`🎚️ Optimisation profile: ${profile.label} (${profile.objective} objective)`);
+    options = { ...options, objective: profile.objective };
+  }
+
+  // Sheets holding locked parts are packed around them as stock items of their own
+  const locked = LockedLayoutPlanner.pin(availableStocks, requiredParts, priorResults, kerfThickness);
+  const planStocks = locked?.stocks || availableStocks;
+  const planParts = locked?.parts || requiredParts;
+
+  // Dimensional lumber cut to its own cross-section is a 1D problem, so it is planned first
+  options.onProgress?.({ phase: 'dimensional', sheetsDone: 0, bestEfficiency: 0 });
+  const linearPlan = DimensionalOptimizer.optimize(planStocks, planParts, kerfThickness, options);
+  options.onProgress?.({ phase: 'layout', sheetsDone: linearPlan.stockUsage.length, bestEfficiency: layoutEfficiency(linearPlan.stockUsage) });
+  const layoutParts = linearPlan.remainingParts;
+  const layoutStocks = planStocks.map((stock, i) => ({
+    ...stock,
+    quantity: stock.quantity - linearPlan.boardsUsed[i]
+  }));
+  const hasLinearParts = linearPlan.linearParts.some(Boolean);
+  const hasLayoutParts = layoutParts.some(part => part.quantity > 0);
+
+  // Grain-matched parts are packed as one super-part per group
+  const grainGroups = GrainGroupPlanner.buildSuperParts(layoutParts, kerfThickness);
+
+  // The search does not model assemblies, so the greedy engine enforces the constraint alone
+  const constrainsAssemblies = !!options.assemblyConstraint && options.assemblyConstraint !== 'none' &&
+    layoutParts.some(part => part.quantity > 0 && part.assembly?.trim());
+
+  // Outlined (CNC) parts are nested by shape; the rectangle engines would only see their boxes
+  const nestsOutlines = layoutParts.some(part => part.quantity > 0 && (part.outline?.points.length || 0) >= 3);
+  const ignoredSettings = ignoredSettingsFor(options, nestsOutlines, constrainsAssemblies);
+
+  // Use the new optimized 5-phase cutting engine, or search around it when a budget is given
+  const runEngine = (stocks: Stock[], parts: Part[], runOptions: OptimizationOptions): Results => nestsOutlines
+    ? NestingEngine.executeOptimization(stocks, parts, kerfThickness, runOptions)
+    : runOptions.search && !constrainsAssemblies
+      ? MetaheuristicOptimizer.optimize(stocks, parts, kerfThickness, runOptions.search, runOptions)
+      : OptimizedCuttingEngine.executeOptimization(
+        stocks,
+        parts,
+        kerfThickness,
+        runOptions
+      );
+
+  // Repeated sheets are packed round by round with the greedy engine; copying a sheet
+  // would split its assemblies, so the assembly constraint packs as usual
+  const stackHeight = Math.floor(options.stackHeight || 1);
+  const favoursRepeats = !!options.favourRepeats && stackHeight > 1 && !nestsOutlines && !constrainsAssemblies;
+  if (favoursRepeats) {
+    console.log(`🧱 Favouring repeated sheets in stacks of up to ${stackHeight}${options.search ? '; search skipped' : ''}`);
+  }
+  const pack = (runOptions: OptimizationOptions): Results => favoursRepeats
+    ? PatternStacker.packRepeating(
+      layoutStocks,
+      grainGroups.parts,
+      stackHeight,
+      (stocks, parts) => runEngine(stocks, parts, { ...runOptions, search: undefined }),
+      runOptions
+    )
+    : runEngine(layoutStocks, grainGroups.parts, runOptions);
+
+  // Under a profile the job is packed a few ways and the profile picks the layout;
+  // nesting has no layout modes to vary, so it packs once
+  const candidateOptions = nestsOutlines
+    ? [options]
+    : profileCandidates(options, !!options.search && !constrainsAssemblies);
+  const packedResult = !hasLayoutParts
+    ? null
+    : chooseCandidate(candidateOptions.map(pack), layoutStocks, grainGroups.parts, kerfThickness, options);
+  const layoutResult = packedResult && grainGroups.groups.length > 0
+    ? expandGrainGroups(packedResult, grainGroups.groups, layoutStocks, layoutParts, options)
+    : packedResult;
+
+  const plannedResult = hasLinearParts || !layoutResult
+    ? mergeLinearPlan(linearPlan, layoutResult, planStocks, planParts, options)
+    : { ...layoutResult, sortedParts: planParts };
+  const optimizedResult = applyStockCosts(
+    locked
+      ? LockedLayoutPlanner.restore(plannedResult, locked, availableStocks, requiredParts, kerfThickness, options)
+      : plannedResult,
+    availableStocks
   );
 
+  options.onProgress?.({
+    phase: 'sequencing',
+    sheetsDone: optimizedResult.stockUsage.length,
+    bestEfficiency: layoutEfficiency(optimizedResult.stockUsage)
+  });
+
   // Generate cut sequences for the optimized result
   let cutSequences: OptimizedCutSequence[] = [];
   if (optimizedResult.success && optimizedResult.stockUsage.length > 0) {
@@ -364,16 +577,66 @@ export function calculateOptimalCuts(
     cutSequences = generateOptimalCutSequence(
       optimizedResult.stockUsage,
       availableStocks,
-      optimizedResult.sortedParts
+      optimizedResult.sortedParts,
+      optimizedResult.millingOperations,
+      kerfThickness
     );
     console.log(`✅ Generated ${cutSequences.length} cutting sequences`);
   }
 
+  // Sheets with the same layout are reported as one pattern and cut in stacks
+  const patterns = PatternStacker.detectPatterns(optimizedResult.stockUsage, stackHeight);
+  cutSequences = stackCutSequences(cutSequences, patterns, optimizedResult.stockUsage, availableStocks);
+
+  // Report the offcuts worth keeping, whichever objective produced the layout
+  const remnants = RemnantAnalyzer.collectRemnants(
+    optimizedResult.stockUsage,
+    availableStocks,
+    requiredParts,
+    kerfThickness,
+    options
+  );
+  if (remnants.length > 0) {
+    console.log(`♻️ ${remnants.length} reusable offcuts left over`);
+  }
+
+  // Check the finished layout independently of the engine that made it
+  const violations = validateResults(optimizedResult, availableStocks, requiredParts, kerfThickness, options);
+
+  const profileScore = scoreWithProfile(
+    optimizedResult,
+    availableStocks,
+    requiredParts,
+    kerfThickness,
+    options,
+    hasLayoutParts ? candidateOptions.length : 1
+  );
+
+  // Say why each part the layout is short of was left off, and what would let it be cut
+  const unplacedParts = UnplacedPartAnalyzer.diagnose(
+    optimizedResult.stockUsage,
+    availableStocks,
+    requiredParts,
+    options,
+    optimizedResult.unplacedAssemblies
+  );
+
   console.timeEnd('Total Optimization Time');
   console.log('✅ === OPTIMIZED CUTTING ALGORITHM COMPLETE ===\n');
+  options.onProgress?.({
+    phase: 'complete',
+    sheetsDone: optimizedResult.stockUsage.length,
+    bestEfficiency: layoutEfficiency(optimizedResult.stockUsage)
+  });
 
   return {
     ...optimizedResult,
-    cutSequences
+    cutSequences,
+    ...(remnants.length > 0 && { remnants }),
+    ...(violations.length > 0 && { violations }),
+    ...(unplacedParts.length > 0 && { unplacedParts }),
+    ...(profileScore && { profileScore }),
+    ...(patterns.length > 0 && { patterns }),
+    ...(ignoredSettings.length > 0 && { ignoredSettings })
   };
 }
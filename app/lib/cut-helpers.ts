@@ -484,7 +484,9 @@ export function validateGrainOrientation(part: Part, space: any): boolean {
   return isGrainAligned;
 }
 
-// Helper function to validate placement - required by unified packing engine
+// Helper function to validate placement - required by unified packing engine.
+// Existing placements are sized from their own part, looked up in allParts by the
+// part index in their id; one that cannot be looked up blocks.
 export function validatePlacement(
   part: Part,
   x: number,
@@ -493,10 +495,12 @@ export function validatePlacement(
   stockLength: number,
   stockWidth: number,
   existingPlacements: Placement[] = [],
-  kerfThickness: number = 0
+  kerfThickness: number = 0,
+  allParts: Part[] = []
 ): boolean {
-  const partWidth = rotated ? part.length : part.width;
-  const partHeight = rotated ? part.width : part.length;
+  // x runs along the stock length, so an unrotated part spans its length in x
+  const partWidth = rotated ? part.width : part.length;
+  const partHeight = rotated ? part.length : part.width;
   
   // Check bounds
   if (x < 0 || y < 0 || x + partWidth > stockLength || y + partHeight > stockWidth) {
@@ -505,8 +509,12 @@ export function validatePlacement(
   
   // Check for overlaps with existing placements
   for (const existing of existingPlacements) {
-    const existingPartWidth = existing.rotated ? part.length : part.width;
-    const existingPartHeight = existing.rotated ? part.width : part.length;
+    const existingPart = allParts[parseInt(existing.partId.split('-')[1])];
+    if (!existingPart) {
+      return false;
+    }
+    const existingPartWidth = existing.rotated ? existingPart.width : existingPart.length;
+    const existingPartHeight = existing.rotated ? existingPart.length : existingPart.width;
     
     // Check if rectangles overlap (with kerf consideration)
     const noOverlap = 
@@ -1,10 +1,11 @@
 // Cut Sequence Optimization for safer and more efficient cutting
-import { StockUsage, Placement, MaterialType, Part } from './types';
+import { StockUsage, Placement, MaterialType, Part, CutTreeNode, Stock, MillingOperation, CuttingPattern, FreeSpace, getUsableRegion } from './types';
+import { LayoutValidator } from './layout-validator';
 
 export interface CutSequenceStep {
   id: string;
   stepNumber: number;
-  cutType: 'rip' | 'crosscut' | 'initial-breakdown' | 'final-trim';
+  cutType: 'edge-trim' | 'rip' | 'crosscut' | 'initial-breakdown' | 'final-trim' | 'mill';
   description: string;
   safetyNotes: string[];
   placements: Placement[];
@@ -15,6 +16,9 @@ export interface CutSequenceStep {
   };
   priority: 'high' | 'medium' | 'low';
   toolSuggestion?: string;
+  millingOperation?: MillingOperation; // Set on 'mill' steps
+  offcut?: FreeSpace; // Waste the cut separates from the parts
+  releasedPartIds?: string[]; // Parts the cut leaves free and to size
 }
 
 export interface OptimizedCutSequence {
@@ -26,15 +30,24 @@ export interface OptimizedCutSequence {
   safetyScore: number; // 1-10 scale
   efficiencyScore: number; // 1-10 scale
   recommendations: string[];
+  stackSheetIds?: string[]; // Sheets cut at once as one stack, when there is more than one
 }
 
+// Part edges no more than a kerf (and this slack for rounding) apart are the two sides of one saw cut
+const KERF_TOLERANCE = 0.5;
+
+// Loading, aligning and clamping each sheet beyond the first in a stack
+const STACK_HANDLING_MINUTES = 3;
+
 /**
  * Generates an optimized cutting sequence for safety and efficiency
  */
 export function generateOptimalCutSequence(
   stockUsage: StockUsage[],
   availableStocks: any[],
-  sortedParts: Part[]
+  sortedParts: Part[],
+  millingOperations: MillingOperation[] = [],
+  kerfThickness: number = 0
 ): OptimizedCutSequence[] {
   const sequences: OptimizedCutSequence[] = [];
 
@@ -42,18 +55,65 @@ export function generateOptimalCutSequence(
     const stock = availableStocks[usage.stockIndex];
     
     // Only generate sequences for sheet materials (dimensional lumber is simpler)
-    if (stock.materialType === MaterialType.Sheet) {
-      const sequence = generateSheetCutSequence(usage, usageIndex, stock, sortedParts);
-      sequences.push(sequence);
-    } else {
-      const sequence = generateDimensionalCutSequence(usage, usageIndex, stock, sortedParts);
-      sequences.push(sequence);
+    const sequence = stock.materialType === MaterialType.Sheet
+      ? generateSheetCutSequence(usage, usageIndex, stock, sortedParts, kerfThickness)
+      : generateDimensionalCutSequence(usage, usageIndex, stock, sortedParts, kerfThickness);
+
+    // Parts are thicknessed once they are cut free
+    const millingSteps = generateMillingSteps(
+      usage, millingOperations.filter(operation => operation.sheetId === usage.sheetId)
+    );
+    if (millingSteps.length > 0) {
+      sequence.steps.push(...millingSteps);
+      sequence.steps.forEach((step, index) => { step.stepNumber = index + 1; });
+      sequence.totalSteps = sequence.steps.length;
+      sequence.estimatedTime = estimateCuttingTime(sequence.steps, stock.materialType);
     }
+
+    sequences.push(sequence);
   });
 
   return sequences;
 }
 
+/**
+ * Replace the sequences of the sheets in each stack with one sequence for the stack:
+ * the saw cuts of the first sheet once, then the milling of every sheet in it
+ */
+export function stackCutSequences(
+  sequences: OptimizedCutSequence[],
+  patterns: CuttingPattern[],
+  stockUsage: StockUsage[],
+  availableStocks: any[]
+): OptimizedCutSequence[] {
+  const stackOf = new Map<string, string[]>();
+  patterns.forEach(pattern => pattern.stacks
+    .filter(stack => stack.length > 1)
+    .forEach(stack => stack.forEach(sheetId => stackOf.set(sheetId, stack))));
+
+  return sequences.flatMap(sequence => {
+    const stack = stackOf.get(sequence.sheetId);
+    if (!stack) return [sequence];
+    if (stack[0] !== sequence.sheetId) return [];
+
+    const members = sequences.filter(other => stack.includes(other.sheetId));
+    const steps = [
+      ...sequence.steps.filter(step => step.cutType !== 'mill'),
+      ...members.flatMap(member => member.steps.filter(step => step.cutType === 'mill'))
+    ].map((step, index) => ({ ...step, stepNumber: index + 1 }));
+    const stock = availableStocks[stockUsage[sequence.stockUsageIndex].stockIndex];
+
+    return [{
+      ...sequence,
+      steps,
+      totalSteps: steps.length,
+      estimatedTime: estimateCuttingTime(steps, stock.materialType) + STACK_HANDLING_MINUTES * (stack.length - 1),
+      recommendations: [`Cut ${stack.length} sheets at once as a stack: ${stack.join(', ')}`, ...sequence.recommendations],
+      stackSheetIds: stack
+    }];
+  });
+}
+
 /**
  * Generate cutting sequence for sheet materials
  */
@@ -61,109 +121,444 @@ function generateSheetCutSequence(
   usage: StockUsage,
   usageIndex: number,
   stock: any,
-  sortedParts: Part[]
+  sortedParts: Part[],
+  kerfThickness: number
 ): OptimizedCutSequence {
-  const steps: CutSequenceStep[] = [];
-  let stepNumber = 1;
+  // Squaring cuts always come first so every later measurement starts from a clean edge
+  const edgeTrimSteps = generateEdgeTrimSteps(usage, stock);
 
-  // Safety and efficiency principles for sheet cutting:
-  // 1. Make longest cuts first (less material to handle)
-  // 2. Make rip cuts before crosscuts when possible
-  // 3. Group similar cuts together
-  // 4. Consider grain direction for tear-out prevention
-  // 5. Leave final trimming cuts for last
+  // Guillotine layouts carry their exact cuts; anything else is cut along the through-cuts
+  // its own geometry allows
+  const cutSteps = usage.cutTree
+    ? generateGuillotineCutSteps(usage, usage.cutTree)
+    : generateThroughCutSteps(usage, stock, sortedParts, kerfThickness);
+  const steps = [...edgeTrimSteps, ...cutSteps];
+  steps.forEach((step, index) => { step.stepNumber = index + 1; });
 
-  // Step 1: Initial breakdown - create manageable sections
-  if (usage.placements.length > 4) {
-    steps.push({
-      id: `${usage.sheetId}-breakdown`,
-      stepNumber: stepNumber++,
-      cutType: 'initial-breakdown',
-      description: 'Break down the full sheet into manageable sections',
+  return {
+    stockUsageIndex: usageIndex,
+    sheetId: usage.sheetId,
+    steps,
+    totalSteps: steps.length,
+    estimatedTime: estimateCuttingTime(steps, stock.materialType),
+    safetyScore: calculateSafetyScore(steps, usage.placements.length),
+    efficiencyScore: calculateEfficiencyScore(steps, usage.wasteArea, stock),
+    recommendations: generateRecommendations(steps, stock, usage)
+  };
+}
+
+/**
+ * Generate the squaring cuts that remove a stock item's edge trim margins
+ */
+function generateEdgeTrimSteps(usage: StockUsage, stock: Stock): CutSequenceStep[] {
+  const trim = stock.edgeTrim;
+  if (!trim) return [];
+
+  const edges: Array<{ edge: 'top' | 'bottom' | 'left' | 'right'; cutLine: NonNullable<CutSequenceStep['cutLine']> }> = [
+    {
+      edge: 'top',
+      cutLine: { start: { x: 0, y: trim.top }, end: { x: stock.length, y: trim.top }, direction: 'horizontal' }
+    },
+    {
+      edge: 'bottom',
+      cutLine: { start: { x: 0, y: stock.width - trim.bottom }, end: { x: stock.length, y: stock.width - trim.bottom }, direction: 'horizontal' }
+    },
+    {
+      edge: 'left',
+      cutLine: { start: { x: trim.left, y: 0 }, end: { x: trim.left, y: stock.width }, direction: 'vertical' }
+    },
+    {
+      edge: 'right',
+      cutLine: { start: { x: stock.length - trim.right, y: 0 }, end: { x: stock.length - trim.right, y: stock.width }, direction: 'vertical' }
+    }
+  ];
+
+  return edges
+    .filter(({ edge }) => trim[edge] > 0)
+    .map(({ edge, cutLine }, index) => ({
+      id: `${usage.sheetId}-edge-trim-${edge}`,
+      stepNumber: index + 1,
+      cutType: 'edge-trim' as const,
+      description: `Trim ${trim[edge]}mm off the ${edge} edge to square the ${stock.materialType === MaterialType.Dimensional ? 'board' : 'sheet'}`,
       safetyNotes: [
-        'Use two people for large sheets (over 1200mm)',
-        'Support both sides of the cut line',
-        'Make sure the offcuts won\'t fall and cause injury'
+        'Check the factory edge for chips or damage before setting the fence',
+        'Support the full length of the stock through the cut',
+        'Discard the trimmed strip, do not use it as a reference edge'
       ],
       placements: [],
-      priority: 'high',
-      toolSuggestion: 'Table saw or track saw for straight cuts'
-    });
-  }
+      cutLine,
+      priority: 'high' as const,
+      toolSuggestion: 'Track saw or panel saw'
+    }));
+}
+
+/**
+ * Generate the planing/resawing steps that bring parts cut from thicker stock to size
+ */
+function generateMillingSteps(usage: StockUsage, operations: MillingOperation[]): CutSequenceStep[] {
+  return operations.map((operation, index) => {
+    const placements = usage.placements.filter(p => parseInt(p.partId.split('-')[1]) === operation.partIndex);
+    const partLabel = operation.partName || `Part-${operation.partIndex}`;
+    const resaw = operation.method === 'resaw';
+
+    return {
+      id: `${usage.sheetId}-mill-${index}`,
+      stepNumber: index + 1,
+      cutType: 'mill' as const,
+      description: `${resaw ? 'Resaw and plane' : 'Plane'} ${operation.quantity}× ${partLabel} from ${operation.fromThickness}mm to ${operation.toThickness}mm`,
+      safetyNotes: [
+        'Check for nails, screws and loose knots before feeding',
+        'Take light passes and flip the piece between passes to keep it flat',
+        'Do not plane pieces shorter than the planer minimum length'
+      ],
+      placements,
+      priority: 'medium' as const,
+      toolSuggestion: resaw ? 'Band saw with resaw fence, then thickness planer' : 'Thickness planer',
+      millingOperation: operation
+    };
+  });
+}
+
+/**
+ * Generate cutting steps from a guillotine cut tree: every rip first, then the
+ * crosscuts of each strip, then the trims that release each part
+ */
+function generateGuillotineCutSteps(usage: StockUsage, cutTree: CutTreeNode): CutSequenceStep[] {
+  const steps: CutSequenceStep[] = [];
+  const placementsIn = (node: CutTreeNode): Placement[] =>
+    usage.placements.filter(p => collectPartIds(node).includes(p.partId));
+
+  // Stage 1: full-length rips along the sheet, one after each strip
+  cutTree.children.forEach((strip, stripIndex) => {
+    const cutY = strip.y + strip.height;
+    if (cutY >= cutTree.y + cutTree.height - 0.1) return;
 
-  // Analyze placements to group cuts
-  const groupedPlacements = groupPlacementsByCutLines(usage.placements, sortedParts);
-  
-  // Step 2: Make primary rip cuts (along the grain if applicable)
-  const ripCuts = identifyRipCuts(groupedPlacements, stock);
-  ripCuts.forEach((cutGroup, index) => {
     steps.push({
-      id: `${usage.sheetId}-rip-${index}`,
-      stepNumber: stepNumber++,
+      id: `${usage.sheetId}-rip-${stripIndex}`,
+      stepNumber: steps.length + 1,
       cutType: 'rip',
-      description: `Rip cut to separate pieces: ${cutGroup.placements.map((p: any) => p.name || p.partId).join(', ')}`,
+      description: `Rip strip ${stripIndex + 1} at ${cutY.toFixed(1)}mm: ${placementsIn(strip).map(p => p.name || p.partId).join(', ')}`,
       safetyNotes: [
         'Use a rip fence for accuracy',
         'Feed material steadily through the blade',
-        'Use push sticks for narrow pieces'
+        'Support the remaining sheet as it leaves the saw'
       ],
-      placements: cutGroup.placements,
-      cutLine: cutGroup.cutLine,
+      placements: placementsIn(strip),
+      cutLine: {
+        start: { x: cutTree.x, y: cutY },
+        end: { x: cutTree.x + cutTree.width, y: cutY },
+        direction: 'horizontal'
+      },
       priority: 'high',
-      toolSuggestion: 'Table saw with rip fence'
+      toolSuggestion: 'Panel saw or table saw with rip fence'
     });
   });
 
-  // Step 3: Make crosscuts
-  const crosscuts = identifyCrossCuts(groupedPlacements, stock);
-  crosscuts.forEach((cutGroup, index) => {
-    steps.push({
-      id: `${usage.sheetId}-crosscut-${index}`,
-      stepNumber: stepNumber++,
-      cutType: 'crosscut',
-      description: `Crosscut to length: ${cutGroup.placements.map((p: any) => p.name || p.partId).join(', ')}`,
-      safetyNotes: [
-        'Use a crosscut sled or miter gauge',
-        'Support long pieces with auxiliary fence',
-        'Cut with a fine-tooth blade to reduce tear-out'
-      ],
-      placements: cutGroup.placements,
-      cutLine: cutGroup.cutLine,
-      priority: 'medium',
-      toolSuggestion: 'Table saw with crosscut sled or miter saw'
+  // Stage 2: crosscut each strip into segments
+  cutTree.children.forEach((strip, stripIndex) => {
+    strip.children.forEach((segment, segmentIndex) => {
+      const cutX = segment.x + segment.width;
+      if (cutX >= strip.x + strip.width - 0.1) return;
+
+      steps.push({
+        id: `${usage.sheetId}-crosscut-${stripIndex}-${segmentIndex}`,
+        stepNumber: steps.length + 1,
+        cutType: 'crosscut',
+        description: `Crosscut strip ${stripIndex + 1} at ${cutX.toFixed(1)}mm: ${placementsIn(segment).map(p => p.name || p.partId).join(', ')}`,
+        safetyNotes: [
+          'Use a crosscut sled or miter gauge',
+          'Support long pieces with auxiliary fence',
+          'Cut with a fine-tooth blade to reduce tear-out'
+        ],
+        placements: placementsIn(segment),
+        cutLine: {
+          start: { x: cutX, y: strip.y },
+          end: { x: cutX, y: strip.y + strip.height },
+          direction: 'vertical'
+        },
+        priority: 'medium',
+        toolSuggestion: 'Panel saw or table saw with crosscut sled'
+      });
     });
   });
 
-  // Step 4: Final trimming cuts
-  if (usage.placements.length > 2) {
-    steps.push({
-      id: `${usage.sheetId}-trim`,
-      stepNumber: stepNumber++,
-      cutType: 'final-trim',
-      description: 'Final trimming and sizing of individual pieces',
-      safetyNotes: [
-        'Check each piece for final dimensions',
-        'Sand or route edges as needed',
-        'Label pieces as you finish them'
-      ],
-      placements: usage.placements,
-      priority: 'low',
-      toolSuggestion: 'Hand tools, router, or fine-adjustment on table saw'
+  // Stage 3: trim stacked parts out of each segment
+  cutTree.children.forEach((strip, stripIndex) => {
+    strip.children.forEach((segment, segmentIndex) => {
+      segment.children.forEach((piece, pieceIndex) => {
+        const cutY = piece.y + piece.height;
+        if (cutY >= segment.y + segment.height - 0.1) return;
+
+        steps.push({
+          id: `${usage.sheetId}-trim-${stripIndex}-${segmentIndex}-${pieceIndex}`,
+          stepNumber: steps.length + 1,
+          cutType: 'final-trim',
+          description: `Trim segment ${stripIndex + 1}.${segmentIndex + 1} at ${cutY.toFixed(1)}mm: ${placementsIn(piece).map(p => p.name || p.partId).join(', ')}`,
+          safetyNotes: [
+            'Check each piece for final dimensions',
+            'Use push sticks for narrow pieces',
+            'Label pieces as you finish them'
+          ],
+          placements: placementsIn(piece),
+          cutLine: {
+            start: { x: segment.x, y: cutY },
+            end: { x: segment.x + segment.width, y: cutY },
+            direction: 'horizontal'
+          },
+          priority: 'low',
+          toolSuggestion: 'Table saw with rip fence'
+        });
+      });
     });
+  });
+
+  // Stage 4: separate the members of grain groups released as one piece, in grain order
+  cutTree.children.forEach((strip, stripIndex) => {
+    strip.children.forEach((segment, segmentIndex) => {
+      segment.children.forEach((piece, pieceIndex) => {
+        piece.children.slice(0, -1).forEach((member, memberIndex) => {
+          const next = piece.children[memberIndex + 1];
+          const vertical = next.x > member.x + 0.01;
+          const cut = vertical ? member.x + member.width : member.y + member.height;
+
+          steps.push({
+            id: `${usage.sheetId}-group-${stripIndex}-${segmentIndex}-${pieceIndex}-${memberIndex}`,
+            stepNumber: steps.length + 1,
+            cutType: vertical ? 'crosscut' : 'final-trim',
+            description: `Separate grain group at ${cut.toFixed(1)}mm: ${placementsIn(member).map(p => p.name || p.partId).join(', ')}`,
+            safetyNotes: [
+              'Mark the order of the pieces before separating them',
+              'Keep the pieces in sequence so the grain matches at assembly'
+            ],
+            placements: placementsIn(member),
+            cutLine: vertical
+              ? { start: { x: cut, y: piece.y }, end: { x: cut, y: piece.y + piece.height }, direction: 'vertical' }
+              : { start: { x: piece.x, y: cut }, end: { x: piece.x + piece.width, y: cut }, direction: 'horizontal' },
+            priority: 'low',
+            toolSuggestion: 'Table saw with crosscut sled'
+          });
+        });
+      });
+    });
+  });
+
+  return steps;
+}
+
+/**
+ * Collect the part ids released from a cut tree node
+ */
+function collectPartIds(node: CutTreeNode): string[] {
+  return node.partId
+    ? [node.partId]
+    : node.children.flatMap(child => collectPartIds(child));
+}
+
+// A rectangle of the sheet still to be cut, with the parts lying in it
+interface CutPanel {
+  area: FreeSpace;
+  pieces: Array<{ placement: Placement; box: FreeSpace }>;
+  depth: number; // Cut stages already made to free this panel
+  lastDirection?: 'horizontal' | 'vertical';
+}
+
+/**
+ * Generate cutting steps from the layout's own geometry: the through-cuts that cross a
+ * panel without touching a part split it into pieces, and each piece is cut the same way
+ * across the other direction until every part is free. Like the guillotine steps, every
+ * panel of one stage is cut before the pieces it leaves.
+ */
+function generateThroughCutSteps(usage: StockUsage, stock: Stock, sortedParts: Part[], kerfThickness: number): CutSequenceStep[] {
+  const steps: CutSequenceStep[] = [];
+  const pieces = usage.placements.flatMap(placement => {
+    const part = sortedParts[parseInt(placement.partId.split('-')[1])];
+    return part ? [{ placement, box: LayoutValidator.footprint(placement, part) }] : [];
+  });
+  if (pieces.length === 0) return steps;
+
+  let stage: CutPanel[] = [{ area: getUsableRegion(stock), pieces, depth: 0 }];
+  while (stage.length > 0) {
+    stage = stage.flatMap(panel => cutPanel(usage, panel, steps, kerfThickness));
   }
+  return steps;
+}
+
+/**
+ * Make the through-cuts of one panel, rips first on the sheet and then across the last
+ * cut, and return the pieces that still hold more than a part to size
+ */
+function cutPanel(usage: StockUsage, panel: CutPanel, steps: CutSequenceStep[], kerfThickness: number): CutPanel[] {
+  const preferred = panel.lastDirection === 'horizontal' ? 'vertical' : 'horizontal';
+  const plans = ([preferred, preferred === 'horizontal' ? 'vertical' : 'horizontal'] as const)
+    .map(direction => ({ direction, ...planThroughCuts(panel, direction, kerfThickness) }));
+  const plan = plans.find(candidate => candidate.separates) || plans.find(candidate => candidate.cuts.length > 0);
+
+  if (!plan) {
+    // Parts that interlock (or nested outlines) leave no straight cut across the panel
+    if (panel.pieces.length > 1) steps.push(cutOutStep(usage, panel, steps.length));
+    return [];
+  }
+
+  const { direction, cuts } = plan;
+  const horizontal = direction === 'horizontal';
+  const start = horizontal ? panel.area.y : panel.area.x;
+  const end = horizontal ? panel.area.y + panel.area.height : panel.area.x + panel.area.width;
+  const slice = (from: number, to: number): CutPanel => ({
+    area: horizontal
+      ? { x: panel.area.x, y: from, width: panel.area.width, height: to - from }
+      : { x: from, y: panel.area.y, width: to - from, height: panel.area.height },
+    pieces: panel.pieces.filter(piece => {
+      const lo = horizontal ? piece.box.y : piece.box.x;
+      return lo >= from - 0.1 && lo < to;
+    }),
+    depth: panel.depth + 1,
+    lastDirection: direction
+  });
+
+  const next: CutPanel[] = [];
+  cuts.forEach((cut, cutIndex) => {
+    // Each cut frees the piece before it; the last also frees the rest of the panel
+    const freed = [slice(cutIndex === 0 ? start : cuts[cutIndex - 1], cut)];
+    if (cutIndex === cuts.length - 1) freed.push(slice(cut, end));
+
+    const offcut = freed.find(piece => piece.pieces.length === 0);
+    const kept = freed.filter(piece => piece.pieces.length > 0);
+    const released = kept.filter(piece => isCutToSize(piece, kerfThickness))
+      .flatMap(piece => piece.pieces.map(({ placement }) => placement.partId));
+    next.push(...kept.filter(piece => !isCutToSize(piece, kerfThickness)));
+
+    // A cut that only takes off waste works on the parts left in the panel
+    const placements = (kept.length > 0 ? kept : [slice(cut, end)])
+      .flatMap(piece => piece.pieces.map(({ placement }) => placement));
+
+    steps.push(throughCutStep(usage, panel, direction, cut, steps.length, placements, offcut?.area, released));
+  });
+
+  return next;
+}
+
+/**
+ * Through-cuts across a panel in one direction: either side of each run of parts that
+ * overlap along the cut axis, wherever more than a kerf of waste lies beyond it
+ */
+function planThroughCuts(
+  panel: CutPanel,
+  direction: 'horizontal' | 'vertical',
+  kerfThickness: number
+): { cuts: number[]; separates: boolean } {
+  const gap = kerfThickness + KERF_TOLERANCE;
+  const horizontal = direction === 'horizontal';
+  const start = horizontal ? panel.area.y : panel.area.x;
+  const end = horizontal ? panel.area.y + panel.area.height : panel.area.x + panel.area.width;
+  const spans = panel.pieces
+    .map(({ box }) => horizontal ? [box.y, box.y + box.height] : [box.x, box.x + box.width])
+    .sort((a, b) => a[0] - b[0]);
+
+  const runs: number[][] = [];
+  spans.forEach(([lo, hi]) => {
+    const last = runs[runs.length - 1];
+    if (last && lo < last[1] - 0.1) last[1] = Math.max(last[1], hi);
+    else runs.push([lo, hi]);
+  });
+
+  const cuts: number[] = [];
+  let previous = start;
+  runs.forEach(([lo, hi]) => {
+    if (lo - previous > gap) cuts.push(lo);
+    if (end - hi > gap) cuts.push(hi);
+    previous = hi;
+  });
+
+  return { cuts, separates: runs.length > 1 };
+}
+
+// A piece holding one part with no more than a kerf of waste on any side
+function isCutToSize(panel: CutPanel, kerfThickness: number): boolean {
+  if (panel.pieces.length !== 1) return false;
+  const gap = kerfThickness + KERF_TOLERANCE;
+  const { area } = panel;
+  const { box } = panel.pieces[0];
+  return box.x - area.x <= gap &&
+    box.y - area.y <= gap &&
+    (area.x + area.width) - (box.x + box.width) <= gap &&
+    (area.y + area.height) - (box.y + box.height) <= gap;
+}
+
+/**
+ * One through-cut: rips run along the sheet and crosscuts across it; anything past the
+ * second stage trims parts to size
+ */
+function throughCutStep(
+  usage: StockUsage,
+  panel: CutPanel,
+  direction: 'horizontal' | 'vertical',
+  cut: number,
+  index: number,
+  placements: Placement[],
+  offcut: FreeSpace | undefined,
+  releasedPartIds: string[]
+): CutSequenceStep {
+  const horizontal = direction === 'horizontal';
+  const cutType = panel.depth >= 2 ? 'final-trim' : horizontal ? 'rip' : 'crosscut';
+  const verb = cutType === 'final-trim' ? 'Trim' : cutType === 'rip' ? 'Rip' : 'Crosscut';
+  const { area } = panel;
+  const names = placements.map(p => p.name || p.partId).join(', ');
+  const waste = offcut ? `, leaving a ${offcut.width.toFixed(0)}×${offcut.height.toFixed(0)}mm offcut` : '';
 
-  const safetyScore = calculateSafetyScore(steps, usage.placements.length);
-  const efficiencyScore = calculateEfficiencyScore(steps, usage.wasteArea, stock);
-  
   return {
-    stockUsageIndex: usageIndex,
-    sheetId: usage.sheetId,
-    steps,
-    totalSteps: steps.length,
-    estimatedTime: estimateCuttingTime(steps, stock.materialType),
-    safetyScore,
-    efficiencyScore,
-    recommendations: generateRecommendations(steps, stock, usage)
+    id: `${usage.sheetId}-cut-${index}`,
+    stepNumber: index + 1,
+    cutType,
+    description: `${verb} at ${cut.toFixed(1)}mm across ${(horizontal ? area.width : area.height).toFixed(0)}mm: ${names}${waste}`,
+    safetyNotes: cutType === 'rip'
+      ? [
+        ...(panel.depth === 0 && area.width > 1200 ? ['Use two people for large sheets (over 1200mm)'] : []),
+        'Use a rip fence for accuracy',
+        'Feed material steadily through the blade',
+        'Support the remaining sheet as it leaves the saw'
+      ]
+      : cutType === 'crosscut'
+        ? [
+          'Use a crosscut sled or miter gauge',
+          'Support long pieces with auxiliary fence',
+          'Cut with a fine-tooth blade to reduce tear-out'
+        ]
+        : [
+          'Check each piece for final dimensions',
+          'Use push sticks for narrow pieces',
+          'Label pieces as you finish them'
+        ],
+    placements,
+    cutLine: horizontal
+      ? { start: { x: area.x, y: cut }, end: { x: area.x + area.width, y: cut }, direction }
+      : { start: { x: cut, y: area.y }, end: { x: cut, y: area.y + area.height }, direction },
+    priority: cutType === 'rip' ? 'high' : cutType === 'crosscut' ? 'medium' : 'low',
+    toolSuggestion: cutType === 'crosscut' ? 'Panel saw or table saw with crosscut sled' : 'Panel saw or table saw with rip fence',
+    ...(offcut && { offcut }),
+    ...(releasedPartIds.length > 0 && { releasedPartIds })
+  };
+}
+
+/**
+ * Parts no straight cut can part from each other, to be cut out along their marked edges
+ */
+function cutOutStep(usage: StockUsage, panel: CutPanel, index: number): CutSequenceStep {
+  const placements = panel.pieces.map(({ placement }) => placement);
+
+  return {
+    id: `${usage.sheetId}-cut-out-${index}`,
+    stepNumber: index + 1,
+    cutType: 'final-trim',
+    description: `Cut out ${placements.map(p => p.name || p.partId).join(', ')}: no straight through-cut separates them`,
+    safetyNotes: [
+      'Mark every part outline on the panel before cutting',
+      'Stop each cut where it meets the next part and finish the corner by hand',
+      'Clamp the panel so it cannot shift between cuts'
+    ],
+    placements,
+    priority: 'medium',
+    toolSuggestion: 'Track saw with plunge cuts, or a jigsaw',
+    releasedPartIds: placements.map(p => p.partId)
   };
 }
 
@@ -174,10 +569,16 @@ function generateDimensionalCutSequence(
   usage: StockUsage,
   usageIndex: number,
   stock: any,
-  sortedParts: Part[]
+  sortedParts: Part[],
+  kerfThickness: number
 ): OptimizedCutSequence {
-  const steps: CutSequenceStep[] = [];
-  let stepNumber = 1;
+  // Square the ends, then rip any parts narrower than the board before crosscutting
+  const steps: CutSequenceStep[] = [
+    ...generateEdgeTrimSteps(usage, stock),
+    ...generateBoardRipSteps(usage, stock, sortedParts, kerfThickness)
+  ];
+  steps.forEach((step, index) => { step.stepNumber = index + 1; });
+  let stepNumber = steps.length + 1;
 
   // For dimensional lumber, it's primarily crosscuts
   // Sort placements by position (x-coordinate) for efficient cutting
@@ -219,130 +620,57 @@ function generateDimensionalCutSequence(
 }
 
 /**
- * Group placements by potential cut lines
+ * Generate the rips along a dimensional board that free parts narrower than the board.
+ * One rip per distinct line, running the length of the board left after trimming.
  */
-function groupPlacementsByCutLines(placements: Placement[], sortedParts: Part[]) {
-  // This is a simplified grouping - in practice, this would analyze
-  // the actual layout to find optimal cutting paths
-  return placements.map(placement => ({
-    placement,
-    part: sortedParts[parseInt(placement.partId.split('-')[1])]
-  }));
-}
-
-/**
- * Identify rip cuts (typically along the grain)
- */
-function identifyRipCuts(groupedPlacements: any[], stock: any) {
-  const ripCuts: any[] = [];
-  
-  // Group placements that can be made with vertical cuts
-  const verticalGroups = groupPlacementsByVerticalAlignment(groupedPlacements);
-  
-  verticalGroups.forEach((group, index) => {
-    if (group.length > 1) {
-      ripCuts.push({
-        placements: group.map(g => g.placement),
-        cutLine: {
-          start: { x: findOptimalCutLine(group, 'vertical'), y: 0 },
-          end: { x: findOptimalCutLine(group, 'vertical'), y: stock.width },
-          direction: 'vertical' as const
-        }
-      });
-    }
+function generateBoardRipSteps(usage: StockUsage, stock: Stock, sortedParts: Part[], kerfThickness: number): CutSequenceStep[] {
+  const usable = getUsableRegion(stock);
+  const bands = usage.placements.map(placement => {
+    const part = sortedParts[parseInt(placement.partId.split('-')[1])];
+    const height = part ? (placement.rotated ? part.length : part.width) : usable.height;
+    return { placement, top: placement.y, bottom: placement.y + height };
   });
 
-  return ripCuts;
-}
-
-/**
- * Identify crosscuts
- */
-function identifyCrossCuts(groupedPlacements: any[], stock: any) {
-  const crosscuts: any[] = [];
-  
-  // Group placements that can be made with horizontal cuts
-  const horizontalGroups = groupPlacementsByHorizontalAlignment(groupedPlacements);
-  
-  horizontalGroups.forEach((group, index) => {
-    if (group.length > 1) {
-      crosscuts.push({
-        placements: group.map(g => g.placement),
-        cutLine: {
-          start: { x: 0, y: findOptimalCutLine(group, 'horizontal') },
-          end: { x: stock.length, y: findOptimalCutLine(group, 'horizontal') },
-          direction: 'horizontal' as const
-        }
-      });
+  const isBoardEdge = (y: number) =>
+    Math.abs(y - usable.y) <= 0.01 || Math.abs(y - (usable.y + usable.height)) <= 0.01;
+  const edges = Array.from(new Set(bands.flatMap(band => [band.top, band.bottom])))
+    .filter(y => !isBoardEdge(y))
+    .sort((a, b) => a - b);
+
+  // Edges a kerf apart either side of the same cut make a single rip
+  const ripGroups: number[][] = [];
+  edges.forEach(y => {
+    const last = ripGroups[ripGroups.length - 1];
+    if (last && y - last[last.length - 1] <= kerfThickness + KERF_TOLERANCE) {
+      last.push(y);
+    } else {
+      ripGroups.push([y]);
     }
   });
 
-  return crosscuts;
-}
+  return ripGroups.map((group, index) => {
+    const y = group[0];
+    const touches = (edge: number) => group.some(line => Math.abs(edge - line) <= 0.01);
+    const placements = bands
+      .filter(band => touches(band.top) || touches(band.bottom))
+      .map(band => band.placement);
 
-/**
- * Group placements by vertical alignment
- */
-function groupPlacementsByVerticalAlignment(groupedPlacements: any[]) {
-  const tolerance = 5; // 5mm tolerance for alignment
-  const groups: any[][] = [];
-
-  groupedPlacements.forEach(item => {
-    let addedToGroup = false;
-    
-    for (const group of groups) {
-      if (Math.abs(group[0].placement.x - item.placement.x) <= tolerance) {
-        group.push(item);
-        addedToGroup = true;
-        break;
-      }
-    }
-    
-    if (!addedToGroup) {
-      groups.push([item]);
-    }
-  });
-
-  return groups;
-}
-
-/**
- * Group placements by horizontal alignment
- */
-function groupPlacementsByHorizontalAlignment(groupedPlacements: any[]) {
-  const tolerance = 5; // 5mm tolerance for alignment
-  const groups: any[][] = [];
-
-  groupedPlacements.forEach(item => {
-    let addedToGroup = false;
-    
-    for (const group of groups) {
-      if (Math.abs(group[0].placement.y - item.placement.y) <= tolerance) {
-        group.push(item);
-        addedToGroup = true;
-        break;
-      }
-    }
-    
-    if (!addedToGroup) {
-      groups.push([item]);
-    }
+    return {
+      id: `${usage.sheetId}-rip-${index}`,
+      stepNumber: index + 1,
+      cutType: 'rip' as const,
+      description: `Rip the board ${Math.round((y - usable.y) * 10) / 10}mm from the edge for: ${placements.map(p => p.name || p.partId).join(', ')}`,
+      safetyNotes: [
+        'Use a rip fence and featherboard to keep the board against the fence',
+        'Use push sticks for narrow strips',
+        'Stand out of line with the blade in case of kickback'
+      ],
+      placements,
+      cutLine: { start: { x: usable.x, y }, end: { x: usable.x + usable.width, y }, direction: 'horizontal' as const },
+      priority: 'high' as const,
+      toolSuggestion: 'Table saw with rip fence'
+    };
   });
-
-  return groups;
-}
-
-/**
- * Find optimal cut line for a group
- */
-function findOptimalCutLine(group: any[], direction: 'vertical' | 'horizontal'): number {
-  if (direction === 'vertical') {
-    const positions = group.map(g => g.placement.x);
-    return Math.min(...positions) - 5; // Cut 5mm before the first piece
-  } else {
-    const positions = group.map(g => g.placement.y);
-    return Math.min(...positions) - 5; // Cut 5mm before the first piece
-  }
 }
 
 /**
@@ -424,6 +752,9 @@ function estimateCuttingTime(steps: CutSequenceStep[], materialType: MaterialTyp
   
   steps.forEach(step => {
     switch (step.cutType) {
+      case 'edge-trim':
+        totalTime += 2; // 2 minutes per squaring cut
+        break;
       case 'initial-breakdown':
         totalTime += 15; // 15 minutes for breaking down large sheets
         break;
@@ -436,6 +767,9 @@ function estimateCuttingTime(steps: CutSequenceStep[], materialType: MaterialTyp
       case 'final-trim':
         totalTime += step.placements.length * 1; // 1 minute per trim
         break;
+      case 'mill':
+        totalTime += step.millingOperation?.estimatedMinutes || 0;
+        break;
       default:
         totalTime += 5;
     }
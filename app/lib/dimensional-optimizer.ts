@@ -0,0 +1,423 @@
+// Dimensional Optimizer - 1D cutting-stock solver for dimensional lumber
+// Boards are only crosscut, so the problem is choosing which part lengths share a board.
+// First-fit-decreasing gives a baseline plan; pattern generation fills each board with the
+// best combination of the remaining lengths, and whichever plan uses less lumber wins.
+// Defects and end checks split a board into clear segments that are packed separately.
+
+import { Stock, Part, Placement, StockUsage, FreeSpace, MaterialType, OptimizationOptions, getUsableRegion, getDefectZones } from './types';
+import { ConstraintProcessor, StockFit } from './optimized-cutting-engine';
+
+// Lengths are packed in 0.1mm units so fractional kerfs are not rounded away
+const LENGTH_SCALE = 10;
+
+export interface LinearCutPlan {
+  stockUsage: StockUsage[];
+  boardsUsed: number[]; // Boards taken from each available stock entry
+  linearParts: boolean[]; // Which required parts were handled as 1D cuts
+  unplacedCount: number;
+  remainingParts: Part[]; // Required parts with the 1D-cut quantities removed
+}
+
+interface LinearItem {
+  partIndex: number;
+  length: number;
+}
+
+interface BoardPlan {
+  stockIndex: number;
+  segments: LinearItem[][]; // Parts cut from each clear segment of the board
+}
+
+// A stretch of board clear of defects and end checks
+interface BoardSegment {
+  start: number;
+  length: number;
+}
+
+interface PlanCandidate {
+  boards: BoardPlan[];
+  unplaced: LinearItem[];
+}
+
+/**
+ * 1D CUTTING-STOCK SOLVER FOR DIMENSIONAL LUMBER
+ */
+export class DimensionalOptimizer {
+
+  /**
+   * Check whether a part is cut from this board by crosscuts alone: same
+   * cross-section width, and material and thickness allowed by the project options
+   */
+  static isLinearFit(part: Part, stock: Stock, options: OptimizationOptions = {}): boolean {
+    return stock.materialType === MaterialType.Dimensional &&
+      part.materialType !== MaterialType.Sheet &&
+      Math.abs(part.width - stock.width) <= 0.01 &&
+      ConstraintProcessor.getStockFit(part, stock, options) !== null;
+  }
+
+  /**
+   * Plan the crosscuts for every part that matches a dimensional board's cross-section.
+   * Parts that do not are returned untouched in remainingParts for the 2D engine.
+   */
+  static optimize(
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    kerfThickness: number,
+    options: OptimizationOptions = {}
+  ): LinearCutPlan {
+    const linearParts = requiredParts.map(part =>
+      availableStocks.some(stock => this.isLinearFit(part, stock, options))
+    );
+
+    const items: LinearItem[] = [];
+    requiredParts.forEach((part, partIndex) => {
+      if (!linearParts[partIndex]) return;
+      for (let i = 0; i < part.quantity; i++) {
+        items.push({ partIndex, length: part.length });
+      }
+    });
+
+    const boardsUsed = availableStocks.map(() => 0);
+    if (items.length === 0) {
+      return { stockUsage: [], boardsUsed, linearParts, unplacedCount: 0, remainingParts: requiredParts };
+    }
+
+    console.log(`📏 DIMENSIONAL: Planning ${items.length} crosscut parts`);
+
+    const ffd = this.firstFitDecreasing(items, availableStocks, requiredParts, kerfThickness, options);
+    const patterns = this.generatePatterns(items, availableStocks, requiredParts, kerfThickness, options);
+    const best = this.comparePlans(patterns, ffd, availableStocks, options) <= 0 ? patterns : ffd;
+
+    console.log(`📏 DIMENSIONAL: First-fit-decreasing ${ffd.boards.length} boards, pattern generation ${patterns.boards.length} boards`);
+
+    // Part-<partIndex>-<instance> ids must stay unique across the split: any instances left
+    // to the 2D engine are numbered from 0, so the ones planned here take the top of the range
+    const placedCounts = requiredParts.map(() => 0);
+    best.boards.forEach(board => board.segments.flat().forEach(item => placedCounts[item.partIndex]++));
+    const nextInstance = requiredParts.map((part, i) => linearParts[i] ? part.quantity - placedCounts[i] : 0);
+
+    const stockUsage = best.boards.map((board, boardIndex) => {
+      boardsUsed[board.stockIndex]++;
+      return this.buildUsage(board, boardIndex, availableStocks[board.stockIndex], requiredParts, nextInstance, kerfThickness);
+    });
+
+    return {
+      stockUsage,
+      boardsUsed,
+      linearParts,
+      unplacedCount: best.unplaced.length,
+      remainingParts: requiredParts.map((part, i) => linearParts[i] ? { ...part, quantity: 0 } : part)
+    };
+  }
+
+  /**
+   * Baseline: longest parts first, each into the first open board it fits
+   */
+  private static firstFitDecreasing(
+    items: LinearItem[],
+    stocks: Stock[],
+    parts: Part[],
+    kerfThickness: number,
+    options: OptimizationOptions
+  ): PlanCandidate {
+    const remaining = stocks.map(stock => stock.quantity);
+    const segments = stocks.map(stock => this.boardSegments(stock));
+    const boards: BoardPlan[] = [];
+    const unplaced: LinearItem[] = [];
+
+    for (const item of [...items].sort((a, b) => b.length - a.length)) {
+      const part = parts[item.partIndex];
+      const fitsSegment = (board: BoardPlan, s: number) =>
+        this.usedLength([...board.segments[s], item], kerfThickness) <= segments[board.stockIndex][s].length;
+
+      const openBoard = boards.find(board =>
+        this.isPreferredBoard(part, board.stockIndex, stocks, remaining, options) &&
+        board.segments.some((_, s) => fitsSegment(board, s))
+      );
+
+      if (openBoard) {
+        openBoard.segments[openBoard.segments.findIndex((_, s) => fitsSegment(openBoard, s))].push(item);
+        continue;
+      }
+
+      const stockIndex = stocks.findIndex((_, i) =>
+        remaining[i] > 0 &&
+        this.isPreferredBoard(part, i, stocks, remaining, options) &&
+        item.length <= this.longestSegment(stocks[i])
+      );
+
+      if (stockIndex < 0) {
+        unplaced.push(item);
+        continue;
+      }
+
+      remaining[stockIndex]--;
+      const board: BoardPlan = { stockIndex, segments: segments[stockIndex].map(() => []) };
+      board.segments[segments[stockIndex].findIndex(segment => item.length <= segment.length)].push(item);
+      boards.push(board);
+    }
+
+    return { boards, unplaced };
+  }
+
+  /**
+   * Pattern generation: take the longest outstanding part, then for every board length
+   * it may go on find the combination of outstanding parts that fills the board best,
+   * and cut the board whose pattern leaves the smallest share of waste (under the cost
+   * objective, the board that pays least per mm of parts cut from it)
+   */
+  private static generatePatterns(
+    items: LinearItem[],
+    stocks: Stock[],
+    parts: Part[],
+    kerfThickness: number,
+    options: OptimizationOptions
+  ): PlanCandidate {
+    const remaining = stocks.map(stock => stock.quantity);
+    const segments = stocks.map(stock => this.boardSegments(stock));
+    let pending = [...items].sort((a, b) => b.length - a.length);
+    const boards: BoardPlan[] = [];
+    const unplaced: LinearItem[] = [];
+
+    while (pending.length > 0) {
+      const lead = pending[0];
+      const leadPart = parts[lead.partIndex];
+      let best: { stockIndex: number; chosen: number[][]; price: number; wasteShare: number; usable: number } | null = null;
+
+      for (let stockIndex = 0; stockIndex < stocks.length; stockIndex++) {
+        const boardSegments = segments[stockIndex];
+        // The lead goes in the shortest segment that takes it
+        const leadSegment = boardSegments
+          .map((segment, s) => ({ segment, s }))
+          .filter(({ segment }) => lead.length <= segment.length)
+          .sort((a, b) => a.segment.length - b.segment.length)[0];
+        if (remaining[stockIndex] <= 0 || !leadSegment) continue;
+        if (!this.isPreferredBoard(leadPart, stockIndex, stocks, remaining, options)) continue;
+
+        // Candidates for the rest of the board: other outstanding parts that belong on it
+        let candidates = pending
+          .map((item, i) => ({ item, i }))
+          .filter(({ item, i }) => i > 0 &&
+            this.isPreferredBoard(parts[item.partIndex], stockIndex, stocks, remaining, options));
+
+        // Fill the lead's segment first, then the other segments longest first
+        const chosen: number[][] = boardSegments.map(() => []);
+        const order = [leadSegment.s, ...boardSegments
+          .map((_, s) => s)
+          .filter(s => s !== leadSegment.s)
+          .sort((a, b) => boardSegments[b].length - boardSegments[a].length)];
+        for (const s of order) {
+          const spaceLeft = s === leadSegment.s
+            ? boardSegments[s].length - lead.length
+            : boardSegments[s].length + kerfThickness;
+          const filled = this.fillPattern(candidates, spaceLeft, kerfThickness);
+          const taken = new Set(filled);
+          chosen[s] = s === leadSegment.s ? [0, ...filled] : filled;
+          candidates = candidates.filter(({ i }) => !taken.has(i));
+        }
+
+        const usable = boardSegments.reduce((sum, segment) => sum + segment.length, 0);
+        const used = chosen.reduce((sum, indexes) => sum + this.usedLength(indexes.map(i => pending[i]), kerfThickness), 0);
+        const wasteShare = (usable - used) / usable;
+        const price = options.objective === 'cost' ? (stocks[stockIndex].unitCost || 0) / used : 0;
+
+        if (!best || price < best.price - 1e-9 ||
+            (Math.abs(price - best.price) <= 1e-9 && (wasteShare < best.wasteShare - 1e-9 ||
+              (Math.abs(wasteShare - best.wasteShare) <= 1e-9 && usable < best.usable)))) {
+          best = { stockIndex, chosen, price, wasteShare, usable };
+        }
+      }
+
+      if (!best) {
+        unplaced.push(lead);
+        pending = pending.slice(1);
+        continue;
+      }
+
+      const { stockIndex, chosen } = best;
+      const taken = new Set(chosen.flat());
+      remaining[stockIndex]--;
+      boards.push({ stockIndex, segments: chosen.map(indexes => indexes.map(i => pending[i])) });
+      pending = pending.filter((_, i) => !taken.has(i));
+    }
+
+    return { boards, unplaced };
+  }
+
+  /**
+   * Bounded knapsack over the remaining board length: every extra part costs its
+   * length plus one kerf. Returns the indexes (into pending) of the parts to add.
+   */
+  private static fillPattern(
+    candidates: Array<{ item: LinearItem; i: number }>,
+    spaceLeft: number,
+    kerfThickness: number
+  ): number[] {
+    const capacity = Math.floor(spaceLeft * LENGTH_SCALE + 1e-6);
+    if (capacity <= 0 || candidates.length === 0) return [];
+
+    // Identical lengths are grouped and split into binary chunks (1, 2, 4, ...)
+    const groups = new Map<number, number[]>();
+    candidates.forEach(({ item, i }) => {
+      const weight = Math.ceil((item.length + kerfThickness) * LENGTH_SCALE - 1e-6);
+      if (weight > capacity) return;
+      groups.set(weight, [...(groups.get(weight) || []), i]);
+    });
+
+    const chunks: Array<{ weight: number; indexes: number[] }> = [];
+    groups.forEach((indexes, weight) => {
+      let offset = 0;
+      for (let size = 1; offset < indexes.length; size *= 2) {
+        const take = Math.min(size, indexes.length - offset);
+        chunks.push({ weight: weight * take, indexes: indexes.slice(offset, offset + take) });
+        offset += take;
+      }
+    });
+
+    const filled = new Int32Array(capacity + 1);
+    const taken = chunks.map(() => new Uint8Array(capacity + 1));
+
+    chunks.forEach((chunk, c) => {
+      for (let space = capacity; space >= chunk.weight; space--) {
+        const candidate = filled[space - chunk.weight] + chunk.weight;
+        if (candidate > filled[space]) {
+          filled[space] = candidate;
+          taken[c][space] = 1;
+        }
+      }
+    });
+
+    const chosen: number[] = [];
+    let space = capacity;
+    for (let c = chunks.length - 1; c >= 0; c--) {
+      if (taken[c][space]) {
+        chosen.push(...chunks[c].indexes);
+        space -= chunks[c].weight;
+      }
+    }
+    return chosen;
+  }
+
+  /**
+   * A part may go on a board when no other board still in stock suits it better
+   */
+  private static isPreferredBoard(
+    part: Part,
+    stockIndex: number,
+    stocks: Stock[],
+    remaining: number[],
+    options: OptimizationOptions
+  ): boolean {
+    if (!this.isLinearFit(part, stocks[stockIndex], options)) return false;
+
+    const fit = ConstraintProcessor.getStockFit(part, stocks[stockIndex], options) as StockFit;
+    return !stocks.some((other, i) => {
+      if (i === stockIndex || remaining[i] <= 0 || !this.isLinearFit(part, other, options)) return false;
+      if (part.length > this.longestSegment(other)) return false;
+      const otherFit = ConstraintProcessor.getStockFit(part, other, options) as StockFit;
+      return ConstraintProcessor.compareStockFit(otherFit, fit) < 0;
+    });
+  }
+
+  /**
+   * Stretches of the usable board length clear of end checks and defects. A defect
+   * spoils the full cross-section over its length, since parts take the whole width.
+   */
+  static boardSegments(stock: Stock): BoardSegment[] {
+    const usable = getUsableRegion(stock);
+    const blocked = getDefectZones(stock)
+      .map(zone => ({ from: zone.x, to: zone.x + zone.width }))
+      .sort((a, b) => a.from - b.from);
+
+    const segments: BoardSegment[] = [];
+    let start = usable.x;
+    for (const zone of blocked) {
+      if (zone.from > start) segments.push({ start, length: Math.min(zone.from, usable.x + usable.width) - start });
+      start = Math.max(start, zone.to);
+    }
+    if (usable.x + usable.width > start) segments.push({ start, length: usable.x + usable.width - start });
+
+    return segments.filter(segment => segment.length > 0.1);
+  }
+
+  private static longestSegment(stock: Stock): number {
+    return this.boardSegments(stock).reduce((longest, segment) => Math.max(longest, segment.length), 0);
+  }
+
+  /**
+   * Board length consumed by the parts: a kerf between neighbours, none after the last
+   */
+  private static usedLength(items: LinearItem[], kerfThickness: number): number {
+    if (items.length === 0) return 0;
+    return items.reduce((sum, item) => sum + item.length, 0) + kerfThickness * (items.length - 1);
+  }
+
+  /**
+   * Fewer unplaced parts first, then (under the cost objective) a lower price, then less
+   * lumber bought, then fewer boards handled
+   */
+  private static comparePlans(a: PlanCandidate, b: PlanCandidate, stocks: Stock[], options: OptimizationOptions): number {
+    const lumber = (plan: PlanCandidate) =>
+      plan.boards.reduce((sum, board) => sum + stocks[board.stockIndex].length, 0);
+    const price = (plan: PlanCandidate) => options.objective !== 'cost' ? 0 :
+      plan.boards.reduce((sum, board) => sum + (stocks[board.stockIndex].unitCost || 0), 0);
+
+    return (a.unplaced.length - b.unplaced.length) ||
+      (price(a) - price(b)) ||
+      (lumber(a) - lumber(b)) ||
+      (a.boards.length - b.boards.length);
+  }
+
+  /**
+   * Lay the parts out along each clear segment of the board, longest first, and report
+   * the offcut left at the end of every segment
+   */
+  private static buildUsage(
+    board: BoardPlan,
+    boardIndex: number,
+    stock: Stock,
+    parts: Part[],
+    nextInstance: number[],
+    kerfThickness: number
+  ): StockUsage {
+    const usable = getUsableRegion(stock);
+    const placements: Placement[] = [];
+    const freeSpaces: FreeSpace[] = [];
+    let offcutLength = 0;
+    let usedArea = 0;
+
+    this.boardSegments(stock).forEach((segment, s) => {
+      let cursor = segment.start;
+
+      [...(board.segments[s] || [])].sort((a, b) => b.length - a.length).forEach(item => {
+        const part = parts[item.partIndex];
+        placements.push({
+          partId: `Part-${item.partIndex}-${nextInstance[item.partIndex]++}`,
+          x: cursor,
+          y: usable.y,
+          rotated: false,
+          name: part.name || `Part-${item.partIndex}`
+        });
+        cursor += item.length + kerfThickness;
+        usedArea += item.length * part.width;
+      });
+
+      // The cut after the last part takes a kerf out of whatever is left
+      const leftover = Math.max(0, segment.start + segment.length - cursor);
+      if (leftover > 0) {
+        freeSpaces.push({ x: cursor, y: usable.y, width: leftover, height: usable.height });
+        offcutLength += leftover;
+      }
+    });
+
+    return {
+      sheetId: `Board-${boardIndex + 1}`,
+      stockIndex: board.stockIndex,
+      placements,
+      usedArea,
+      wasteArea: (stock.length * stock.width) - usedArea,
+      freeSpaces,
+      offcutLength
+    };
+  }
+}
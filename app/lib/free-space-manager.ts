@@ -0,0 +1,157 @@
+// Free Space Manager - Maximal-rectangles tracking of unused sheet area
+// Every free rectangle is as large as possible, so rectangles may overlap each other
+// but never overlap a placed part. Nothing is discarded because it looks "too small".
+
+import { FreeSpace, Stock, getUsableRegion, getDefectZones } from './types';
+
+// Rectangles thinner than this are floating point noise, not usable space
+const MIN_SPACE_SIZE = 0.1;
+const TOLERANCE = 0.01;
+
+/**
+ * MAXIMAL-RECTANGLES FREE SPACE MANAGER
+ */
+export class FreeSpaceManager {
+
+  /**
+   * Initial free spaces of a stock item: its usable region with every defect
+   * zone and end check already carved out
+   */
+  static forStock(stock: Stock): FreeSpace[] {
+    return getDefectZones(stock).reduce(
+      (spaces, zone) => this.placeRectangle(spaces, zone),
+      [getUsableRegion(stock)]
+    );
+  }
+
+  /**
+   * Remove an occupied rectangle (part plus kerf) from the free spaces.
+   * Every free space it touches is split into its maximal left, right, top and
+   * bottom remainders, then contained spaces are pruned and neighbours merged.
+   */
+  static placeRectangle(freeSpaces: FreeSpace[], used: FreeSpace): FreeSpace[] {
+    const result: FreeSpace[] = [];
+
+    for (const space of freeSpaces) {
+      if (!this.intersects(space, used)) {
+        result.push(space);
+        continue;
+      }
+      result.push(...this.subtract(space, used));
+    }
+
+    return this.mergeAdjacent(this.pruneContained(result));
+  }
+
+  /**
+   * Split a free space around an occupied rectangle into up to four maximal remainders
+   */
+  static subtract(space: FreeSpace, used: FreeSpace): FreeSpace[] {
+    const spaceRight = space.x + space.width;
+    const spaceBottom = space.y + space.height;
+    const usedRight = used.x + used.width;
+    const usedBottom = used.y + used.height;
+    const remainders: FreeSpace[] = [];
+
+    // Left remainder
+    if (used.x > space.x) {
+      remainders.push({ x: space.x, y: space.y, width: used.x - space.x, height: space.height });
+    }
+
+    // Right remainder
+    if (usedRight < spaceRight) {
+      remainders.push({ x: usedRight, y: space.y, width: spaceRight - usedRight, height: space.height });
+    }
+
+    // Top remainder
+    if (used.y > space.y) {
+      remainders.push({ x: space.x, y: space.y, width: space.width, height: used.y - space.y });
+    }
+
+    // Bottom remainder
+    if (usedBottom < spaceBottom) {
+      remainders.push({ x: space.x, y: usedBottom, width: space.width, height: spaceBottom - usedBottom });
+    }
+
+    return remainders.filter(r => r.width > MIN_SPACE_SIZE && r.height > MIN_SPACE_SIZE);
+  }
+
+  /**
+   * Drop every free space that lies entirely inside another one
+   */
+  static pruneContained(spaces: FreeSpace[]): FreeSpace[] {
+    return spaces.filter((space, i) =>
+      !spaces.some((other, j) => {
+        if (i === j || !this.contains(other, space)) return false;
+        // Keep exactly one copy of identical spaces
+        return !this.contains(space, other) || j < i;
+      })
+    );
+  }
+
+  /**
+   * Merge free spaces that share a full edge into a single larger space
+   */
+  static mergeAdjacent(spaces: FreeSpace[]): FreeSpace[] {
+    const merged = spaces.map(space => ({ ...space }));
+    let mergedAny = true;
+
+    while (mergedAny) {
+      mergedAny = false;
+
+      for (let i = 0; i < merged.length && !mergedAny; i++) {
+        for (let j = i + 1; j < merged.length; j++) {
+          const a = merged[i];
+          const b = merged[j];
+          let combined: FreeSpace | null = null;
+
+          // Side by side with the same vertical extent
+          if (this.near(a.y, b.y) && this.near(a.height, b.height) &&
+              (this.near(a.x + a.width, b.x) || this.near(b.x + b.width, a.x))) {
+            const x = Math.min(a.x, b.x);
+            combined = { x, y: a.y, width: Math.max(a.x + a.width, b.x + b.width) - x, height: a.height };
+          }
+          // Stacked with the same horizontal extent
+          else if (this.near(a.x, b.x) && this.near(a.width, b.width) &&
+                   (this.near(a.y + a.height, b.y) || this.near(b.y + b.height, a.y))) {
+            const y = Math.min(a.y, b.y);
+            combined = { x: a.x, y, width: a.width, height: Math.max(a.y + a.height, b.y + b.height) - y };
+          }
+
+          if (combined) {
+            merged.splice(j, 1);
+            merged[i] = combined;
+            mergedAny = true;
+            break;
+          }
+        }
+      }
+    }
+
+    return this.pruneContained(merged);
+  }
+
+  /**
+   * Check whether two rectangles overlap with a non-zero area
+   */
+  static intersects(a: FreeSpace, b: FreeSpace): boolean {
+    return a.x < b.x + b.width - TOLERANCE &&
+      b.x < a.x + a.width - TOLERANCE &&
+      a.y < b.y + b.height - TOLERANCE &&
+      b.y < a.y + a.height - TOLERANCE;
+  }
+
+  /**
+   * Check whether rectangle `outer` fully contains rectangle `inner`
+   */
+  static contains(outer: FreeSpace, inner: FreeSpace): boolean {
+    return inner.x >= outer.x - TOLERANCE &&
+      inner.y >= outer.y - TOLERANCE &&
+      inner.x + inner.width <= outer.x + outer.width + TOLERANCE &&
+      inner.y + inner.height <= outer.y + outer.height + TOLERANCE;
+  }
+
+  private static near(a: number, b: number): boolean {
+    return Math.abs(a - b) <= TOLERANCE;
+  }
+}
@@ -0,0 +1,179 @@
+// Grain Groups - Keeps matched parts together so the grain flows across them
+// Each group is packed as one super-part: its members in list order, end to end along
+// the grain with a kerf between neighbours. Once the layout is done the super-part is
+// split back into its members, each placed where it sits inside the group.
+
+import { Part, Placement, Results, StockUsage, CutTreeNode, GrainGroupPlacement } from './types';
+
+interface GroupMember {
+  partIndex: number;
+  instance: number;
+  offset: number; // Distance from the start of the group along the grain
+}
+
+export interface GrainGroupLayout {
+  groupId: string;
+  superPartIndex: number; // Index of the super-part in the layout part list
+  superPart: Part;
+  alongWidth: boolean; // Vertical grain runs across the part width, so members stack that way
+  members: GroupMember[];
+}
+
+/**
+ * GRAIN-CONTINUITY GROUPS
+ */
+export class GrainGroupPlanner {
+
+  /**
+   * Replace every grouped part with one super-part per group, appended after the
+   * original parts so their indexes are unchanged. Members share the grain, material,
+   * thickness and assembly of the first part in the group.
+   */
+  static buildSuperParts(parts: Part[], kerfThickness: number): { parts: Part[]; groups: GrainGroupLayout[] } {
+    const groupOf = (part: Part) => part.quantity > 0 ? (part.grainGroup || '').trim() : '';
+    const groupIds = Array.from(new Set(parts.map(groupOf).filter(Boolean)));
+    if (groupIds.length === 0) return { parts, groups: [] };
+
+    const layoutParts = parts.map(part => groupOf(part) ? { ...part, quantity: 0 } : part);
+
+    const groups = groupIds.map(groupId => {
+      const memberParts = parts
+        .map((part, partIndex) => ({ part, partIndex }))
+        .filter(({ part }) => groupOf(part) === groupId);
+      const lead = memberParts[0].part;
+      const alongWidth = lead.grainDirection?.toLowerCase() === 'vertical';
+
+      const members: GroupMember[] = [];
+      let offset = 0;
+      let across = 0;
+      memberParts.forEach(({ part, partIndex }) => {
+        for (let instance = 0; instance < part.quantity; instance++) {
+          members.push({ partIndex, instance, offset });
+          offset += (alongWidth ? part.width : part.length) + kerfThickness;
+        }
+        across = Math.max(across, alongWidth ? part.length : part.width);
+      });
+      const run = offset - kerfThickness;
+
+      const superPart: Part = {
+        length: alongWidth ? across : run,
+        width: alongWidth ? run : across,
+        thickness: lead.thickness,
+        quantity: 1,
+        material: lead.material,
+        materialType: lead.materialType,
+        grainDirection: lead.grainDirection,
+        assembly: lead.assembly,
+        name: `Grain group ${groupId}`
+      };
+      layoutParts.push(superPart);
+
+      console.log(`🪵 GRAIN GROUP ${groupId}: ${members.length} parts as one ${superPart.length}x${superPart.width} piece`);
+      return { groupId, superPartIndex: layoutParts.length - 1, superPart, alongWidth, members };
+    });
+
+    return { parts: layoutParts, groups };
+  }
+
+  /**
+   * Split each placed super-part back into its members and record where every group went
+   */
+  static expandResults(results: Results, groups: GrainGroupLayout[], parts: Part[]): Results {
+    if (groups.length === 0) return results;
+
+    const grainGroups: GrainGroupPlacement[] = [];
+    const groupFor = (partId: string) =>
+      groups.find(group => group.superPartIndex === parseInt(partId.split('-')[1]));
+
+    const stockUsage = results.stockUsage.map((usage): StockUsage => {
+      let usedArea = usage.usedArea;
+
+      const placements = usage.placements.flatMap(placement => {
+        const group = groupFor(placement.partId);
+        if (!group) return [placement];
+
+        const members = this.memberPlacements(group, placement, parts);
+        usedArea += members.reduce((sum, member) => {
+          const part = parts[parseInt(member.partId.split('-')[1])];
+          return sum + part.length * part.width;
+        }, -group.superPart.length * group.superPart.width);
+
+        grainGroups.push({
+          groupId: group.groupId,
+          sheetId: usage.sheetId,
+          x: placement.x,
+          y: placement.y,
+          length: placement.rotated ? group.superPart.width : group.superPart.length,
+          width: placement.rotated ? group.superPart.length : group.superPart.width,
+          partIds: members.map(member => member.partId)
+        });
+        return members;
+      });
+
+      return {
+        ...usage,
+        placements,
+        usedArea,
+        wasteArea: usage.wasteArea + usage.usedArea - usedArea,
+        ...(usage.cutTree && { cutTree: this.expandCutTree(usage.cutTree, placements, groups, parts) })
+      };
+    });
+
+    return { ...results, stockUsage, grainGroups };
+  }
+
+  /**
+   * Members laid end to end from the group's corner; rotating the group turns its run
+   * from one sheet axis to the other
+   */
+  private static memberPlacements(group: GrainGroupLayout, placement: Placement, parts: Part[]): Placement[] {
+    const alongX = group.alongWidth === placement.rotated;
+
+    return group.members.map(member => ({
+      ...placement,
+      partId: `Part-${member.partIndex}-${member.instance}`,
+      x: placement.x + (alongX ? member.offset : 0),
+      y: placement.y + (alongX ? 0 : member.offset),
+      name: parts[member.partIndex].name || `Part-${member.partIndex}`
+    }));
+  }
+
+  /**
+   * A guillotine piece holding a group becomes a node whose children are the members
+   */
+  private static expandCutTree(
+    node: CutTreeNode,
+    placements: Placement[],
+    groups: GrainGroupLayout[],
+    parts: Part[]
+  ): CutTreeNode {
+    const group = node.partId
+      ? groups.find(candidate => candidate.superPartIndex === parseInt(node.partId!.split('-')[1]))
+      : undefined;
+
+    if (!group) {
+      return { ...node, children: node.children.map(child => this.expandCutTree(child, placements, groups, parts)) };
+    }
+
+    const memberIds = new Set(group.members.map(member => `Part-${member.partIndex}-${member.instance}`));
+
+    return {
+      ...node,
+      partId: undefined,
+      children: placements
+        .filter(placement => memberIds.has(placement.partId))
+        .map(placement => {
+          const part = parts[parseInt(placement.partId.split('-')[1])];
+          return {
+            stage: node.stage,
+            x: placement.x,
+            y: placement.y,
+            width: placement.rotated ? part.width : part.length,
+            height: placement.rotated ? part.length : part.width,
+            partId: placement.partId,
+            children: []
+          };
+        })
+    };
+  }
+}
@@ -0,0 +1,164 @@
+// Layout Editor - Hand edits to a finished layout, checked with the engine's own rules
+// A part can be dragged, turned or moved to another sheet. Every edit is checked for
+// bounds, defects, overlap, kerf, grain, material and thickness before it is applied, and
+// the sheet figures, offcuts and cut sequences are rebuilt from the edited placements.
+
+import { Stock, Placement, Results, StockUsage, OptimizationOptions, LayoutIssue } from './types';
+import { ConstraintProcessor } from './optimized-cutting-engine';
+import { LayoutValidator, validateResults } from './layout-validator';
+import { RemnantAnalyzer } from './remnant-analyzer';
+import { PolygonGeometry } from './polygon-geometry';
+import { generateOptimalCutSequence, stackCutSequences } from './cutSequenceOptimizer';
+import { PatternStacker } from './pattern-stacking';
+
+// Where a part should go: an index into Results.stockUsage and its new corner and turn
+export interface PlacementMove {
+  fromSheet: number;
+  placementIndex: number;
+  toSheet: number;
+  x: number;
+  y: number;
+  rotated: boolean;
+}
+
+/**
+ * LAYOUT EDITOR
+ */
+export class LayoutEditor {
+
+  /**
+   * Problems with the part of a move at its new spot; empty when the move is allowed
+   */
+  static checkMove(
+    results: Results,
+    move: PlacementMove,
+    availableStocks: Stock[],
+    kerfThickness: number,
+    options: OptimizationOptions = {}
+  ): LayoutIssue[] {
+    const source = results.stockUsage[move.fromSheet]?.placements[move.placementIndex];
+    const target = results.stockUsage[move.toSheet];
+    if (!source || !target) return [];
+
+    // The same checks the layout validator runs on a finished layout
+    const others = target.placements.filter((_, i) => move.toSheet !== move.fromSheet || i !== move.placementIndex);
+    return LayoutValidator.checkPlacement(this.movedPlacement(source, move), others, availableStocks[target.stockIndex], results.sortedParts, kerfThickness, options);
+  }
+
+  /**
+   * Apply a move when it passes every check. The results are returned unchanged, with
+   * the issues, when it does not.
+   */
+  static applyMove(
+    results: Results,
+    move: PlacementMove,
+    availableStocks: Stock[],
+    kerfThickness: number,
+    options: OptimizationOptions = {}
+  ): { results: Results; issues: LayoutIssue[] } {
+    const issues = this.checkMove(results, move, availableStocks, kerfThickness, options);
+    const source = results.stockUsage[move.fromSheet]?.placements[move.placementIndex];
+    if (issues.length > 0 || !source) return { results, issues };
+
+    const moved = this.movedPlacement(source, move);
+    const stockUsage = results.stockUsage.map((usage, sheetIndex) => {
+      if (sheetIndex !== move.fromSheet && sheetIndex !== move.toSheet) return usage;
+
+      const placements = usage.placements.filter((_, i) => sheetIndex !== move.fromSheet || i !== move.placementIndex);
+      if (sheetIndex === move.toSheet) placements.push(moved);
+      return this.rebuildSheet({ ...usage, placements }, availableStocks[usage.stockIndex], results, kerfThickness);
+    });
+
+    console.log(`✋ LAYOUT EDIT: ${source.partId} to ${stockUsage[move.toSheet].sheetId} at (${move.x}, ${move.y})${move.rotated ? ' rotated' : ''}`);
+    return { results: this.refreshResults(results, stockUsage, source.partId, availableStocks, kerfThickness, options), issues: [] };
+  }
+
+  /**
+   * Turn a part a quarter turn where it lies
+   */
+  static rotate(
+    results: Results,
+    sheetIndex: number,
+    placementIndex: number,
+    availableStocks: Stock[],
+    kerfThickness: number,
+    options: OptimizationOptions = {}
+  ): { results: Results; issues: LayoutIssue[] } {
+    const placement = results.stockUsage[sheetIndex]?.placements[placementIndex];
+    if (!placement) return { results, issues: [] };
+
+    return this.applyMove(results, {
+      fromSheet: sheetIndex,
+      placementIndex,
+      toSheet: sheetIndex,
+      x: placement.x,
+      y: placement.y,
+      rotated: !placement.rotated
+    }, availableStocks, kerfThickness, options);
+  }
+
+  private static movedPlacement(source: Placement, move: PlacementMove): Placement {
+    const turned = move.rotated !== source.rotated;
+    return {
+      ...source,
+      x: move.x,
+      y: move.y,
+      rotated: move.rotated,
+      ...(source.angle !== undefined && { angle: turned ? (source.angle + 90) % 360 : source.angle })
+    };
+  }
+
+  /**
+   * Recount the used area, waste and free spaces of an edited sheet. Its guillotine
+   * tree no longer matches the parts, so it is dropped.
+   */
+  static rebuildSheet(usage: StockUsage, stock: Stock, results: Results, kerfThickness: number): StockUsage {
+    const usedArea = usage.placements.reduce((sum, placement) => {
+      const part = results.sortedParts[parseInt(placement.partId.split('-')[1])];
+      return sum + (part.outline ? PolygonGeometry.area(PolygonGeometry.outlineOf(part)) : part.length * part.width);
+    }, 0);
+    const { cutTree, ...rest } = usage;
+
+    return {
+      ...rest,
+      usedArea,
+      wasteArea: stock.length * stock.width - usedArea,
+      freeSpaces: RemnantAnalyzer.freeSpacesFor(usage, stock, results.sortedParts, kerfThickness)
+    };
+  }
+
+  /**
+   * Totals, offcuts and cut sequences of the edited layout. A grain group is no longer
+   * cut as one piece once a member has been moved out of it.
+   */
+  private static refreshResults(
+    results: Results,
+    stockUsage: StockUsage[],
+    movedPartId: string,
+    availableStocks: Stock[],
+    kerfThickness: number,
+    options: OptimizationOptions
+  ): Results {
+    const remnants = RemnantAnalyzer.collectRemnants(stockUsage, availableStocks, results.sortedParts, kerfThickness, options);
+    const grainGroups = results.grainGroups?.filter(group => !group.partIds.includes(movedPartId));
+    const materialSubstitutions = ConstraintProcessor.summarizeMaterialSubstitutions(stockUsage, availableStocks, results.sortedParts, options);
+    const millingOperations = ConstraintProcessor.summarizeMillingOperations(stockUsage, availableStocks, results.sortedParts, options);
+    const violations = validateResults({ stockUsage }, availableStocks, results.sortedParts, kerfThickness, options);
+    const patterns = PatternStacker.detectPatterns(stockUsage, options.stackHeight);
+    const cutSequences = generateOptimalCutSequence(stockUsage, availableStocks, results.sortedParts, millingOperations, kerfThickness);
+
+    return {
+      ...results,
+      stockUsage,
+      totalUsedSheets: stockUsage.filter(usage => usage.placements.length > 0).length,
+      totalWaste: stockUsage.reduce((sum, usage) => sum + usage.wasteArea, 0),
+      cutSequences: stackCutSequences(cutSequences, patterns, stockUsage, availableStocks),
+      materialSubstitutions: materialSubstitutions.length > 0 ? materialSubstitutions : undefined,
+      millingOperations: millingOperations.length > 0 ? millingOperations : undefined,
+      remnants: remnants.length > 0 ? remnants : undefined,
+      violations: violations.length > 0 ? violations : undefined,
+      patterns: patterns.length > 0 ? patterns : undefined,
+      ...(grainGroups && { grainGroups })
+    };
+  }
+}
@@ -0,0 +1,226 @@
+// Layout Validator - An independent check of a finished layout
+// Every placement is checked against its sheet (bounds, defects, grain, material and
+// thickness) and against the other placements on it (overlap and kerf), then the
+// placements are counted against the quantities asked for. Nothing here comes from the
+// engine that made the layout, so a bug in one engine cannot hide its own mistakes.
+
+import { Stock, Part, Placement, Results, FreeSpace, OptimizationOptions, LayoutIssue, OutlinePoint, PartOutline, getUsableRegion, getDefectZones } from './types';
+import { ConstraintProcessor } from './optimized-cutting-engine';
+import { FreeSpaceManager } from './free-space-manager';
+import { PolygonGeometry } from './polygon-geometry';
+
+const TOLERANCE = 0.01;
+
+const partIndexOf = (placement: Placement) => parseInt(placement.partId.split('-')[1]);
+
+/**
+ * Every rule the layout breaks; empty when it can be cut as planned
+ */
+export function validateResults(
+  results: Pick<Results, 'stockUsage'>,
+  availableStocks: Stock[],
+  requiredParts: Part[],
+  kerfThickness: number,
+  options: OptimizationOptions = {}
+): LayoutIssue[] {
+  const sheetIssues = results.stockUsage.flatMap(usage => {
+    const stock = availableStocks[usage.stockIndex];
+    if (!stock) {
+      return usage.placements.map(placement => ({
+        kind: 'material' as const,
+        partId: placement.partId,
+        sheetId: usage.sheetId,
+        message: `${placement.name || placement.partId} is on ${usage.sheetId}, which is not in the stock list`
+      }));
+    }
+
+    // Each pair once: a placement is only compared with the ones after it
+    return usage.placements.flatMap((placement, i) =>
+      LayoutValidator.checkPlacement(placement, usage.placements.slice(i + 1), stock, requiredParts, kerfThickness, options)
+        .map(issue => ({ ...issue, sheetId: usage.sheetId }))
+    );
+  });
+
+  const issues = [...sheetIssues, ...LayoutValidator.checkQuantities(results, requiredParts)];
+  if (issues.length > 0) {
+    console.warn(`🚨 LAYOUT VALIDATOR: ${issues.length} violations`, issues.map(issue => issue.message));
+  }
+  return issues;
+}
+
+/**
+ * LAYOUT VALIDATOR
+ */
+export class LayoutValidator {
+
+  /**
+   * Problems with one placement on its stock: bounds, defects, then overlap or kerf with
+   * each of the others, then grain, material and thickness
+   */
+  static checkPlacement(
+    placement: Placement,
+    others: Placement[],
+    stock: Stock,
+    requiredParts: Part[],
+    kerfThickness: number,
+    options: OptimizationOptions = {}
+  ): LayoutIssue[] {
+    const part = requiredParts[partIndexOf(placement)];
+    const label = placement.name || placement.partId;
+    if (!part) {
+      return [{ kind: 'quantity', partId: placement.partId, message: `${label} is not in the parts list` }];
+    }
+
+    const box = this.footprint(placement, part);
+    const issues: LayoutIssue[] = [];
+
+    // Bounds: the part must stay on the usable (trimmed) stock
+    if (!FreeSpaceManager.contains(getUsableRegion(stock), box)) {
+      issues.push({ kind: 'bounds', partId: placement.partId, message: `${label} runs off the usable sheet` });
+    }
+
+    if (getDefectZones(stock).some(zone => FreeSpaceManager.intersects(zone, box))) {
+      issues.push({ kind: 'defect', partId: placement.partId, message: `${label} covers a defect` });
+    }
+
+    others.forEach(other => {
+      const otherPart = requiredParts[partIndexOf(other)];
+      if (!otherPart) return;
+
+      const clash = this.clearance(placement, part, other, otherPart, kerfThickness);
+      const otherLabel = other.name || other.partId;
+      if (clash === 'overlap') {
+        issues.push({ kind: 'overlap', partId: placement.partId, message: `${label} overlaps ${otherLabel}` });
+      } else if (clash === 'kerf') {
+        issues.push({ kind: 'kerf', partId: placement.partId, message: `${label} is closer than the ${kerfThickness}mm kerf to ${otherLabel}` });
+      }
+    });
+
+    if (this.breaksGrain(placement, part, stock)) {
+      issues.push({ kind: 'grain', partId: placement.partId, message: `${label} is turned across the grain` });
+    }
+
+    const material = stock.material || 'this stock';
+    if (ConstraintProcessor.getMaterialPenalty(part, stock, options) === null) {
+      issues.push({ kind: 'material', partId: placement.partId, message: `${label} cannot be cut from ${material}` });
+    } else if (ConstraintProcessor.requiresRip(part, stock) && !options.ripDimensional) {
+      issues.push({ kind: 'material', partId: placement.partId, message: `${label} needs ${material} ripped to width, which is not allowed` });
+    }
+
+    if (ConstraintProcessor.getThicknessRemoval(part, stock, options) === null) {
+      issues.push({ kind: 'thickness', partId: placement.partId, message: `${label} (${part.thickness}mm) cannot be made from ${stock.thickness}mm ${material}` });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Parts placed more or fewer times than asked for, and instances placed twice
+   */
+  static checkQuantities(results: Pick<Results, 'stockUsage'>, requiredParts: Part[]): LayoutIssue[] {
+    const placements = results.stockUsage.flatMap(usage => usage.placements.map(placement => ({ placement, sheetId: usage.sheetId })));
+    const issues: LayoutIssue[] = [];
+    const seen = new Set<string>();
+
+    placements.forEach(({ placement, sheetId }) => {
+      if (seen.has(placement.partId)) {
+        issues.push({ kind: 'quantity', partId: placement.partId, sheetId, message: `${placement.name || placement.partId} is placed more than once` });
+      }
+      seen.add(placement.partId);
+    });
+
+    requiredParts.forEach((part, partIndex) => {
+      const placed = placements.filter(({ placement }) => partIndexOf(placement) === partIndex).length;
+      const label = part.name || `Part-${partIndex}`;
+      if (placed > part.quantity) {
+        issues.push({ kind: 'quantity', partId: `Part-${partIndex}`, message: `${label}: ${placed} placed, ${part.quantity} needed` });
+      } else if (placed < part.quantity) {
+        issues.push({ kind: 'quantity', partId: `Part-${partIndex}`, message: `${label}: only ${placed} of ${part.quantity} placed` });
+      }
+    });
+
+    return issues;
+  }
+
+  /**
+   * Box a placed part covers; nested parts may be turned to any angle
+   */
+  static footprint(placement: Placement, part: Part): FreeSpace {
+    if (placement.angle !== undefined) {
+      return PolygonGeometry.bounds(PolygonGeometry.placedOutline(part, placement).points);
+    }
+
+    return {
+      x: placement.x,
+      y: placement.y,
+      width: placement.rotated ? part.width : part.length,
+      height: placement.rotated ? part.length : part.width
+    };
+  }
+
+  /**
+   * Whether two placed parts overlap or sit closer than the kerf. Rectangles at right
+   * angles are compared as boxes, anything else by its outline.
+   */
+  private static clearance(a: Placement, partA: Part, b: Placement, partB: Part, kerfThickness: number): 'overlap' | 'kerf' | null {
+    const boxA = this.footprint(a, partA);
+    const boxB = this.footprint(b, partB);
+    const grown = (box: FreeSpace) => ({ ...box, width: box.width + kerfThickness, height: box.height + kerfThickness });
+    if (!FreeSpaceManager.intersects(grown(boxA), boxB) && !FreeSpaceManager.intersects(boxA, grown(boxB))) return null;
+
+    if (this.isBox(a, partA) && this.isBox(b, partB)) {
+      return FreeSpaceManager.intersects(boxA, boxB) ? 'overlap' : 'kerf';
+    }
+
+    const outlineA = PolygonGeometry.placedOutline(partA, a);
+    const outlineB = PolygonGeometry.placedOutline(partB, b);
+    if (this.outlinesOverlap(outlineA, outlineB)) return 'overlap';
+
+    const gap = Math.min(
+      ...outlineA.points.map(point => PolygonGeometry.distanceToEdge(outlineB, point)),
+      ...outlineB.points.map(point => PolygonGeometry.distanceToEdge(outlineA, point))
+    );
+    return gap < kerfThickness - TOLERANCE ? 'kerf' : null;
+  }
+
+  private static isBox(placement: Placement, part: Part): boolean {
+    return !part.outline && (placement.angle === undefined || placement.angle % 90 === 0);
+  }
+
+  /**
+   * A corner of one outline inside the other, or two edges crossing
+   */
+  private static outlinesOverlap(a: PartOutline, b: PartOutline): boolean {
+    const inside = (outline: PartOutline, point: OutlinePoint) =>
+      PolygonGeometry.contains(outline, point) && PolygonGeometry.distanceToEdge(outline, point) > TOLERANCE;
+    if (a.points.some(point => inside(b, point)) || b.points.some(point => inside(a, point))) return true;
+
+    const edges = (outline: PartOutline) => [outline.points, ...(outline.holes || [])]
+      .flatMap(ring => ring.map((point, i) => [point, ring[(i + 1) % ring.length]] as const));
+    const edgesB = edges(b);
+    return edges(a).some(([p1, p2]) => edgesB.some(([q1, q2]) => this.segmentsCross(p1, p2, q1, q2)));
+  }
+
+  // Proper crossings only: edges that merely touch are allowed
+  private static segmentsCross(p1: OutlinePoint, p2: OutlinePoint, q1: OutlinePoint, q2: OutlinePoint): boolean {
+    const side = (a: OutlinePoint, b: OutlinePoint, c: OutlinePoint) => (b.x - a.x) * (c.y - a.y) - (b.y - a.y) * (c.x - a.x);
+    const opposite = (s1: number, s2: number) => (s1 > TOLERANCE && s2 < -TOLERANCE) || (s1 < -TOLERANCE && s2 > TOLERANCE);
+    return opposite(side(q1, q2, p1), side(q1, q2, p2)) && opposite(side(p1, p2, q1), side(p1, p2, q2));
+  }
+
+  /**
+   * Grain runs along the stock length; a part whose grain differs from the stock's must
+   * be turned a quarter turn, and one whose grain matches must not be
+   */
+  private static breaksGrain(placement: Placement, part: Part, stock: Stock): boolean {
+    const partGrain = part.grainDirection?.toLowerCase();
+    const stockGrain = stock.grainDirection?.toLowerCase();
+    if (!partGrain || partGrain === 'any' || !stockGrain || stockGrain === 'any') return false;
+
+    const mustTurn = partGrain !== stockGrain;
+    if (placement.angle === undefined) return placement.rotated !== mustTurn;
+
+    const angle = ((placement.angle % 360) + 360) % 360;
+    return angle % 90 !== 0 || (angle % 180 === 90) !== mustTurn;
+  }
+}
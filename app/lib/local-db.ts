@@ -1,6 +1,6 @@
 'use client';
 
-import { SavedCalculation, dbToAppCalculation, appToDbCalculation, Stock } from './types';
+import { SavedCalculation, dbToAppCalculation, appToDbCalculation, Stock, dbToAppWarehouseStock, appToDbWarehouseStock } from './types';
 
 // In-memory storage for local development with localStorage persistence
 let localDBStorage = {
@@ -117,17 +117,7 @@ export const localDB = {
     initLocalDB(); // Make sure we have the latest data
     return localDBStorage.warehouseStock.sort((a, b) => 
       b.date_modified - a.date_modified
-    ).map(stock => ({
-      id: stock.id,
-      length: stock.length,
-      width: stock.width,
-      thickness: stock.thickness,
-      quantity: stock.quantity,
-      material: stock.material,
-      location: stock.location,
-      dateAdded: stock.date_added,
-      dateModified: stock.date_modified
-    }));
+    ).map(stock => dbToAppWarehouseStock(stock));
   },
   
   // Fetch warehouse stock by ID
@@ -136,34 +126,14 @@ export const localDB = {
     const found = localDBStorage.warehouseStock.find(stock => stock.id === id);
     if (!found) return null;
     
-    return {
-      id: found.id,
-      length: found.length,
-      width: found.width,
-      thickness: found.thickness,
-      quantity: found.quantity,
-      material: found.material,
-      location: found.location,
-      dateAdded: found.date_added,
-      dateModified: found.date_modified
-    } as Stock;
+    return dbToAppWarehouseStock(found);
   },
   
   // Create a new warehouse stock item
   createWarehouseStock: async (stockItem: Stock): Promise<boolean> => {
     initLocalDB(); // Make sure we have the latest data
     
-    const dbStock = {
-      id: stockItem.id,
-      length: stockItem.length,
-      width: stockItem.width,
-      thickness: stockItem.thickness,
-      quantity: stockItem.quantity,
-      material: stockItem.material,
-      location: stockItem.location,
-      date_added: stockItem.dateAdded,
-      date_modified: Date.now()
-    };
+    const dbStock = appToDbWarehouseStock(stockItem, stockItem.id!, Date.now());
     
     localDBStorage.warehouseStock.push(dbStock);
     
@@ -182,15 +152,8 @@ export const localDB = {
     const dateAdded = localDBStorage.warehouseStock[index].date_added;
     
     const dbStock = {
-      id: stockItem.id,
-      length: stockItem.length,
-      width: stockItem.width,
-      thickness: stockItem.thickness,
-      quantity: stockItem.quantity,
-      material: stockItem.material,
-      location: stockItem.location,
-      date_added: dateAdded,
-      date_modified: Date.now()
+      ...appToDbWarehouseStock(stockItem, stockItem.id!, Date.now()),
+      date_added: dateAdded
     };
     
     localDBStorage.warehouseStock[index] = dbStock;
@@ -0,0 +1,197 @@
+// Locked Layout - Re-optimising around parts pinned in a prior layout
+// Locked parts, and parts already cut, stay where they are. Every sheet holding one is set
+// aside as its own (now irregular) stock item, with those parts and the kerf beside them
+// marked as defects the engines already avoid. Untouched sheets go back into stock, the
+// rest of the job is packed as normal, then the fixed parts are put back as history.
+// A sheet marked unusable is used up: only its cut parts stay, and nothing new goes on it.
+
+import { Stock, Part, Placement, Results, StockUsage, OptimizationOptions } from './types';
+import { ConstraintProcessor } from './optimized-cutting-engine';
+import { LayoutEditor } from './layout-editor';
+import { LayoutValidator } from './layout-validator';
+
+// A prior sheet kept for its locked and cut parts
+export interface PinnedSheet {
+  sheetId: string;
+  stockIndex: number; // Entry in the caller's stock list
+  layoutStockIndex: number; // Entry added for this sheet alone in the stock list the engines see
+  placements: Placement[];
+  unusable?: boolean; // Set aside as damaged; its stock entry has no quantity
+}
+
+export interface LockedLayout {
+  stocks: Stock[]; // Caller's stock less the pinned sheets, then one entry per pinned sheet
+  parts: Part[]; // Caller's parts less the locked and cut instances
+  sheets: PinnedSheet[];
+}
+
+const partIndexOf = (placement: Placement) => parseInt(placement.partId.split('-')[1]);
+
+/**
+ * LOCKED LAYOUT PLANNER
+ */
+export class LockedLayoutPlanner {
+
+  /**
+   * Stock and parts left to optimise around the locked and cut placements of a prior
+   * layout; null when nothing in it is fixed and no sheet is marked unusable
+   */
+  static pin(
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    priorResults: Partial<Results> | undefined,
+    kerfThickness: number
+  ): LockedLayout | null {
+    const priorSheets = (priorResults?.stockUsage || [])
+      .filter(usage => availableStocks[usage.stockIndex])
+      .map(usage => ({
+        sheetId: usage.sheetId,
+        stockIndex: usage.stockIndex,
+        // Locked parts on an unusable sheet were never cut, so they are planned again
+        placements: usage.placements.filter(placement =>
+          (placement.cut || (placement.locked && !usage.unusable)) && requiredParts[partIndexOf(placement)]),
+        ...(usage.unusable && { unusable: true })
+      }))
+      .filter(sheet => sheet.placements.length > 0 || sheet.unusable);
+    if (priorSheets.length === 0) return null;
+
+    const stocks = availableStocks.map((stock, stockIndex) => ({
+      ...stock,
+      quantity: Math.max(0, stock.quantity - priorSheets.filter(sheet => sheet.stockIndex === stockIndex).length)
+    }));
+
+    const lockedPlacements = priorSheets.flatMap(sheet => sheet.placements);
+    const parts = requiredParts.map((part, partIndex) => ({
+      ...part,
+      quantity: Math.max(0, part.quantity - lockedPlacements.filter(placement => partIndexOf(placement) === partIndex).length)
+    }));
+
+    const sheets = priorSheets.map(sheet => {
+      const stock = availableStocks[sheet.stockIndex];
+      // Each locked part keeps a kerf clear on every side (within the sheet), so whichever
+      // engine packs around it leaves a saw cut between it and the new parts
+      const lockedZones = sheet.placements.map(placement => {
+        const box = LayoutValidator.footprint(placement, requiredParts[partIndexOf(placement)]);
+        const x = Math.max(0, box.x - kerfThickness);
+        const y = Math.max(0, box.y - kerfThickness);
+        return {
+          x,
+          y,
+          length: Math.min(stock.length, box.x + box.width + kerfThickness) - x,
+          width: Math.min(stock.width, box.y + box.height + kerfThickness) - y
+        };
+      });
+      stocks.push({ ...stock, quantity: sheet.unusable ? 0 : 1, defects: [...(stock.defects || []), ...lockedZones] });
+      return { ...sheet, layoutStockIndex: stocks.length - 1 };
+    });
+
+    console.log(`📌 LOCKED LAYOUT: ${lockedPlacements.length} parts fixed on ${sheets.length} sheets, ${sheets.filter(sheet => sheet.unusable).length} unusable`);
+    return { stocks, parts, sheets };
+  }
+
+  /**
+   * Put the fixed parts back into a layout packed from pin()'s stock and parts. Pinned
+   * sheets come first and new instances are numbered around the fixed ones.
+   */
+  static restore(
+    results: Results,
+    locked: LockedLayout,
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    kerfThickness: number,
+    options: OptimizationOptions = {}
+  ): Results {
+    const renamePart = this.instanceRenumbering(locked.sheets);
+    const packed = results.stockUsage.map(usage => ({
+      ...usage,
+      placements: usage.placements.map(placement => ({ ...placement, partId: renamePart(placement.partId) }))
+    }));
+    const sourceResults = { ...results, sortedParts: requiredParts };
+    const sheetIds = new Map<string, string>();
+
+    // An unusable sheet nothing was cut from leaves the layout altogether
+    const pinnedUsage = locked.sheets.filter(sheet => !sheet.unusable || sheet.placements.length > 0).map(sheet => {
+      const packedSheet = packed.find(usage => usage.stockIndex === sheet.layoutStockIndex);
+      const usage: StockUsage = {
+        sheetId: sheet.sheetId,
+        stockIndex: sheet.stockIndex,
+        placements: [...sheet.placements, ...(packedSheet?.placements || [])],
+        usedArea: 0,
+        wasteArea: 0,
+        freeSpaces: [],
+        ...(sheet.unusable && { unusable: true })
+      };
+      if (packedSheet) sheetIds.set(packedSheet.sheetId, sheet.sheetId);
+      return LayoutEditor.rebuildSheet(usage, availableStocks[sheet.stockIndex], sourceResults, kerfThickness);
+    });
+
+    // Pinned sheets keep their ids, so cut history still refers to them; new sheets are
+    // numbered Sheet-n (or Board-n) after them, skipping the ids already taken (a set-aside
+    // sheet's id too, so a new sheet is never mistaken for the damaged one)
+    const taken = new Set(locked.sheets.map(sheet => sheet.sheetId));
+    const counts = new Map<string, number>();
+    const newUsage = packed.filter(usage => usage.stockIndex < availableStocks.length).map(usage => {
+      const prefix = usage.sheetId.replace(/-\d+$/, '');
+      let count = (counts.get(prefix) || 0) + 1;
+      while (taken.has(`${prefix}-${count}`)) count++;
+      counts.set(prefix, count);
+      sheetIds.set(usage.sheetId, `${prefix}-${count}`);
+      return { ...usage, sheetId: `${prefix}-${count}` };
+    });
+    const stockUsage = [...pinnedUsage, ...newUsage];
+
+    const materialSubstitutions = ConstraintProcessor.summarizeMaterialSubstitutions(stockUsage, availableStocks, requiredParts, options);
+    const millingOperations = ConstraintProcessor.summarizeMillingOperations(stockUsage, availableStocks, requiredParts, options);
+    const grainGroups = results.grainGroups?.map(group => ({
+      ...group,
+      sheetId: sheetIds.get(group.sheetId) || group.sheetId,
+      partIds: group.partIds.map(renamePart)
+    }));
+    const fixedPlacements = locked.sheets.flatMap(sheet => sheet.placements);
+    const cutCount = fixedPlacements.filter(placement => placement.cut).length;
+    const lockedCount = fixedPlacements.length - cutCount;
+    const unusableCount = locked.sheets.filter(sheet => sheet.unusable).length;
+    const kept = [
+      ...(cutCount > 0 ? [`${cutCount} cut parts kept as history`] : []),
+      ...(lockedCount > 0 ? [`${lockedCount} locked parts kept in place`] : []),
+      ...(unusableCount > 0 ? [`${unusableCount} unusable sheets set aside`] : [])
+    ];
+
+    return {
+      ...results,
+      message: [results.message, ...kept].join('; '),
+      stockUsage,
+      totalUsedSheets: stockUsage.length,
+      totalWaste: stockUsage.reduce((sum, usage) => sum + usage.wasteArea, 0),
+      sortedParts: requiredParts,
+      materialSubstitutions: materialSubstitutions.length > 0 ? materialSubstitutions : undefined,
+      millingOperations: millingOperations.length > 0 ? millingOperations : undefined,
+      ...(grainGroups && { grainGroups })
+    };
+  }
+
+  /**
+   * The engines number a part's instances from 0, so instance n becomes the n-th
+   * number not already taken by a locked instance of the same part
+   */
+  private static instanceRenumbering(sheets: PinnedSheet[]): (partId: string) => string {
+    const taken = new Map<number, Set<number>>();
+    sheets.flatMap(sheet => sheet.placements).forEach(placement => {
+      const partIndex = partIndexOf(placement);
+      taken.set(partIndex, (taken.get(partIndex) || new Set()).add(parseInt(placement.partId.split('-')[2])));
+    });
+
+    return (partId: string) => {
+      const [, index, instance] = partId.split('-');
+      const lockedInstances = taken.get(parseInt(index));
+      if (!lockedInstances) return partId;
+
+      let number = -1;
+      for (let free = -1; free < parseInt(instance);) {
+        number++;
+        if (!lockedInstances.has(number)) free++;
+      }
+      return `Part-${index}-${number}`;
+    };
+  }
+}
@@ -0,0 +1,446 @@
+// Metaheuristic Optimizer - Anytime simulated annealing over part order and rotation
+// Wraps the existing placement primitives: every candidate solution is decoded into a
+// real multi-sheet layout, and the best layout seen so far is always kept.
+
+import { Stock, Part, Placement, FreeSpace, Results, StockUsage, OptimizationOptions, SearchBudget, getUsableRegion, layoutEfficiency } from './types';
+import {
+  InputProcessor,
+  ConstraintProcessor,
+  MultiSheetOptimizer,
+  OptimizedCuttingEngine,
+  OptimizedStock,
+  ProcessedPart,
+  StockFit
+} from './optimized-cutting-engine';
+import { FreeSpaceManager } from './free-space-manager';
+import { RemnantAnalyzer, DEFAULT_MIN_REMNANT } from './remnant-analyzer';
+
+// Default budget when the caller gives neither a time limit nor an iteration cap
+const DEFAULT_TIME_LIMIT_MS = 10000;
+
+// Share of the largest keepable offcut credited back under the remnant objective. Below 1,
+// so opening another sheet never pays for itself in offcuts.
+const REMNANT_CREDIT = 0.5;
+
+// Iterations between progress reports while searching
+const PROGRESS_INTERVAL = 100;
+
+// Candidate solution: the order parts are fed to the decoder and a rotation flag per part
+interface Solution {
+  order: number[];
+  rotations: boolean[];
+}
+
+interface DecodedLayout {
+  usedSheets: StockUsage[];
+  unplacedCount: number;
+  cost: number;
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32) so runs are reproducible
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * SIMULATED ANNEALING OPTIMIZER
+ */
+export class MetaheuristicOptimizer {
+
+  /**
+   * Search for a better layout than the greedy pass within the given budget.
+   * The greedy result is the starting best, so the answer is never worse than it.
+   */
+  static optimize(
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    kerfThickness: number,
+    budget: SearchBudget,
+    options: OptimizationOptions = {}
+  ): Results {
+    const startTime = Date.now();
+    const seed = budget.seed ?? 1;
+    const random = createSeededRandom(seed);
+    const timeLimitMs = budget.timeLimitMs ?? (budget.maxIterations ? Infinity : DEFAULT_TIME_LIMIT_MS);
+    const maxIterations = budget.maxIterations ?? Infinity;
+
+    console.log(`🔥 METAHEURISTIC: Starting search (seed ${seed}, ${timeLimitMs}ms, ${maxIterations} iterations)`);
+
+    const greedyResults = OptimizedCuttingEngine.executeOptimization(availableStocks, requiredParts, kerfThickness, options);
+
+    const stockInventory = InputProcessor.processStockInventory(availableStocks);
+    const instances = MultiSheetOptimizer.expandPartsByQuantity(InputProcessor.processRequiredParts(requiredParts));
+
+    // The decoder only builds free-form layouts, so guillotine mode keeps the greedy result
+    if (options.layoutMode === 'guillotine' || instances.length === 0) {
+      return {
+        ...greedyResults,
+        searchStats: { seed, iterations: 0, elapsedMs: Date.now() - startTime, improvedOnGreedy: false }
+      };
+    }
+
+    const greedyCost = this.scoreResults(greedyResults, availableStocks, requiredParts, kerfThickness, options);
+
+    // Material and thickness fit of each part on each stock, null where the part cannot go at all
+    const fits = instances.map(part => stockInventory.map(stock =>
+      this.orientationsFor(part, stock, false).length > 0
+        ? ConstraintProcessor.getStockFit(part, stock, options)
+        : null
+    ));
+
+    // Start from a largest-first order, which is what the greedy engine does as well
+    let current: Solution = {
+      order: instances.map((_, i) => i).sort((a, b) =>
+        (instances[b].length * instances[b].width) - (instances[a].length * instances[a].width)
+      ),
+      rotations: instances.map(() => false)
+    };
+    let currentLayout = this.decode(current, instances, stockInventory, fits, kerfThickness, options);
+    let best = { solution: current, layout: currentLayout };
+
+    const initialTemperature = Math.max(1, currentLayout.cost * 0.02);
+    let iterations = 0;
+
+    while (iterations < maxIterations && Date.now() - startTime < timeLimitMs) {
+      iterations++;
+
+      const progress = Number.isFinite(maxIterations)
+        ? iterations / maxIterations
+        : (Date.now() - startTime) / timeLimitMs;
+      const temperature = initialTemperature * Math.pow(0.001, Math.min(1, progress));
+
+      const candidate = this.neighbour(current, random);
+      const candidateLayout = this.decode(candidate, instances, stockInventory, fits, kerfThickness, options);
+      const delta = candidateLayout.cost - currentLayout.cost;
+
+      if (delta <= 0 || random() < Math.exp(-delta / temperature)) {
+        current = candidate;
+        currentLayout = candidateLayout;
+
+        if (currentLayout.cost < best.layout.cost) {
+          best = { solution: current, layout: currentLayout };
+          console.log(`🔥 METAHEURISTIC: Iteration ${iterations} improved to ${best.layout.usedSheets.length} sheets (cost ${best.layout.cost.toFixed(0)})`);
+        }
+      }
+
+      if (iterations % PROGRESS_INTERVAL === 0) {
+        options.onProgress?.({ phase: 'search', sheetsDone: best.layout.usedSheets.length, bestEfficiency: layoutEfficiency(best.layout.usedSheets) });
+      }
+    }
+
+    const elapsedMs = Date.now() - startTime;
+    const improvedOnGreedy = best.layout.cost < greedyCost;
+
+    console.log(`🔥 METAHEURISTIC: ${iterations} iterations in ${elapsedMs}ms, ${improvedOnGreedy ? 'improved on' : 'kept'} greedy result`);
+
+    if (!improvedOnGreedy) {
+      return {
+        ...greedyResults,
+        searchStats: { seed, iterations, elapsedMs, improvedOnGreedy }
+      };
+    }
+
+    const usedSheets = best.layout.usedSheets;
+    const materialSubstitutions = ConstraintProcessor.summarizeMaterialSubstitutions(
+      usedSheets, availableStocks, requiredParts, options
+    );
+    const millingOperations = ConstraintProcessor.summarizeMillingOperations(
+      usedSheets, availableStocks, requiredParts, options
+    );
+    const totalWaste = usedSheets.reduce((sum, sheet) => sum + sheet.wasteArea, 0);
+    const totalStockArea = usedSheets.reduce((sum, sheet) => {
+      const stock = availableStocks[sheet.stockIndex];
+      return sum + stock.length * stock.width;
+    }, 0);
+    const efficiency = totalStockArea > 0 ? ((totalStockArea - totalWaste) / totalStockArea) * 100 : 0;
+
+    return {
+      success: best.layout.unplacedCount === 0,
+      message: best.layout.unplacedCount === 0
+        ? `✓ Optimized placement: ${usedSheets.length} sheets used, ${efficiency.toFixed(1)}% efficiency (search: ${iterations} iterations)`
+        : `⚠ Partial placement: ${best.layout.unplacedCount} parts remaining, additional stock needed`,
+      stockUsage: usedSheets,
+      totalUsedSheets: usedSheets.length,
+      totalWaste,
+      sortedParts: requiredParts,
+      cutSequences: [],
+      searchStats: { seed, iterations, elapsedMs, improvedOnGreedy },
+      ...(materialSubstitutions.length > 0 && { materialSubstitutions }),
+      ...(millingOperations.length > 0 && { millingOperations })
+    };
+  }
+
+  /**
+   * Random neighbour: swap two parts, move one part, or flip a rotation flag
+   */
+  private static neighbour(solution: Solution, random: () => number): Solution {
+    const order = [...solution.order];
+    const rotations = [...solution.rotations];
+    const size = order.length;
+    const move = random();
+
+    if (move < 0.4 && size > 1) {
+      const i = Math.floor(random() * size);
+      const j = Math.floor(random() * size);
+      [order[i], order[j]] = [order[j], order[i]];
+    } else if (move < 0.7 && size > 1) {
+      const [moved] = order.splice(Math.floor(random() * size), 1);
+      order.splice(Math.floor(random() * size), 0, moved);
+    } else {
+      const i = Math.floor(random() * size);
+      rotations[i] = !rotations[i];
+    }
+
+    return { order, rotations };
+  }
+
+  /**
+   * Decode a solution into sheets: open one sheet at a time and fill it bottom-left
+   * with the parts in solution order, honouring grain wherever the stock has one and
+   * keeping each part on the best-fitting stock (material, then thickness) that is still left
+   */
+  private static decode(
+    solution: Solution,
+    instances: ProcessedPart[],
+    stockInventory: OptimizedStock[],
+    fits: (StockFit | null)[][],
+    kerfThickness: number,
+    options: OptimizationOptions
+  ): DecodedLayout {
+    const remaining = stockInventory.map(stock => stock.quantity);
+    let pending = [...solution.order];
+    const usedSheets: StockUsage[] = [];
+    let unplacedArea = 0;
+    let unplacedCount = 0;
+
+    const bestFit = (instanceIndex: number) => fits[instanceIndex].reduce<StockFit | null>(
+      (best, fit, i) => remaining[i] > 0 && fit && (!best || ConstraintProcessor.compareStockFit(fit, best) < 0) ? fit : best,
+      null
+    );
+
+    while (pending.length > 0) {
+      // Open the first stock that can take the next part in the sequence
+      // (the cheapest per mm² of those under the cost objective)
+      const first = instances[pending[0]];
+      const firstFit = bestFit(pending[0]);
+      const candidateSlots = firstFit === null
+        ? []
+        : stockInventory.map((_, i) => i).filter(i => {
+          const fit = fits[pending[0]][i];
+          return remaining[i] > 0 && fit !== null && ConstraintProcessor.compareStockFit(fit, firstFit) === 0;
+        });
+      const stockSlot = candidateSlots.length === 0
+        ? -1
+        : options.objective === 'cost'
+          ? candidateSlots.reduce((cheapest, i) =>
+            this.pricePerArea(stockInventory[i]) < this.pricePerArea(stockInventory[cheapest]) ? i : cheapest
+          )
+          : candidateSlots[0];
+
+      if (stockSlot < 0) {
+        unplacedArea += first.length * first.width;
+        unplacedCount++;
+        pending.shift();
+        continue;
+      }
+
+      const stock = stockInventory[stockSlot];
+      remaining[stockSlot]--;
+
+      let freeSpaces: FreeSpace[] = FreeSpaceManager.forStock(stock);
+      const placements: Placement[] = [];
+      let usedArea = 0;
+      const stillPending: number[] = [];
+
+      for (const instanceIndex of pending) {
+        const part = instances[instanceIndex];
+        const fit = fits[instanceIndex][stockSlot];
+        const preferred = bestFit(instanceIndex);
+        if (fit === null || (preferred !== null && ConstraintProcessor.compareStockFit(fit, preferred) > 0)) {
+          stillPending.push(instanceIndex);
+          continue;
+        }
+
+        const spot = this.findSpot(part, stock, freeSpaces, kerfThickness, solution.rotations[instanceIndex]);
+
+        if (!spot) {
+          stillPending.push(instanceIndex);
+          continue;
+        }
+
+        placements.push({
+          partId: `Part-${part.instanceId}`,
+          x: spot.x,
+          y: spot.y,
+          rotated: spot.rotated,
+          name: part.name || `Part-${part.partIndex}`
+        });
+        usedArea += spot.width * spot.height;
+        freeSpaces = FreeSpaceManager.placeRectangle(freeSpaces, {
+          x: spot.x,
+          y: spot.y,
+          width: spot.width + kerfThickness,
+          height: spot.height + kerfThickness
+        });
+      }
+
+      usedSheets.push({
+        sheetId: `Sheet-${usedSheets.length + 1}`,
+        stockIndex: stock.stockIndex,
+        placements,
+        usedArea,
+        wasteArea: (stock.length * stock.width) - usedArea,
+        freeSpaces
+      });
+      pending = stillPending;
+    }
+
+    // Unplaced parts dominate, then total stock area (or price), then how empty the last sheet is
+    const stockArea = usedSheets.reduce((sum, sheet) =>
+      sum + this.stockCharge(stockInventory.find(stock => stock.stockIndex === sheet.stockIndex)!, stockInventory, options), 0);
+    const lastSheetUsed = usedSheets.length > 0 ? usedSheets[usedSheets.length - 1].usedArea : 0;
+    const cost = unplacedArea * 10 + stockArea + lastSheetUsed * 0.5 -
+      this.remnantCredit(usedSheets.map(sheet => sheet.freeSpaces), options);
+
+    return { usedSheets, unplacedCount, cost };
+  }
+
+  /**
+   * Bottom-left free space that fits the part, trying the flagged orientation first. A kerf
+   * must fit beside the part too, except where the space runs to the edge of the usable sheet.
+   */
+  private static findSpot(
+    part: ProcessedPart,
+    stock: OptimizedStock,
+    freeSpaces: FreeSpace[],
+    kerfThickness: number,
+    preferRotated: boolean
+  ): { x: number; y: number; width: number; height: number; rotated: boolean } | null {
+    const usable = getUsableRegion(stock);
+
+    for (const orientation of this.orientationsFor(part, stock, preferRotated)) {
+      let bestSpace: FreeSpace | null = null;
+
+      for (const space of freeSpaces) {
+        const kerfRight = space.x + space.width >= usable.x + usable.width - 0.01 ? 0 : kerfThickness;
+        const kerfBelow = space.y + space.height >= usable.y + usable.height - 0.01 ? 0 : kerfThickness;
+        if (orientation.width + kerfRight > space.width + 0.01 || orientation.height + kerfBelow > space.height + 0.01) continue;
+        if (!bestSpace || space.y < bestSpace.y - 0.01 || (Math.abs(space.y - bestSpace.y) <= 0.01 && space.x < bestSpace.x)) {
+          bestSpace = space;
+        }
+      }
+
+      if (bestSpace) {
+        return { x: bestSpace.x, y: bestSpace.y, ...orientation };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Orientations the part may take on an empty sheet of this stock, flagged orientation first
+   */
+  private static orientationsFor(
+    part: ProcessedPart,
+    stock: OptimizedStock,
+    preferRotated: boolean
+  ): Array<{ width: number; height: number; rotated: boolean }> {
+    const grainResult = ConstraintProcessor.checkGrainCompatibility(part, stock);
+    if (!grainResult.compatible) return [];
+
+    const primary = {
+      width: grainResult.dimensions.length,
+      height: grainResult.dimensions.width,
+      rotated: grainResult.placement === 'rotated'
+    };
+    const candidates = this.isGrainConstrained(part, stock) || part.length === part.width
+      ? [primary]
+      : [primary, { width: primary.height, height: primary.width, rotated: !primary.rotated }];
+
+    const usable = getUsableRegion(stock);
+    const fitting = candidates.filter(o =>
+      FreeSpaceManager.contains(usable, { x: usable.x, y: usable.y, width: o.width, height: o.height })
+    );
+    return preferRotated ? fitting.reverse() : fitting;
+  }
+
+  private static isGrainConstrained(part: ProcessedPart, stock: OptimizedStock): boolean {
+    const hasPartGrainConstraint = !!part.grainDirection && part.grainDirection.toLowerCase() !== 'any';
+    const hasStockGrainConstraint = !!stock.grainDirection && stock.grainDirection.toLowerCase() !== 'any';
+    return hasPartGrainConstraint && hasStockGrainConstraint;
+  }
+
+  /**
+   * Score an existing Results object with the same cost function as the decoder
+   */
+  private static scoreResults(
+    results: Results,
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    kerfThickness: number,
+    options: OptimizationOptions
+  ): number {
+    const placedCounts = new Map<number, number>();
+    results.stockUsage.forEach(usage => usage.placements.forEach(placement => {
+      const partIndex = parseInt(placement.partId.split('-')[1]);
+      placedCounts.set(partIndex, (placedCounts.get(partIndex) || 0) + 1);
+    }));
+
+    const unplacedArea = requiredParts.reduce((sum, part, index) =>
+      sum + Math.max(0, part.quantity - (placedCounts.get(index) || 0)) * part.length * part.width, 0);
+
+    // A failed greedy run with no layout must never beat a real layout
+    if (results.stockUsage.length === 0) return Infinity;
+
+    const stockArea = results.stockUsage.reduce((sum, usage) =>
+      sum + this.stockCharge(availableStocks[usage.stockIndex], availableStocks, options), 0);
+    const lastSheetUsed = results.stockUsage[results.stockUsage.length - 1].usedArea;
+    const freeSpaces = results.stockUsage.map(usage =>
+      RemnantAnalyzer.freeSpacesFor(usage, availableStocks[usage.stockIndex], requiredParts, kerfThickness)
+    );
+
+    return unplacedArea * 10 + stockArea + lastSheetUsed * 0.5 - this.remnantCredit(freeSpaces, options);
+  }
+
+  /**
+   * What a used stock item counts against a layout: its area, or under the cost objective
+   * its price turned into area at the average price per mm² of the priced stock
+   */
+  private static stockCharge(stock: Stock, stocks: Stock[], options: OptimizationOptions): number {
+    const area = stock.length * stock.width;
+    const priced = stocks.filter(candidate => (candidate.unitCost || 0) > 0);
+    if (options.objective !== 'cost' || priced.length === 0) return area;
+
+    const pricedArea = priced.reduce((sum, candidate) => sum + candidate.length * candidate.width, 0);
+    const pricedCost = priced.reduce((sum, candidate) => sum + candidate.unitCost!, 0);
+    return (stock.unitCost || 0) * (pricedArea / pricedCost);
+  }
+
+  private static pricePerArea(stock: Stock): number {
+    return (stock.unitCost || 0) / (stock.length * stock.width);
+  }
+
+  /**
+   * Credit for the biggest keepable offcut on each sheet (remnant objective only), so
+   * leftover area gathered into one piece beats the same area scattered in strips
+   */
+  private static remnantCredit(sheetFreeSpaces: FreeSpace[][], options: OptimizationOptions): number {
+    if (options.objective !== 'remnants') return 0;
+
+    const minSize = options.minRemnant || DEFAULT_MIN_REMNANT;
+    return sheetFreeSpaces.reduce((sum, freeSpaces) => {
+      const [largest] = RemnantAnalyzer.extractRemnants(freeSpaces, minSize);
+      return sum + (largest ? largest.width * largest.height : 0);
+    }, 0) * REMNANT_CREDIT;
+  }
+}
@@ -0,0 +1,463 @@
+// Nesting Engine - True-shape nesting of outlined parts by raster overlap
+// Each sheet is divided into small square cells. A part is rasterised once per allowed angle
+// into the cells its outline touches, and again with a kerf-wide margin; it is then slid to
+// the lowest, leftmost spot where none of the margin cells is taken. Holes stay open, so
+// small parts can be nested inside the cut-outs of larger ones.
+
+import { Stock, Part, Placement, FreeSpace, Results, StockUsage, OptimizationOptions, PartOutline, OutlinePoint, getUsableRegion, getDefectZones, layoutEfficiency } from './types';
+import {
+  InputProcessor,
+  ConstraintProcessor,
+  MultiSheetOptimizer,
+  OptimizedStock,
+  ProcessedPart,
+  StockFit
+} from './optimized-cutting-engine';
+import { FreeSpaceManager } from './free-space-manager';
+import { PolygonGeometry } from './polygon-geometry';
+
+const DEFAULT_ROTATION_STEP = 90;
+const DEFAULT_RESOLUTION = 5;
+
+// Run of covered cells in one row, relative to the cell the part is placed at
+interface CellSpan {
+  row: number;
+  start: number;
+  end: number; // Inclusive
+}
+
+// One way a part can lie on a given stock
+interface Pose {
+  angle: number;
+  outline: PartOutline; // Turned, with its bounding box at 0, 0
+  width: number; // Extent along the stock length (x axis)
+  height: number; // Extent along the stock width (y axis)
+  footprint: CellSpan[]; // Cells the part itself covers
+  clearance: CellSpan[]; // Cells within a kerf of the part, which must all be free
+}
+
+/**
+ * Cell occupancy of one sheet, with per-row running counts so a span can be checked at once
+ */
+class OccupancyGrid {
+  readonly cells: Uint8Array;
+  private readonly counts: Int32Array;
+
+  constructor(readonly cols: number, readonly rows: number) {
+    this.cells = new Uint8Array(cols * rows);
+    this.counts = new Int32Array((cols + 1) * rows);
+  }
+
+  /**
+   * Take every cell of the spans, placed at cell (col, row)
+   */
+  occupy(spans: CellSpan[], col: number, row: number): void {
+    const touchedRows = new Set<number>();
+    for (const span of spans) {
+      const r = row + span.row;
+      if (r < 0 || r >= this.rows) continue;
+      for (let c = Math.max(0, col + span.start); c <= Math.min(this.cols - 1, col + span.end); c++) {
+        this.cells[r * this.cols + c] = 1;
+      }
+      touchedRows.add(r);
+    }
+    touchedRows.forEach(r => this.recount(r));
+  }
+
+  /**
+   * Column of the last taken cell in a row between start and end, or -1 when all are free
+   */
+  lastTaken(row: number, start: number, end: number): number {
+    const base = row * (this.cols + 1);
+    if (this.counts[base + end + 1] - this.counts[base + start] === 0) return -1;
+    for (let c = end; c >= start; c--) {
+      if (this.cells[row * this.cols + c]) return c;
+    }
+    return -1;
+  }
+
+  private recount(row: number): void {
+    const base = row * (this.cols + 1);
+    for (let c = 0; c < this.cols; c++) {
+      this.counts[base + c + 1] = this.counts[base + c] + this.cells[row * this.cols + c];
+    }
+  }
+}
+
+/**
+ * RASTER NESTING ENGINE
+ */
+export class NestingEngine {
+
+  /**
+   * Nest every part sheet by sheet, largest outline first, on the best-fitting stock
+   * (material, then thickness) still left. Same result shape as the rectangle engine.
+   */
+  static executeOptimization(
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    kerfThickness: number,
+    options: OptimizationOptions = {}
+  ): Results {
+    const rotationStep = options.nesting?.rotationStep || DEFAULT_ROTATION_STEP;
+    const resolution = options.nesting?.resolution || DEFAULT_RESOLUTION;
+    console.log(`🧩 NESTING ENGINE: ${rotationStep}° rotation steps on a ${resolution}mm grid`);
+
+    const stockInventory = InputProcessor.processStockInventory(availableStocks);
+    const instances = MultiSheetOptimizer.expandPartsByQuantity(InputProcessor.processRequiredParts(requiredParts))
+      .sort((a, b) => PolygonGeometry.area(PolygonGeometry.outlineOf(b)) - PolygonGeometry.area(PolygonGeometry.outlineOf(a)));
+
+    // Poses of each part type on each stock, rasterised once
+    const poseCache = new Map<string, Pose[]>();
+    const posesFor = (part: ProcessedPart, slot: number) => {
+      const key = `${part.partIndex}:${slot}`;
+      if (!poseCache.has(key)) {
+        poseCache.set(key, this.buildPoses(part, stockInventory[slot], kerfThickness, rotationStep, resolution));
+      }
+      return poseCache.get(key)!;
+    };
+
+    const fits = instances.map(part => stockInventory.map((stock, slot) =>
+      posesFor(part, slot).length > 0 ? ConstraintProcessor.getStockFit(part, stock, options) : null
+    ));
+    const remaining = stockInventory.map(stock => stock.quantity);
+    const bestFit = (instanceIndex: number) => fits[instanceIndex].reduce<StockFit | null>(
+      (best, fit, slot) => remaining[slot] > 0 && fit && (!best || ConstraintProcessor.compareStockFit(fit, best) < 0) ? fit : best,
+      null
+    );
+
+    let pending = instances.map((_, i) => i);
+    const usedSheets: StockUsage[] = [];
+    let unplacedCount = 0;
+
+    while (pending.length > 0) {
+      // Open the first stock that can take the next part as well as any other could
+      const firstFit = bestFit(pending[0]);
+      const stockSlot = firstFit === null ? -1 : stockInventory.findIndex((_, slot) => {
+        const fit = fits[pending[0]][slot];
+        return remaining[slot] > 0 && fit !== null && ConstraintProcessor.compareStockFit(fit, firstFit) === 0;
+      });
+
+      if (stockSlot < 0) {
+        unplacedCount++;
+        pending.shift();
+        continue;
+      }
+
+      const stock = stockInventory[stockSlot];
+      remaining[stockSlot]--;
+      const usable = getUsableRegion(stock);
+      const grid = this.createGrid(stock, resolution);
+
+      const placements: Placement[] = [];
+      let freeSpaces: FreeSpace[] = FreeSpaceManager.forStock(stock);
+      let usedArea = 0;
+      const stillPending: number[] = [];
+
+      for (const instanceIndex of pending) {
+        const part = instances[instanceIndex];
+        const fit = fits[instanceIndex][stockSlot];
+        const preferred = bestFit(instanceIndex);
+        if (fit === null || (preferred !== null && ConstraintProcessor.compareStockFit(fit, preferred) > 0)) {
+          stillPending.push(instanceIndex);
+          continue;
+        }
+
+        const spot = this.findSpot(posesFor(part, stockSlot), grid, usable, resolution);
+        if (!spot) {
+          stillPending.push(instanceIndex);
+          continue;
+        }
+
+        grid.occupy(spot.pose.footprint, spot.col, spot.row);
+        const x = usable.x + spot.col * resolution;
+        const y = usable.y + spot.row * resolution;
+        placements.push({
+          partId: `Part-${part.instanceId}`,
+          x,
+          y,
+          rotated: Math.round(spot.pose.angle / 90) % 2 === 1,
+          angle: spot.pose.angle,
+          name: part.name || `Part-${part.partIndex}`
+        });
+        usedArea += PolygonGeometry.area(spot.pose.outline);
+        freeSpaces = FreeSpaceManager.placeRectangle(freeSpaces, {
+          x,
+          y,
+          width: spot.pose.width + kerfThickness,
+          height: spot.pose.height + kerfThickness
+        });
+      }
+
+      // A sheet that took nothing would loop forever, so its parts are given up
+      if (placements.length === 0) {
+        unplacedCount++;
+        pending = stillPending.slice(1);
+        remaining[stockSlot]++;
+        continue;
+      }
+
+      console.log(`🧩 Sheet ${usedSheets.length + 1}: nested ${placements.length} parts`);
+      usedSheets.push({
+        sheetId: `Sheet-${usedSheets.length + 1}`,
+        stockIndex: stock.stockIndex,
+        placements,
+        usedArea,
+        wasteArea: (stock.length * stock.width) - usedArea,
+        freeSpaces
+      });
+      options.onProgress?.({ phase: 'layout', sheetsDone: usedSheets.length, bestEfficiency: layoutEfficiency(usedSheets) });
+      pending = stillPending;
+    }
+
+    const totalArea = usedSheets.reduce((sum, sheet) => {
+      const stock = availableStocks[sheet.stockIndex];
+      return sum + stock.length * stock.width;
+    }, 0);
+    const efficiency = totalArea > 0 ? usedSheets.reduce((sum, sheet) => sum + sheet.usedArea, 0) / totalArea * 100 : 0;
+    const materialSubstitutions = ConstraintProcessor.summarizeMaterialSubstitutions(usedSheets, availableStocks, requiredParts, options);
+    const millingOperations = ConstraintProcessor.summarizeMillingOperations(usedSheets, availableStocks, requiredParts, options);
+
+    return {
+      success: unplacedCount === 0,
+      message: unplacedCount === 0
+        ? `✓ Nested placement: ${usedSheets.length} sheets used, ${efficiency.toFixed(1)}% efficiency`
+        : `⚠ Partial placement: ${unplacedCount} parts remaining, additional stock needed`,
+      stockUsage: usedSheets,
+      totalUsedSheets: usedSheets.length,
+      totalWaste: usedSheets.reduce((sum, sheet) => sum + sheet.wasteArea, 0),
+      sortedParts: requiredParts,
+      cutSequences: [],
+      ...(materialSubstitutions.length > 0 && { materialSubstitutions }),
+      ...(millingOperations.length > 0 && { millingOperations })
+    };
+  }
+
+  /**
+   * Angles a part may take on this stock. Grain allows only the turns that keep it
+   * aligned; a plain rectangle only ever needs 0 and 90 degrees.
+   */
+  static allowedAngles(part: ProcessedPart, stock: OptimizedStock, rotationStep: number): number[] {
+    const grainResult = ConstraintProcessor.checkGrainCompatibility(part, stock);
+    if (!grainResult.compatible) return [];
+
+    const hasOutline = !!part.outline && part.outline.points.length >= 3;
+    const grainConstrained = !!part.grainDirection && part.grainDirection.toLowerCase() !== 'any' &&
+      !!stock.grainDirection && stock.grainDirection.toLowerCase() !== 'any';
+
+    if (grainConstrained) {
+      const base = grainResult.placement === 'rotated' ? 90 : 0;
+      return hasOutline ? [base, base + 180] : [base];
+    }
+    if (!hasOutline) {
+      return part.length === part.width ? [0] : [0, 90];
+    }
+
+    const step = Math.max(1, rotationStep);
+    return Array.from({ length: Math.ceil(360 / step) }, (_, i) => i * step).filter(angle => angle < 360);
+  }
+
+  private static buildPoses(
+    part: ProcessedPart,
+    stock: OptimizedStock,
+    kerfThickness: number,
+    rotationStep: number,
+    resolution: number
+  ): Pose[] {
+    const usable = getUsableRegion(stock);
+    const outline = PolygonGeometry.outlineOf(part);
+
+    return this.allowedAngles(part, stock, rotationStep)
+      .map(angle => {
+        const turned = PolygonGeometry.rotate(outline, angle);
+        const box = PolygonGeometry.bounds(turned.points);
+        return { angle, outline: turned, width: box.width, height: box.height };
+      })
+      .filter(pose => pose.width <= usable.width + 0.01 && pose.height <= usable.height + 0.01)
+      .map(pose => ({
+        ...pose,
+        footprint: this.rasterise(pose.outline, 0, resolution),
+        clearance: this.rasterise(pose.outline, kerfThickness, resolution)
+      }));
+  }
+
+  /**
+   * Cells whose interior the outline, grown by margin, reaches into. Growing by a square
+   * rather than a circle keeps it on the safe side; cells that lie deep in a hole stay free.
+   */
+  static rasterise(outline: PartOutline, margin: number, resolution: number): CellSpan[] {
+    const box = PolygonGeometry.bounds(outline.points);
+    const firstCol = Math.floor((box.x - margin) / resolution);
+    const firstRow = Math.floor((box.y - margin) / resolution);
+    const cols = Math.ceil((box.x + box.width + margin) / resolution) - firstCol;
+    const rows = Math.ceil((box.y + box.height + margin) / resolution) - firstRow;
+    const covered = new Uint8Array(cols * rows);
+    const rings = [outline.points, ...(outline.holes || [])];
+
+    // Cells whose centre lies inside the outline, by even-odd scanlines
+    for (let r = 0; r < rows; r++) {
+      const centreY = (firstRow + r + 0.5) * resolution;
+      const crossings: number[] = [];
+      for (const ring of rings) {
+        for (let i = 0; i < ring.length; i++) {
+          const a = ring[i];
+          const b = ring[(i + 1) % ring.length];
+          if ((a.y > centreY) !== (b.y > centreY)) {
+            crossings.push(a.x + (centreY - a.y) * (b.x - a.x) / (b.y - a.y));
+          }
+        }
+      }
+      crossings.sort((a, b) => a - b);
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const from = Math.max(0, Math.ceil(crossings[i] / resolution - 0.5) - firstCol);
+        const to = Math.min(cols - 1, Math.floor(crossings[i + 1] / resolution - 0.5) - firstCol);
+        for (let c = from; c <= to; c++) covered[r * cols + c] = 1;
+      }
+    }
+
+    // Cells an edge passes through, or comes within the margin of
+    for (const ring of rings) {
+      for (let i = 0; i < ring.length; i++) {
+        const a = ring[i];
+        const b = ring[(i + 1) % ring.length];
+        const fromCol = Math.max(0, Math.floor((Math.min(a.x, b.x) - margin) / resolution) - firstCol);
+        const toCol = Math.min(cols - 1, Math.floor((Math.max(a.x, b.x) + margin) / resolution) - firstCol);
+        const fromRow = Math.max(0, Math.floor((Math.min(a.y, b.y) - margin) / resolution) - firstRow);
+        const toRow = Math.min(rows - 1, Math.floor((Math.max(a.y, b.y) + margin) / resolution) - firstRow);
+
+        for (let r = fromRow; r <= toRow; r++) {
+          for (let c = fromCol; c <= toCol; c++) {
+            if (covered[r * cols + c]) continue;
+            const cell = {
+              x: (firstCol + c) * resolution - margin,
+              y: (firstRow + r) * resolution - margin,
+              width: resolution + 2 * margin,
+              height: resolution + 2 * margin
+            };
+            if (this.segmentEntersBox(a, b, cell)) covered[r * cols + c] = 1;
+          }
+        }
+      }
+    }
+
+    const spans: CellSpan[] = [];
+    for (let r = 0; r < rows; r++) {
+      let start = -1;
+      for (let c = 0; c <= cols; c++) {
+        const isCovered = c < cols && covered[r * cols + c] === 1;
+        if (isCovered && start < 0) start = c;
+        if (!isCovered && start >= 0) {
+          spans.push({ row: firstRow + r, start: firstCol + start, end: firstCol + c - 1 });
+          start = -1;
+        }
+      }
+    }
+    return spans;
+  }
+
+  /**
+   * Whether a segment passes through the open interior of a box (Liang-Barsky clipping);
+   * running along an edge or touching a corner does not count
+   */
+  private static segmentEntersBox(a: OutlinePoint, b: OutlinePoint, box: FreeSpace): boolean {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    let t0 = 0;
+    let t1 = 1;
+
+    const clip = (p: number, q: number): boolean => {
+      if (p === 0) return q > 0;
+      const t = q / p;
+      if (p < 0) {
+        if (t >= t1) return false;
+        t0 = Math.max(t0, t);
+      } else {
+        if (t <= t0) return false;
+        t1 = Math.min(t1, t);
+      }
+      return true;
+    };
+
+    return clip(-dx, a.x - box.x) &&
+      clip(dx, box.x + box.width - a.x) &&
+      clip(-dy, a.y - box.y) &&
+      clip(dy, box.y + box.height - a.y) &&
+      t0 < t1;
+  }
+
+  /**
+   * Grid over the usable region with every defect and checked end already taken
+   */
+  private static createGrid(stock: Stock, resolution: number): OccupancyGrid {
+    const usable = getUsableRegion(stock);
+    const grid = new OccupancyGrid(
+      Math.max(1, Math.ceil(usable.width / resolution)),
+      Math.max(1, Math.ceil(usable.height / resolution))
+    );
+
+    getDefectZones(stock).forEach(zone => {
+      const fromCol = Math.max(0, Math.floor((zone.x - usable.x) / resolution));
+      const toCol = Math.min(grid.cols - 1, Math.ceil((zone.x + zone.width - usable.x) / resolution) - 1);
+      const fromRow = Math.max(0, Math.floor((zone.y - usable.y) / resolution));
+      const toRow = Math.min(grid.rows - 1, Math.ceil((zone.y + zone.height - usable.y) / resolution) - 1);
+      const spans: CellSpan[] = [];
+      for (let row = fromRow; row <= toRow; row++) spans.push({ row, start: fromCol, end: toCol });
+      grid.occupy(spans, 0, 0);
+    });
+
+    return grid;
+  }
+
+  /**
+   * Lowest, then leftmost, cell at which some pose's clearance cells are all free
+   */
+  private static findSpot(
+    poses: Pose[],
+    grid: OccupancyGrid,
+    usable: FreeSpace,
+    resolution: number
+  ): { pose: Pose; col: number; row: number } | null {
+    let best: { pose: Pose; col: number; row: number } | null = null;
+
+    for (const pose of poses) {
+      const maxCol = Math.floor((usable.width - pose.width) / resolution + 1e-6);
+      const maxRow = Math.min(
+        Math.floor((usable.height - pose.height) / resolution + 1e-6),
+        best ? best.row : Infinity
+      );
+
+      rows: for (let row = 0; row <= maxRow; row++) {
+        let col = 0;
+        while (col <= maxCol) {
+          if (best && row === best.row && col >= best.col) break;
+          const skipTo = this.blockedUntil(pose.clearance, grid, col, row);
+          if (skipTo < 0) {
+            best = { pose, col, row };
+            break rows;
+          }
+          col = skipTo;
+        }
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * -1 when the pose fits at (col, row); otherwise the next column worth trying, just
+   * past the taken cell that blocks it
+   */
+  private static blockedUntil(spans: CellSpan[], grid: OccupancyGrid, col: number, row: number): number {
+    for (const span of spans) {
+      const r = row + span.row;
+      if (r < 0 || r >= grid.rows) continue;
+      const start = Math.max(0, col + span.start);
+      const end = Math.min(grid.cols - 1, col + span.end);
+      if (start > end) continue;
+
+      const taken = grid.lastTaken(r, start, end);
+      if (taken >= 0) return taken - span.start + 1;
+    }
+    return -1;
+  }
+}
@@ -0,0 +1,139 @@
+// Optimization Profiles - Named trade-offs that choose between candidate layouts
+// A profile weights the measures EfficiencyOptimizer.scoreLayout takes of a layout and
+// sets the objective its runs use. calculateOptimalCuts packs the job a few ways under
+// the profile and keeps the candidate it scores highest.
+
+import { Stock, Part, Results, ObjectiveMode, OptimizationOptions, OptimizationProfileName, ProfileWeights, ProfileScore } from './types';
+import { EfficiencyOptimizer } from './optimized-cutting-engine';
+
+export interface OptimizationProfile {
+  name: OptimizationProfileName;
+  label: string;
+  description: string;
+  objective: ObjectiveMode; // Objective the candidate runs are packed under
+  weights: ProfileWeights;
+}
+
+// Weights of the custom profile until the user sets their own
+export const EQUAL_WEIGHTS: ProfileWeights = { sheets: 1, waste: 1, cuts: 1, remnant: 1, cost: 1 };
+
+export const OPTIMIZATION_PROFILES: OptimizationProfile[] = [
+  {
+    name: 'fewest-sheets',
+    label: 'Fewest sheets',
+    description: 'Open as few sheets as possible',
+    objective: 'efficiency',
+    weights: { sheets: 0.6, waste: 0.3, cuts: 0, remnant: 0.1, cost: 0 }
+  },
+  {
+    name: 'least-waste',
+    label: 'Least waste',
+    description: 'Pack the sheets used as tightly as possible',
+    objective: 'efficiency',
+    weights: { sheets: 0.2, waste: 0.7, cuts: 0.1, remnant: 0, cost: 0 }
+  },
+  {
+    name: 'fewest-cuts',
+    label: 'Fewest cuts',
+    description: 'Line parts up so the saw makes fewer, longer cuts',
+    objective: 'efficiency',
+    weights: { sheets: 0.2, waste: 0.2, cuts: 0.6, remnant: 0, cost: 0 }
+  },
+  {
+    name: 'largest-remnant',
+    label: 'Largest remnant',
+    description: 'Leave the waste in big offcuts worth keeping',
+    objective: 'remnants',
+    weights: { sheets: 0.2, waste: 0.2, cuts: 0, remnant: 0.6, cost: 0 }
+  },
+  {
+    name: 'lowest-cost',
+    label: 'Lowest cost',
+    description: 'Spend the least on the stock used',
+    objective: 'cost',
+    weights: { sheets: 0.1, waste: 0.2, cuts: 0, remnant: 0, cost: 0.7 }
+  },
+  {
+    name: 'custom',
+    label: 'Custom weights',
+    description: 'Weigh sheets, waste, cuts, remnants and cost yourself',
+    objective: 'efficiency',
+    weights: EQUAL_WEIGHTS
+  }
+];
+
+/**
+ * The profile the options ask for, with the custom weights filled in; null without one
+ */
+export function resolveProfile(options: OptimizationOptions): OptimizationProfile | null {
+  const profile = OPTIMIZATION_PROFILES.find(candidate => candidate.name === options.profile);
+  if (!profile) return null;
+
+  return profile.name === 'custom'
+    ? { ...profile, objective: options.objective || profile.objective, weights: options.profileWeights || EQUAL_WEIGHTS }
+    : profile;
+}
+
+/**
+ * Options for each candidate run: both layout modes, and (unless a search makes every
+ * run expensive) the plain efficiency objective beside the profile's own. Without a
+ * profile there is just the one run the options describe.
+ */
+export function profileCandidates(options: OptimizationOptions, searching: boolean): OptimizationOptions[] {
+  const profile = resolveProfile(options);
+  if (!profile) return [options];
+
+  const objectives = Array.from(new Set<ObjectiveMode>(searching ? [profile.objective] : [profile.objective, 'efficiency']));
+  const layoutModes = Array.from(new Set([options.layoutMode || 'standard', 'standard', 'guillotine'] as const));
+
+  return objectives.flatMap(objective => layoutModes.map(layoutMode => ({ ...options, objective, layoutMode })));
+}
+
+/**
+ * Score a layout under the profile the options ask for; null without one
+ */
+export function scoreWithProfile(
+  results: Pick<Results, 'stockUsage'>,
+  availableStocks: Stock[],
+  requiredParts: Part[],
+  kerfThickness: number,
+  options: OptimizationOptions,
+  candidates: number = 1
+): ProfileScore | null {
+  const profile = resolveProfile(options);
+  if (!profile) return null;
+
+  const { measures, score } = EfficiencyOptimizer.scoreLayout(
+    results.stockUsage, availableStocks, requiredParts, kerfThickness, profile.weights, options.minRemnant
+  );
+  return { profile: profile.name, weights: profile.weights, measures, score, candidates };
+}
+
+/**
+ * The candidate that places the most parts, then scores highest under the profile;
+ * the first candidate wins ties
+ */
+export function chooseCandidate(
+  candidates: Results[],
+  availableStocks: Stock[],
+  requiredParts: Part[],
+  kerfThickness: number,
+  options: OptimizationOptions
+): Results {
+  if (candidates.length === 1) return candidates[0];
+
+  const placed = (results: Results) => results.stockUsage.reduce((sum, usage) => sum + usage.placements.length, 0);
+  const scored = candidates.map(results => ({
+    results,
+    placed: placed(results),
+    score: scoreWithProfile(results, availableStocks, requiredParts, kerfThickness, options)?.score ?? 0
+  }));
+
+  const best = scored.reduce((winner, candidate) =>
+    candidate.placed > winner.placed || (candidate.placed === winner.placed && candidate.score > winner.score + 1e-9)
+      ? candidate
+      : winner
+  );
+  console.log(`🎚️ PROFILE ${options.profile}: chose candidate ${scored.indexOf(best) + 1} of ${candidates.length} (score ${best.score.toFixed(1)})`);
+  return best.results;
+}
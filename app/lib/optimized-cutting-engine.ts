@@ -1,7 +1,10 @@
 // Optimized Cutting Engine - Comprehensive 5-Phase Processing Pipeline
 // Implements the fundamental algorithmic principles for professional cutting optimization
 
-import { Stock, Part, Placement, FreeSpace, Results, StockUsage, MaterialType } from './types';
+import { Stock, Part, Placement, FreeSpace, Results, StockUsage, MaterialType, CutTreeNode, OptimizationOptions, MaterialSubstitutionUsage, MillingOperation, ObjectiveMode, ProfileWeights, RemnantSize, getUsableRegion, getDefectZones, layoutEfficiency } from './types';
+import { FreeSpaceManager } from './free-space-manager';
+import { RemnantAnalyzer } from './remnant-analyzer';
+import { PolygonGeometry } from './polygon-geometry';
 
 // ===== PHASE 1: INPUT PROCESSING AND VALIDATION =====
 
@@ -45,6 +48,7 @@ export interface OptimalPlacement {
   wasteArea: number;
   efficiency: number;
   grainCompliant: boolean;
+  largestFreeArea?: number; // Scored under the remnant objective
 }
 
 export interface SheetAnalysis {
@@ -60,10 +64,53 @@ export interface MultiSheetResult {
   usedSheets: StockUsage[];
   remainingStock: OptimizedStock[];
   unplacedParts: ProcessedPart[];
+  unplacedAssemblies: string[]; // Assemblies the assembly constraint kept off the layout
   totalEfficiency: number;
   inventoryUtilization: number;
 }
 
+// How well a stock item suits a part; lower values are better, material first
+export interface StockFit {
+  materialPenalty: number;
+  millingRemoval: number; // mm of thickness to plane or resaw off
+}
+
+export interface SheetLayoutResult {
+  placements: Placement[];
+  freeSpaces: FreeSpace[];
+  usedArea: number;
+  placedPartInstances: string[];
+  cutTree?: CutTreeNode;
+}
+
+interface GuillotinePiece {
+  part: ProcessedPart;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotated: boolean;
+}
+
+interface GuillotineSegment {
+  x: number;
+  width: number;
+  pieces: GuillotinePiece[];
+}
+
+interface GuillotineStrip {
+  y: number;
+  height: number;
+  segments: GuillotineSegment[];
+}
+
+// Milling allowances used to plan and time thicknessing work
+const DEFAULT_THICKNESS_TOLERANCE = 0.5; // mm either way for the 'tolerance' policy
+const PLANER_PASS_DEPTH = 1.5; // mm removed per planer pass
+const RESAW_THRESHOLD = 6; // Excess above this is resawn before planing
+const MINUTES_PER_PLANER_PASS = 1;
+const MINUTES_PER_RESAW = 3;
+
 /**
  * PHASE 1: INPUT PROCESSING AND VALIDATION
  */
@@ -136,7 +183,10 @@ export class InputProcessor {
    */
   static validateCompatibility(stock: OptimizedStock[], parts: ProcessedPart[]): ValidationResult {
     const totalPartsArea = parts.reduce((sum, part) => sum + part.totalArea, 0);
-    const totalAvailableArea = stock.reduce((sum, s) => sum + (s.length * s.width * s.quantity), 0);
+    const totalAvailableArea = stock.reduce((sum, s) => {
+      const usable = getUsableRegion(s);
+      return sum + (usable.width * usable.height * s.quantity);
+    }, 0);
     
     if (totalPartsArea > totalAvailableArea) {
       const shortfall = totalPartsArea - totalAvailableArea;
@@ -207,8 +257,9 @@ export class ConstraintProcessor {
         thickness: part.thickness
       };
 
-      // Verify rotated part still fits within stock boundaries
-      if (rotatedDimensions.length <= stock.length && rotatedDimensions.width <= stock.width) {
+      // Verify rotated part still fits within the usable (trimmed) stock area
+      const usable = getUsableRegion(stock);
+      if (rotatedDimensions.length <= usable.width && rotatedDimensions.width <= usable.height) {
         return {
           compatible: true,
           placement: 'rotated',
@@ -231,17 +282,203 @@ export class ConstraintProcessor {
   static validateSpaceConstraints(
     part: ProcessedPart, 
     stock: OptimizedStock, 
-    grainResult: GrainCompatibilityResult
+    grainResult: GrainCompatibilityResult,
+    options: OptimizationOptions = {}
   ): boolean {
     if (!grainResult.compatible) return false;
 
-    const { length, width, thickness } = grainResult.dimensions;
+    const { length, width } = grainResult.dimensions;
     
-    // Check thickness compatibility
-    if (thickness > stock.thickness) return false;
+    // Check thickness compatibility against the project's thickness policy
+    if (this.getThicknessRemoval(part, stock, options) === null) return false;
     
-    // Check dimensional compatibility
-    return length <= stock.length && width <= stock.width;
+    // Check dimensional compatibility against the usable (trimmed) area
+    const usable = getUsableRegion(stock);
+    return length <= usable.width && width <= usable.height;
+  }
+
+  /**
+   * Check material compatibility (HARD CONSTRAINT).
+   * Returns 0 for a direct match, the substitution penalty when the substitution table
+   * allows the stock material, or null when the part may not be cut from this stock.
+   */
+  static getMaterialPenalty(part: Part, stock: Stock, options: OptimizationOptions = {}): number | null {
+    const partMaterial = part.material?.trim().toLowerCase();
+    const stockMaterial = stock.material?.trim().toLowerCase();
+
+    // A part or stock without a material matches anything
+    if (!partMaterial || !stockMaterial || partMaterial === stockMaterial) return 0;
+
+    const substitution = (options.materialSubstitutions || []).find(sub =>
+      sub.partMaterial.trim().toLowerCase() === partMaterial &&
+      sub.stockMaterial.trim().toLowerCase() === stockMaterial
+    );
+    if (substitution) return Math.max(0, substitution.penalty || 0);
+
+    return options.materialMatching === 'any' ? 0 : null;
+  }
+
+  /**
+   * Check thickness compatibility under the thickness policy.
+   * Returns the mm to mill off (0 when the stock can be used as is),
+   * or null when the stock thickness is not allowed for this part.
+   */
+  static getThicknessRemoval(part: Part, stock: Stock, options: OptimizationOptions = {}): number | null {
+    const policy = options.thicknessPolicy || 'mill';
+    const tolerance = Math.max(0, options.thicknessTolerance ??
+      (policy === 'tolerance' ? DEFAULT_THICKNESS_TOLERANCE : 0));
+    const excess = stock.thickness - part.thickness;
+
+    if (policy === 'exact') return Math.abs(excess) <= 0.01 ? 0 : null;
+    if (Math.abs(excess) <= tolerance + 0.01) return 0;
+    return policy === 'mill' && excess > 0 ? excess : null;
+  }
+
+  /**
+   * Combined material and thickness fit of a part on a stock item, null if not allowed
+   */
+  static getStockFit(part: Part, stock: Stock, options: OptimizationOptions = {}): StockFit | null {
+    const materialPenalty = this.getMaterialPenalty(part, stock, options);
+    const millingRemoval = this.getThicknessRemoval(part, stock, options);
+    if (materialPenalty === null || millingRemoval === null) return null;
+    if (this.requiresRip(part, stock) && !options.ripDimensional) return null;
+    return { materialPenalty, millingRemoval };
+  }
+
+  /**
+   * Check whether cutting the part from this stock needs a rip: crosscutting a
+   * dimensional board only gives parts as wide as the board itself
+   */
+  static requiresRip(part: Part, stock: Stock): boolean {
+    if (stock.materialType !== MaterialType.Dimensional) return false;
+    return Math.abs(part.width - stock.width) > 0.01 && Math.abs(part.length - stock.width) > 0.01;
+  }
+
+  static compareStockFit(a: StockFit, b: StockFit): number {
+    return (a.materialPenalty - b.materialPenalty) || (a.millingRemoval - b.millingRemoval);
+  }
+
+  /**
+   * Check that no other open stock suits the part better, so substitutes and
+   * stock that needs milling are only used once better stock has run out
+   */
+  static isPreferredStock(
+    part: Part,
+    stock: Stock,
+    openStocks: Stock[],
+    options: OptimizationOptions = {}
+  ): boolean {
+    const fit = this.getStockFit(part, stock, options);
+    if (!fit) return false;
+    if (fit.materialPenalty === 0 && fit.millingRemoval === 0) return true;
+
+    return !openStocks.some(other => {
+      const otherFit = this.getStockFit(part, other, options);
+      return otherFit !== null && this.compareStockFit(otherFit, fit) < 0;
+    });
+  }
+
+  /**
+   * Estimate milling time for one part: resaw off the bulk when the excess is large,
+   * then plane down in passes
+   */
+  static estimateMillingMinutes(removal: number): number {
+    if (removal <= 0) return 0;
+    const resaw = removal > RESAW_THRESHOLD;
+    const planed = resaw ? Math.min(removal, RESAW_THRESHOLD / 2) : removal;
+    const passes = Math.ceil(planed / PLANER_PASS_DEPTH);
+    return (resaw ? MINUTES_PER_RESAW : 0) + passes * MINUTES_PER_PLANER_PASS;
+  }
+
+  /**
+   * List the thicknessing work for parts placed on thicker stock, per sheet and part
+   */
+  static summarizeMillingOperations(
+    stockUsage: StockUsage[],
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    options: OptimizationOptions = {}
+  ): MillingOperation[] {
+    const operations: MillingOperation[] = [];
+
+    stockUsage.forEach(usage => {
+      const stock = availableStocks[usage.stockIndex];
+      const bySheetPart = new Map<number, MillingOperation>();
+
+      usage.placements.forEach(placement => {
+        const partIndex = parseInt(placement.partId.split('-')[1]);
+        const part = requiredParts[partIndex];
+        if (!part || !stock) return;
+
+        const removal = this.getThicknessRemoval(part, stock, options);
+        if (!removal) return;
+
+        const existing = bySheetPart.get(partIndex);
+        const minutes = this.estimateMillingMinutes(removal);
+        if (existing) {
+          existing.quantity++;
+          existing.estimatedMinutes += minutes;
+          return;
+        }
+
+        const operation: MillingOperation = {
+          sheetId: usage.sheetId,
+          stockIndex: usage.stockIndex,
+          partIndex,
+          partName: part.name,
+          quantity: 1,
+          fromThickness: stock.thickness,
+          toThickness: part.thickness,
+          method: removal > RESAW_THRESHOLD ? 'resaw' : 'plane',
+          estimatedMinutes: minutes
+        };
+        bySheetPart.set(partIndex, operation);
+        operations.push(operation);
+      });
+    });
+
+    return operations;
+  }
+
+  /**
+   * List every part that ended up on stock of a different material
+   */
+  static summarizeMaterialSubstitutions(
+    stockUsage: StockUsage[],
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    options: OptimizationOptions = {}
+  ): MaterialSubstitutionUsage[] {
+    const summary = new Map<string, MaterialSubstitutionUsage>();
+
+    stockUsage.forEach(usage => {
+      const stock = availableStocks[usage.stockIndex];
+      usage.placements.forEach(placement => {
+        const partIndex = parseInt(placement.partId.split('-')[1]);
+        const part = requiredParts[partIndex];
+        if (!part || !stock || !part.material || !stock.material) return;
+        if (part.material.trim().toLowerCase() === stock.material.trim().toLowerCase()) return;
+
+        const key = `${partIndex}:${usage.stockIndex}`;
+        const existing = summary.get(key);
+        if (existing) {
+          existing.quantity++;
+          return;
+        }
+
+        summary.set(key, {
+          partIndex,
+          partName: part.name,
+          partMaterial: part.material,
+          stockIndex: usage.stockIndex,
+          stockMaterial: stock.material,
+          quantity: 1,
+          penalty: this.getMaterialPenalty(part, stock, options) ?? 0
+        });
+      });
+    });
+
+    return Array.from(summary.values());
   }
 
   /**
@@ -291,7 +528,8 @@ export class PlacementEngine {
     freeSpaces: FreeSpace[],
     kerfThickness: number,
     grainResult: GrainCompatibilityResult,
-    allParts: ProcessedPart[] = []
+    allParts: ProcessedPart[] = [],
+    objective: ObjectiveMode = 'efficiency'
   ): OptimalPlacement | null {
     
     if (!grainResult.compatible) return null;
@@ -382,12 +620,20 @@ export class PlacementEngine {
               name: part.name || `Part-${part.partIndex}`
             };
 
+            // Remnant objective: keep the leftover area in one piece for as long as possible
+            const largestFreeArea = objective === 'remnants'
+              ? RemnantAnalyzer.largestFreeArea(FreeSpaceManager.placeRectangle(freeSpaces, {
+                x: testPosition.x, y: testPosition.y, width: requiredWidth, height: requiredHeight
+              }))
+              : undefined;
+
             placementOptions.push({
               placement,
               spaceIndex,
               wasteArea,
               efficiency: efficiency + (positionScore / 1000), // Small bonus for grid alignment
-              grainCompliant: true
+              grainCompliant: true,
+              largestFreeArea
             });
           }
         }
@@ -397,6 +643,10 @@ export class PlacementEngine {
     // Return best placement (maximize efficiency, minimize waste)
     if (placementOptions.length > 0) {
       return placementOptions.sort((a, b) => {
+        // Under the remnant objective the biggest remaining offcut wins
+        if (objective === 'remnants' && Math.abs((a.largestFreeArea || 0) - (b.largestFreeArea || 0)) > 1) {
+          return (b.largestFreeArea || 0) - (a.largestFreeArea || 0);
+        }
         // Prioritize higher efficiency
         if (Math.abs(a.efficiency - b.efficiency) > 0.01) {
           return b.efficiency - a.efficiency;
@@ -435,17 +685,16 @@ export class PlacementEngine {
       // Find the part to get actual dimensions
       const part = allParts.find(p => p.partIndex === partIndex);
       
-      let existingWidth, existingHeight;
-      if (part) {
-        // Use actual part dimensions, accounting for rotation
-        existingWidth = existing.rotated ? part.width : part.length;
-        existingHeight = existing.rotated ? part.length : part.width;
-      } else {
-        // Fallback - conservative collision detection
-        existingWidth = 200; // Conservative estimate
-        existingHeight = 200;
+      // A placement whose size cannot be looked up could cover anything, so it blocks
+      if (!part) {
+        console.warn(`⚠️ COLLISION: no part found for ${existing.partId}, treating its spot as taken`);
+        return true;
       }
 
+      // Use actual part dimensions, accounting for rotation
+      const existingWidth = existing.rotated ? part.width : part.length;
+      const existingHeight = existing.rotated ? part.length : part.width;
+
       const existingLeft = existing.x;
       const existingRight = existing.x + existingWidth + kerfThickness;
       const existingTop = existing.y;
@@ -460,91 +709,365 @@ export class PlacementEngine {
   }
 
   /**
-   * Update free spaces after placement using improved guillotine method for rectangular packing
+   * Update free spaces after placement using maximal-rectangles tracking.
+   * Every free space the part (plus kerf) overlaps is split, not only the one it was
+   * placed in, so narrow leftovers stay available for small parts later in the list.
+   * The part's own length and width are given; a rotated placement turns them round.
    */
   static updateFreeSpaces(
     freeSpaces: FreeSpace[],
     usedSpaceIndex: number,
     partDimensions: { length: number; width: number },
-    placement: { x: number; y: number },
+    placement: { x: number; y: number; rotated?: boolean },
     kerfThickness: number
   ): FreeSpace[] {
-    const newSpaces = [...freeSpaces];
-    const usedSpace = newSpaces[usedSpaceIndex];
-
-    // Remove used space
-    newSpaces.splice(usedSpaceIndex, 1);
-
-    const partWidth = partDimensions.length + kerfThickness;
-    const partHeight = partDimensions.width + kerfThickness;
-
-    // Create new spaces using improved guillotine split for better rectangular packing
-    const splitSpaces: FreeSpace[] = [];
-
-    // Right space (only if significant width remains)
-    if (usedSpace.x + usedSpace.width > placement.x + partWidth) {
-      const rightWidth = (usedSpace.x + usedSpace.width) - (placement.x + partWidth);
-      if (rightWidth > partWidth * 0.5) { // Only create if reasonably sized
-        splitSpaces.push({
-          x: placement.x + partWidth,
-          y: usedSpace.y,
-          width: rightWidth,
-          height: usedSpace.height
-        });
-      }
+    const newSpaces = FreeSpaceManager.placeRectangle(freeSpaces, {
+      x: placement.x,
+      y: placement.y,
+      width: (placement.rotated ? partDimensions.width : partDimensions.length) + kerfThickness,
+      height: (placement.rotated ? partDimensions.length : partDimensions.width) + kerfThickness
+    });
+
+    // Sort spaces to prioritize bottom-left positioning for next placement
+    newSpaces.sort((a, b) => {
+      if (Math.abs(a.y - b.y) > 1) return a.y - b.y;
+      if (Math.abs(a.x - b.x) > 1) return a.x - b.x;
+      return (b.width * b.height) - (a.width * a.height); // Larger spaces first if same position
+    });
+
+    return newSpaces;
+  }
+}
+
+/**
+ * PHASE 3 (GUILLOTINE MODE): THREE-STAGE PANEL-SAW PLACEMENT
+ * Stage 1 rips the sheet into full-length strips, stage 2 crosscuts each strip
+ * into segments and stage 3 trims stacked parts out of each segment.
+ */
+export class GuillotinePlacementEngine {
+
+  /**
+   * Lay out parts on a single sheet using only edge-to-edge cuts
+   */
+  static layoutSheet(
+    compatibleParts: ProcessedPart[],
+    stock: OptimizedStock,
+    kerfThickness: number
+  ): SheetLayoutResult {
+    const region = this.getCuttingRegion(stock);
+    const defects = getDefectZones(stock);
+    const regionRight = region.x + region.width;
+    const regionBottom = region.y + region.height;
+    const strips: GuillotineStrip[] = [];
+
+    // Tallest strip requirement first so later strips can only get narrower
+    const candidates = compatibleParts
+      .filter(part => part.quantity > 0)
+      .map(part => ({
+        part,
+        orientations: this.getOrientations(part, stock)
+          .filter(o => o.width <= region.width && o.height <= region.height)
+      }))
+      .filter(candidate => candidate.orientations.length > 0)
+      .sort((a, b) => {
+        const heightA = Math.min(...a.orientations.map(o => o.height));
+        const heightB = Math.min(...b.orientations.map(o => o.height));
+        if (Math.abs(heightA - heightB) > 0.01) return heightB - heightA;
+        return (b.part.length * b.part.width) - (a.part.length * a.part.width);
+      });
+
+    for (const { part, orientations } of candidates) {
+      if (this.stackIntoSegment(part, orientations, strips, defects, kerfThickness)) continue;
+      if (this.openSegment(part, orientations, strips, regionRight, defects, kerfThickness)) continue;
+      if (this.openStrip(part, orientations, strips, region, regionBottom, defects, kerfThickness)) continue;
+
+      console.log(`[GUILLOTINE] ❌ Could not place part ${part.instanceId || part.partIndex} (${part.length}x${part.width})`);
     }
 
-    // Bottom space (prioritize this for better grid packing)
-    if (usedSpace.y + usedSpace.height > placement.y + partHeight) {
-      const bottomHeight = (usedSpace.y + usedSpace.height) - (placement.y + partHeight);
-      if (bottomHeight > partHeight * 0.5) { // Only create if reasonably sized
-        splitSpaces.push({
-          x: usedSpace.x,
-          y: placement.y + partHeight,
-          width: usedSpace.width,
-          height: bottomHeight
-        });
-      }
+    return this.buildLayout(strips, stock, region, defects, kerfThickness);
+  }
+
+  /**
+   * Usable region with any end checks crosscut off first, like extra edge trim
+   */
+  private static getCuttingRegion(stock: OptimizedStock): FreeSpace {
+    const region = getUsableRegion(stock);
+    const start = Math.max(region.x, stock.endChecks?.start || 0);
+    const end = Math.min(region.x + region.width, stock.length - (stock.endChecks?.end || 0));
+    return { ...region, x: start, width: Math.max(0, end - start) };
+  }
+
+  /**
+   * Check that a piece and its kerf stay clear of every defect zone
+   */
+  private static clearOfDefects(
+    defects: FreeSpace[],
+    x: number,
+    y: number,
+    orientation: { width: number; height: number },
+    kerfThickness: number
+  ): boolean {
+    const occupied = { x, y, width: orientation.width + kerfThickness, height: orientation.height + kerfThickness };
+    return !defects.some(defect => FreeSpaceManager.intersects(defect, occupied));
+  }
+
+  /**
+   * Orientations allowed for a part: the grain-compliant one, plus the rotated
+   * one when neither the part nor the stock constrains grain
+   */
+  private static getOrientations(
+    part: ProcessedPart,
+    stock: OptimizedStock
+  ): Array<{ width: number; height: number; rotated: boolean }> {
+    const grainResult = ConstraintProcessor.checkGrainCompatibility(part, stock);
+    if (!grainResult.compatible) return [];
+
+    const hasPartGrainConstraint = part.grainDirection && part.grainDirection.toLowerCase() !== 'any';
+    const hasStockGrainConstraint = stock.grainDirection && stock.grainDirection.toLowerCase() !== 'any';
+
+    const primary = {
+      width: grainResult.dimensions.length,
+      height: grainResult.dimensions.width,
+      rotated: grainResult.placement === 'rotated'
+    };
+
+    if ((hasPartGrainConstraint && hasStockGrainConstraint) || part.length === part.width) {
+      return [primary];
     }
 
-    // Left space (only if placement isn't at left edge)
-    if (placement.x > usedSpace.x) {
-      const leftWidth = placement.x - usedSpace.x;
-      if (leftWidth > partWidth * 0.5) { // Only create if reasonably sized
-        splitSpaces.push({
-          x: usedSpace.x,
-          y: usedSpace.y,
-          width: leftWidth,
-          height: usedSpace.height
-        });
+    return [primary, { width: primary.height, height: primary.width, rotated: !primary.rotated }];
+  }
+
+  /**
+   * Stage 3 reuse: stack the part under an existing segment of the same width
+   */
+  private static stackIntoSegment(
+    part: ProcessedPart,
+    orientations: Array<{ width: number; height: number; rotated: boolean }>,
+    strips: GuillotineStrip[],
+    defects: FreeSpace[],
+    kerfThickness: number
+  ): boolean {
+    let best: { segment: GuillotineSegment; orientation: typeof orientations[number]; y: number; leftover: number } | null = null;
+
+    for (const strip of strips) {
+      for (const segment of strip.segments) {
+        const last = segment.pieces[segment.pieces.length - 1];
+        const y = last.y + last.height + kerfThickness;
+
+        for (const orientation of orientations) {
+          if (Math.abs(orientation.width - segment.width) > 0.01) continue;
+          const leftover = (strip.y + strip.height) - (y + orientation.height);
+          if (leftover < -0.01) continue;
+          if (!this.clearOfDefects(defects, segment.x, y, orientation, kerfThickness)) continue;
+          if (!best || leftover < best.leftover) {
+            best = { segment, orientation, y, leftover };
+          }
+        }
       }
     }
 
-    // Top space (only if placement isn't at top edge)
-    if (placement.y > usedSpace.y) {
-      const topHeight = placement.y - usedSpace.y;
-      if (topHeight > partHeight * 0.5) { // Only create if reasonably sized
-        splitSpaces.push({
-          x: usedSpace.x,
-          y: usedSpace.y,
-          width: usedSpace.width,
-          height: topHeight
-        });
+    if (!best) return false;
+
+    best.segment.pieces.push({
+      part,
+      x: best.segment.x,
+      y: best.y,
+      width: best.orientation.width,
+      height: best.orientation.height,
+      rotated: best.orientation.rotated
+    });
+    return true;
+  }
+
+  /**
+   * Stage 2: crosscut a new segment off the end of an existing strip
+   */
+  private static openSegment(
+    part: ProcessedPart,
+    orientations: Array<{ width: number; height: number; rotated: boolean }>,
+    strips: GuillotineStrip[],
+    regionRight: number,
+    defects: FreeSpace[],
+    kerfThickness: number
+  ): boolean {
+    let best: { strip: GuillotineStrip; orientation: typeof orientations[number]; x: number; trimWaste: number } | null = null;
+
+    for (const strip of strips) {
+      const lastSegment = strip.segments[strip.segments.length - 1];
+      const x = lastSegment.x + lastSegment.width + kerfThickness;
+
+      for (const orientation of orientations) {
+        if (orientation.height > strip.height + 0.01) continue;
+        if (x + orientation.width > regionRight + 0.01) continue;
+        if (!this.clearOfDefects(defects, x, strip.y, orientation, kerfThickness)) continue;
+
+        // Prefer the strip the part fills most completely across its height
+        const trimWaste = (strip.height - orientation.height) * orientation.width;
+        if (!best || trimWaste < best.trimWaste) {
+          best = { strip, orientation, x, trimWaste };
+        }
       }
     }
 
-    // Filter out invalid spaces and merge small adjacent spaces
-    const validSpaces = splitSpaces.filter(space => space.width > 0.1 && space.height > 0.1);
-    newSpaces.push(...validSpaces);
+    if (!best) return false;
+
+    best.strip.segments.push({
+      x: best.x,
+      width: best.orientation.width,
+      pieces: [{
+        part,
+        x: best.x,
+        y: best.strip.y,
+        width: best.orientation.width,
+        height: best.orientation.height,
+        rotated: best.orientation.rotated
+      }]
+    });
+    return true;
+  }
 
-    // Sort spaces to prioritize bottom-left positioning for next placement
-    newSpaces.sort((a, b) => {
-      if (Math.abs(a.y - b.y) > 1) return a.y - b.y;
-      if (Math.abs(a.x - b.x) > 1) return a.x - b.x;
-      return (b.width * b.height) - (a.width * a.height); // Larger spaces first if same position
+  /**
+   * Stage 1: rip a new full-length strip sized to the part
+   */
+  private static openStrip(
+    part: ProcessedPart,
+    orientations: Array<{ width: number; height: number; rotated: boolean }>,
+    strips: GuillotineStrip[],
+    region: { x: number; y: number; width: number; height: number },
+    regionBottom: number,
+    defects: FreeSpace[],
+    kerfThickness: number
+  ): boolean {
+    const lastStrip = strips[strips.length - 1];
+    const y = lastStrip ? lastStrip.y + lastStrip.height + kerfThickness : region.y;
+
+    // The lowest orientation keeps the most material for later strips
+    const orientation = [...orientations]
+      .filter(o => y + o.height <= regionBottom + 0.01)
+      .filter(o => this.clearOfDefects(defects, region.x, y, o, kerfThickness))
+      .sort((a, b) => a.height - b.height || a.width - b.width)[0];
+
+    if (!orientation) return false;
+
+    strips.push({
+      y,
+      height: orientation.height,
+      segments: [{
+        x: region.x,
+        width: orientation.width,
+        pieces: [{
+          part,
+          x: region.x,
+          y,
+          width: orientation.width,
+          height: orientation.height,
+          rotated: orientation.rotated
+        }]
+      }]
     });
+    return true;
+  }
 
-    return newSpaces;
+  /**
+   * Convert the strip structure into placements, free spaces and the cut tree
+   */
+  private static buildLayout(
+    strips: GuillotineStrip[],
+    stock: OptimizedStock,
+    region: { x: number; y: number; width: number; height: number },
+    defects: FreeSpace[],
+    kerfThickness: number
+  ): SheetLayoutResult {
+    const placements: Placement[] = [];
+    let freeSpaces: FreeSpace[] = [];
+    const placedPartInstances: string[] = [];
+    let usedArea = 0;
+
+    const cutTree: CutTreeNode = {
+      stage: 0,
+      ...region,
+      children: []
+    };
+
+    for (const strip of strips) {
+      const stripNode: CutTreeNode = {
+        stage: 1,
+        x: region.x,
+        y: strip.y,
+        width: region.width,
+        height: strip.height,
+        children: []
+      };
+
+      for (const segment of strip.segments) {
+        const segmentNode: CutTreeNode = {
+          stage: 2,
+          x: segment.x,
+          y: strip.y,
+          width: segment.width,
+          height: strip.height,
+          children: []
+        };
+
+        for (const piece of segment.pieces) {
+          const uniqueId = piece.part.instanceId || `${piece.part.partIndex}-${placedPartInstances.length}`;
+          const partId = `Part-${uniqueId}`;
+
+          placements.push({
+            partId,
+            x: piece.x,
+            y: piece.y,
+            rotated: piece.rotated,
+            name: piece.part.name || `Part-${piece.part.partIndex}`
+          });
+          placedPartInstances.push(uniqueId);
+          usedArea += piece.width * piece.height;
+
+          segmentNode.children.push({
+            stage: 3,
+            x: piece.x,
+            y: piece.y,
+            width: piece.width,
+            height: piece.height,
+            partId,
+            children: []
+          });
+        }
+
+        // Offcut left below the last stacked part in this segment
+        const last = segment.pieces[segment.pieces.length - 1];
+        const belowY = last.y + last.height + kerfThickness;
+        if (strip.y + strip.height - belowY > 0.1) {
+          freeSpaces.push({ x: segment.x, y: belowY, width: segment.width, height: strip.y + strip.height - belowY });
+        }
+
+        stripNode.children.push(segmentNode);
+      }
+
+      // Offcut left at the end of the strip
+      const lastSegment = strip.segments[strip.segments.length - 1];
+      const endX = lastSegment.x + lastSegment.width + kerfThickness;
+      if (region.x + region.width - endX > 0.1) {
+        freeSpaces.push({ x: endX, y: strip.y, width: region.x + region.width - endX, height: strip.height });
+      }
+
+      cutTree.children.push(stripNode);
+    }
+
+    // Offcut left after the last strip
+    const lastStrip = strips[strips.length - 1];
+    const bottomY = lastStrip ? lastStrip.y + lastStrip.height + kerfThickness : region.y;
+    if (region.y + region.height - bottomY > 0.1) {
+      freeSpaces.push({ x: region.x, y: bottomY, width: region.width, height: region.y + region.height - bottomY });
+    }
+
+    // Offcuts never include defective material
+    freeSpaces = defects.reduce((spaces, defect) => FreeSpaceManager.placeRectangle(spaces, defect), freeSpaces);
+
+    console.log(`[GUILLOTINE] Placed ${placements.length} parts in ${strips.length} strips`);
+
+    return { placements, freeSpaces, usedArea, placedPartInstances, cutTree };
   }
 }
 
@@ -578,12 +1101,14 @@ export class MultiSheetOptimizer {
   static optimizeAcrossSheets(
     parts: ProcessedPart[],
     stockInventory: OptimizedStock[],
-    kerfThickness: number
+    kerfThickness: number,
+    options: OptimizationOptions = {}
   ): MultiSheetResult {
     const results: MultiSheetResult = {
       usedSheets: [],
       remainingStock: [...stockInventory],
       unplacedParts: [...parts],
+      unplacedAssemblies: [],
       totalEfficiency: 0,
       inventoryUtilization: 0
     };
@@ -591,84 +1116,91 @@ export class MultiSheetOptimizer {
     // Calculate total available sheets at the start for strategic distribution
     const totalAvailableSheets = stockInventory.reduce((sum, stock) => sum + stock.originalQuantity, 0);
 
+    // Same-stock assemblies are pinned to the stock item their first part is cut from
+    const assemblyStocks = new Map<string, number>();
+    const placedParts = new Map<string, ProcessedPart>();
+
+    if (options.objective === 'cost') {
+      const unpriced = stockInventory.filter(stock => stock.unitCost === undefined);
+      if (unpriced.length > 0) {
+        console.warn(`⚠️ COST: ${unpriced.length} stock item(s) have no price, so the cost comparison is incomplete; they are used only after priced stock`);
+      }
+    }
+
     // Process each available sheet - loop until no more parts or no more sheets
     let sheetsProcessed = 0;
     const maxSheets = totalAvailableSheets;
     
     while (results.unplacedParts.length > 0 && sheetsProcessed < maxSheets) {
-      let sheetUsedThisRound = false;
-      
-      // Try each stock type that has remaining quantity
+      // Take the first stock type that holds any of the remaining parts, or under the
+      // cost objective the one whose layout buys placed area at the lowest price
+      let chosen: { stock: OptimizedStock; sheetResult: SheetLayoutResult } | null = null;
+
       for (const stock of stockInventory) {
-        if (results.unplacedParts.length === 0) break;
         if (stock.remainingQuantity <= 0) continue;
 
-        console.log(`[MULTI-SHEET] Processing stock ${stock.stockIndex}, ${results.unplacedParts.length} parts remaining, remaining quantity: ${stock.remainingQuantity}`);
+        const sheetResult = this.layoutNextSheet(stock, results.unplacedParts, stockInventory, kerfThickness, totalAvailableSheets, assemblyStocks, options);
+        if (!sheetResult) continue;
 
-        // Find compatible parts for this sheet
-        const compatibleParts = results.unplacedParts.filter(part => {
-          const grainResult = ConstraintProcessor.checkGrainCompatibility(part, stock);
-          const spaceValid = ConstraintProcessor.validateSpaceConstraints(part, stock, grainResult);
-          
-          return grainResult.compatible && spaceValid;
-        });
-
-        console.log(`[MULTI-SHEET] Found ${compatibleParts.length} compatible parts for this sheet`);
-
-        if (compatibleParts.length > 0) {
-          // MULTI-SHEET DISTRIBUTION FIX: Strategic part distribution instead of greedy placement
-          // Limit parts per sheet to encourage distribution across multiple sheets
-          const strategicParts = this.calculateStrategicPartDistribution(
-            compatibleParts, 
-            stock, 
-            results.unplacedParts.length,
-            totalAvailableSheets
-          );
-
-          console.log(`[MULTI-SHEET] Strategic distribution selected ${strategicParts.length} of ${compatibleParts.length} parts for optimal multi-sheet layout`);
-
-          const sheetResult = this.optimizeSheetLayout(strategicParts, stock, kerfThickness);
-          
-          if (sheetResult.placements.length > 0) {
-            // Create sheet usage record
-            const sheetUsage: StockUsage = {
-              stockIndex: stock.stockIndex,
-              sheetId: `Sheet-${results.usedSheets.length + 1}`,
-              placements: sheetResult.placements,
-              freeSpaces: sheetResult.freeSpaces,
-              usedArea: sheetResult.usedArea,
-              wasteArea: (stock.length * stock.width) - sheetResult.usedArea
-            };
-
-            results.usedSheets.push(sheetUsage);
-
-            // Update remaining stock
-            stock.remainingQuantity--;
-            sheetUsedThisRound = true;
-            sheetsProcessed++;
-
-            // Remove placed parts from unplaced list (for expanded parts, remove individual instances)
-            sheetResult.placedPartInstances.forEach(instanceId => {
-              const placedPartIndex = results.unplacedParts.findIndex(p => 
-                (p.instanceId && p.instanceId === instanceId) || 
-                (!p.instanceId && instanceId.startsWith(`${p.partIndex}-`))
-              );
-              if (placedPartIndex >= 0) {
-                results.unplacedParts.splice(placedPartIndex, 1); // Remove the specific instance
-              }
-            });
-            
-            // Break out of stock loop to try next iteration with remaining parts
-            break;
-          }
+        if (options.objective !== 'cost') {
+          chosen = { stock, sheetResult };
+          break;
+        }
+        if (!chosen || this.costPerPlacedArea(stock, sheetResult) < this.costPerPlacedArea(chosen.stock, chosen.sheetResult) - 1e-12) {
+          chosen = { stock, sheetResult };
         }
       }
-      
+
       // If no sheet was used this round, break to avoid infinite loop
-      if (!sheetUsedThisRound) {
+      if (!chosen) {
         console.log(`[MULTI-SHEET] No compatible sheets found for remaining ${results.unplacedParts.length} parts`);
         break;
       }
+
+      const { stock, sheetResult } = chosen;
+
+      // Create sheet usage record
+      const sheetUsage: StockUsage = {
+        stockIndex: stock.stockIndex,
+        sheetId: `Sheet-${results.usedSheets.length + 1}`,
+        placements: sheetResult.placements,
+        freeSpaces: sheetResult.freeSpaces,
+        usedArea: sheetResult.usedArea,
+        wasteArea: (stock.length * stock.width) - sheetResult.usedArea
+      };
+      if (sheetResult.cutTree) {
+        sheetUsage.cutTree = sheetResult.cutTree;
+      }
+
+      results.usedSheets.push(sheetUsage);
+      options.onProgress?.({ phase: 'layout', sheetsDone: results.usedSheets.length, bestEfficiency: layoutEfficiency(results.usedSheets) });
+
+      // Update remaining stock
+      stock.remainingQuantity--;
+      sheetsProcessed++;
+
+      // Remove placed parts from unplaced list (for expanded parts, remove individual instances)
+      sheetResult.placedPartInstances.forEach(instanceId => {
+        const placedPartIndex = results.unplacedParts.findIndex(p => 
+          (p.instanceId && p.instanceId === instanceId) || 
+          (!p.instanceId && instanceId.startsWith(`${p.partIndex}-`))
+        );
+        if (placedPartIndex >= 0) {
+          const [placed] = results.unplacedParts.splice(placedPartIndex, 1); // Remove the specific instance
+          placedParts.set(instanceId, placed);
+          const assembly = this.assemblyOf(placed, options);
+          if (assembly && !assemblyStocks.has(assembly)) assemblyStocks.set(assembly, stock.stockIndex);
+        }
+      });
+    }
+
+    // An assembly only partly cut from its stock item is taken off the layout as a whole
+    results.unplacedAssemblies = Array.from(new Set(
+      results.unplacedParts.map(part => this.assemblyOf(part, options)).filter(Boolean)
+    ));
+    if (results.unplacedAssemblies.length > 0) {
+      console.log(`[MULTI-SHEET] ⚠ Assembly constraint not met for: ${results.unplacedAssemblies.join(', ')}`);
+      this.removeAssemblies(results, new Set(results.unplacedAssemblies), placedParts, stockInventory, kerfThickness, options);
     }
 
     // Calculate final metrics
@@ -678,26 +1210,213 @@ export class MultiSheetOptimizer {
     return results;
   }
 
+  /**
+   * Lay out one more sheet of the given stock from the parts that belong on it,
+   * or null when none of the remaining parts can be placed there
+   */
+  private static layoutNextSheet(
+    stock: OptimizedStock,
+    unplacedParts: ProcessedPart[],
+    stockInventory: OptimizedStock[],
+    kerfThickness: number,
+    totalAvailableSheets: number,
+    assemblyStocks: Map<string, number>,
+    options: OptimizationOptions
+  ): SheetLayoutResult | null {
+    console.log(`[MULTI-SHEET] Processing stock ${stock.stockIndex}, ${unplacedParts.length} parts remaining, remaining quantity: ${stock.remainingQuantity}`);
+
+    // Find compatible parts for this sheet
+    const canHold = (part: ProcessedPart, candidate: OptimizedStock) => {
+      const grainResult = ConstraintProcessor.checkGrainCompatibility(part, candidate);
+      return grainResult.compatible && ConstraintProcessor.validateSpaceConstraints(part, candidate, grainResult, options);
+    };
+    const fitsStock = (part: ProcessedPart) =>
+      ConstraintProcessor.getMaterialPenalty(part, stock, options) !== null && canHold(part, stock);
+    const compatibleParts = unplacedParts.filter(part => {
+      if (!fitsStock(part)) return false;
+      // Assembly parts go wherever the whole assembly can, not to their own best stock
+      if (this.assemblyOf(part, options)) return true;
+
+      const openStocks = stockInventory.filter(other => other.remainingQuantity > 0 && canHold(part, other));
+      return ConstraintProcessor.isPreferredStock(part, stock, openStocks, options);
+    });
+
+    // An assembly comes onto this stock only when every outstanding part of it can. A
+    // same-stock assembly also needs enough of the stock item left to hold all of it.
+    const assemblyArea = new Map<string, number>();
+    unplacedParts.forEach(part => {
+      const assembly = this.assemblyOf(part, options);
+      if (assembly) assemblyArea.set(assembly, (assemblyArea.get(assembly) || 0) + part.length * part.width);
+    });
+    const usable = getUsableRegion(stock);
+    const stockArea = stock.remainingQuantity * usable.width * usable.height;
+
+    const excluded = new Set(unplacedParts
+      .filter(part => {
+        const assembly = this.assemblyOf(part, options);
+        if (!assembly) return false;
+        if (!fitsStock(part)) return true;
+        if (options.assemblyConstraint !== 'same-stock') return false;
+        const pinned = assemblyStocks.get(assembly);
+        return pinned !== undefined ? pinned !== stock.stockIndex : assemblyArea.get(assembly)! > stockArea;
+      })
+      .map(part => this.assemblyOf(part, options)));
+    const assemblyParts = compatibleParts.filter(part => this.assemblyOf(part, options) && !excluded.has(this.assemblyOf(part, options)));
+    const looseParts = compatibleParts.filter(part => !this.assemblyOf(part, options));
+
+    console.log(`[MULTI-SHEET] Found ${looseParts.length + assemblyParts.length} compatible parts for this sheet`);
+    if (looseParts.length + assemblyParts.length === 0) return null;
+
+    // MULTI-SHEET DISTRIBUTION FIX: Strategic part distribution instead of greedy placement
+    // Limit parts per sheet to encourage distribution across multiple sheets
+    const strategicParts = [
+      ...this.calculateStrategicPartDistribution(
+        looseParts, 
+        stock, 
+        unplacedParts.length,
+        totalAvailableSheets
+      ),
+      ...assemblyParts
+    ];
+
+    console.log(`[MULTI-SHEET] Strategic distribution selected ${strategicParts.length} of ${compatibleParts.length} parts for optimal multi-sheet layout`);
+
+    const sheetResult = options.assemblyConstraint === 'same-sheet'
+      ? this.layoutWholeAssemblies(strategicParts, stock, kerfThickness, options)
+      : this.optimizeSheetLayout(strategicParts, stock, kerfThickness, options);
+
+    return sheetResult.placements.length > 0 ? sheetResult : null;
+  }
+
+  /**
+   * Same-sheet layout: assemblies are added one at a time, largest first, and each is
+   * kept only when every part of it (and of those already kept) fits on the sheet
+   */
+  private static layoutWholeAssemblies(
+    sheetParts: ProcessedPart[],
+    stock: OptimizedStock,
+    kerfThickness: number,
+    options: OptimizationOptions
+  ): SheetLayoutResult {
+    const looseParts = sheetParts.filter(part => !this.assemblyOf(part, options));
+    const assemblyArea = new Map<string, number>();
+    sheetParts.forEach(part => {
+      const assembly = this.assemblyOf(part, options);
+      if (assembly) assemblyArea.set(assembly, (assemblyArea.get(assembly) || 0) + part.length * part.width);
+    });
+
+    let kept: ProcessedPart[] = [];
+    let sheetResult = this.optimizeSheetLayout(looseParts, stock, kerfThickness, options);
+
+    for (const [assembly] of Array.from(assemblyArea.entries()).sort((a, b) => b[1] - a[1])) {
+      const members = sheetParts.filter(part => this.assemblyOf(part, options) === assembly);
+      const trial = this.optimizeSheetLayout([...looseParts, ...kept, ...members], stock, kerfThickness, options);
+      const placed = new Set(trial.placedPartInstances);
+
+      if ([...kept, ...members].every(part => placed.has(part.instanceId || ''))) {
+        kept = [...kept, ...members];
+        sheetResult = trial;
+      } else {
+        console.log(`[MULTI-SHEET] Assembly ${assembly} does not fit whole on this sheet`);
+      }
+    }
+
+    return sheetResult;
+  }
+
+  /**
+   * The assembly a part is held to, or '' when no assembly constraint applies
+   */
+  private static assemblyOf(part: Part, options: OptimizationOptions): string {
+    if (!options.assemblyConstraint || options.assemblyConstraint === 'none') return '';
+    return (part.assembly || '').trim();
+  }
+
+  /**
+   * Take every placed part of the given assemblies back off the layout, dropping
+   * sheets left empty and returning them to stock. The free spaces of a sheet that
+   * lost parts are rebuilt from the placements it keeps.
+   */
+  private static removeAssemblies(
+    results: MultiSheetResult,
+    assemblies: Set<string>,
+    placedParts: Map<string, ProcessedPart>,
+    stockInventory: OptimizedStock[],
+    kerfThickness: number,
+    options: OptimizationOptions
+  ): void {
+    const removedIds = new Set<string>();
+
+    // Placements name their part by index into the original part list
+    const parts: Part[] = [];
+    placedParts.forEach(part => { parts[part.partIndex] = part; });
+
+    const usedSheets = results.usedSheets.map(sheet => {
+      const placements = sheet.placements.filter(placement => {
+        const part = placedParts.get(placement.partId.replace(/^Part-/, ''));
+        if (!part || !assemblies.has(this.assemblyOf(part, options))) return true;
+
+        removedIds.add(placement.partId);
+        results.unplacedParts.push(part);
+        sheet.usedArea -= part.length * part.width;
+        sheet.wasteArea += part.length * part.width;
+        return false;
+      });
+      if (placements.length === sheet.placements.length) return sheet;
+
+      const stock = stockInventory.find(candidate => candidate.stockIndex === sheet.stockIndex)!;
+      return {
+        ...sheet,
+        placements,
+        freeSpaces: RemnantAnalyzer.freeSpacesFor({ ...sheet, placements }, stock, parts, kerfThickness),
+        ...(sheet.cutTree && { cutTree: this.pruneCutTree(sheet.cutTree, removedIds) })
+      };
+    });
+
+    results.usedSheets = usedSheets
+      .filter(sheet => {
+        if (sheet.placements.length > 0) return true;
+        const stock = stockInventory.find(candidate => candidate.stockIndex === sheet.stockIndex);
+        if (stock) stock.remainingQuantity++;
+        return false;
+      })
+      .map((sheet, i) => ({ ...sheet, sheetId: `Sheet-${i + 1}` }));
+  }
+
+  private static pruneCutTree(node: CutTreeNode, removedIds: Set<string>): CutTreeNode {
+    return {
+      ...node,
+      children: node.children
+        .filter(child => !child.partId || !removedIds.has(child.partId))
+        .map(child => this.pruneCutTree(child, removedIds))
+    };
+  }
+
+  /**
+   * Price paid per mm² of parts placed on a sheet (cost objective). An unpriced
+   * sheet's cost is unknown, so it ranks after every priced one.
+   */
+  private static costPerPlacedArea(stock: Stock, sheetResult: SheetLayoutResult): number {
+    if (stock.unitCost === undefined) return Infinity;
+    return stock.unitCost / sheetResult.usedArea;
+  }
+
   /**
    * Optimize layout for a single sheet
    */
   private static optimizeSheetLayout(
     compatibleParts: ProcessedPart[],
     stock: OptimizedStock,
-    kerfThickness: number
-  ): {
-    placements: Placement[];
-    freeSpaces: FreeSpace[];
-    usedArea: number;
-    placedPartInstances: string[];
-  } {
+    kerfThickness: number,
+    options: OptimizationOptions = {}
+  ): SheetLayoutResult {
+    if (options.layoutMode === 'guillotine') {
+      return GuillotinePlacementEngine.layoutSheet(compatibleParts, stock, kerfThickness);
+    }
+
     const placements: Placement[] = [];
-    let freeSpaces: FreeSpace[] = [{
-      x: 0,
-      y: 0,
-      width: stock.length,
-      height: stock.width
-    }];
+    // Seed from the usable area so edge trim margins and defects are never allocated
+    let freeSpaces: FreeSpace[] = FreeSpaceManager.forStock(stock);
     let usedArea = 0;
     const placedPartInstances: string[] = [];
 
@@ -721,7 +1440,7 @@ export class MultiSheetOptimizer {
 
       const grainResult = ConstraintProcessor.checkGrainCompatibility(part, stock);
       const optimalPlacement = PlacementEngine.findOptimalPlacement(
-        part, stock, placements, freeSpaces, kerfThickness, grainResult, compatibleParts
+        part, stock, placements, freeSpaces, kerfThickness, grainResult, compatibleParts, options.objective
       );
 
       if (optimalPlacement) {
@@ -741,8 +1460,8 @@ export class MultiSheetOptimizer {
         freeSpaces = PlacementEngine.updateFreeSpaces(
           freeSpaces,
           optimalPlacement.spaceIndex,
-          grainResult.dimensions,
-          { x: optimalPlacement.placement.x, y: optimalPlacement.placement.y },
+          part,
+          optimalPlacement.placement,
           kerfThickness
         );
 
@@ -912,6 +1631,95 @@ export class EfficiencyOptimizer {
     };
   }
 
+  /**
+   * Score a layout under a profile's weights. Each measure runs 0-100, higher is better:
+   * - sheets: the fewest sheets the part area could need, over the sheets used
+   * - waste: part area over the area of the sheets used
+   * - cuts: parts per straight cut line
+   * - remnant: share of the waste left as one keepable offcut per sheet
+   * - cost: the price of the part area at the cheapest stock per mm², over the price paid
+   */
+  static scoreLayout(
+    usedSheets: StockUsage[],
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    kerfThickness: number,
+    weights: ProfileWeights,
+    minRemnant?: RemnantSize
+  ): { measures: ProfileWeights; score: number } {
+    const partArea = usedSheets.reduce((sum, sheet) => sum + sheet.usedArea, 0);
+    const sheetArea = usedSheets.reduce((sum, sheet) => {
+      const stock = availableStocks[sheet.stockIndex];
+      return sum + stock.length * stock.width;
+    }, 0);
+    const wasteArea = sheetArea - partArea;
+
+    const largestUsable = Math.max(0, ...availableStocks.map(stock => {
+      const usable = getUsableRegion(stock);
+      return usable.width * usable.height;
+    }));
+    const fewestSheets = largestUsable > 0 ? Math.ceil(partArea / largestUsable) : 0;
+
+    const placements = usedSheets.reduce((sum, sheet) => sum + sheet.placements.length, 0);
+    const cutLines = usedSheets.reduce((sum, sheet) =>
+      sum + this.countCutLines(sheet, availableStocks[sheet.stockIndex], requiredParts, kerfThickness), 0);
+
+    const keptOffcuts = usedSheets.reduce((sum, sheet) => {
+      const freeSpaces = RemnantAnalyzer.freeSpacesFor(sheet, availableStocks[sheet.stockIndex], requiredParts, kerfThickness);
+      const [largest] = RemnantAnalyzer.extractRemnants(freeSpaces, minRemnant);
+      return sum + (largest ? largest.width * largest.height : 0);
+    }, 0);
+
+    const totalCost = usedSheets.reduce((sum, sheet) => sum + (availableStocks[sheet.stockIndex].unitCost || 0), 0);
+    const priced = availableStocks.filter(stock => (stock.unitCost || 0) > 0);
+    const cheapestPerArea = Math.min(...priced.map(stock => stock.unitCost! / (stock.length * stock.width)));
+
+    const measures: ProfileWeights = {
+      sheets: usedSheets.length > 0 ? Math.min(100, (fewestSheets / usedSheets.length) * 100) : 0,
+      waste: sheetArea > 0 ? (partArea / sheetArea) * 100 : 0,
+      cuts: cutLines > 0 ? Math.min(100, (placements / cutLines) * 100) : (placements > 0 ? 100 : 0),
+      remnant: wasteArea > 0 ? Math.min(100, (keptOffcuts / wasteArea) * 100) : 100,
+      cost: totalCost > 0 ? Math.min(100, (partArea * cheapestPerArea / totalCost) * 100) : 100
+    };
+
+    const totalWeight = Object.values(weights).reduce((sum, weight) => sum + Math.max(0, weight), 0);
+    const score = totalWeight > 0
+      ? (Object.keys(measures) as (keyof ProfileWeights)[])
+        .reduce((sum, measure) => sum + measures[measure] * Math.max(0, weights[measure]), 0) / totalWeight
+      : 0;
+
+    return { measures, score };
+  }
+
+  /**
+   * Straight cut lines a sheet needs: the distinct part edges inside the usable area
+   * in each direction, where the two faces of one kerf count as a single cut
+   */
+  private static countCutLines(sheet: StockUsage, stock: Stock, requiredParts: Part[], kerfThickness: number): number {
+    const usable = getUsableRegion(stock);
+    const xs: number[] = [];
+    const ys: number[] = [];
+
+    sheet.placements.forEach(placement => {
+      const part = requiredParts[parseInt(placement.partId.split('-')[1])];
+      if (!part) return;
+
+      const box = placement.angle !== undefined
+        ? PolygonGeometry.bounds(PolygonGeometry.placedOutline(part, placement).points)
+        : { x: placement.x, y: placement.y, width: placement.rotated ? part.width : part.length, height: placement.rotated ? part.length : part.width };
+      xs.push(box.x, box.x + box.width);
+      ys.push(box.y, box.y + box.height);
+    });
+
+    const distinctLines = (edges: number[], start: number, end: number) => edges
+      .filter(edge => edge > start + 0.01 && edge < end - 0.01)
+      .sort((a, b) => a - b)
+      .filter((edge, i, sorted) => i === 0 || edge - sorted[i - 1] > kerfThickness + 0.01)
+      .length;
+
+    return distinctLines(xs, usable.x, usable.x + usable.width) + distinctLines(ys, usable.y, usable.y + usable.height);
+  }
+
   /**
    * Generate optimization recommendations
    */
@@ -955,9 +1763,11 @@ export class OptimizedCuttingEngine {
   static executeOptimization(
     availableStocks: Stock[],
     requiredParts: Part[],
-    kerfThickness: number = 3.2
+    kerfThickness: number = 3.2,
+    options: OptimizationOptions = {}
   ): Results {
     console.log('🚀 OPTIMIZED CUTTING ENGINE: Starting 5-phase processing pipeline');
+    console.log(`🧭 Layout mode: ${options.layoutMode || 'standard'}`);
 
     try {
       // PHASE 1: Input Processing and Validation
@@ -993,7 +1803,7 @@ export class OptimizedCuttingEngine {
       console.log(`🔢 Expanded ${processedParts.length} part types into ${expandedParts.length} individual parts`);
       
       const multiSheetResult = MultiSheetOptimizer.optimizeAcrossSheets(
-        expandedParts, optimizedStock, kerfThickness
+        expandedParts, optimizedStock, kerfThickness, options
       );
 
       // PHASE 5: Efficiency Optimization and Results
@@ -1006,6 +1816,12 @@ export class OptimizedCuttingEngine {
       );
 
       const totalWaste = multiSheetResult.usedSheets.reduce((sum, sheet) => sum + sheet.wasteArea, 0);
+      const materialSubstitutions = ConstraintProcessor.summarizeMaterialSubstitutions(
+        multiSheetResult.usedSheets, availableStocks, requiredParts, options
+      );
+      const millingOperations = ConstraintProcessor.summarizeMillingOperations(
+        multiSheetResult.usedSheets, availableStocks, requiredParts, options
+      );
 
       console.log('✅ OPTIMIZATION COMPLETE');
       console.log(`📈 Material Efficiency: ${efficiency.materialEfficiency.toFixed(1)}%`);
@@ -1016,12 +1832,18 @@ export class OptimizedCuttingEngine {
         success: multiSheetResult.unplacedParts.length === 0,
         message: multiSheetResult.unplacedParts.length === 0 
           ? `✓ Optimized placement: ${multiSheetResult.usedSheets.length} sheets used, ${efficiency.materialEfficiency.toFixed(1)}% efficiency`
-          : `⚠ Partial placement: ${multiSheetResult.unplacedParts.length} parts remaining, additional stock needed`,
+          : `⚠ Partial placement: ${multiSheetResult.unplacedParts.length} parts remaining, additional stock needed` +
+            (multiSheetResult.unplacedAssemblies.length > 0
+              ? `; assembly constraint not met for ${multiSheetResult.unplacedAssemblies.join(', ')}`
+              : ''),
         stockUsage: multiSheetResult.usedSheets,
         totalUsedSheets: multiSheetResult.usedSheets.length,
         totalWaste,
         sortedParts: requiredParts,
-        cutSequences: [] // Will be generated by existing cut sequence optimizer
+        cutSequences: [], // Will be generated by existing cut sequence optimizer
+        ...(multiSheetResult.unplacedAssemblies.length > 0 && { unplacedAssemblies: multiSheetResult.unplacedAssemblies }),
+        ...(materialSubstitutions.length > 0 && { materialSubstitutions }),
+        ...(millingOperations.length > 0 && { millingOperations })
       };
 
     } catch (error: any) {
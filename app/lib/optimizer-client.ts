@@ -0,0 +1,141 @@
+// Optimizer Client - Page side of the optimizer worker
+// One request at a time: starting a run or plan cancels the one before it. The engine runs
+// synchronously inside the worker and cannot hear a message mid-run, so cancelling ends
+// the worker and the next run starts a fresh one.
+
+import { Stock, Part, Results, OptimizationOptions, OptimizationProgress, CatalogueItem, PurchasePlan } from './types';
+import { OptimizerRequest, OptimizerResponse, handleOptimizerRequest } from './optimizer-worker';
+
+// The reply that ends a request
+type OptimizerOutcome = Extract<OptimizerResponse, { type: 'result' | 'plan' }>;
+
+interface PendingRun {
+  runId: number;
+  resolve: (outcome: OptimizerOutcome | null) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: OptimizationProgress) => void;
+}
+
+/**
+ * OPTIMIZER CLIENT
+ */
+export class OptimizerClient {
+  private worker: Worker | null = null;
+  private pending: PendingRun | null = null;
+  private lastRunId = 0;
+
+  /**
+   * Run a calculation in the worker. Resolves with null when the run is cancelled.
+   */
+  async run(
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    kerfThickness: number,
+    options: OptimizationOptions = {},
+    priorResults?: Partial<Results>,
+    onProgress?: (progress: OptimizationProgress) => void
+  ): Promise<Results | null> {
+    const { onProgress: _ignored, ...postableOptions } = options;
+    const outcome = await this.send({
+      type: 'run',
+      runId: ++this.lastRunId,
+      availableStocks,
+      requiredParts,
+      kerfThickness,
+      options: postableOptions,
+      priorResults
+    }, onProgress);
+
+    return outcome?.type === 'result' ? outcome.results : null;
+  }
+
+  /**
+   * Work out what to buy from the catalogue in the worker. Resolves with null when cancelled.
+   */
+  async plan(
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    kerfThickness: number,
+    catalogue: CatalogueItem[],
+    options: OptimizationOptions = {},
+    onProgress?: (progress: OptimizationProgress) => void
+  ): Promise<PurchasePlan | null> {
+    const { onProgress: _ignored, ...postableOptions } = options;
+    const outcome = await this.send({
+      type: 'plan',
+      runId: ++this.lastRunId,
+      availableStocks,
+      requiredParts,
+      kerfThickness,
+      catalogue,
+      options: postableOptions
+    }, onProgress);
+
+    return outcome?.type === 'plan' ? outcome.plan : null;
+  }
+
+  cancel(): void {
+    if (!this.pending) return;
+
+    this.worker?.terminate();
+    this.worker = null;
+    const { resolve } = this.pending;
+    this.pending = null;
+    resolve(null);
+  }
+
+  dispose(): void {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private send(request: OptimizerRequest, onProgress?: (progress: OptimizationProgress) => void): Promise<OptimizerOutcome | null> {
+    this.cancel();
+
+    return new Promise((resolve, reject) => {
+      this.pending = { runId: request.runId, resolve, reject, onProgress };
+
+      // Without worker support (server rendering, old browsers) the run blocks as before
+      if (typeof Worker === 'undefined') {
+        handleOptimizerRequest(request, response => this.receive(response));
+        return;
+      }
+
+      this.worker = this.worker || this.createWorker();
+      this.worker.postMessage(request);
+    });
+  }
+
+  private createWorker(): Worker {
+    const worker = new Worker(new URL('./optimizer-worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<OptimizerResponse>) => this.receive(event.data);
+    worker.onerror = event => {
+      event.preventDefault();
+      this.worker?.terminate();
+      this.worker = null;
+      const pending = this.pending;
+      this.pending = null;
+      pending?.reject(new Error(event.message || 'The optimizer worker failed'));
+    };
+    return worker;
+  }
+
+  private receive(response: OptimizerResponse): void {
+    const pending = this.pending;
+    // Replies from a cancelled run are dropped
+    if (!pending || response.runId !== pending.runId) return;
+
+    if (response.type === 'progress') {
+      pending.onProgress?.(response.progress);
+      return;
+    }
+
+    this.pending = null;
+    if (response.type === 'error') {
+      pending.reject(new Error(response.message));
+    } else {
+      pending.resolve(response);
+    }
+  }
+}
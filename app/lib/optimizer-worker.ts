@@ -0,0 +1,85 @@
+// Optimizer Worker - Runs calculateOptimalCuts off the main thread
+// The page posts one request at a time, a run or a purchase plan, and hears back progress
+// events, then the outcome or an error. The engine's console logging is muted unless asked for, as a
+// large job logs thousands of lines.
+
+import { Stock, Part, Results, OptimizationOptions, OptimizationProgress, CatalogueItem, PurchasePlan } from './types';
+import { calculateOptimalCuts } from './calculateOptimalCuts';
+import { PurchasePlanner } from './purchase-planner';
+
+// Page → worker
+export type OptimizerRequest = OptimizerRunRequest | OptimizerPlanRequest;
+
+export type OptimizerRunRequest = {
+  type: 'run';
+  runId: number;
+  availableStocks: Stock[];
+  requiredParts: Part[];
+  kerfThickness: number;
+  options: Omit<OptimizationOptions, 'onProgress'>; // Functions cannot be posted to a worker
+  priorResults?: Partial<Results>;
+  verbose?: boolean; // Keep the engine's console logging
+};
+
+// What to buy for a job the stock on hand cannot finish; many runs, so it is kept off the page too
+export type OptimizerPlanRequest = {
+  type: 'plan';
+  runId: number;
+  availableStocks: Stock[];
+  requiredParts: Part[];
+  kerfThickness: number;
+  catalogue: CatalogueItem[];
+  options: Omit<OptimizationOptions, 'onProgress'>;
+  verbose?: boolean;
+};
+
+// Worker → page, tagged with the run they belong to
+export type OptimizerResponse =
+  | { type: 'progress'; runId: number; progress: OptimizationProgress }
+  | { type: 'result'; runId: number; results: Results }
+  | { type: 'plan'; runId: number; plan: PurchasePlan }
+  | { type: 'error'; runId: number; message: string };
+
+/**
+ * Run one request, posting progress as the engine reports it and then the outcome
+ */
+export function handleOptimizerRequest(request: OptimizerRequest, post: (response: OptimizerResponse) => void): void {
+  const { runId } = request;
+  const originalConsole = { log: console.log, time: console.time, timeEnd: console.timeEnd };
+  if (!request.verbose) {
+    console.log = () => {};
+    console.time = () => {};
+    console.timeEnd = () => {};
+  }
+
+  try {
+    if (request.type === 'plan') {
+      post({ type: 'progress', runId, progress: { phase: 'purchasing', sheetsDone: 0, bestEfficiency: 0 } });
+      const plan = PurchasePlanner.plan(request.availableStocks, request.requiredParts, request.kerfThickness, request.catalogue, request.options);
+      post({ type: 'plan', runId, plan });
+      return;
+    }
+
+    const results = calculateOptimalCuts(
+      request.availableStocks,
+      request.requiredParts,
+      request.kerfThickness,
+      { ...request.options, onProgress: progress => post({ type: 'progress', runId, progress }) },
+      request.priorResults
+    );
+    post({ type: 'result', runId, results });
+  } catch (error: any) {
+    post({ type: 'error', runId, message: error?.message || 'An error occurred during calculation' });
+  } finally {
+    Object.assign(console, originalConsole);
+  }
+}
+
+// Only a dedicated worker has importScripts; the page and tests import the module for its types
+const workerScope = typeof self !== 'undefined' && 'importScripts' in self
+  ? self as unknown as { onmessage: ((event: MessageEvent<OptimizerRequest>) => void) | null; postMessage: (response: OptimizerResponse) => void }
+  : null;
+
+if (workerScope) {
+  workerScope.onmessage = event => handleOptimizerRequest(event.data, response => workerScope.postMessage(response));
+}
@@ -0,0 +1,145 @@
+// Pattern Stacking - Identical sheet layouts, cut as stacks on the saw
+// Sheets whose parts sit in the same places on the same stock share a pattern, whatever
+// the instance numbers of the parts. A beam saw cuts a stack of such sheets at once, so
+// each pattern is split into stacks of up to the stack height. Repeats can also be asked
+// for: the best sheet the engine lays out is repeated as far as the parts and stock allow
+// before the rest of the job is packed again.
+
+import { Stock, Part, Results, StockUsage, CutTreeNode, CuttingPattern, OptimizationOptions } from './types';
+import { ConstraintProcessor } from './optimized-cutting-engine';
+
+const partIndexOf = (partId: string) => parseInt(partId.split('-')[1]);
+
+/**
+ * PATTERN STACKER
+ */
+export class PatternStacker {
+
+  /**
+   * Layouts used on more than one sheet, labelled A, B, C... in order of first use
+   */
+  static detectPatterns(stockUsage: StockUsage[], stackHeight: number = 1): CuttingPattern[] {
+    const bySignature = new Map<string, StockUsage[]>();
+    stockUsage.filter(usage => usage.placements.length > 0).forEach(usage => {
+      const signature = this.signature(usage);
+      bySignature.set(signature, [...(bySignature.get(signature) || []), usage]);
+    });
+
+    const height = Math.max(1, Math.floor(stackHeight));
+    const patterns = Array.from(bySignature.values())
+      .filter(sheets => sheets.length > 1)
+      .map((sheets, i) => {
+        const sheetIds = sheets.map(sheet => sheet.sheetId);
+        return {
+          patternId: this.label(i),
+          stockIndex: sheets[0].stockIndex,
+          sheetIds,
+          stacks: Array.from({ length: Math.ceil(sheetIds.length / height) }, (_, s) => sheetIds.slice(s * height, (s + 1) * height))
+        };
+      });
+
+    patterns.forEach(pattern => {
+      console.log(`🧱 PATTERN ${pattern.patternId} × ${pattern.sheetIds.length}: ${pattern.sheetIds.join(', ')} in ${pattern.stacks.length} stacks`);
+    });
+    return patterns;
+  }
+
+  /**
+   * Pack the job round by round: each round packs what is left and keeps only its first
+   * sheet, repeated up to the stack height while the parts and stock last
+   */
+  static packRepeating(
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    stackHeight: number,
+    pack: (stocks: Stock[], parts: Part[]) => Results,
+    options: OptimizationOptions = {}
+  ): Results {
+    const remainingStocks = availableStocks.map(stock => ({ ...stock }));
+    const remainingParts = requiredParts.map(part => ({ ...part }));
+    const nextInstance = requiredParts.map(() => 0);
+    const stockUsage: StockUsage[] = [];
+    let lastRun: Results | null = null;
+
+    while (remainingParts.some(part => part.quantity > 0)) {
+      lastRun = pack(remainingStocks, remainingParts);
+      const template = lastRun.stockUsage[0];
+      if (!template || template.placements.length === 0) break;
+
+      const counts = requiredParts.map((_, partIndex) =>
+        template.placements.filter(placement => partIndexOf(placement.partId) === partIndex).length);
+      const repeats = Math.max(1, Math.min(
+        Math.floor(stackHeight),
+        remainingStocks[template.stockIndex].quantity,
+        ...counts.flatMap((count, partIndex) => count > 0 ? [Math.floor(remainingParts[partIndex].quantity / count)] : [])
+      ));
+
+      for (let r = 0; r < repeats; r++) {
+        const renamed = new Map(template.placements.map(placement => {
+          const partIndex = partIndexOf(placement.partId);
+          return [placement.partId, `Part-${partIndex}-${nextInstance[partIndex]++}`] as const;
+        }));
+        stockUsage.push({
+          ...template,
+          sheetId: `Sheet-${stockUsage.length + 1}`,
+          placements: template.placements.map(placement => ({ ...placement, partId: renamed.get(placement.partId)! })),
+          ...(template.cutTree && { cutTree: this.renameTree(template.cutTree, renamed) })
+        });
+      }
+
+      counts.forEach((count, partIndex) => { remainingParts[partIndex].quantity -= count * repeats; });
+      remainingStocks[template.stockIndex].quantity -= repeats;
+      console.log(`🧱 REPEATS: ${template.placements.length} parts laid out on ${repeats} sheets of stock ${template.stockIndex}`);
+    }
+
+    const unplaced = remainingParts.reduce((sum, part) => sum + Math.max(0, part.quantity), 0);
+    const totalWaste = stockUsage.reduce((sum, usage) => sum + usage.wasteArea, 0);
+    const materialSubstitutions = ConstraintProcessor.summarizeMaterialSubstitutions(stockUsage, availableStocks, requiredParts, options);
+    const millingOperations = ConstraintProcessor.summarizeMillingOperations(stockUsage, availableStocks, requiredParts, options);
+
+    return {
+      success: unplaced === 0,
+      message: unplaced === 0
+        ? `✓ Optimized placement: ${stockUsage.length} sheets used, laid out in repeats of up to ${Math.floor(stackHeight)}`
+        : `⚠ Partial placement: ${unplaced} parts remaining, additional stock needed`,
+      stockUsage,
+      totalUsedSheets: stockUsage.length,
+      totalWaste,
+      sortedParts: requiredParts,
+      cutSequences: [],
+      ...(lastRun?.unplacedAssemblies && { unplacedAssemblies: lastRun.unplacedAssemblies }),
+      ...(materialSubstitutions.length > 0 && { materialSubstitutions }),
+      ...(millingOperations.length > 0 && { millingOperations })
+    };
+  }
+
+  // Stock and the part, place and turn of every placement, in a fixed order
+  private static signature(usage: StockUsage): string {
+    const round = (value: number) => Math.round(value * 10) / 10;
+    const placements = usage.placements
+      .map(placement => [
+        partIndexOf(placement.partId),
+        round(placement.x),
+        round(placement.y),
+        placement.rotated ? 1 : 0,
+        placement.angle ?? ''
+      ].join(':'))
+      .sort();
+    return `${usage.stockIndex}|${placements.join(',')}`;
+  }
+
+  // A-Z, then AA, AB...
+  private static label(index: number): string {
+    return index < 26
+      ? String.fromCharCode(65 + index)
+      : this.label(Math.floor(index / 26) - 1) + String.fromCharCode(65 + index % 26);
+  }
+
+  private static renameTree(node: CutTreeNode, renamed: Map<string, string>): CutTreeNode {
+    return {
+      ...node,
+      ...(node.partId && { partId: renamed.get(node.partId) || node.partId }),
+      children: node.children.map(child => this.renameTree(child, renamed))
+    };
+  }
+}
@@ -0,0 +1,189 @@
+// Polygon Geometry - Outline maths for irregular (CNC) parts
+// Outlines are closed polylines in part coordinates. A placed outline is turned about the
+// part origin and then moved so the corner of its bounding box sits at the placement x, y.
+
+import { Part, Placement, PartOutline, OutlinePoint, FreeSpace } from './types';
+
+// Largest gap allowed between an arc and the chords that stand in for it (mm)
+const DEFAULT_CHORD_TOLERANCE = 0.5;
+
+/**
+ * POLYGON GEOMETRY
+ */
+export class PolygonGeometry {
+
+  /**
+   * Outline of a part: its own polygon, or its length × width rectangle
+   */
+  static outlineOf(part: Part): PartOutline {
+    if (part.outline && part.outline.points.length >= 3) return part.outline;
+
+    return {
+      points: [
+        { x: 0, y: 0 },
+        { x: part.length, y: 0 },
+        { x: part.length, y: part.width },
+        { x: 0, y: part.width }
+      ]
+    };
+  }
+
+  /**
+   * Points approximating an arc, from startAngle to endAngle (degrees, counter-clockwise;
+   * a smaller end angle runs clockwise). Both end points are included.
+   */
+  static arcToPolyline(
+    center: OutlinePoint,
+    radius: number,
+    startAngle: number,
+    endAngle: number,
+    chordTolerance: number = DEFAULT_CHORD_TOLERANCE
+  ): OutlinePoint[] {
+    const sweep = (endAngle - startAngle) * Math.PI / 180;
+    // Chord of angle a deviates from the arc by r(1 - cos(a/2))
+    const maxStep = radius > chordTolerance ? 2 * Math.acos(1 - chordTolerance / radius) : Math.PI / 2;
+    const segments = Math.max(1, Math.ceil(Math.abs(sweep) / maxStep));
+    const start = startAngle * Math.PI / 180;
+
+    return Array.from({ length: segments + 1 }, (_, i) => {
+      const angle = start + sweep * (i / segments);
+      return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+    });
+  }
+
+  /**
+   * Enclosed area of a closed polyline (always positive)
+   */
+  static ringArea(ring: OutlinePoint[]): number {
+    let twiceArea = 0;
+    for (let i = 0; i < ring.length; i++) {
+      const a = ring[i];
+      const b = ring[(i + 1) % ring.length];
+      twiceArea += a.x * b.y - b.x * a.y;
+    }
+    return Math.abs(twiceArea) / 2;
+  }
+
+  /**
+   * Material area of an outline: its boundary less its holes
+   */
+  static area(outline: PartOutline): number {
+    return (outline.holes || []).reduce(
+      (area, hole) => area - this.ringArea(hole),
+      this.ringArea(outline.points)
+    );
+  }
+
+  static bounds(points: OutlinePoint[]): FreeSpace {
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+  }
+
+  /**
+   * Turn an outline about the part origin and move it so its bounding box starts at 0, 0
+   */
+  static rotate(outline: PartOutline, angle: number): PartOutline {
+    const radians = angle * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    // Snap so right-angle turns keep exact coordinates
+    const snap = (value: number) => Math.round(value * 1e6) / 1e6;
+    const turn = (ring: OutlinePoint[]) => ring.map(point => ({
+      x: snap(point.x * cos - point.y * sin),
+      y: snap(point.x * sin + point.y * cos)
+    }));
+
+    const points = turn(outline.points);
+    const holes = (outline.holes || []).map(turn);
+    const box = this.bounds(points);
+    const shift = (ring: OutlinePoint[]) => ring.map(point => ({ x: point.x - box.x, y: point.y - box.y }));
+
+    return { points: shift(points), holes: holes.map(shift) };
+  }
+
+  /**
+   * Outline of a placed part in sheet coordinates
+   */
+  static placedOutline(part: Part, placement: Placement): PartOutline {
+    const angle = placement.angle ?? (placement.rotated ? 90 : 0);
+    const turned = this.rotate(this.outlineOf(part), angle);
+    const move = (ring: OutlinePoint[]) => ring.map(point => ({ x: point.x + placement.x, y: point.y + placement.y }));
+
+    return { points: move(turned.points), holes: (turned.holes || []).map(move) };
+  }
+
+  /**
+   * Even-odd test against the boundary and holes, so points inside a hole are outside
+   */
+  static contains(outline: PartOutline, point: OutlinePoint): boolean {
+    return [outline.points, ...(outline.holes || [])]
+      .reduce((inside, ring) => this.ringContains(ring, point) ? !inside : inside, false);
+  }
+
+  private static ringContains(ring: OutlinePoint[], point: OutlinePoint): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const a = ring[i];
+      const b = ring[j];
+      if ((a.y > point.y) !== (b.y > point.y) &&
+          point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+        inside = !inside;
+      }
+    }
+    return inside;
+  }
+
+  /**
+   * Shortest distance from a point to any edge of the boundary or its holes
+   */
+  static distanceToEdge(outline: PartOutline, point: OutlinePoint): number {
+    let shortest = Infinity;
+    for (const ring of [outline.points, ...(outline.holes || [])]) {
+      for (let i = 0; i < ring.length; i++) {
+        shortest = Math.min(shortest, this.distanceToSegment(point, ring[i], ring[(i + 1) % ring.length]));
+      }
+    }
+    return shortest;
+  }
+
+  private static distanceToSegment(point: OutlinePoint, a: OutlinePoint, b: OutlinePoint): number {
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared));
+    return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+  }
+
+  /**
+   * Outline as text: "x,y x,y ..." for the boundary, then "| x,y ..." for each hole
+   */
+  static formatOutline(outline?: PartOutline): string {
+    if (!outline) return '';
+    const ring = (points: OutlinePoint[]) =>
+      points.map(point => `${Math.round(point.x * 100) / 100},${Math.round(point.y * 100) / 100}`).join(' ');
+    return [outline.points, ...(outline.holes || [])].map(ring).join(' | ');
+  }
+
+  /**
+   * Read the text form back; undefined when the boundary has fewer than three points
+   */
+  static parseOutline(text: string): PartOutline | undefined {
+    const rings = text.split('|').map(ring => ring
+      .trim()
+      .split(/\s+/)
+      .map(pair => pair.split(',').map(Number))
+      .filter(pair => pair.length === 2 && pair.every(Number.isFinite))
+      .map(([x, y]) => ({ x, y })));
+
+    const [points, ...holes] = rings;
+    if (!points || points.length < 3) return undefined;
+
+    const validHoles = holes.filter(hole => hole.length >= 3);
+    return validHoles.length > 0 ? { points, holes: validHoles } : { points };
+  }
+}
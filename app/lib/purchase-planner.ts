@@ -0,0 +1,166 @@
+// Purchase Planner - Works out what to buy when the stock on hand cannot finish the job
+// The stock on hand is treated as already paid for and every catalogue size as unlimited
+// at its price, so the cost objective spends only on what the job still needs. The
+// purchases are then proven by re-running the optimiser on stock on hand plus purchases.
+
+import { Stock, Part, Results, OptimizationOptions, CatalogueItem, PurchaseLine, PurchasePlan } from './types';
+import { calculateOptimalCuts } from './calculateOptimalCuts';
+
+// Planning rounds before giving up on a job the catalogue cannot finish
+const MAX_PLANNING_ROUNDS = 4;
+
+/**
+ * PURCHASE PLANNER
+ */
+export class PurchasePlanner {
+
+  /**
+   * Find the cheapest purchases from the catalogue that let the job complete
+   */
+  static plan(
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    kerfThickness: number,
+    catalogue: CatalogueItem[],
+    options: OptimizationOptions = {}
+  ): PurchasePlan {
+    console.log(`🛒 PURCHASE PLANNER: ${catalogue.length} catalogue sizes, ${availableStocks.length} stock items on hand`);
+
+    const current = this.verify(availableStocks, requiredParts, kerfThickness, catalogue, [], options);
+    if (current.success) {
+      return { success: true, message: 'The stock on hand already completes the job', purchases: [], totalCost: 0, results: current };
+    }
+    if (catalogue.length === 0) {
+      return { success: false, message: 'No supplier catalogue to buy from', purchases: [], totalCost: 0, results: current };
+    }
+
+    let quantities = catalogue.map(() => 0);
+    let verified: Results = current;
+
+    for (let round = 0; round < MAX_PLANNING_ROUNDS && !verified.success; round++) {
+      const extra = this.cheapestPurchases(availableStocks, requiredParts, kerfThickness, catalogue, quantities, options);
+      if (!extra) break;
+
+      quantities = quantities.map((quantity, i) => quantity + extra[i]);
+      verified = this.verify(availableStocks, requiredParts, kerfThickness, catalogue, quantities, options);
+    }
+
+    if (!verified.success) {
+      const missing = this.countUnplaced(verified, requiredParts);
+      return {
+        success: false,
+        message: `The catalogue cannot complete the job: ${missing} parts still do not fit`,
+        purchases: this.toPurchaseLines(catalogue, quantities),
+        totalCost: this.totalCost(catalogue, quantities),
+        results: verified
+      };
+    }
+
+    // Drop any purchase the job turns out not to need, dearest first
+    const byPrice = catalogue.map((_, i) => i).sort((a, b) => catalogue[b].price - catalogue[a].price);
+    for (const i of byPrice) {
+      while (quantities[i] > 0) {
+        const fewer = quantities.map((quantity, j) => j === i ? quantity - 1 : quantity);
+        const check = this.verify(availableStocks, requiredParts, kerfThickness, catalogue, fewer, options);
+        if (!check.success) break;
+        quantities = fewer;
+        verified = check;
+      }
+    }
+
+    const purchases = this.toPurchaseLines(catalogue, quantities);
+    const totalCost = this.totalCost(catalogue, quantities);
+    console.log(`🛒 PURCHASE PLANNER: ${purchases.length} sizes to buy for ${totalCost.toFixed(2)}`);
+
+    return {
+      success: true,
+      message: `✓ Buying ${purchases.reduce((sum, line) => sum + line.quantity, 0)} items completes the job`,
+      purchases,
+      totalCost,
+      results: verified
+    };
+  }
+
+  /**
+   * Turn catalogue purchases into stock items the optimiser can use
+   */
+  static toStock(item: CatalogueItem, quantity: number): Stock {
+    return {
+      length: item.length,
+      width: item.width,
+      thickness: item.thickness,
+      quantity,
+      material: item.material,
+      materialType: item.materialType,
+      grainDirection: item.grainDirection,
+      unitCost: item.price
+    };
+  }
+
+  /**
+   * One cost-objective run with the stock on hand free and the catalogue unlimited;
+   * returns how many of each catalogue size it used, or null when it buys nothing
+   */
+  private static cheapestPurchases(
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    kerfThickness: number,
+    catalogue: CatalogueItem[],
+    bought: number[],
+    options: OptimizationOptions
+  ): number[] | null {
+    const unlimited = requiredParts.reduce((sum, part) => sum + part.quantity, 0);
+    const onHand = [
+      ...availableStocks,
+      ...catalogue.map((item, i) => this.toStock(item, bought[i])).filter(stock => stock.quantity > 0)
+    ].map(stock => ({ ...stock, unitCost: 0 }));
+    const stocks = [...onHand, ...catalogue.map(item => this.toStock(item, unlimited))];
+
+    const results = calculateOptimalCuts(stocks, requiredParts, kerfThickness, {
+      ...options,
+      objective: 'cost',
+      search: undefined
+    });
+
+    const extra = catalogue.map(() => 0);
+    results.stockUsage.forEach(usage => {
+      if (usage.stockIndex >= onHand.length) extra[usage.stockIndex - onHand.length]++;
+    });
+
+    return extra.some(quantity => quantity > 0) ? extra : null;
+  }
+
+  /**
+   * Run the optimiser on the stock on hand plus the purchases
+   */
+  private static verify(
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    kerfThickness: number,
+    catalogue: CatalogueItem[],
+    quantities: number[],
+    options: OptimizationOptions
+  ): Results {
+    const purchased = catalogue
+      .map((item, i) => this.toStock(item, quantities[i]))
+      .filter(stock => stock.quantity > 0);
+
+    // Every purchase is checked with a run of its own, so no search is spent on them
+    return calculateOptimalCuts([...availableStocks, ...purchased], requiredParts, kerfThickness, { ...options, search: undefined });
+  }
+
+  private static countUnplaced(results: Results, requiredParts: Part[]): number {
+    const placed = results.stockUsage.reduce((sum, usage) => sum + usage.placements.length, 0);
+    return Math.max(0, requiredParts.reduce((sum, part) => sum + part.quantity, 0) - placed);
+  }
+
+  private static toPurchaseLines(catalogue: CatalogueItem[], quantities: number[]): PurchaseLine[] {
+    return catalogue
+      .map((item, i) => ({ item, quantity: quantities[i], cost: item.price * quantities[i] }))
+      .filter(line => line.quantity > 0);
+  }
+
+  private static totalCost(catalogue: CatalogueItem[], quantities: number[]): number {
+    return catalogue.reduce((sum, item, i) => sum + item.price * quantities[i], 0);
+  }
+}
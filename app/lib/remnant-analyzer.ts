@@ -0,0 +1,181 @@
+// Remnant Analyzer - Turns the leftover area of a layout into reusable offcuts
+// Free spaces are maximal rectangles and overlap, so the leftover area is carved into
+// disjoint rectangles, largest first, and only those big enough to keep are reported.
+
+import {
+  Stock,
+  Part,
+  FreeSpace,
+  StockUsage,
+  Remnant,
+  RemnantSize,
+  RemnantSource,
+  SavedCalculation,
+  OptimizationOptions
+} from './types';
+import { FreeSpaceManager } from './free-space-manager';
+import { PolygonGeometry } from './polygon-geometry';
+
+// Offcuts smaller than this are firewood unless the project says otherwise
+export const DEFAULT_MIN_REMNANT: RemnantSize = { length: 300, width: 100 };
+
+/**
+ * REMNANT ANALYZER
+ */
+export class RemnantAnalyzer {
+
+  /**
+   * Check whether a rectangle is big enough to keep, in either orientation
+   */
+  static qualifies(space: FreeSpace, minSize: RemnantSize = DEFAULT_MIN_REMNANT): boolean {
+    const long = Math.max(space.width, space.height);
+    const short = Math.min(space.width, space.height);
+    return long >= minSize.length && short >= minSize.width;
+  }
+
+  /**
+   * Carve overlapping maximal free spaces into disjoint keepable rectangles, largest first
+   */
+  static extractRemnants(freeSpaces: FreeSpace[], minSize: RemnantSize = DEFAULT_MIN_REMNANT): FreeSpace[] {
+    const remnants: FreeSpace[] = [];
+    let spaces = freeSpaces.map(space => ({ ...space }));
+
+    while (true) {
+      const candidates = spaces.filter(space => this.qualifies(space, minSize));
+      if (candidates.length === 0) break;
+
+      const largest = candidates.reduce((best, space) =>
+        space.width * space.height > best.width * best.height ? space : best
+      );
+      remnants.push(largest);
+      spaces = FreeSpaceManager.placeRectangle(spaces, largest);
+    }
+
+    return remnants;
+  }
+
+  /**
+   * Area of the single largest free rectangle, the measure the remnant objective maximises
+   */
+  static largestFreeArea(freeSpaces: FreeSpace[]): number {
+    return freeSpaces.reduce((largest, space) => Math.max(largest, space.width * space.height), 0);
+  }
+
+  /**
+   * Rebuild the free area of a used stock item from its placements, so every layout
+   * mode is measured the same way. Each part takes its kerf on the far sides.
+   */
+  static freeSpacesFor(usage: StockUsage, stock: Stock, parts: Part[], kerfThickness: number): FreeSpace[] {
+    return usage.placements.reduce<FreeSpace[]>((spaces, placement) => {
+      const part = parts[parseInt(placement.partId.split('-')[1])];
+      if (!part) return spaces;
+
+      // Nested parts may be turned to any angle, so their box comes from the outline
+      const box = placement.angle !== undefined
+        ? PolygonGeometry.bounds(PolygonGeometry.placedOutline(part, placement).points)
+        : {
+          width: placement.rotated ? part.width : part.length,
+          height: placement.rotated ? part.length : part.width
+        };
+
+      return FreeSpaceManager.placeRectangle(spaces, {
+        x: placement.x,
+        y: placement.y,
+        width: box.width + kerfThickness,
+        height: box.height + kerfThickness
+      });
+    }, FreeSpaceManager.forStock(stock));
+  }
+
+  /**
+   * List every keepable offcut across the layout with what it is made of
+   */
+  static collectRemnants(
+    stockUsage: StockUsage[],
+    availableStocks: Stock[],
+    parts: Part[],
+    kerfThickness: number,
+    options: OptimizationOptions = {}
+  ): Remnant[] {
+    const minSize = options.minRemnant || DEFAULT_MIN_REMNANT;
+
+    return stockUsage.flatMap(usage => {
+      const stock = availableStocks[usage.stockIndex];
+      if (!stock) return [];
+
+      return this.extractRemnants(this.freeSpacesFor(usage, stock, parts, kerfThickness), minSize)
+        .map(space => ({
+          sheetId: usage.sheetId,
+          stockIndex: usage.stockIndex,
+          x: space.x,
+          y: space.y,
+          length: space.width,
+          width: space.height,
+          thickness: stock.thickness,
+          material: stock.material,
+          materialType: stock.materialType,
+          grainDirection: stock.grainDirection
+        }));
+    });
+  }
+
+  /**
+   * Offcuts of a saved calculation that can go back to the warehouse: every sheet whose
+   * placements are all marked cut and whose offcuts have not been returned already, in
+   * the calculation's record or as offcuts already in the warehouse
+   */
+  static pendingReturns(calculation: SavedCalculation, warehouseStock: Stock[] = []): Remnant[] {
+    const results = calculation.results;
+    if (!results || !results.success) return [];
+
+    const returned = new Set(calculation.returnedRemnantSheets || []);
+    const cutSheets = new Set(results.stockUsage
+      .filter(usage => usage.placements.length > 0 && usage.placements.every(placement => placement.cut))
+      .map(usage => usage.sheetId)
+      .filter(sheetId => !returned.has(sheetId))
+    );
+    if (cutSheets.size === 0) return [];
+
+    const remnants = results.remnants || this.collectRemnants(
+      results.stockUsage,
+      calculation.availableStocks,
+      calculation.requiredParts,
+      calculation.kerfThickness,
+      calculation.optimizationOptions
+    );
+
+    // A return that stopped part way leaves some offcuts in the warehouse; each one
+    // found there accounts for one offcut of the same size from the same sheet
+    const returnedStock = warehouseStock.filter(stock =>
+      stock.remnantOf?.calculationId === calculation.id && stock.remnantOf.sheetId !== undefined);
+
+    return remnants.filter(remnant => {
+      if (!cutSheets.has(remnant.sheetId)) return false;
+      const match = returnedStock.findIndex(stock =>
+        stock.remnantOf!.sheetId === remnant.sheetId &&
+        stock.length === remnant.length &&
+        stock.width === remnant.width &&
+        stock.thickness === remnant.thickness);
+      if (match === -1) return true;
+      returnedStock.splice(match, 1);
+      return false;
+    });
+  }
+
+  /**
+   * Describe an offcut as a new warehouse stock item, tagged with the job it came from
+   */
+  static toWarehouseStock(remnant: Remnant, source: RemnantSource, location?: string): Stock {
+    return {
+      length: remnant.length,
+      width: remnant.width,
+      thickness: remnant.thickness,
+      quantity: 1,
+      material: remnant.material,
+      materialType: remnant.materialType,
+      grainDirection: remnant.grainDirection,
+      location,
+      remnantOf: source
+    };
+  }
+}
@@ -18,7 +18,45 @@ export type Stock = {
   materialType?: MaterialType; // Type of material (sheet or dimensional)
   location?: string; // Storage location in warehouse
   dateAdded?: number; // When it was added to inventory
+  dateModified?: number; // When the warehouse record was last changed
   grainDirection?: string; // Grain direction (relevant for sheet materials)
+  edgeTrim?: EdgeTrim; // Margins removed by squaring cuts before any part is cut
+  remnantOf?: RemnantSource; // Set when the item is an offcut returned from a cut job
+  unitCost?: number; // Price of one sheet or board; unpriced stock counts as already paid for
+  defects?: DefectZone[]; // Knots, splits or damage no part may be cut from
+  endChecks?: EndChecks; // Checked (split) board ends to be cut off and discarded
+};
+
+// A rectangle of the stock no part may overlap, in full-stock coordinates
+// (x along the stock length, y along the stock width)
+export type DefectZone = {
+  x: number;
+  y: number;
+  length: number;
+  width: number;
+  note?: string;
+};
+
+// Length in mm of checking at each end of a board (start is x = 0)
+export type EndChecks = {
+  start: number;
+  end: number;
+};
+
+// The calculation an offcut in the warehouse was left over from
+export type RemnantSource = {
+  calculationId: string;
+  calculationName: string;
+  sheetId?: string; // Sheet of the calculation the offcut was cut from
+};
+
+// Edge trim margins in mm. Left/right are the ends of the stock length (x axis),
+// top/bottom are the edges of the stock width (y axis).
+export type EdgeTrim = {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
 };
 
 export type Part = {
@@ -30,6 +68,22 @@ export type Part = {
   materialType?: MaterialType; // Type of material (sheet or dimensional)
   grainDirection?: string; // Grain direction (relevant only for sheet materials)
   name?: string; // Optional name for the part
+  grainGroup?: string; // Parts sharing a group are cut side by side, in list order, along the grain
+  assembly?: string; // Cabinet or unit the part belongs to, for the assembly constraint
+  outline?: PartOutline; // Irregular shape inside the length × width box, nested rather than packed
+};
+
+// Point of a part outline: x along the part length, y along the part width
+export type OutlinePoint = {
+  x: number;
+  y: number;
+};
+
+// Closed polygon boundary of a CNC part, with any holes cut out of it. Arcs are given as
+// polylines (see PolygonGeometry.arcToPolyline); the last point joins back to the first.
+export type PartOutline = {
+  points: OutlinePoint[];
+  holes?: OutlinePoint[][];
 };
 
 export type FreeSpace = {
@@ -39,6 +93,36 @@ export type FreeSpace = {
   height: number;
 };
 
+// Usable rectangle of a stock item once its edge trim margins are removed
+export function getUsableRegion(stock: Stock): FreeSpace {
+  const top = stock.edgeTrim?.top || 0;
+  const bottom = stock.edgeTrim?.bottom || 0;
+  const left = stock.edgeTrim?.left || 0;
+  const right = stock.edgeTrim?.right || 0;
+
+  return {
+    x: left,
+    y: top,
+    width: Math.max(0, stock.length - left - right),
+    height: Math.max(0, stock.width - top - bottom)
+  };
+}
+
+// Rectangles of a stock item that must stay clear of parts: its defects plus
+// full-width strips for any end checks
+export function getDefectZones(stock: Stock): FreeSpace[] {
+  const zones: FreeSpace[] = (stock.defects || [])
+    .filter(defect => defect.length > 0 && defect.width > 0)
+    .map(defect => ({ x: defect.x, y: defect.y, width: defect.length, height: defect.width }));
+
+  const start = stock.endChecks?.start || 0;
+  const end = stock.endChecks?.end || 0;
+  if (start > 0) zones.push({ x: 0, y: 0, width: start, height: stock.width });
+  if (end > 0) zones.push({ x: stock.length - end, y: 0, width: end, height: stock.width });
+
+  return zones;
+}
+
 export type Placement = {
   partId: string;
   x: number;
@@ -46,6 +130,33 @@ export type Placement = {
   rotated: boolean;
   name?: string; // Optional name for the cut
   cut?: boolean; // Track if this piece has been cut
+  angle?: number; // Nested parts: degrees the outline was turned (counter-clockwise) before placing at x, y
+  locked?: boolean; // Pinned: re-optimising around a prior layout keeps it exactly where it is
+};
+
+// A rule a placement breaks, found by the layout validator after every optimisation and
+// by the layout editor's live checks
+export type LayoutIssue = {
+  kind: 'bounds' | 'defect' | 'overlap' | 'kerf' | 'grain' | 'material' | 'thickness' | 'quantity';
+  partId: string;
+  sheetId?: string; // Sheet the placement is on; absent for parts that were never placed
+  message: string;
+};
+
+// Layout strategies supported by the cutting engine
+export type LayoutMode = 'standard' | 'guillotine';
+
+// Node in a guillotine cut tree. Stage 0 is the usable (trimmed) sheet, stage 1 nodes are the
+// strips produced by full-length rips, stage 2 nodes are the crosscut segments of a
+// strip and stage 3 nodes are the finished parts trimmed out of a segment.
+export type CutTreeNode = {
+  stage: 0 | 1 | 2 | 3;
+  x: number;
+  y: number;
+  width: number; // Extent along the stock length (x axis)
+  height: number; // Extent along the stock width (y axis)
+  partId?: string; // Set on stage 3 nodes that are finished parts
+  children: CutTreeNode[];
 };
 
 export type StockUsage = {
@@ -55,6 +166,233 @@ export type StockUsage = {
   usedArea: number;
   wasteArea: number;
   freeSpaces: FreeSpace[];
+  cutTree?: CutTreeNode; // Only present for guillotine layouts
+  offcutLength?: number; // Dimensional boards cut 1D: usable length left clear of parts and defects
+  cost?: number; // Unit cost of the stock item, when it is priced
+  unusable?: boolean; // Damaged mid-job: re-planning keeps its cut parts as history and puts nothing else on it
+};
+
+// Budget for the anytime metaheuristic search; the best layout so far is returned when it runs out
+export type SearchBudget = {
+  timeLimitMs?: number; // Defaults to 10 seconds when no iteration cap is given either
+  maxIterations?: number;
+  seed?: number; // Same seed and iteration cap give the same layout
+};
+
+// Summary of a metaheuristic search run
+export type SearchStats = {
+  seed: number;
+  iterations: number;
+  elapsedMs: number;
+  improvedOnGreedy: boolean;
+};
+
+// Stage a running calculation has reached
+export type OptimizationPhase = 'dimensional' | 'layout' | 'search' | 'sequencing' | 'complete' | 'purchasing';
+
+// Reported while a calculation runs, so a long job can show how far it has got
+export type OptimizationProgress = {
+  phase: OptimizationPhase;
+  sheetsDone: number; // Sheets and boards laid out so far (best layout, while searching)
+  bestEfficiency: number; // Used area as a percentage of the stock used so far
+};
+
+// Used area as a percentage of the area of the given stock items
+export function layoutEfficiency(stockUsage: StockUsage[]): number {
+  const usedArea = stockUsage.reduce((sum, usage) => sum + usage.usedArea, 0);
+  const totalArea = usedArea + stockUsage.reduce((sum, usage) => sum + usage.wasteArea, 0);
+  return totalArea > 0 ? (usedArea / totalArea) * 100 : 0;
+}
+
+// How strictly part materials must match stock materials
+export type MaterialMatching = 'strict' | 'any';
+
+// Allows parts of one material to be cut from stock of another. The penalty ranks
+// substitutes: lower-penalty stock is always used up before higher-penalty stock.
+export type MaterialSubstitution = {
+  partMaterial: string; // Material the part asks for
+  stockMaterial: string; // Material that may stand in for it
+  penalty: number;
+};
+
+// A part cut from stock of a different material, as reported in the results
+export type MaterialSubstitutionUsage = {
+  partIndex: number;
+  partName?: string;
+  partMaterial: string;
+  stockIndex: number;
+  stockMaterial: string;
+  quantity: number;
+  penalty: number; // Per part; 0 when only allowed because matching is 'any'
+};
+
+// How stock thickness must relate to part thickness:
+// 'exact' - same thickness only, 'tolerance' - within thicknessTolerance either way,
+// 'mill' - thicker stock is allowed and planed or resawn down to the part thickness
+export type ThicknessPolicy = 'exact' | 'tolerance' | 'mill';
+
+export type MillingMethod = 'plane' | 'resaw';
+
+// Thicknessing work needed for parts cut from thicker stock, per sheet and part
+export type MillingOperation = {
+  sheetId: string;
+  stockIndex: number;
+  partIndex: number;
+  partName?: string;
+  quantity: number;
+  fromThickness: number;
+  toThickness: number;
+  method: MillingMethod; // Resawing removes the bulk of the excess before a final planing
+  estimatedMinutes: number;
+};
+
+// Where the parts of one assembly may come from: 'same-sheet' - one physical sheet,
+// 'same-stock' - any sheets of one stock item (one lot), 'none' - anywhere
+export type AssemblyConstraint = 'none' | 'same-sheet' | 'same-stock';
+
+// Raster nesting of outlined parts: the sheet is checked for overlap on a grid of
+// `resolution` mm cells and parts are tried at every multiple of `rotationStep` degrees
+export type NestingSettings = {
+  rotationStep?: number; // Defaults to 90
+  resolution?: number; // Defaults to 5mm
+};
+
+// What the layout engine optimises for: tight packing, fewer and larger offcuts,
+// or the lowest total price of the stock used
+export type ObjectiveMode = 'efficiency' | 'remnants' | 'cost';
+
+// Named trade-off between the measures of a layout, used to choose between candidate layouts
+export type OptimizationProfileName = 'fewest-sheets' | 'least-waste' | 'fewest-cuts' | 'largest-remnant' | 'lowest-cost' | 'custom';
+
+// How much each measure counts towards a layout's score; the score is the weighted
+// average of the measures, so only the ratios between weights matter
+export type ProfileWeights = {
+  sheets: number; // Fewer sheets used
+  waste: number; // Less waste on the sheets used
+  cuts: number; // Fewer saw cuts per part
+  remnant: number; // Larger offcuts left whole
+  cost: number; // Lower price of the stock used
+};
+
+// A layout's measures, each 0-100 with higher better, and its score under a profile
+export type ProfileScore = {
+  profile: OptimizationProfileName;
+  weights: ProfileWeights;
+  measures: ProfileWeights;
+  score: number;
+  candidates: number; // Layouts the profile chose between
+};
+
+// Smallest offcut worth keeping, in either orientation
+export type RemnantSize = {
+  length: number;
+  width: number;
+};
+
+// Leftover rectangle big enough to reuse, in the coordinates of its source stock
+export type Remnant = {
+  sheetId: string;
+  stockIndex: number;
+  x: number;
+  y: number;
+  length: number; // Extent along the stock length (x axis)
+  width: number; // Extent along the stock width (y axis)
+  thickness: number;
+  material?: string;
+  materialType?: MaterialType;
+  grainDirection?: string;
+};
+
+// Why instances of a part were left off the layout:
+// - 'thickness': the stock is a thickness the part may not be made from
+// - 'material': the stock is another material (or a board that would need ripping)
+// - 'grain': the part only fits turned across the grain
+// - 'too-large': the part does not fit the usable stock either way round
+// - 'out-of-stock': suitable stock exists but every piece of it was used
+// - 'assembly': the part's assembly could not be kept on one sheet or stock item
+export type UnplacedReason = 'thickness' | 'material' | 'grain' | 'too-large' | 'out-of-stock' | 'assembly';
+
+// A part the layout is short of, and what would let it be cut
+export type UnplacedPart = {
+  partIndex: number;
+  partName?: string;
+  count: number; // Instances not placed
+  reasons: UnplacedReason[]; // What stops it going on the closest stock
+  closestStockIndex?: number; // Stock item that came nearest to taking it; absent with no stock at all
+  message: string;
+};
+
+// A setting the layout could not honour for this job, and why
+export type IgnoredSetting = {
+  setting: 'search' | 'layoutMode' | 'assemblyConstraint' | 'favourRepeats';
+  message: string;
+};
+
+// Where a grain-continuity group was cut, in the coordinates of its sheet
+export type GrainGroupPlacement = {
+  groupId: string;
+  sheetId: string;
+  x: number;
+  y: number;
+  length: number; // Extent along the stock length (x axis)
+  width: number; // Extent along the stock width (y axis)
+  partIds: string[]; // Members in order along the grain
+};
+
+// Sheets laid out identically, and how they are grouped to be cut as stacks
+export type CuttingPattern = {
+  patternId: string; // A, B, C... in order of first use
+  stockIndex: number;
+  sheetIds: string[]; // Every sheet with this layout
+  stacks: string[][]; // The same sheets in stacks of at most the stack height
+};
+
+// A size a supplier sells, used by the purchase planner when stock runs short
+export type CatalogueItem = {
+  length: number;
+  width: number;
+  thickness: number;
+  material?: string;
+  materialType?: MaterialType;
+  grainDirection?: string;
+  price: number; // Per sheet or board
+  supplier?: string;
+};
+
+export type PurchaseLine = {
+  item: CatalogueItem;
+  quantity: number;
+  cost: number; // price × quantity
+};
+
+// Cheapest purchases that let the job complete, with the optimiser run that proves it
+export type PurchasePlan = {
+  success: boolean;
+  message: string;
+  purchases: PurchaseLine[];
+  totalCost: number;
+  results: Results | null; // Layout using the stock on hand plus the purchases
+};
+
+// User-selectable settings that steer the optimizer (saved with the calculation)
+export type OptimizationOptions = {
+  layoutMode?: LayoutMode; // Defaults to 'standard'
+  search?: SearchBudget; // Omit for a single greedy pass
+  materialMatching?: MaterialMatching; // Defaults to 'strict'
+  materialSubstitutions?: MaterialSubstitution[];
+  thicknessPolicy?: ThicknessPolicy; // Defaults to 'mill'
+  thicknessTolerance?: number; // mm either way; defaults to 0.5 for 'tolerance', 0 otherwise
+  ripDimensional?: boolean; // Let narrower parts be ripped out of dimensional boards
+  objective?: ObjectiveMode; // Defaults to 'efficiency'; a profile sets it for its own runs
+  profile?: OptimizationProfileName; // Omit to take the engine's single layout as it is
+  profileWeights?: ProfileWeights; // Weights of the 'custom' profile
+  minRemnant?: RemnantSize; // Defaults to 300 × 100mm
+  supplierCatalogue?: CatalogueItem[]; // Sizes the purchase planner may buy
+  assemblyConstraint?: AssemblyConstraint; // Defaults to 'none'
+  nesting?: NestingSettings; // Used when any sheet part has an outline
+  stackHeight?: number; // Sheets the saw cuts at once; identical sheets are cut as stacks of up to this many
+  favourRepeats?: boolean; // Lay out identical sheets, up to the stack height, ahead of a tighter mixed layout
+  onProgress?: (progress: OptimizationProgress) => void; // Never saved; set by the caller of a run, e.g. the optimiser worker
 };
 
 export type Results = {
@@ -65,6 +403,18 @@ export type Results = {
   totalUsedSheets: number;
   sortedParts: Part[];
   cutSequences?: import('./cutSequenceOptimizer').OptimizedCutSequence[];
+  searchStats?: SearchStats; // Present when a metaheuristic search was run
+  materialSubstitutions?: MaterialSubstitutionUsage[]; // Parts cut from a different material
+  millingOperations?: MillingOperation[]; // Parts that must be planed or resawn to thickness
+  remnants?: Remnant[]; // Leftover rectangles at least minRemnant in size
+  totalCost?: number; // Sum of StockUsage.cost, present when any used stock is priced
+  grainGroups?: GrainGroupPlacement[]; // Present when any part belongs to a grain group
+  unplacedAssemblies?: string[]; // Assemblies left uncut because the assembly constraint could not be met
+  violations?: LayoutIssue[]; // Rules the finished layout breaks, present when the validator finds any
+  unplacedParts?: UnplacedPart[]; // Parts the layout is short of, present when the job only partly fits
+  profileScore?: ProfileScore; // Present when a profile chose the layout
+  patterns?: CuttingPattern[]; // Layouts used on more than one sheet
+  ignoredSettings?: IgnoredSetting[]; // Settings dropped for this job, present when any were
 };
 
 export type SavedCalculation = {
@@ -75,6 +425,8 @@ export type SavedCalculation = {
   availableStocks: Stock[];
   requiredParts: Part[];
   results: Results | null;
+  optimizationOptions?: OptimizationOptions;
+  returnedRemnantSheets?: string[]; // Sheet IDs whose offcuts are already back in the warehouse
   dateCreated: number;
   dateModified: number;
 };
@@ -87,6 +439,8 @@ export type DBCalculation = {
   available_stocks: string;
   required_parts: string;
   results: string | null;
+  optimization_options: string | null;
+  returned_remnant_sheets: string | null;
   date_created: number;
   date_modified: number;
   user_id: string | null;
@@ -102,6 +456,8 @@ export function dbToAppCalculation(dbCalc: DBCalculation): SavedCalculation {
     availableStocks: JSON.parse(dbCalc.available_stocks),
     requiredParts: JSON.parse(dbCalc.required_parts),
     results: dbCalc.results ? JSON.parse(dbCalc.results) : null,
+    optimizationOptions: dbCalc.optimization_options ? JSON.parse(dbCalc.optimization_options) : undefined,
+    returnedRemnantSheets: dbCalc.returned_remnant_sheets ? JSON.parse(dbCalc.returned_remnant_sheets) : undefined,
     dateCreated: dbCalc.date_created,
     dateModified: dbCalc.date_modified,
   };
@@ -117,12 +473,98 @@ export function appToDbCalculation(appCalc: SavedCalculation): DBCalculation {
     available_stocks: JSON.stringify(appCalc.availableStocks),
     required_parts: JSON.stringify(appCalc.requiredParts),
     results: appCalc.results ? JSON.stringify(appCalc.results) : null,
+    optimization_options: appCalc.optimizationOptions ? JSON.stringify(appCalc.optimizationOptions) : null,
+    returned_remnant_sheets: appCalc.returnedRemnantSheets ? JSON.stringify(appCalc.returnedRemnantSheets) : null,
     date_created: appCalc.dateCreated,
     date_modified: appCalc.dateModified,
     user_id: null, // No user system yet
   };
 }
 
+export type DBWarehouseStock = {
+  id: string;
+  length: number;
+  width: number;
+  thickness: number;
+  quantity: number;
+  material: string | null;
+  material_type: string | null;
+  location: string | null;
+  grain_direction: string | null;
+  trim_top: number | null;
+  trim_bottom: number | null;
+  trim_left: number | null;
+  trim_right: number | null;
+  remnant_of: string | null;
+  unit_cost: number | null;
+  defects: string | null;
+  end_check_start: number | null;
+  end_check_end: number | null;
+  date_added: number;
+  date_modified: number;
+  user_id: string | null;
+};
+
+// Convert database warehouse row to application stock item
+export function dbToAppWarehouseStock(dbStock: DBWarehouseStock): Stock {
+  const hasTrim = !!(dbStock.trim_top || dbStock.trim_bottom || dbStock.trim_left || dbStock.trim_right);
+  const hasEndChecks = !!(dbStock.end_check_start || dbStock.end_check_end);
+
+  return {
+    id: dbStock.id,
+    length: dbStock.length,
+    width: dbStock.width,
+    thickness: dbStock.thickness,
+    quantity: dbStock.quantity,
+    material: dbStock.material || undefined,
+    materialType: (dbStock.material_type as MaterialType) || undefined,
+    location: dbStock.location || undefined,
+    grainDirection: dbStock.grain_direction || undefined,
+    edgeTrim: hasTrim ? {
+      top: dbStock.trim_top || 0,
+      bottom: dbStock.trim_bottom || 0,
+      left: dbStock.trim_left || 0,
+      right: dbStock.trim_right || 0
+    } : undefined,
+    remnantOf: dbStock.remnant_of ? JSON.parse(dbStock.remnant_of) : undefined,
+    unitCost: dbStock.unit_cost ?? undefined,
+    defects: dbStock.defects ? JSON.parse(dbStock.defects) : undefined,
+    endChecks: hasEndChecks ? {
+      start: dbStock.end_check_start || 0,
+      end: dbStock.end_check_end || 0
+    } : undefined,
+    dateAdded: dbStock.date_added,
+    dateModified: dbStock.date_modified,
+  };
+}
+
+// Convert application stock item to database warehouse row
+export function appToDbWarehouseStock(stock: Stock, id: string, now: number): DBWarehouseStock {
+  return {
+    id,
+    length: stock.length,
+    width: stock.width,
+    thickness: stock.thickness,
+    quantity: stock.quantity,
+    material: stock.material || null,
+    material_type: stock.materialType || null,
+    location: stock.location || null,
+    grain_direction: stock.grainDirection || null,
+    trim_top: stock.edgeTrim?.top || 0,
+    trim_bottom: stock.edgeTrim?.bottom || 0,
+    trim_left: stock.edgeTrim?.left || 0,
+    trim_right: stock.edgeTrim?.right || 0,
+    remnant_of: stock.remnantOf ? JSON.stringify(stock.remnantOf) : null,
+    unit_cost: stock.unitCost ?? null,
+    defects: stock.defects && stock.defects.length > 0 ? JSON.stringify(stock.defects) : null,
+    end_check_start: stock.endChecks?.start || 0,
+    end_check_end: stock.endChecks?.end || 0,
+    date_added: stock.dateAdded || now,
+    date_modified: now,
+    user_id: null, // No user system yet
+  };
+}
+
 // Interface that binds to our Cloudflare D1 database
 export interface Env {
   DB: D1Database;
@@ -3,6 +3,7 @@
 
 import { Part, FreeSpace, Stock, Placement } from './types';
 import { validatePlacement } from './cut-helpers';
+import { FreeSpaceManager } from './free-space-manager';
 
 // Unified interface for all packing strategies
 export interface PackingStrategy {
@@ -180,12 +181,16 @@ export class UnifiedPackingEngine {
   ): PackingResult {
     try {
       const placements: Placement[] = [];
-      let freeSpaces: FreeSpace[] = [{ x: 0, y: 0, width: stock.length, height: stock.width }];
+      let freeSpaces: FreeSpace[] = FreeSpaceManager.forStock(stock);
       let usedArea = 0;
 
       // Sort parts according to strategy
       const sortedParts = strategy.sortFunction([...partInstances]);
 
+      // Parts by index, so placements already made are checked at their own size
+      const partsByIndex: Part[] = [...(requiredParts || [])];
+      partInstances.forEach(instance => { partsByIndex[instance.partIndex] = instance.part; });
+
     const context: PackingContext = {
       stock,
       kerfThickness,
@@ -219,7 +224,8 @@ export class UnifiedPackingEngine {
           stock.length,
           stock.width,
           placements,
-          kerfThickness
+          kerfThickness,
+          partsByIndex
         );
 
         if (isValid) {
@@ -229,7 +235,6 @@ export class UnifiedPackingEngine {
           // Update free spaces
           freeSpaces = this.updateFreeSpaces(
             freeSpaces,
-            result.spaceIndex,
             instance.part,
             result.x,
             result.y,
@@ -441,138 +446,26 @@ export class UnifiedPackingEngine {
   }
 
   /**
-   * UNIFIED SPACE MANAGEMENT (replaces multiple implementations)
+   * UNIFIED SPACE MANAGEMENT (delegates to the maximal-rectangles free space manager)
    */
   private updateFreeSpaces(
     freeSpaces: FreeSpace[],
-    usedSpaceIndex: number,
     part: Part,
     x: number,
     y: number,
     rotated: boolean,
     kerfThickness: number
   ): FreeSpace[] {
-    const newSpaces = [...freeSpaces];
-    const usedSpace = newSpaces[usedSpaceIndex];
-    
-    // Remove used space
-    newSpaces.splice(usedSpaceIndex, 1);
-
     // Calculate part dimensions
     const partWidth = rotated ? part.width : part.length;
     const partHeight = rotated ? part.length : part.width;
-    const adjustedWidth = partWidth + kerfThickness;
-    const adjustedHeight = partHeight + kerfThickness;
-
-    // Create new spaces using guillotine method
-    const splitSpaces = this.splitSpace(usedSpace, adjustedWidth, adjustedHeight, x, y);
-    newSpaces.push(...splitSpaces);
-
-    // Merge adjacent spaces
-    return this.mergeAdjacentSpaces(newSpaces);
-  }
-
-  private splitSpace(
-    space: FreeSpace,
-    partWidth: number,
-    partHeight: number,
-    partX: number,
-    partY: number
-  ): FreeSpace[] {
-    const result: FreeSpace[] = [];
-
-    // Right space
-    if (space.x + space.width > partX + partWidth) {
-      result.push({
-        x: partX + partWidth,
-        y: space.y,
-        width: (space.x + space.width) - (partX + partWidth),
-        height: space.height
-      });
-    }
-
-    // Bottom space
-    if (space.y + space.height > partY + partHeight) {
-      result.push({
-        x: space.x,
-        y: partY + partHeight,
-        width: space.width,
-        height: (space.y + space.height) - (partY + partHeight)
-      });
-    }
-
-    // Left space
-    if (partX > space.x) {
-      result.push({
-        x: space.x,
-        y: space.y,
-        width: partX - space.x,
-        height: space.height
-      });
-    }
-
-    // Top space
-    if (partY > space.y) {
-      result.push({
-        x: space.x,
-        y: space.y,
-        width: space.width,
-        height: partY - space.y
-      });
-    }
-
-    return result.filter(s => s.width > 0 && s.height > 0);
-  }
-
-  private mergeAdjacentSpaces(spaces: FreeSpace[]): FreeSpace[] {
-    const merged: FreeSpace[] = [];
-    const used = new Set<number>();
-
-    for (let i = 0; i < spaces.length; i++) {
-      if (used.has(i)) continue;
-
-      let currentSpace = { ...spaces[i] };
-      let mergedAny = true;
-
-      while (mergedAny) {
-        mergedAny = false;
 
-        for (let j = i + 1; j < spaces.length; j++) {
-          if (used.has(j)) continue;
-
-          const other = spaces[j];
-
-          // Horizontal merge
-          if (currentSpace.y === other.y && 
-              currentSpace.height === other.height &&
-              ((currentSpace.x + currentSpace.width === other.x) || 
-               (other.x + other.width === currentSpace.x))) {
-            
-            const newX = Math.min(currentSpace.x, other.x);
-            const newWidth = currentSpace.width + other.width;
-            currentSpace = { x: newX, y: currentSpace.y, width: newWidth, height: currentSpace.height };
-            used.add(j);
-            mergedAny = true;
-          }
-          // Vertical merge
-          else if (currentSpace.x === other.x && 
-                   currentSpace.width === other.width &&
-                   ((currentSpace.y + currentSpace.height === other.y) || 
-                    (other.y + other.height === currentSpace.y))) {
-            
-            const newY = Math.min(currentSpace.y, other.y);
-            const newHeight = currentSpace.height + other.height;
-            currentSpace = { x: currentSpace.x, y: newY, width: currentSpace.width, height: newHeight };
-            used.add(j);
-            mergedAny = true;
-          }
-        }
-      }
-
-      merged.push(currentSpace);
-    }
-
-    return merged;
+    return FreeSpaceManager.placeRectangle(freeSpaces, {
+      x,
+      y,
+      width: partWidth + kerfThickness,
+      height: partHeight + kerfThickness
+    });
   }
 }
 
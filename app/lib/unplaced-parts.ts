@@ -0,0 +1,142 @@
+// Unplaced Parts - Why a job only partly fits, part by part
+// The finished layout is counted against the parts asked for. Every part it is short of
+// is tried against each stock item in turn, and the item it comes closest to fitting is
+// reported with whatever still stops it, so the user knows exactly what to change.
+
+import { Stock, Part, StockUsage, Results, OptimizationOptions, UnplacedPart, UnplacedReason, formatDimensions, getUsableRegion } from './types';
+import { ConstraintProcessor } from './optimized-cutting-engine';
+
+// One thing stopping a part going on a stock item, in words for the message
+interface StockObstacle {
+  reason: UnplacedReason;
+  text: string;
+}
+
+// One titled list of what a failed calculation left out, as the results panel shows it
+export interface FailureNote {
+  title: string;
+  lines: string[];
+}
+
+/**
+ * UNPLACED PART ANALYZER
+ */
+export class UnplacedPartAnalyzer {
+
+  /**
+   * Every part placed fewer times than asked for, with its reasons and closest stock
+   */
+  static diagnose(
+    stockUsage: StockUsage[],
+    availableStocks: Stock[],
+    requiredParts: Part[],
+    options: OptimizationOptions = {},
+    unplacedAssemblies: string[] = []
+  ): UnplacedPart[] {
+    const placed = requiredParts.map(() => 0);
+    stockUsage.forEach(usage => usage.placements.forEach(placement => {
+      const partIndex = parseInt(placement.partId.split('-')[1]);
+      if (partIndex in placed) placed[partIndex]++;
+    }));
+
+    return requiredParts.flatMap((part, partIndex) => {
+      const count = part.quantity - placed[partIndex];
+      if (count <= 0) return [];
+
+      const diagnosis = this.diagnosePart(part, partIndex, count, availableStocks, options, unplacedAssemblies);
+      console.log(`🔎 UNPLACED: ${diagnosis.message}`);
+      return [diagnosis];
+    });
+  }
+
+  /**
+   * What a failed calculation could not do, one note per kind of shortfall
+   */
+  static failureNotes(results: Pick<Results, 'unplacedParts' | 'unplacedAssemblies'>, options: OptimizationOptions = {}): FailureNote[] {
+    const notes: FailureNote[] = [];
+    if (results.unplacedAssemblies && results.unplacedAssemblies.length > 0) {
+      const within = options.assemblyConstraint === 'same-stock' ? 'from a single stock item' : 'from a single sheet';
+      notes.push({
+        title: 'Assemblies not cut',
+        lines: [`${results.unplacedAssemblies.join(', ')} cannot be cut ${within} with the stock available.`]
+      });
+    }
+    if (results.unplacedParts && results.unplacedParts.length > 0) {
+      notes.push({ title: 'Parts not placed', lines: results.unplacedParts.map(unplaced => unplaced.message) });
+    }
+    return notes;
+  }
+
+  private static diagnosePart(
+    part: Part,
+    partIndex: number,
+    count: number,
+    availableStocks: Stock[],
+    options: OptimizationOptions,
+    unplacedAssemblies: string[]
+  ): UnplacedPart {
+    const label = `${count}× ${part.name || `Part ${partIndex + 1}`}`;
+    const base = { partIndex, ...(part.name && { partName: part.name }), count };
+    if (availableStocks.length === 0) {
+      return { ...base, reasons: ['out-of-stock'], message: `${label} not placed: there is no stock` };
+    }
+
+    // Fewest obstacles first, then the nearest thickness
+    const candidates = availableStocks
+      .map((stock, stockIndex) => ({ stockIndex, obstacles: this.obstacles(part, stock, options) }))
+      .sort((a, b) =>
+        (a.obstacles.length - b.obstacles.length) ||
+        (Math.abs(availableStocks[a.stockIndex].thickness - part.thickness) - Math.abs(availableStocks[b.stockIndex].thickness - part.thickness)) ||
+        (a.stockIndex - b.stockIndex)
+      );
+    const closest = candidates[0];
+    const stock = availableStocks[closest.stockIndex];
+
+    // Stock the part can be cut from only runs short, unless its assembly held it back
+    const obstacles: StockObstacle[] = closest.obstacles.length > 0
+      ? closest.obstacles
+      : part.assembly && unplacedAssemblies.includes(part.assembly)
+        ? [{ reason: 'assembly', text: `assembly ${part.assembly} could not be kept together` }]
+        : [{ reason: 'out-of-stock', text: 'all of it is used' }];
+
+    const stockLabel = `${formatDimensions(stock, { includeGrainDirection: false })}${stock.material ? ` ${stock.material}` : ''}`;
+    return {
+      ...base,
+      reasons: obstacles.map(obstacle => obstacle.reason),
+      closestStockIndex: closest.stockIndex,
+      message: `${label} not placed — closest stock ${stockLabel}: ${obstacles.map(obstacle => obstacle.text).join('; ')}`
+    };
+  }
+
+  /**
+   * Everything that stops the part being cut from this stock item, ignoring how many are left
+   */
+  private static obstacles(part: Part, stock: Stock, options: OptimizationOptions): StockObstacle[] {
+    const obstacles: StockObstacle[] = [];
+
+    if (ConstraintProcessor.getThicknessRemoval(part, stock, options) === null) {
+      obstacles.push({ reason: 'thickness', text: `${stock.thickness}mm cannot make a ${part.thickness}mm part` });
+    }
+
+    if (ConstraintProcessor.getMaterialPenalty(part, stock, options) === null) {
+      obstacles.push({ reason: 'material', text: `${stock.material} cannot stand in for ${part.material}` });
+    } else if (ConstraintProcessor.requiresRip(part, stock) && !options.ripDimensional) {
+      obstacles.push({ reason: 'material', text: `the board would need ripping to ${part.width}mm` });
+    }
+
+    const usable = getUsableRegion(stock);
+    const fitsDirect = part.length <= usable.width && part.width <= usable.height;
+    const fitsTurned = part.width <= usable.width && part.length <= usable.height;
+    const partGrain = part.grainDirection?.toLowerCase();
+    const stockGrain = stock.grainDirection?.toLowerCase();
+    const grainConstrained = !!partGrain && partGrain !== 'any' && !!stockGrain && stockGrain !== 'any';
+
+    if (!fitsDirect && !fitsTurned) {
+      obstacles.push({ reason: 'too-large', text: `${part.length}×${part.width}mm does not fit the usable ${usable.width}×${usable.height}mm` });
+    } else if (grainConstrained && !(partGrain === stockGrain ? fitsDirect : fitsTurned)) {
+      obstacles.push({ reason: 'grain', text: 'it only fits turned across the grain' });
+    }
+
+    return obstacles;
+  }
+}
@@ -8,7 +8,8 @@ import {
   deleteCalculation,
   deleteAllCalculations,
   fetchWarehouseStock,
-  updateWarehouseStockItem // Added import
+  updateWarehouseStockItem, // Added import
+  createWarehouseStockItem
 } from "./lib/api";
 import { 
   SavedCalculation, 
@@ -18,13 +19,45 @@ import {
   Placement, 
   StockUsage, 
   Results,
+  Remnant,
   MaterialType,
+  OptimizationOptions,
+  LayoutMode,
+  MaterialMatching,
+  MaterialSubstitution,
+  ThicknessPolicy,
+  ObjectiveMode,
+  OptimizationProfileName,
+  ProfileWeights,
+  AssemblyConstraint,
+  CatalogueItem,
+  PurchasePlan,
+  EdgeTrim,
+  EndChecks,
+  DefectZone,
+  LayoutIssue,
+  OptimizationProgress,
   formatDimensions,
-  createDimensionKey
+  createDimensionKey,
+  getUsableRegion
 } from "./lib/types";
 import { handleSheetMaterialCutting, handleDimensionalLumberCutting } from "./lib/cut-helpers";
-import { calculateOptimalCuts as calculateOptimalCutsExternal } from "./lib/calculateOptimalCuts";
+import { OptimizerClient } from "./lib/optimizer-client";
+import { RemnantAnalyzer } from "./lib/remnant-analyzer";
+import { PurchasePlanner } from "./lib/purchase-planner";
+import { UnplacedPartAnalyzer } from "./lib/unplaced-parts";
+import { PolygonGeometry } from "./lib/polygon-geometry";
+import { LayoutEditor, PlacementMove } from "./lib/layout-editor";
+import { OPTIMIZATION_PROFILES, EQUAL_WEIGHTS } from "./lib/optimization-profiles";
 import Link from "next/link";
+import { v4 as uuidv4 } from "uuid";
+
+// An offcut waiting for the user to confirm it should go back into the warehouse
+type RemnantReviewItem = {
+  remnant: Remnant;
+  include: boolean;
+  location: string;
+};
 
 // Add a warning to display placed/required count in the summary panel
 type SummaryPanelProps = {
@@ -54,20 +87,21 @@ const SummaryPanel: React.FC<SummaryPanelProps> = ({ placedPartsCount, requiredP
 };
 
 // Add color assignment function before the main component
+// Tailwind classes for rectangles, plus the same colours for outlines drawn in SVG
 const getPartColor = (partIndex: number) => {
   const colors = [
-    { border: 'border-blue-700', bg: 'bg-blue-200' },
-    { border: 'border-red-700', bg: 'bg-red-200' },
-    { border: 'border-green-700', bg: 'bg-green-200' },
-    { border: 'border-yellow-700', bg: 'bg-yellow-200' },
-    { border: 'border-purple-700', bg: 'bg-purple-200' },
-    { border: 'border-pink-700', bg: 'bg-pink-200' },
-    { border: 'border-indigo-700', bg: 'bg-indigo-200' },
-    { border: 'border-orange-700', bg: 'bg-orange-200' },
-    { border: 'border-teal-700', bg: 'bg-teal-200' },
-    { border: 'border-cyan-700', bg: 'bg-cyan-200' },
-    { border: 'border-lime-700', bg: 'bg-lime-200' },
-    { border: 'border-rose-700', bg: 'bg-rose-200' }
+    { border: 'border-blue-700', bg: 'bg-blue-200', stroke: '#1d4ed8', fill: '#bfdbfe' },
+    { border: 'border-red-700', bg: 'bg-red-200', stroke: '#b91c1c', fill: '#fecaca' },
+    { border: 'border-green-700', bg: 'bg-green-200', stroke: '#15803d', fill: '#bbf7d0' },
+    { border: 'border-yellow-700', bg: 'bg-yellow-200', stroke: '#a16207', fill: '#fef08a' },
+    { border: 'border-purple-700', bg: 'bg-purple-200', stroke: '#7e22ce', fill: '#e9d5ff' },
+    { border: 'border-pink-700', bg: 'bg-pink-200', stroke: '#be185d', fill: '#fbcfe8' },
+    { border: 'border-indigo-700', bg: 'bg-indigo-200', stroke: '#4338ca', fill: '#c7d2fe' },
+    { border: 'border-orange-700', bg: 'bg-orange-200', stroke: '#c2410c', fill: '#fed7aa' },
+    { border: 'border-teal-700', bg: 'bg-teal-200', stroke: '#0f766e', fill: '#99f6e4' },
+    { border: 'border-cyan-700', bg: 'bg-cyan-200', stroke: '#0e7490', fill: '#a5f3fc' },
+    { border: 'border-lime-700', bg: 'bg-lime-200', stroke: '#4d7c0f', fill: '#d9f99d' },
+    { border: 'border-rose-700', bg: 'bg-rose-200', stroke: '#be123c', fill: '#fecdd3' }
   ];
   return colors[partIndex % colors.length];
 };
@@ -76,6 +110,7 @@ export default function Home() {
   const [planName, setPlanName] = useState("");
   const [description, setDescription] = useState("");
   const [kerfThickness, setKerfThickness] = useState(0);
+  const [optimizationOptions, setOptimizationOptions] = useState<OptimizationOptions>({});
   const [availableStocks, setAvailableStocks] = useState<Stock[]>([]);
   const [requiredParts, setRequiredParts] = useState<Part[]>([]);
   const [results, setResults] = useState<Results | null>(null);
@@ -88,7 +123,19 @@ export default function Home() {
   const [useWarehouseStock, setUseWarehouseStock] = useState(false);
   const [resultsAreFreshForDeduction, setResultsAreFreshForDeduction] = useState(false); // New state
   const [cutStatus, setCutStatus] = useState<{ [placementKey: string]: boolean }>({}); // Track cut status
+  const [returnedRemnantSheets, setReturnedRemnantSheets] = useState<string[]>([]); // Sheets whose offcuts are back in the warehouse
+  const [remnantReview, setRemnantReview] = useState<RemnantReviewItem[] | null>(null); // Offcuts awaiting confirmation
+  const [purchasePlan, setPurchasePlan] = useState<PurchasePlan | null>(null); // What to buy when the stock runs short
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false); // Track unsaved changes
+  const [editingLayout, setEditingLayout] = useState(false); // Parts on the sheet diagrams can be dragged
+  const [dragPreview, setDragPreview] = useState<{ move: PlacementMove; issues: LayoutIssue[] } | null>(null);
+  const [layoutIssues, setLayoutIssues] = useState<LayoutIssue[]>([]); // Why the last edit was refused
+  const dragSource = React.useRef<{ fromSheet: number; placementIndex: number; grabX: number; grabY: number } | null>(null);
+  const [calculationProgress, setCalculationProgress] = useState<OptimizationProgress | null>(null); // Set while the optimizer worker runs
+  const optimizer = React.useRef<OptimizerClient | null>(null);
+
+  // The optimizer worker goes with the page
+  useEffect(() => () => optimizer.current?.dispose(), []);
 
   // Load saved calculations and warehouse stock from database on component mount
   useEffect(() => {
@@ -122,7 +169,7 @@ export default function Home() {
   // Reset resultsAreFreshForDeduction if inputs change that would require recalculation
   useEffect(() => {
     setResultsAreFreshForDeduction(false);
-  }, [availableStocks, requiredParts, kerfThickness, planName, description, useWarehouseStock]);
+  }, [availableStocks, requiredParts, kerfThickness, optimizationOptions, planName, description, useWarehouseStock]);
 
   // Track unsaved changes - mark as unsaved when form data changes
   useEffect(() => {
@@ -134,6 +181,7 @@ export default function Home() {
           planName !== currentCalculation.name ||
           description !== (currentCalculation.description || "") ||
           kerfThickness !== currentCalculation.kerfThickness ||
+          JSON.stringify(optimizationOptions) !== JSON.stringify(currentCalculation.optimizationOptions || {}) ||
           JSON.stringify(availableStocks) !== JSON.stringify(currentCalculation.availableStocks) ||
           JSON.stringify(requiredParts) !== JSON.stringify(currentCalculation.requiredParts) ||
           JSON.stringify(results) !== JSON.stringify(currentCalculation.results);
@@ -146,7 +194,7 @@ export default function Home() {
     } else {
       setHasUnsavedChanges(false);
     }
-  }, [planName, description, kerfThickness, availableStocks, requiredParts, results, isEditing, currentCalcId, savedCalculations]);
+  }, [planName, description, kerfThickness, optimizationOptions, availableStocks, requiredParts, results, isEditing, currentCalcId, savedCalculations]);
 
   // Add browser warning for unsaved changes
   useEffect(() => {
@@ -176,6 +224,10 @@ export default function Home() {
       material: item.material,
       materialType: item.materialType || MaterialType.Sheet, // Use the warehouse material type or default to sheet
       grainDirection: item.grainDirection, // Include grain direction
+      edgeTrim: item.edgeTrim, // Include squaring margins
+      defects: item.defects, // Include defects the layout must avoid
+      endChecks: item.endChecks,
+      unitCost: item.unitCost, // Include price for cost-based optimisation
       id: item.id 
     }));
     setAvailableStocks(stockFromWarehouse);
@@ -186,6 +238,7 @@ export default function Home() {
     setPlanName("");
     setDescription("");
     setKerfThickness(0);
+    setOptimizationOptions({});
     setAvailableStocks([]);
     setRequiredParts([]);
     setResults(null);
@@ -238,6 +291,139 @@ const updateStock = (index: number, field: keyof Stock, value: number | string)
 };
 
 
+  const updateStockTrim = (index: number, edge: keyof EdgeTrim, value: string) => {
+    const updatedStocks = [...availableStocks];
+    const numValue = parseFloat(value);
+    const currentTrim = updatedStocks[index].edgeTrim || { top: 0, bottom: 0, left: 0, right: 0 };
+    const edgeTrim = { ...currentTrim, [edge]: isNaN(numValue) || numValue < 0 ? 0 : numValue };
+
+    updatedStocks[index] = {
+      ...updatedStocks[index],
+      edgeTrim: Object.values(edgeTrim).some(v => v > 0) ? edgeTrim : undefined
+    };
+    setAvailableStocks(updatedStocks);
+  };
+
+  const updateStockEndCheck = (index: number, end: keyof EndChecks, value: string) => {
+    const updatedStocks = [...availableStocks];
+    const numValue = parseFloat(value);
+    const currentChecks = updatedStocks[index].endChecks || { start: 0, end: 0 };
+    const endChecks = { ...currentChecks, [end]: isNaN(numValue) || numValue < 0 ? 0 : numValue };
+
+    updatedStocks[index] = {
+      ...updatedStocks[index],
+      endChecks: endChecks.start > 0 || endChecks.end > 0 ? endChecks : undefined
+    };
+    setAvailableStocks(updatedStocks);
+  };
+
+  const addStockDefect = (index: number) => {
+    const updatedStocks = [...availableStocks];
+    updatedStocks[index] = {
+      ...updatedStocks[index],
+      defects: [...(updatedStocks[index].defects || []), { x: 0, y: 0, length: 0, width: 0 }]
+    };
+    setAvailableStocks(updatedStocks);
+  };
+
+  const updateStockDefect = (index: number, defectIndex: number, field: keyof DefectZone, value: string) => {
+    const updatedStocks = [...availableStocks];
+    const defects = [...(updatedStocks[index].defects || [])];
+    if (field === 'note') {
+      defects[defectIndex] = { ...defects[defectIndex], note: value || undefined };
+    } else {
+      const numValue = parseFloat(value);
+      defects[defectIndex] = { ...defects[defectIndex], [field]: isNaN(numValue) || numValue < 0 ? 0 : numValue };
+    }
+    updatedStocks[index] = { ...updatedStocks[index], defects };
+    setAvailableStocks(updatedStocks);
+  };
+
+  const removeStockDefect = (index: number, defectIndex: number) => {
+    const updatedStocks = [...availableStocks];
+    const defects = (updatedStocks[index].defects || []).filter((_, i) => i !== defectIndex);
+    updatedStocks[index] = { ...updatedStocks[index], defects: defects.length > 0 ? defects : undefined };
+    setAvailableStocks(updatedStocks);
+  };
+
+  const updateStockCost = (index: number, value: string) => {
+    const updatedStocks = [...availableStocks];
+    const numValue = parseFloat(value);
+    updatedStocks[index] = {
+      ...updatedStocks[index],
+      unitCost: isNaN(numValue) || numValue < 0 ? undefined : numValue
+    };
+    setAvailableStocks(updatedStocks);
+  };
+
+  const addMaterialSubstitution = () => {
+    setOptimizationOptions({
+      ...optimizationOptions,
+      materialSubstitutions: [
+        ...(optimizationOptions.materialSubstitutions || []),
+        { partMaterial: '', stockMaterial: '', penalty: 10 }
+      ]
+    });
+  };
+
+  const updateMaterialSubstitution = (index: number, field: keyof MaterialSubstitution, value: string) => {
+    const substitutions = [...(optimizationOptions.materialSubstitutions || [])];
+    substitutions[index] = {
+      ...substitutions[index],
+      [field]: field === 'penalty' ? Math.max(0, parseFloat(value) || 0) : value
+    };
+    setOptimizationOptions({ ...optimizationOptions, materialSubstitutions: substitutions });
+  };
+
+  const removeMaterialSubstitution = (index: number) => {
+    const substitutions = (optimizationOptions.materialSubstitutions || []).filter((_, i) => i !== index);
+    setOptimizationOptions({
+      ...optimizationOptions,
+      materialSubstitutions: substitutions.length > 0 ? substitutions : undefined
+    });
+  };
+
+  const addCatalogueItem = () => {
+    setOptimizationOptions({
+      ...optimizationOptions,
+      supplierCatalogue: [
+        ...(optimizationOptions.supplierCatalogue || []),
+        { length: 2440, width: 1220, thickness: 18, material: '', materialType: MaterialType.Sheet, price: 0 }
+      ]
+    });
+  };
+
+  const updateCatalogueItem = (index: number, field: keyof CatalogueItem, value: string) => {
+    const catalogue = [...(optimizationOptions.supplierCatalogue || [])];
+    const numeric = ['length', 'width', 'thickness', 'price'].includes(field);
+    catalogue[index] = {
+      ...catalogue[index],
+      [field]: numeric ? Math.max(0, parseFloat(value) || 0) : value
+    };
+    setOptimizationOptions({ ...optimizationOptions, supplierCatalogue: catalogue });
+  };
+
+  const removeCatalogueItem = (index: number) => {
+    const catalogue = (optimizationOptions.supplierCatalogue || []).filter((_, i) => i !== index);
+    setOptimizationOptions({
+      ...optimizationOptions,
+      supplierCatalogue: catalogue.length > 0 ? catalogue : undefined
+    });
+  };
+
+  // Add the planned purchases to the stock list and show the layout that proved them
+  const applyPurchasePlan = () => {
+    if (!purchasePlan || !purchasePlan.success) return;
+
+    setAvailableStocks([
+      ...availableStocks,
+      ...purchasePlan.purchases.map(line => PurchasePlanner.toStock(line.item, line.quantity))
+    ]);
+    setResults(purchasePlan.results);
+    setErrorMessage(null);
+    setPurchasePlan(null);
+  };
+
   const deleteStock = (index: number): void => {
     setAvailableStocks(availableStocks.filter((_, i) => i !== index));
   };
@@ -284,6 +470,13 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
   }
 };
 
+// Outline text is read when the field loses focus, so half-typed points are not thrown away
+const updatePartOutline = (index: number, text: string) => {
+  const updatedParts = [...requiredParts];
+  updatedParts[index] = { ...updatedParts[index], outline: PolygonGeometry.parseOutline(text) };
+  setRequiredParts(updatedParts);
+};
+
   const deletePart = (index: number): void => {
     setRequiredParts(requiredParts.filter((_, i) => i !== index));
   };
@@ -672,32 +865,68 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
     return result.filter(space => space.width > 0 && space.height > 0);
   };
 
+  // Run the optimizer in its worker, following its progress; resolves with null when cancelled
+  const runOptimizer = async (priorResults?: Results): Promise<Results | null> => {
+    optimizer.current = optimizer.current || new OptimizerClient();
+    setCalculationProgress({ phase: 'dimensional', sheetsDone: 0, bestEfficiency: 0 });
+    try {
+      return await optimizer.current.run(availableStocks, requiredParts, kerfThickness, optimizationOptions, priorResults, setCalculationProgress);
+    } finally {
+      setCalculationProgress(null);
+    }
+  };
+
+  // Work out what to buy in the optimizer worker too, as it re-runs the optimizer many times;
+  // resolves with null when cancelled
+  const runPurchasePlanner = async (catalogue: CatalogueItem[]): Promise<PurchasePlan | null> => {
+    optimizer.current = optimizer.current || new OptimizerClient();
+    setCalculationProgress({ phase: 'purchasing', sheetsDone: 0, bestEfficiency: 0 });
+    try {
+      return await optimizer.current.plan(availableStocks, requiredParts, kerfThickness, catalogue, optimizationOptions, setCalculationProgress);
+    } finally {
+      setCalculationProgress(null);
+    }
+  };
+
+  const cancelCalculation = () => {
+    optimizer.current?.cancel();
+  };
+
   // Calculate optimal cuts using the inventory-optimized algorithm
-  const calculateOptimalCuts = () => {
+  const calculateOptimalCuts = async () => {
     if (!validateInputs()) {
       return;
     }
     
-    // Reset cut status when starting new calculation
-    setCutStatus({});
-    
     setIsLoading(true);
-    setResultsAreFreshForDeduction(false); 
     
     try {
       console.log('=== STARTING INVENTORY-OPTIMIZED CALCULATION ===');
       console.log('Available stocks:', availableStocks);
       console.log('Required parts:', requiredParts);
       console.log('Kerf thickness:', kerfThickness);
+      console.log('Optimization options:', optimizationOptions);
       
       // Use the optimized inventory-first algorithm
-      const results = calculateOptimalCutsExternal(availableStocks, requiredParts, kerfThickness);
+      const results = await runOptimizer();
+      if (!results) {
+        console.log('✗ Calculation cancelled');
+        return;
+      }
+
+      // Reset cut status now the new calculation replaces the old one
+      setCutStatus({});
+      setReturnedRemnantSheets([]);
+      setRemnantReview(null);
+      setPurchasePlan(null);
+      setResultsAreFreshForDeduction(false);
       
       if (results.success) {
         console.log('✓ Calculation completed successfully');
         console.log('Results:', results);
         setResults(results);
         setErrorMessage(null);
+        setPurchasePlan(null);
 
         // If warehouse stock was used and calculation is successful, mark results as fresh for deduction
         if (useWarehouseStock && results.stockUsage && results.stockUsage.length > 0) {
@@ -706,8 +935,13 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
       } else {
         console.log('✗ Calculation failed:', results.message);
         setErrorMessage(results.message || "Calculation failed");
-        setResults(null);
+        // Keep the failed results so the reasons behind the shortfall can be shown
+        setResults(results);
         setResultsAreFreshForDeduction(false);
+
+        // Work out what to buy when a supplier catalogue is available
+        const catalogue = optimizationOptions.supplierCatalogue || [];
+        setPurchasePlan(catalogue.length > 0 ? await runPurchasePlanner(catalogue) : null);
       }
 
     } catch (error: any) {
@@ -733,6 +967,7 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
     
     try {
       const timestamp = Date.now();
+      const resultsToSave = results ? withCutStatus(results) : results;
       
       const calculationToSave: SavedCalculation = {
         id: currentCalcId || `calc-${timestamp}`,
@@ -741,7 +976,9 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
         kerfThickness,
         availableStocks,
         requiredParts,
-        results, 
+        results: resultsToSave, 
+        optimizationOptions,
+        returnedRemnantSheets: returnedRemnantSheets.length > 0 ? returnedRemnantSheets : undefined,
         dateCreated: isEditing && currentCalcId ? (savedCalculations.find(c => c.id === currentCalcId)?.dateCreated || timestamp) : timestamp,
         dateModified: timestamp
       };
@@ -753,6 +990,7 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
             calc.id === currentCalcId ? calculationToSave : calc
           );
           setSavedCalculations(updatedCalculations);
+          setResults(resultsToSave);
           alert("Calculation updated successfully!");
           calculationSavedSuccessfully = true;
           setHasUnsavedChanges(false); // Clear unsaved changes flag
@@ -763,6 +1001,7 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
         const success = await createCalculation(calculationToSave);
         if (success) {
           setSavedCalculations([...savedCalculations, calculationToSave]);
+          setResults(resultsToSave);
           setCurrentCalcId(calculationToSave.id); // Set current ID for the new save
           setIsEditing(true); // Now we are editing this newly saved calculation
           alert("Calculation saved successfully!");
@@ -863,6 +1102,7 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
         availableStocks: JSON.parse(JSON.stringify(availableStocks)), // Deep copy
         requiredParts: JSON.parse(JSON.stringify(requiredParts)),   // Deep copy
         results: results ? JSON.parse(JSON.stringify(results)) : null, // Deep copy results if they exist
+        optimizationOptions: { ...optimizationOptions },
         dateCreated: timestamp,
         dateModified: timestamp
       };
@@ -876,6 +1116,7 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
         setPlanName(duplicatedCalculation.name);
         setDescription(duplicatedCalculation.description);
         setKerfThickness(duplicatedCalculation.kerfThickness);
+        setOptimizationOptions(duplicatedCalculation.optimizationOptions || {});
         setAvailableStocks(duplicatedCalculation.availableStocks);
         setRequiredParts(duplicatedCalculation.requiredParts);
         setResults(duplicatedCalculation.results);
@@ -912,10 +1153,15 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
     setPlanName(calculation.name);
     setDescription(calculation.description || ""); // Ensure description is not undefined
     setKerfThickness(calculation.kerfThickness);
+    setOptimizationOptions(calculation.optimizationOptions ? { ...calculation.optimizationOptions } : {});
     // Deep copy arrays to prevent direct mutation of savedCalculations state
     setAvailableStocks(JSON.parse(JSON.stringify(calculation.availableStocks)));
     setRequiredParts(JSON.parse(JSON.stringify(calculation.requiredParts)));
     setResults(calculation.results ? JSON.parse(JSON.stringify(calculation.results)) : null);
+    setCutStatus(cutStatusFrom(calculation.results));
+    setReturnedRemnantSheets(calculation.returnedRemnantSheets || []);
+    setRemnantReview(null);
+    setPurchasePlan(null);
     setCurrentCalcId(calculation.id);
     setIsEditing(true);
     setErrorMessage(null);
@@ -996,6 +1242,217 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
     setCutStatus({});
   };
 
+  // Cut status is kept on the placements when a calculation is saved
+  const withCutStatus = (currentResults: Results): Results => ({
+    ...currentResults,
+    stockUsage: currentResults.stockUsage.map((usage, usageIndex) => ({
+      ...usage,
+      placements: usage.placements.map(placement => ({
+        ...placement,
+        cut: !!cutStatus[generatePlacementKey(placement, usageIndex)]
+      }))
+    }))
+  });
+
+  const cutStatusFrom = (savedResults: Results | null) => {
+    const status: { [placementKey: string]: boolean } = {};
+    savedResults?.stockUsage.forEach((usage, usageIndex) => {
+      usage.placements.forEach(placement => {
+        if (placement.cut) status[generatePlacementKey(placement, usageIndex)] = true;
+      });
+    });
+    return status;
+  };
+
+  // Layout editing: a part is picked up where it was grabbed and checked live wherever it is held
+  const startPartDrag = (e: React.DragEvent<HTMLDivElement>, sheetIndex: number, placementIndex: number, width: number, height: number) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    dragSource.current = {
+      fromSheet: sheetIndex,
+      placementIndex,
+      grabX: (e.clientX - rect.left) / rect.width * width,
+      grabY: (e.clientY - rect.top) / rect.height * height
+    };
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  const dragMoveAt = (e: React.DragEvent<HTMLDivElement>, sheetIndex: number, stock: Stock): PlacementMove | null => {
+    const source = dragSource.current;
+    if (!source || !results) return null;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const placement = results.stockUsage[source.fromSheet].placements[source.placementIndex];
+
+    return {
+      fromSheet: source.fromSheet,
+      placementIndex: source.placementIndex,
+      toSheet: sheetIndex,
+      x: Math.round((e.clientX - rect.left) / rect.width * stock.length - source.grabX),
+      y: Math.round((e.clientY - rect.top) / rect.height * stock.width - source.grabY),
+      rotated: placement.rotated
+    };
+  };
+
+  const previewPartDrag = (e: React.DragEvent<HTMLDivElement>, sheetIndex: number, stock: Stock) => {
+    const move = dragMoveAt(e, sheetIndex, stock);
+    if (!move || !results) return;
+    e.preventDefault();
+    if (dragPreview && dragPreview.move.toSheet === move.toSheet && dragPreview.move.x === move.x && dragPreview.move.y === move.y) return;
+    setDragPreview({ move, issues: LayoutEditor.checkMove(results, move, availableStocks, kerfThickness, optimizationOptions) });
+  };
+
+  const applyLayoutEdit = (edit: (current: Results) => { results: Results; issues: LayoutIssue[] }) => {
+    if (!results) return;
+    const { results: edited, issues } = edit(withCutStatus(results));
+    setLayoutIssues(issues);
+    if (issues.length > 0) return;
+    setResults(edited);
+    setCutStatus(cutStatusFrom(edited));
+  };
+
+  const dropPart = (e: React.DragEvent<HTMLDivElement>, sheetIndex: number, stock: Stock) => {
+    e.preventDefault();
+    const move = dragMoveAt(e, sheetIndex, stock);
+    if (move) {
+      applyLayoutEdit(current => LayoutEditor.applyMove(current, move, availableStocks, kerfThickness, optimizationOptions));
+    }
+    dragSource.current = null;
+    setDragPreview(null);
+  };
+
+  const rotatePart = (sheetIndex: number, placementIndex: number) => {
+    applyLayoutEdit(current => LayoutEditor.rotate(current, sheetIndex, placementIndex, availableStocks, kerfThickness, optimizationOptions));
+  };
+
+  // Locked parts keep their place when the rest of the job is re-optimised around them
+  const toggleLocked = (sheetIndex: number, placementIndex: number) => {
+    if (!results) return;
+    setResults({
+      ...results,
+      stockUsage: results.stockUsage.map((usage, usageIndex) => usageIndex !== sheetIndex ? usage : {
+        ...usage,
+        placements: usage.placements.map((placement, pIndex) =>
+          pIndex === placementIndex ? { ...placement, locked: !placement.locked } : placement
+        )
+      })
+    });
+  };
+
+  // A sheet damaged mid-job is marked unusable, so re-planning uses none of what is left of it
+  const toggleUnusable = (sheetIndex: number) => {
+    if (!results) return;
+    setResults({
+      ...results,
+      stockUsage: results.stockUsage.map((usage, usageIndex) =>
+        usageIndex === sheetIndex ? { ...usage, unusable: !usage.unusable } : usage
+      )
+    });
+  };
+
+  // Locked and already-cut parts stay put; re-planning mid-job lays out only what is left,
+  // on the untouched sheets and what remains of the partly cut ones
+  const reoptimiseAroundFixedParts = async () => {
+    if (!results || !validateInputs()) return;
+
+    setIsLoading(true);
+    try {
+      const reoptimised = await runOptimizer(withCutStatus(results));
+      if (!reoptimised) return;
+      setLayoutIssues([]);
+      if (reoptimised.success) {
+        setResults(reoptimised);
+        setCutStatus(cutStatusFrom(reoptimised));
+        setErrorMessage(null);
+      } else {
+        setErrorMessage(reoptimised.message || "Re-optimisation failed");
+      }
+    } catch (error: any) {
+      console.error("Error re-optimising around fixed parts:", error);
+      setErrorMessage(error.message || "An error occurred during re-optimisation");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Offcut return: list the offcuts of fully cut sheets for the user to review
+  const startRemnantReturn = () => {
+    const calculation = savedCalculations.find(calc => calc.id === currentCalcId);
+    if (!calculation || !results) {
+      alert("Save the calculation before returning offcuts to the warehouse.");
+      return;
+    }
+
+    const pending = RemnantAnalyzer.pendingReturns({
+      ...calculation,
+      results: withCutStatus(results),
+      returnedRemnantSheets
+    }, warehouseStock);
+    if (pending.length === 0) {
+      alert("No offcuts to return yet. Mark every part on a sheet as cut first.");
+      return;
+    }
+
+    setRemnantReview(pending.map(remnant => ({
+      remnant,
+      include: true,
+      location: availableStocks[remnant.stockIndex]?.location || ""
+    })));
+  };
+
+  const updateRemnantReviewItem = (index: number, changes: Partial<RemnantReviewItem>) => {
+    setRemnantReview(prev => prev && prev.map((item, i) => i === index ? { ...item, ...changes } : item));
+  };
+
+  // Create the confirmed offcuts as warehouse stock and remember which sheets are done.
+  // Each offcut carries its sheet id, so one created before a failure is not offered again.
+  const commitRemnantReturn = async () => {
+    const calculation = savedCalculations.find(calc => calc.id === currentCalcId);
+    if (!calculation || !results || !remnantReview) return;
+
+    setIsLoading(true);
+    try {
+      let created = 0;
+      const failedSheets = new Set<string>();
+      for (const item of remnantReview.filter(item => item.include)) {
+        const source = { calculationId: calculation.id, calculationName: calculation.name, sheetId: item.remnant.sheetId };
+        const stock = await createWarehouseStockItem({
+          ...RemnantAnalyzer.toWarehouseStock(item.remnant, source, item.location || undefined),
+          id: uuidv4()
+        });
+        if (stock) created++;
+        else failedSheets.add(item.remnant.sheetId);
+      }
+
+      // Excluded offcuts were reviewed too, so their sheets are not offered again. A sheet
+      // with an offcut that failed stays open, and only its missing offcuts are offered again.
+      const updatedReturned = Array.from(new Set([
+        ...returnedRemnantSheets,
+        ...remnantReview.map(item => item.remnant.sheetId).filter(sheetId => !failedSheets.has(sheetId))
+      ]));
+      const updatedCalculation: SavedCalculation = {
+        ...calculation,
+        results: withCutStatus(results),
+        returnedRemnantSheets: updatedReturned,
+        dateModified: Date.now()
+      };
+
+      if (await updateCalculation(updatedCalculation)) {
+        setSavedCalculations(savedCalculations.map(calc => calc.id === calculation.id ? updatedCalculation : calc));
+        setReturnedRemnantSheets(updatedReturned);
+      }
+
+      setWarehouseStock(await fetchWarehouseStock());
+      setRemnantReview(null);
+      alert(failedSheets.size > 0
+        ? `${created} offcut${created === 1 ? '' : 's'} added, but some could not be added to the warehouse. Return the offcuts again to retry the rest.`
+        : `${created} offcut${created === 1 ? '' : 's'} added to the warehouse.`);
+    } catch (error) {
+      console.error("Error returning offcuts to the warehouse:", error);
+      alert("An error occurred while returning offcuts to the warehouse");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Create a new calculation plan by resetting all data
   const createNewCalculation = () => {
     // Check for unsaved changes first
@@ -1013,6 +1470,7 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
     setPlanName("");
     setDescription("");
     setKerfThickness(0);
+    setOptimizationOptions({});
     setAvailableStocks([]);
     setRequiredParts([]);
     setResults(null);
@@ -1022,6 +1480,9 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
     setUseWarehouseStock(false);
     setResultsAreFreshForDeduction(false);
     setCutStatus({});
+    setReturnedRemnantSheets([]);
+    setRemnantReview(null);
+    setPurchasePlan(null);
     setHasUnsavedChanges(false); // Clear unsaved changes flag
     
     // Optionally add some default stocks to get started
@@ -1064,6 +1525,11 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                     <div className="mb-2">
                       <p className="text-sm font-semibold truncate">{calc.name}</p>
                       <p className="text-xs text-gray-500 line-clamp-2">{calc.description}</p>
+                      {calc.optimizationOptions?.profile && (
+                        <p className="text-xs text-gray-400">
+                          Profile: {OPTIMIZATION_PROFILES.find(profile => profile.name === calc.optimizationOptions!.profile)?.label}
+                        </p>
+                      )}
                     </div>
                     
                     <div className="flex justify-between items-center">
@@ -1154,6 +1620,396 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                   min="0"
                 />
               </div>
+
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Layout Mode</label>
+                <select
+                  className="w-full px-2 py-1 border rounded-md"
+                  value={optimizationOptions.layoutMode || 'standard'}
+                  onChange={(e) => setOptimizationOptions({
+                    ...optimizationOptions,
+                    layoutMode: e.target.value as LayoutMode
+                  })}
+                >
+                  <option value="standard">Standard (free placement)</option>
+                  <option value="guillotine">Guillotine only (panel saw)</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Extra Search Time (s, 0 = off)</label>
+                <input
+                  type="number"
+                  className="w-full px-2 py-1 border rounded-md"
+                  value={optimizationOptions.search ? (optimizationOptions.search.timeLimitMs || 0) / 1000 : 0}
+                  onChange={(e) => {
+                    const seconds = parseFloat(e.target.value) || 0;
+                    setOptimizationOptions({
+                      ...optimizationOptions,
+                      search: seconds > 0
+                        ? { ...optimizationOptions.search, timeLimitMs: seconds * 1000 }
+                        : undefined
+                    });
+                  }}
+                  min="0"
+                  max="60"
+                />
+              </div>
+
+              {optimizationOptions.search && (
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Search Seed</label>
+                  <input
+                    type="number"
+                    className="w-full px-2 py-1 border rounded-md"
+                    value={optimizationOptions.search.seed ?? 1}
+                    onChange={(e) => setOptimizationOptions({
+                      ...optimizationOptions,
+                      search: { ...optimizationOptions.search, seed: parseInt(e.target.value) || 1 }
+                    })}
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Material Matching</label>
+                <select
+                  className="w-full px-2 py-1 border rounded-md"
+                  value={optimizationOptions.materialMatching || 'strict'}
+                  onChange={(e) => setOptimizationOptions({
+                    ...optimizationOptions,
+                    materialMatching: e.target.value as MaterialMatching
+                  })}
+                >
+                  <option value="strict">Strict (substitutions only)</option>
+                  <option value="any">Any material</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Thickness Policy</label>
+                <select
+                  className="w-full px-2 py-1 border rounded-md"
+                  value={optimizationOptions.thicknessPolicy || 'mill'}
+                  onChange={(e) => setOptimizationOptions({
+                    ...optimizationOptions,
+                    thicknessPolicy: e.target.value as ThicknessPolicy
+                  })}
+                >
+                  <option value="mill">Allow thicker stock (plane/resaw)</option>
+                  <option value="tolerance">Match within tolerance</option>
+                  <option value="exact">Exact thickness only</option>
+                </select>
+              </div>
+
+              {optimizationOptions.thicknessPolicy !== 'exact' && (
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Thickness Tolerance (mm)</label>
+                  <input
+                    type="number"
+                    className="w-full px-2 py-1 border rounded-md"
+                    value={optimizationOptions.thicknessTolerance ?? (optimizationOptions.thicknessPolicy === 'tolerance' ? 0.5 : 0)}
+                    onChange={(e) => {
+                      const tolerance = parseFloat(e.target.value);
+                      setOptimizationOptions({
+                        ...optimizationOptions,
+                        thicknessTolerance: isNaN(tolerance) || tolerance < 0 ? undefined : tolerance
+                      });
+                    }}
+                    min="0"
+                    step="0.1"
+                  />
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Optimisation Profile</label>
+                <select
+                  className="w-full px-2 py-1 border rounded-md"
+                  value={optimizationOptions.profile || ''}
+                  onChange={(e) => setOptimizationOptions({
+                    ...optimizationOptions,
+                    profile: (e.target.value || undefined) as OptimizationProfileName | undefined
+                  })}
+                  title={OPTIMIZATION_PROFILES.find(profile => profile.name === optimizationOptions.profile)?.description}
+                >
+                  <option value="">None (single layout)</option>
+                  {OPTIMIZATION_PROFILES.map(profile => (
+                    <option key={profile.name} value={profile.name}>{profile.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {optimizationOptions.profile === 'custom' && (
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Weights (sheets, waste, cuts, remnant, cost)</label>
+                  <div className="flex gap-1">
+                    {(Object.keys(EQUAL_WEIGHTS) as (keyof ProfileWeights)[]).map(measure => (
+                      <input
+                        key={measure}
+                        type="number"
+                        className="w-full px-1 py-1 border rounded-md"
+                        value={(optimizationOptions.profileWeights || EQUAL_WEIGHTS)[measure]}
+                        onChange={(e) => {
+                          const weight = parseFloat(e.target.value);
+                          setOptimizationOptions({
+                            ...optimizationOptions,
+                            profileWeights: {
+                              ...(optimizationOptions.profileWeights || EQUAL_WEIGHTS),
+                              [measure]: isNaN(weight) || weight < 0 ? 0 : weight
+                            }
+                          });
+                        }}
+                        min="0"
+                        step="0.1"
+                        title={measure}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {(!optimizationOptions.profile || optimizationOptions.profile === 'custom') && (
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Objective</label>
+                  <select
+                    className="w-full px-2 py-1 border rounded-md"
+                    value={optimizationOptions.objective || 'efficiency'}
+                    onChange={(e) => setOptimizationOptions({
+                      ...optimizationOptions,
+                      objective: e.target.value as ObjectiveMode
+                    })}
+                  >
+                    <option value="efficiency">Maximum efficiency</option>
+                    <option value="remnants">Keep reusable offcuts</option>
+                    <option value="cost">Lowest material cost</option>
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Assembly Parts</label>
+                <select
+                  className="w-full px-2 py-1 border rounded-md"
+                  value={optimizationOptions.assemblyConstraint || 'none'}
+                  onChange={(e) => setOptimizationOptions({
+                    ...optimizationOptions,
+                    assemblyConstraint: e.target.value as AssemblyConstraint
+                  })}
+                  title="Keep the parts of each assembly together, e.g. for colour-matched veneer"
+                >
+                  <option value="none">No constraint</option>
+                  <option value="same-sheet">From the same sheet</option>
+                  <option value="same-stock">From the same stock item</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Minimum Offcut to Keep (L × W mm)</label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    className="w-full px-2 py-1 border rounded-md"
+                    value={optimizationOptions.minRemnant?.length ?? 300}
+                    onChange={(e) => {
+                      const length = parseFloat(e.target.value);
+                      setOptimizationOptions({
+                        ...optimizationOptions,
+                        minRemnant: {
+                          length: isNaN(length) || length < 0 ? 300 : length,
+                          width: optimizationOptions.minRemnant?.width ?? 100
+                        }
+                      });
+                    }}
+                    min="0"
+                  />
+                  <input
+                    type="number"
+                    className="w-full px-2 py-1 border rounded-md"
+                    value={optimizationOptions.minRemnant?.width ?? 100}
+                    onChange={(e) => {
+                      const width = parseFloat(e.target.value);
+                      setOptimizationOptions({
+                        ...optimizationOptions,
+                        minRemnant: {
+                          length: optimizationOptions.minRemnant?.length ?? 300,
+                          width: isNaN(width) || width < 0 ? 100 : width
+                        }
+                      });
+                    }}
+                    min="0"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-end">
+                <label className="flex items-center gap-2 text-sm text-gray-700 pb-1">
+                  <input
+                    type="checkbox"
+                    checked={!!optimizationOptions.ripDimensional}
+                    onChange={(e) => setOptimizationOptions({
+                      ...optimizationOptions,
+                      ripDimensional: e.target.checked || undefined
+                    })}
+                    className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
+                  />
+                  Rip dimensional lumber to width
+                </label>
+              </div>
+
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Stack Height (sheets cut at once)</label>
+                <input
+                  type="number"
+                  className="w-full px-2 py-1 border rounded-md"
+                  value={optimizationOptions.stackHeight ?? 1}
+                  onChange={(e) => {
+                    const height = parseInt(e.target.value);
+                    setOptimizationOptions({
+                      ...optimizationOptions,
+                      stackHeight: isNaN(height) || height <= 1 ? undefined : height
+                    });
+                  }}
+                  min="1"
+                  max="10"
+                  title="Identical sheets are cut together in stacks of up to this many"
+                />
+              </div>
+
+              {(optimizationOptions.stackHeight || 1) > 1 && (
+                <div className="flex items-end">
+                  <label className="flex items-center gap-2 text-sm text-gray-700 pb-1">
+                    <input
+                      type="checkbox"
+                      checked={!!optimizationOptions.favourRepeats}
+                      onChange={(e) => setOptimizationOptions({
+                        ...optimizationOptions,
+                        favourRepeats: e.target.checked || undefined
+                      })}
+                      className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 focus:ring-2"
+                    />
+                    Favour repeated sheet layouts
+                  </label>
+                </div>
+              )}
+
+              <div className="md:col-span-2">
+                <div className="flex justify-between items-center mb-1">
+                  <label className="block text-xs text-gray-500">Material Substitutions</label>
+                  <button
+                    type="button"
+                    onClick={addMaterialSubstitution}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    + Add substitution
+                  </button>
+                </div>
+                {(optimizationOptions.materialSubstitutions || []).length === 0 ? (
+                  <p className="text-xs text-gray-400">Parts are only cut from stock of the same material.</p>
+                ) : (
+                  <div className="space-y-1">
+                    {(optimizationOptions.materialSubstitutions || []).map((substitution, index) => (
+                      <div key={index} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="text"
+                          className="flex-1 px-2 py-1 border rounded-md"
+                          placeholder="Part material"
+                          value={substitution.partMaterial}
+                          onChange={(e) => updateMaterialSubstitution(index, 'partMaterial', e.target.value)}
+                        />
+                        <span className="text-xs text-gray-500">may use</span>
+                        <input
+                          type="text"
+                          className="flex-1 px-2 py-1 border rounded-md"
+                          placeholder="Stock material"
+                          value={substitution.stockMaterial}
+                          onChange={(e) => updateMaterialSubstitution(index, 'stockMaterial', e.target.value)}
+                        />
+                        <input
+                          type="number"
+                          className="w-20 px-2 py-1 border rounded-md"
+                          title="Penalty (lower penalties are used first)"
+                          value={substitution.penalty}
+                          onChange={(e) => updateMaterialSubstitution(index, 'penalty', e.target.value)}
+                          min="0"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeMaterialSubstitution(index)}
+                          className="text-red-500 hover:text-red-700 text-xs"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="md:col-span-2">
+                <div className="flex justify-between items-center mb-1">
+                  <label className="block text-xs text-gray-500">Supplier Catalogue</label>
+                  <button
+                    type="button"
+                    onClick={addCatalogueItem}
+                    className="text-xs text-blue-600 hover:text-blue-800"
+                  >
+                    + Add size
+                  </button>
+                </div>
+                {(optimizationOptions.supplierCatalogue || []).length === 0 ? (
+                  <p className="text-xs text-gray-400">Add the sizes you can buy to get a purchase plan when stock runs short.</p>
+                ) : (
+                  <div className="space-y-1">
+                    {(optimizationOptions.supplierCatalogue || []).map((item, index) => (
+                      <div key={index} className="flex items-center gap-2 text-sm">
+                        {(['length', 'width', 'thickness'] as const).map(field => (
+                          <input
+                            key={field}
+                            type="number"
+                            className="w-20 px-2 py-1 border rounded-md"
+                            title={`${field.charAt(0).toUpperCase()}${field.slice(1)} (mm)`}
+                            value={item[field]}
+                            onChange={(e) => updateCatalogueItem(index, field, e.target.value)}
+                            min="0"
+                          />
+                        ))}
+                        <select
+                          className="px-2 py-1 border rounded-md"
+                          value={item.materialType || MaterialType.Sheet}
+                          onChange={(e) => updateCatalogueItem(index, 'materialType', e.target.value)}
+                        >
+                          <option value={MaterialType.Sheet}>Sheet</option>
+                          <option value={MaterialType.Dimensional}>Dimensional</option>
+                        </select>
+                        <input
+                          type="text"
+                          className="flex-1 px-2 py-1 border rounded-md"
+                          placeholder="Material"
+                          value={item.material || ''}
+                          onChange={(e) => updateCatalogueItem(index, 'material', e.target.value)}
+                        />
+                        <input
+                          type="number"
+                          className="w-20 px-2 py-1 border rounded-md"
+                          title="Price per sheet or board"
+                          value={item.price}
+                          onChange={(e) => updateCatalogueItem(index, 'price', e.target.value)}
+                          min="0"
+                          step="0.01"
+                        />
+                        <button
+                          type="button"
+                          onClick={() => removeCatalogueItem(index)}
+                          className="text-red-500 hover:text-red-700 text-xs"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
             </div>
           </div>
           
@@ -1248,6 +2104,19 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                   onChange={(e) => updateStock(index, 'material', e.target.value)}
                 />
               </div>
+
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Unit Cost</label>
+                <input
+                  type="number"
+                  className="w-full px-2 py-1 border rounded-md"
+                  value={stock.unitCost ?? ''}
+                  onChange={(e) => updateStockCost(index, e.target.value)}
+                  min="0"
+                  step="0.01"
+                  placeholder="Unpriced"
+                />
+              </div>
               
               {/* Only show grain direction for sheet materials */}
               {stock.materialType === MaterialType.Sheet && (
@@ -1265,8 +2134,99 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                 </div>
               )}
             </div>
+
+            {/* Edge trim margins removed by squaring cuts before any part is cut */}
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4 mb-2">
+              {(stock.materialType === MaterialType.Dimensional
+                ? (['left', 'right'] as const)
+                : (['top', 'bottom', 'left', 'right'] as const)
+              ).map(edge => (
+                <div key={edge}>
+                  <label className="block text-xs text-gray-500 mb-1">
+                    {stock.materialType === MaterialType.Dimensional
+                      ? `${edge === 'left' ? 'Start' : 'End'} Trim (mm)`
+                      : `${edge.charAt(0).toUpperCase()}${edge.slice(1)} Trim (mm)`}
+                  </label>
+                  <input
+                    type="number"
+                    className="w-full px-2 py-1 border rounded-md"
+                    value={stock.edgeTrim?.[edge] || ''}
+                    onChange={(e) => updateStockTrim(index, edge, e.target.value)}
+                    min="0"
+                    placeholder="0"
+                  />
+                </div>
+              ))}
+            </div>
+
+
+            {/* Checked board ends, cut off and discarded like the trim */}
+            {stock.materialType === MaterialType.Dimensional && (
+              <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-6 gap-4 mb-2">
+                {(['start', 'end'] as const).map(end => (
+                  <div key={end}>
+                    <label className="block text-xs text-gray-500 mb-1">
+                      {end === 'start' ? 'Start' : 'End'} Check (mm)
+                    </label>
+                    <input
+                      type="number"
+                      className="w-full px-2 py-1 border rounded-md"
+                      value={stock.endChecks?.[end] || ''}
+                      onChange={(e) => updateStockEndCheck(index, end, e.target.value)}
+                      min="0"
+                      placeholder="0"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Defects: knots, splits and damage measured from the stock's start corner */}
+            {(stock.defects || []).map((defect, dIndex) => (
+              <div key={dIndex} className="grid grid-cols-2 md:grid-cols-6 gap-2 mb-2 items-end">
+                {(['x', 'y', 'length', 'width'] as const).map(field => (
+                  <div key={field}>
+                    <label className="block text-xs text-gray-500 mb-1">
+                      Defect {field === 'x' || field === 'y' ? field.toUpperCase() : `${field.charAt(0).toUpperCase()}${field.slice(1)}`} (mm)
+                    </label>
+                    <input
+                      type="number"
+                      className="w-full px-2 py-1 border rounded-md"
+                      value={defect[field] || ''}
+                      onChange={(e) => updateStockDefect(index, dIndex, field, e.target.value)}
+                      min="0"
+                      placeholder="0"
+                    />
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Note</label>
+                  <input
+                    type="text"
+                    className="w-full px-2 py-1 border rounded-md"
+                    value={defect.note || ''}
+                    onChange={(e) => updateStockDefect(index, dIndex, 'note', e.target.value)}
+                    placeholder="e.g. Loose knot"
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeStockDefect(index, dIndex)}
+                  className="text-xs text-red-500 hover:text-red-700 pb-2 text-left"
+                >
+                  Remove defect
+                </button>
+              </div>
+            ))}
             
-            <div className="flex justify-end">
+            <div className="flex justify-between">
+              <button
+                type="button"
+                onClick={() => addStockDefect(index)}
+                className="text-xs text-blue-600 hover:text-blue-800"
+              >
+                + Add defect
+              </button>
               <button 
                 type="button" 
                 onClick={() => deleteStock(index)}
@@ -1389,6 +2349,48 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                   </select>
                 </div>
               )}
+
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">Assembly</label>
+                <input
+                  type="text"
+                  className="w-full px-2 py-1 border rounded-md"
+                  placeholder="e.g. Base cabinet 1"
+                  value={part.assembly || ''}
+                  onChange={(e) => updatePart(index, 'assembly', e.target.value)}
+                />
+              </div>
+
+              {/* Parts sharing a grain group are cut side by side so the grain flows across them */}
+              {part.materialType !== MaterialType.Dimensional && (
+                <div>
+                  <label className="block text-xs text-gray-500 mb-1">Grain Group</label>
+                  <input
+                    type="text"
+                    className="w-full px-2 py-1 border rounded-md"
+                    placeholder="e.g. Drawer fronts"
+                    value={part.grainGroup || ''}
+                    onChange={(e) => updatePart(index, 'grainGroup', e.target.value)}
+                    title="Parts with the same group name are cut next to each other, in list order, along the grain"
+                  />
+                </div>
+              )}
+
+              {/* Curved or angled CNC parts are nested by their outline instead of packed as rectangles */}
+              {part.materialType !== MaterialType.Dimensional && (
+                <div className="col-span-2">
+                  <label className="block text-xs text-gray-500 mb-1">Outline (CNC)</label>
+                  <input
+                    key={`outline-${index}-${PolygonGeometry.formatOutline(part.outline)}`}
+                    type="text"
+                    className="w-full px-2 py-1 border rounded-md font-mono text-xs"
+                    placeholder="x,y x,y x,y ... | hole x,y ..."
+                    defaultValue={PolygonGeometry.formatOutline(part.outline)}
+                    onBlur={(e) => updatePartOutline(index, e.target.value)}
+                    title="Corner points in mm within the length × width box; add holes after a |. Leave empty for a rectangle."
+                  />
+                </div>
+              )}
             </div>
             
             <div className="flex justify-end">
@@ -1443,10 +2445,126 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
       {/* Results and actions */}
       <div className="bg-white p-4 rounded-md shadow-md">
         <h2 className="text-xl font-semibold mb-4">Results</h2>
+        {calculationProgress && (
+          <div className="bg-blue-50 border border-blue-200 rounded-md p-3 mb-4 text-sm flex items-center justify-between gap-4">
+            <div>
+              <p className="font-medium text-blue-800">
+                {{
+                  dimensional: 'Planning dimensional lumber...',
+                  layout: 'Laying out sheets...',
+                  search: 'Searching for a better layout...',
+                  sequencing: 'Working out the cut sequence...',
+                  complete: 'Finishing...',
+                  purchasing: 'Working out what to buy...'
+                }[calculationProgress.phase]}
+              </p>
+              <p className="text-blue-700">
+                {calculationProgress.sheetsDone} {calculationProgress.sheetsDone === 1 ? 'sheet' : 'sheets'} laid out
+                {calculationProgress.sheetsDone > 0 && `, best efficiency so far ${calculationProgress.bestEfficiency.toFixed(1)}%`}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={cancelCalculation}
+              className="px-3 py-1 text-sm rounded-md border bg-white text-red-700 border-red-300 hover:bg-red-50"
+            >
+              Cancel
+            </button>
+          </div>
+        )}
         
+        {results?.ignoredSettings && results.ignoredSettings.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-4 text-sm">
+            <p className="font-medium text-yellow-800 mb-1">Settings not applied to this job</p>
+            <ul className="text-yellow-700 list-disc list-inside space-y-0.5">
+              {results.ignoredSettings.map(ignored => (
+                <li key={ignored.setting}>{ignored.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
         {results && results.success ? (
           <div>
             <p className="text-green-600 text-sm mb-4">{results.message}</p>
+            {results.searchStats && (
+              <p className="text-xs text-gray-500 mb-4">
+                Search: {results.searchStats.iterations} iterations in {(results.searchStats.elapsedMs / 1000).toFixed(1)}s
+                (seed {results.searchStats.seed}) — {results.searchStats.improvedOnGreedy ? 'improved on the standard layout' : 'standard layout was already best'}
+              </p>
+            )}
+            {results.profileScore && (
+              <p className="text-xs text-gray-500 mb-4">
+                Profile: {OPTIMIZATION_PROFILES.find(profile => profile.name === results.profileScore!.profile)?.label} — score {results.profileScore.score.toFixed(1)},
+                best of {results.profileScore.candidates} candidate layout{results.profileScore.candidates === 1 ? '' : 's'}
+                (sheets {results.profileScore.measures.sheets.toFixed(0)}, waste {results.profileScore.measures.waste.toFixed(0)},
+                cuts {results.profileScore.measures.cuts.toFixed(0)}, remnant {results.profileScore.measures.remnant.toFixed(0)},
+                cost {results.profileScore.measures.cost.toFixed(0)})
+              </p>
+            )}
+            {results.patterns && results.patterns.length > 0 && (
+              <div className="bg-blue-50 border border-blue-200 rounded-md p-3 mb-4 text-sm">
+                <p className="font-medium text-blue-800 mb-1">Repeated patterns</p>
+                <ul className="text-blue-700 space-y-0.5">
+                  {results.patterns.map(pattern => (
+                    <li key={pattern.patternId}>
+                      Pattern {pattern.patternId} × {pattern.sheetIds.length}: {pattern.sheetIds.join(', ')}
+                      {pattern.stacks.some(stack => stack.length > 1) && ` — cut as ${pattern.stacks.map(stack => stack.length).join(' + ')}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {results.violations && results.violations.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3 mb-4 text-sm">
+                <p className="font-medium text-red-800 mb-1">Check before cutting: this layout breaks {results.violations.length} rule{results.violations.length === 1 ? '' : 's'}</p>
+                <ul className="text-red-700 list-disc list-inside space-y-0.5">
+                  {results.violations.map((violation, index) => (
+                    <li key={index}>{violation.sheetId ? `${violation.sheetId}: ` : ''}{violation.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {results.materialSubstitutions && results.materialSubstitutions.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-4 text-sm">
+                <p className="font-medium text-yellow-800 mb-1">Material substitutions</p>
+                <ul className="text-yellow-700 space-y-0.5">
+                  {results.materialSubstitutions.map((substitution, index) => (
+                    <li key={index}>
+                      {substitution.quantity}× {substitution.partName || `Part ${substitution.partIndex + 1}`} ({substitution.partMaterial})
+                      cut from {substitution.stockMaterial} — penalty {substitution.penalty} each
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {results.millingOperations && results.millingOperations.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 mb-4 text-sm">
+                <p className="font-medium text-yellow-800 mb-1">
+                  Milling required (~{results.millingOperations.reduce((sum, operation) => sum + operation.estimatedMinutes, 0)}min)
+                </p>
+                <ul className="text-yellow-700 space-y-0.5">
+                  {results.millingOperations.map((operation, index) => (
+                    <li key={index}>
+                      {operation.sheetId}: {operation.method === 'resaw' ? 'resaw and plane' : 'plane'} {operation.quantity}× {operation.partName || `Part ${operation.partIndex + 1}`} from {operation.fromThickness}mm to {operation.toThickness}mm
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {results.remnants && results.remnants.length > 0 && (
+              <div className="bg-green-50 border border-green-200 rounded-md p-3 mb-4 text-sm">
+                <p className="font-medium text-green-800 mb-1">Reusable offcuts</p>
+                <ul className="text-green-700 space-y-0.5">
+                  {results.remnants.map((remnant, index) => (
+                    <li key={index}>
+                      {remnant.sheetId}: {formatDimensions({ length: remnant.length, width: remnant.width, thickness: remnant.thickness })}
+                      {remnant.material ? ` ${remnant.material}` : ''} at ({remnant.x}, {remnant.y})
+                      {remnant.grainDirection ? ` — grain ${remnant.grainDirection}` : ''}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             
             <h3 className="text-lg font-semibold mb-2">Stock Usage</h3>
             {results.stockUsage.map((usage, index) => (
@@ -1460,6 +2578,12 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                     <span className="text-sm text-gray-500">Used Area:</span> 
                     <span className="font-semibold">{usage.usedArea.toFixed(2)} mm²</span>
                   </div>
+                  {usage.cost !== undefined && (
+                    <div>
+                      <span className="text-sm text-gray-500">Cost:</span> 
+                      <span className="font-semibold">{usage.cost.toFixed(2)}</span>
+                    </div>
+                  )}
                 </div>
                 
                 <div className="grid grid-cols-2 gap-4">
@@ -1480,10 +2604,52 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
             </div>
           </div>
         ) : (
-          <p className="text-red-600 text-sm">{results ? results.message : "No results available."}</p>
+          <div>
+            <p className="text-red-600 text-sm">{results ? results.message : "No results available."}</p>
+            {results && UnplacedPartAnalyzer.failureNotes(results, optimizationOptions).map(note => (
+              <div key={note.title} className="bg-red-50 border border-red-200 rounded-md p-3 mt-3 text-sm">
+                <p className="font-medium text-red-800 mb-1">{note.title}</p>
+                <ul className="text-red-700 list-disc list-inside space-y-0.5">
+                  {note.lines.map((line, index) => (
+                    <li key={index}>{line}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
         )}
       </div>
       
+      {/* Purchase plan for a job the stock on hand cannot finish */}
+      {purchasePlan && (
+        <div className={`shadow rounded-lg p-6 mb-6 border ${purchasePlan.success ? 'bg-blue-50 border-blue-200' : 'bg-red-50 border-red-200'}`}>
+          <h3 className="text-lg font-semibold mb-2">Purchase Plan</h3>
+          {errorMessage && <p className="text-sm text-gray-600 mb-2">{errorMessage}</p>}
+          <p className="text-sm mb-2">{purchasePlan.message}</p>
+          {purchasePlan.purchases.length > 0 && (
+            <ul className="text-sm space-y-0.5 mb-2">
+              {purchasePlan.purchases.map((line, index) => (
+                <li key={index}>
+                  {line.quantity}× {formatDimensions(line.item)} {line.item.material || ''}
+                  {line.item.supplier ? ` from ${line.item.supplier}` : ''} — {line.cost.toFixed(2)}
+                </li>
+              ))}
+            </ul>
+          )}
+          {purchasePlan.success && purchasePlan.purchases.length > 0 && (
+            <div className="flex items-center gap-4">
+              <span className="font-semibold">Total: {purchasePlan.totalCost.toFixed(2)}</span>
+              <button
+                onClick={applyPurchasePlan}
+                className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
+              >
+                Add purchases to stock
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Results Section */}
       {results && results.success && (
         <div className="bg-white shadow rounded-lg p-6 mb-6 border border-gray-200">
@@ -1492,6 +2658,9 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
           <div className="mb-4">
             <p>Total Sheets Used: <span className="font-semibold">{results.totalUsedSheets}</span></p>
             <p>Total Waste Area: <span className="font-semibold">{Math.round(results.totalWaste)} mm²</span></p>
+            {results.totalCost !== undefined && (
+              <p>Material Cost: <span className="font-semibold">{results.totalCost.toFixed(2)}</span></p>
+            )}
           </div>
 
           {/* Cut Progress Summary */}
@@ -1531,8 +2700,86 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                 );
               })()}
             </div>
+            {(Object.values(cutStatus).some(Boolean) || results.stockUsage.some(usage => usage.unusable)) && (
+              <div className="mt-3 flex items-center gap-3">
+                <button
+                  onClick={reoptimiseAroundFixedParts}
+                  disabled={isLoading}
+                  className="px-3 py-1 bg-white text-green-700 border border-green-300 rounded-md hover:bg-green-100 text-sm disabled:opacity-50"
+                  title="Keep the parts already cut and plan the rest again on the stock still available"
+                >
+                  Re-plan Remaining
+                </button>
+                <span className="text-xs text-gray-600">
+                  Untouched sheets go back into stock; partly cut sheets are used around the parts already cut, and sheets marked unusable are set aside.
+                </span>
+              </div>
+            )}
+            {currentCalcId && (
+              <div className="mt-3 flex items-center gap-3">
+                <button
+                  onClick={startRemnantReturn}
+                  disabled={isLoading || !!remnantReview}
+                  className="px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm disabled:opacity-50"
+                >
+                  Return offcuts to warehouse
+                </button>
+                {returnedRemnantSheets.length > 0 && (
+                  <span className="text-xs text-green-700">Returned: {returnedRemnantSheets.join(', ')}</span>
+                )}
+              </div>
+            )}
           </div>
 
+          {/* Offcut return review */}
+          {remnantReview && (
+            <div className="mb-4 p-3 bg-white border border-green-300 rounded-md">
+              <h4 className="text-sm font-semibold text-green-800 mb-2">Review offcuts before adding them to the warehouse</h4>
+              <ul className="space-y-2 text-sm">
+                {remnantReview.map((item, index) => (
+                  <li key={index} className="flex flex-wrap items-center gap-3">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={item.include}
+                        onChange={(e) => updateRemnantReviewItem(index, { include: e.target.checked })}
+                        className="w-4 h-4 text-green-600 bg-gray-100 border-gray-300 rounded focus:ring-green-500 focus:ring-2"
+                      />
+                      <span className={item.include ? '' : 'line-through text-gray-400'}>
+                        {item.remnant.sheetId}: {formatDimensions(item.remnant)}
+                        {item.remnant.material ? ` ${item.remnant.material}` : ''}
+                        {item.remnant.grainDirection ? ` — grain ${item.remnant.grainDirection}` : ''}
+                      </span>
+                    </label>
+                    <input
+                      type="text"
+                      placeholder="Location"
+                      className="px-2 py-1 border rounded-md text-sm"
+                      value={item.location}
+                      onChange={(e) => updateRemnantReviewItem(index, { location: e.target.value })}
+                      disabled={!item.include}
+                    />
+                  </li>
+                ))}
+              </ul>
+              <div className="mt-3 flex gap-2">
+                <button
+                  onClick={commitRemnantReturn}
+                  disabled={isLoading}
+                  className="px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 text-sm disabled:opacity-50"
+                >
+                  Add {remnantReview.filter(item => item.include).length} to warehouse
+                </button>
+                <button
+                  onClick={() => setRemnantReview(null)}
+                  className="px-3 py-1 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300 text-sm"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Grain Direction Legend */}
           <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
             <h4 className="text-sm font-semibold text-blue-800 mb-2">Grain Direction Legend:</h4>
@@ -1555,7 +2802,47 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
             </div>
           </div>
           
-          <h4 className="text-lg font-semibold mb-2">Stock Usage:</h4>
+          <div className="flex items-center justify-between mb-2">
+            <h4 className="text-lg font-semibold">Stock Usage:</h4>
+            <div className="flex gap-2">
+              {results.stockUsage.some(usage => usage.placements.some(placement => placement.locked)) && (
+                <button
+                  type="button"
+                  onClick={reoptimiseAroundFixedParts}
+                  disabled={isLoading}
+                  className="px-3 py-1 text-sm rounded-md border bg-white text-amber-700 border-amber-300 hover:bg-amber-50 disabled:opacity-50"
+                  title="Keep locked parts where they are and lay out everything else again"
+                >
+                  Re-optimise Around Locked Parts
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={() => {
+                  setEditingLayout(!editingLayout);
+                  setLayoutIssues([]);
+                }}
+                className={`px-3 py-1 text-sm rounded-md border ${editingLayout ? 'bg-blue-600 text-white border-blue-700' : 'bg-white text-blue-700 border-blue-300 hover:bg-blue-50'}`}
+                title="Drag parts to move them, between sheets too; double-click a part to turn it"
+              >
+                {editingLayout ? 'Done Editing Layout' : 'Edit Layout'}
+              </button>
+            </div>
+          </div>
+          {editingLayout && (
+            <div className="mb-3 text-sm text-gray-600">
+              Drag a part to move it, onto another sheet if you like, and double-click it to turn it.
+              Lock a part with its 🔓 button to keep it there when re-optimising. Parts already cut or locked stay where they are.
+            </div>
+          )}
+          {layoutIssues.length > 0 && (
+            <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+              <p className="font-semibold">That edit was not applied:</p>
+              <ul className="list-disc list-inside">
+                {layoutIssues.map((issue, iIndex) => <li key={iIndex}>{issue.message}</li>)}
+              </ul>
+            </div>
+          )}
           <div className="space-y-4">
             {results.stockUsage.map((usage, index) => {
               const stock = availableStocks[usage.stockIndex];
@@ -1563,6 +2850,9 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                 <div key={index} className="bg-gray-50 p-4 rounded-md">
                   <h5 className="font-semibold text-brand-blue">
                     Stock #{index + 1} ({stock.length} x {stock.width} x {stock.thickness}mm)
+                    {usage.unusable && (
+                      <span className="ml-2 px-2 py-0.5 text-xs rounded bg-red-100 text-red-700 border border-red-300">Unusable</span>
+                    )}
                   </h5>
                   <div>
                     <p>
@@ -1573,6 +2863,9 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                     </p>
                     <p>Parts placed: {usage.placements.length}</p>
                     <p>Waste area: {Math.round(usage.wasteArea)} mm²</p>
+                    {usage.offcutLength !== undefined && (
+                      <p>Offcut: {Math.round(usage.offcutLength)} mm</p>
+                    )}
                   </div>
 
                   {/* Stock sheet visualization */}
@@ -1645,7 +2938,104 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                       )}
                       
                       {/* Parts placements */}
-                      <div className="absolute left-10 right-2 bottom-2" style={{ top: '58px' }}>
+                      <div
+                        className="absolute left-10 right-2 bottom-2"
+                        style={{ top: '58px' }}
+                        onDragOver={editingLayout ? (e) => previewPartDrag(e, index, stock) : undefined}
+                        onDrop={editingLayout ? (e) => dropPart(e, index, stock) : undefined}
+                      >
+                        {/* Trimmed edge bands (removed by the squaring cuts) */}
+                        {stock.edgeTrim && (() => {
+                          const usable = getUsableRegion(stock);
+                          const bands = [
+                            { key: 'top', left: 0, top: 0, width: stock.length, height: usable.y },
+                            { key: 'bottom', left: 0, top: usable.y + usable.height, width: stock.length, height: stock.width - usable.y - usable.height },
+                            { key: 'left', left: 0, top: 0, width: usable.x, height: stock.width },
+                            { key: 'right', left: usable.x + usable.width, top: 0, width: stock.length - usable.x - usable.width, height: stock.width }
+                          ].filter(band => band.width > 0 && band.height > 0);
+
+                          return bands.map(band => (
+                            <div
+                              key={`trim-${band.key}`}
+                              className="absolute bg-gray-300 opacity-70 pointer-events-none"
+                              style={{
+                                left: `${band.left * (100 / stock.length)}%`,
+                                top: `${band.top * (100 / stock.width)}%`,
+                                width: `${band.width * (100 / stock.length)}%`,
+                                height: `${band.height * (100 / stock.width)}%`,
+                                backgroundImage: 'repeating-linear-gradient(45deg, #6b7280 0px, #6b7280 1px, transparent 1px, transparent 6px)'
+                              }}
+                              title={`${band.key} edge trim`}
+                            />
+                          ));
+                        })()}
+
+                        {/* Defects and checked ends no part may be cut from */}
+                        {stock.defects?.map((defect, dIndex) => (
+                          <div
+                            key={`defect-${dIndex}`}
+                            className="absolute border border-red-500 bg-red-100 opacity-80 pointer-events-none"
+                            style={{
+                              left: `${defect.x * (100 / stock.length)}%`,
+                              top: `${defect.y * (100 / stock.width)}%`,
+                              width: `${defect.length * (100 / stock.length)}%`,
+                              height: `${defect.width * (100 / stock.width)}%`,
+                              backgroundImage: 'repeating-linear-gradient(-45deg, #ef4444 0px, #ef4444 1px, transparent 1px, transparent 5px)'
+                            }}
+                            title={defect.note ? `Defect: ${defect.note}` : 'Defect'}
+                          />
+                        ))}
+                        {stock.endChecks && (['start', 'end'] as const)
+                          .filter(end => stock.endChecks![end] > 0)
+                          .map(end => (
+                            <div
+                              key={`check-${end}`}
+                              className="absolute top-0 bottom-0 border border-red-500 bg-red-100 opacity-80 pointer-events-none"
+                              style={{
+                                [end === 'start' ? 'left' : 'right']: 0,
+                                width: `${stock.endChecks![end] * (100 / stock.length)}%`,
+                                backgroundImage: 'repeating-linear-gradient(-45deg, #ef4444 0px, #ef4444 1px, transparent 1px, transparent 5px)'
+                              }}
+                              title={`${end === 'start' ? 'Start' : 'End'} check`}
+                            />
+                          ))}
+
+                        {/* Grain-matched groups */}
+                        {results.grainGroups?.filter(group => group.sheetId === usage.sheetId).map((group, gIndex) => (
+                          <div
+                            key={`grain-group-${gIndex}`}
+                            className="absolute border-2 border-dashed border-purple-600 pointer-events-none z-10"
+                            style={{
+                              left: `${group.x * (100 / stock.length)}%`,
+                              top: `${group.y * (100 / stock.width)}%`,
+                              width: `${group.length * (100 / stock.length)}%`,
+                              height: `${group.width * (100 / stock.width)}%`
+                            }}
+                            title={`Grain group ${group.groupId}: ${group.partIds.length} parts`}
+                          >
+                            <span className="absolute -top-4 left-0 text-[10px] font-semibold text-purple-700 bg-white px-1 whitespace-nowrap">
+                              {group.groupId}
+                            </span>
+                          </div>
+                        ))}
+
+                        {/* Offcuts worth keeping */}
+                        {results.remnants?.filter(remnant => remnant.sheetId === usage.sheetId).map((remnant, rIndex) => (
+                          <div
+                            key={`remnant-${rIndex}`}
+                            className="absolute border-2 border-dashed border-green-500 bg-green-50 opacity-60 pointer-events-none flex items-center justify-center text-xs text-green-700"
+                            style={{
+                              left: `${remnant.x * (100 / stock.length)}%`,
+                              top: `${remnant.y * (100 / stock.width)}%`,
+                              width: `${remnant.length * (100 / stock.length)}%`,
+                              height: `${remnant.width * (100 / stock.width)}%`
+                            }}
+                            title={`Offcut ${remnant.length} × ${remnant.width}mm`}
+                          >
+                            Offcut
+                          </div>
+                        ))}
+
                         {usage.placements.map((placement, pIndex) => {
                           const partIndex = parseInt(placement.partId.split('-')[1]);
                           const part = results.sortedParts[partIndex];
@@ -1658,57 +3048,141 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                           
                           const scaleX = 100 / stock.length;
                           const scaleY = 100 / stock.width;
-                          const width = placement.rotated ? part.width : part.length;
-                          const height = placement.rotated ? part.length : part.width;
+                          // Nested parts may be turned to any angle, so their box comes from the outline
+                          const outline = placement.angle !== undefined ? PolygonGeometry.placedOutline(part, placement) : null;
+                          const box = outline ? PolygonGeometry.bounds(outline.points) : null;
+                          const width = box ? box.width : placement.rotated ? part.width : part.length;
+                          const height = box ? box.height : placement.rotated ? part.length : part.width;
 
                           // Get color for this part
-                          const { border, bg } = getPartColor(partIndex);
+                          const { border, bg, stroke, fill } = getPartColor(partIndex);
+                          const placementIsCut = !!cutStatus[generatePlacementKey(placement, index)];
+                          const placementIsFixed = placementIsCut || !!placement.locked;
 
                           return (
-                            <div 
-                              key={pIndex}
-                              className={`absolute ${border} ${bg} flex items-center justify-center text-xs cursor-help shadow-sm`}
+                            <React.Fragment key={pIndex}>
+                              {outline && (
+                                <svg
+                                  className="absolute inset-0 w-full h-full pointer-events-none"
+                                  viewBox={`0 0 ${stock.length} ${stock.width}`}
+                                  preserveAspectRatio="none"
+                                >
+                                  <path
+                                    d={[outline.points, ...(outline.holes || [])]
+                                      .map(ring => `M${ring.map(point => `${point.x},${point.y}`).join('L')}Z`)
+                                      .join(' ')}
+                                    fill={fill}
+                                    fillRule="evenodd"
+                                    stroke={stroke}
+                                    strokeWidth={2}
+                                    vectorEffect="non-scaling-stroke"
+                                  />
+                                </svg>
+                              )}
+                              <div 
+                                className={`absolute ${outline ? '' : `${border} ${bg}`} flex items-center justify-center text-xs ${editingLayout ? 'cursor-move' : 'cursor-help'} ${outline ? '' : 'shadow-sm'}`}
+                                draggable={editingLayout && !placementIsFixed}
+                                onDragStart={(e) => startPartDrag(e, index, pIndex, width, height)}
+                                onDragEnd={() => {
+                                  dragSource.current = null;
+                                  setDragPreview(null);
+                                }}
+                                onDoubleClick={editingLayout && !placementIsFixed ? () => rotatePart(index, pIndex) : undefined}
+                                style={{
+                                  left: `${placement.x * scaleX}%`,
+                                  top: `${placement.y * scaleY}%`,
+                                  width: `${width * scaleX}%`,
+                                  height: `${height * scaleY}%`,
+                                  transition: "all 0.3s ease"
+                                }}
+                                title={`${placement.name || `Part #${partIndex + 1}`} (${formatDimensions(part)}) - Instance #${pIndex + 1} - Position: (${Math.round(placement.x)},${Math.round(placement.y)}) - ${placement.rotated ? 'Rotated' : 'Not Rotated'}${placement.locked ? ' - Locked' : ''}`}
+                              >
+                                {(editingLayout || placement.locked) && (
+                                  <button
+                                    type="button"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      if (editingLayout) toggleLocked(index, pIndex);
+                                    }}
+                                    className={`absolute top-0 right-0 text-[10px] leading-none p-0.5 ${placement.locked ? 'opacity-100' : 'opacity-40 hover:opacity-100'}`}
+                                    title={placement.locked ? 'Locked: kept here when re-optimising' : 'Lock in place'}
+                                  >
+                                    {placement.locked ? '🔒' : '🔓'}
+                                  </button>
+                                )}
+                                <div className="text-center">
+                                  <div className="font-bold">{placement.name || `#${partIndex + 1}`}</div>
+                                  <div className="text-[9px] leading-tight">
+                                    {formatDimensions(part, { includeGrainDirection: false, includeUnits: false, rotated: placement.rotated })}
+                                  </div>
+                                  {placement.angle !== undefined && placement.angle % 90 !== 0
+                                    ? <div className="text-[10px]">↻ {placement.angle}°</div>
+                                    : placement.rotated && <div className="text-[10px]">↻</div>}
+                                  {part.grainDirection && stock.grainDirection && (
+                                    <div className="text-[12px] mt-1 font-bold">
+                                      {/* Enhanced grain direction indicator - properly considers both stock and part grain */}
+                                      {(() => {
+                                        const stockGrain = stock.grainDirection.toLowerCase();
+                                        const partGrain = part.grainDirection.toLowerCase();
+                                        const isAligned = (stockGrain === partGrain && !placement.rotated) ||
+                                                         (stockGrain !== partGrain && placement.rotated);
+                                      
+                                        return isAligned ? (
+                                          <div className="flex flex-col items-center bg-green-100 rounded px-1 py-0.5">
+                                            <span className="text-green-600 text-lg leading-none">↕</span>
+                                            <span className="text-green-600 text-[8px] leading-none font-bold">ALIGNED</span>
+                                          </div>
+                                        ) : (
+                                          <div className="flex flex-col items-center bg-red-100 rounded px-1 py-0.5">
+                                            <span className="text-red-600 text-lg leading-none">↔</span>
+                                            <span className="text-red-600 text-[8px] leading-none font-bold">CROSS</span>
+                                          </div>
+                                        );
+                                      })()}
+                                    </div>
+                                  )}
+                                </div>
+                              </div>
+                            </React.Fragment>
+                          );
+                        })}
+
+                        {/* Where a dragged part would land: green when every check passes */}
+                        {dragPreview && dragPreview.move.toSheet === index && (() => {
+                          const moving = results.stockUsage[dragPreview.move.fromSheet].placements[dragPreview.move.placementIndex];
+                          const part = results.sortedParts[parseInt(moving.partId.split('-')[1])];
+                          const valid = dragPreview.issues.length === 0;
+                          return (
+                            <div
+                              className={`absolute border-2 border-dashed pointer-events-none z-20 ${valid ? 'border-green-600 bg-green-100' : 'border-red-600 bg-red-100'} opacity-70`}
                               style={{
-                                left: `${placement.x * scaleX}%`,
-                                top: `${placement.y * scaleY}%`,
-                                width: `${width * scaleX}%`,
-                                height: `${height * scaleY}%`,
-                                transition: "all 0.3s ease"
+                                left: `${dragPreview.move.x * (100 / stock.length)}%`,
+                                top: `${dragPreview.move.y * (100 / stock.width)}%`,
+                                width: `${(dragPreview.move.rotated ? part.width : part.length) * (100 / stock.length)}%`,
+                                height: `${(dragPreview.move.rotated ? part.length : part.width) * (100 / stock.width)}%`
                               }}
-                              title={`${placement.name || `Part #${partIndex + 1}`} (${formatDimensions(part)}) - Instance #${pIndex + 1} - Position: (${Math.round(placement.x)},${Math.round(placement.y)}) - ${placement.rotated ? 'Rotated' : 'Not Rotated'}`}
                             >
-                              <div className="text-center">
-                                <div className="font-bold">{placement.name || `#${partIndex + 1}`}</div>
-                                <div className="text-[9px] leading-tight">
-                                  {formatDimensions(part, { includeGrainDirection: false, includeUnits: false, rotated: placement.rotated })}
-                                </div>
-                                {placement.rotated && <div className="text-[10px]">↻</div>}
-                                {part.grainDirection && stock.grainDirection && (
-                                  <div className="text-[12px] mt-1 font-bold">
-                                    {/* Enhanced grain direction indicator - properly considers both stock and part grain */}
-                                    {(() => {
-                                      const stockGrain = stock.grainDirection.toLowerCase();
-                                      const partGrain = part.grainDirection.toLowerCase();
-                                      const isAligned = (stockGrain === partGrain && !placement.rotated) ||
-                                                       (stockGrain !== partGrain && placement.rotated);
-                                      
-                                      return isAligned ? (
-                                        <div className="flex flex-col items-center bg-green-100 rounded px-1 py-0.5">
-                                          <span className="text-green-600 text-lg leading-none">↕</span>
-                                          <span className="text-green-600 text-[8px] leading-none font-bold">ALIGNED</span>
-                                        </div>
-                                      ) : (
-                                        <div className="flex flex-col items-center bg-red-100 rounded px-1 py-0.5">
-                                          <span className="text-red-600 text-lg leading-none">↔</span>
-                                          <span className="text-red-600 text-[8px] leading-none font-bold">CROSS</span>
-                                        </div>
-                                      );
-                                    })()}
-                                  </div>
-                                )}
-                              </div>
+                              {!valid && (
+                                <span className="absolute -top-4 left-0 text-[10px] font-semibold text-red-700 bg-white px-1 whitespace-nowrap">
+                                  {dragPreview.issues[0].message}
+                                </span>
+                              )}
                             </div>
                           );
+                        })()}
+
+                        {/* Guillotine rip lines (stage 1 of the cut tree) */}
+                        {usage.cutTree && usage.cutTree.children.map((strip, stripIndex) => {
+                          const ripY = strip.y + strip.height;
+                          if (ripY >= stock.width - 0.1) return null;
+                          return (
+                            <div
+                              key={`rip-${stripIndex}`}
+                              className="absolute left-0 right-0 border-t-2 border-dashed border-red-500 pointer-events-none"
+                              style={{ top: `${ripY * (100 / stock.width)}%` }}
+                              title={`Rip ${stripIndex + 1} at ${ripY.toFixed(1)}mm`}
+                            />
+                          );
                         })}
                       </div>
                     </div>
@@ -1735,6 +3209,50 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                       
                       {/* Parts placements */}
                       <div className="absolute top-5 left-0 right-0 bottom-0" style={{ top: '44px' }}>
+                        {/* Trimmed board ends */}
+                        {stock.edgeTrim && (['left', 'right'] as const)
+                          .filter(edge => stock.edgeTrim![edge] > 0)
+                          .map(edge => (
+                            <div
+                              key={`trim-${edge}`}
+                              className="absolute top-0 bottom-0 bg-gray-300 opacity-70 pointer-events-none"
+                              style={{
+                                [edge]: 0,
+                                width: `${stock.edgeTrim![edge] * (100 / stock.length)}%`,
+                                backgroundImage: 'repeating-linear-gradient(45deg, #6b7280 0px, #6b7280 1px, transparent 1px, transparent 6px)'
+                              }}
+                              title={`${edge === 'left' ? 'Start' : 'End'} trim`}
+                            />
+                          ))}
+
+                        {/* Checked ends and defects, cut away with the parts either side */}
+                        {stock.endChecks && (['start', 'end'] as const)
+                          .filter(end => stock.endChecks![end] > 0)
+                          .map(end => (
+                            <div
+                              key={`check-${end}`}
+                              className="absolute top-0 bottom-0 border border-red-500 bg-red-100 opacity-80 pointer-events-none"
+                              style={{
+                                [end === 'start' ? 'left' : 'right']: 0,
+                                width: `${stock.endChecks![end] * (100 / stock.length)}%`,
+                                backgroundImage: 'repeating-linear-gradient(-45deg, #ef4444 0px, #ef4444 1px, transparent 1px, transparent 5px)'
+                              }}
+                              title={`${end === 'start' ? 'Start' : 'End'} check`}
+                            />
+                          ))}
+                        {stock.defects?.map((defect, dIndex) => (
+                          <div
+                            key={`defect-${dIndex}`}
+                            className="absolute top-0 bottom-0 border border-red-500 bg-red-100 opacity-80 pointer-events-none"
+                            style={{
+                              left: `${defect.x * (100 / stock.length)}%`,
+                              width: `${defect.length * (100 / stock.length)}%`,
+                              backgroundImage: 'repeating-linear-gradient(-45deg, #ef4444 0px, #ef4444 1px, transparent 1px, transparent 5px)'
+                            }}
+                            title={defect.note ? `Defect: ${defect.note}` : 'Defect'}
+                          />
+                        ))}
+
                         {usage.placements.map((placement, pIndex) => {
                           const partIndex = parseInt(placement.partId.split('-')[1]);
                           const part = results.sortedParts[partIndex];
@@ -1746,6 +3264,10 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                           }
                           
                           const scaleX = 100 / stock.length;
+                          const alongBoard = placement.rotated ? part.width : part.length;
+                          const acrossBoard = placement.rotated ? part.length : part.width;
+                          // Parts ripped from a wider board only take their share of its width
+                          const ripped = acrossBoard < stock.width - 0.01;
 
                           // Get color for this part
                           const { border, bg } = getPartColor(partIndex);
@@ -1756,16 +3278,16 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                               className={`absolute border-2 ${border} ${bg} flex items-center justify-center text-xs cursor-help shadow-sm`}
                               style={{
                                 left: `${placement.x * scaleX}%`,
-                                top: `2px`,
-                                width: `${part.length * scaleX}%`,
-                                height: `28px`,
+                                top: ripped ? `${2 + (placement.y / stock.width) * 28}px` : `2px`,
+                                width: `${alongBoard * scaleX}%`,
+                                height: ripped ? `${Math.max(6, (acrossBoard / stock.width) * 28)}px` : `28px`,
                                 transition: "all 0.3s ease"
                               }}
-                              title={`${placement.name || `Part #${partIndex + 1}`} (${part.length}mm) - Instance #${pIndex + 1} - Position: ${Math.round(placement.x)}mm`}
+                              title={`${placement.name || `Part #${partIndex + 1}`} (${alongBoard}mm${ripped ? `, ripped to ${acrossBoard}mm` : ''}) - Instance #${pIndex + 1} - Position: ${Math.round(placement.x)}mm`}
                             >
                               <div className="text-center font-bold">
                                 <div>{placement.name || `#${partIndex + 1}`}</div>
-                                <div className="text-[9px] leading-tight">{part.length}mm</div>
+                                <div className="text-[9px] leading-tight">{alongBoard}mm</div>
                                 {part.grainDirection && (
                                   <div className="text-[10px] mt-1">
                                     {/* Dimensional lumber grain direction indicator */}
@@ -1797,6 +3319,13 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                         >
                           Reset All
                         </button>
+                        <button
+                          onClick={() => toggleUnusable(index)}
+                          className="text-red-600 hover:text-red-800 text-xs underline"
+                          title="Damaged or spoilt: Re-plan Remaining keeps the parts already cut from this sheet and uses none of the rest"
+                        >
+                          {usage.unusable ? 'Mark Usable' : 'Mark Unusable'}
+                        </button>
                       </div>
                     </div>
                     <ul className="space-y-1">
@@ -1942,7 +3471,7 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                       <div className="flex justify-between items-start mb-4">
                         <div>
                           <h5 className="font-semibold text-brand-blue text-lg">
-                            {sequence.sheetId} - Cutting Sequence
+                            {sequence.stackSheetIds ? `Stack of ${sequence.stackSheetIds.length}: ${sequence.stackSheetIds.join(', ')}` : sequence.sheetId} - Cutting Sequence
                           </h5>
                           <p className="text-sm text-gray-600">
                             Stock: {formatDimensions(stock)} ({stock.material || 'Unspecified'})
@@ -1991,6 +3520,7 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                                       step.cutType === 'rip' ? 'bg-blue-100 text-blue-800' :
                                       step.cutType === 'crosscut' ? 'bg-green-100 text-green-800' :
                                       step.cutType === 'initial-breakdown' ? 'bg-purple-100 text-purple-800' :
+                                      step.cutType === 'mill' ? 'bg-yellow-100 text-yellow-800' :
                                       'bg-orange-100 text-orange-800'
                                     }`}>
                                       {step.cutType.replace('-', ' ').toUpperCase()}
@@ -2033,6 +3563,18 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                                 </div>
                               </div>
                             )}
+
+                            {/* What the cut frees and cuts away */}
+                            {(step.releasedPartIds || step.offcut) && (
+                              <div className="mt-2 ml-11 text-xs text-gray-600 space-y-1">
+                                {step.releasedPartIds && (
+                                  <p>✂️ Frees: {step.releasedPartIds.map(partId => step.placements.find(p => p.partId === partId)?.name || partId).join(', ')}</p>
+                                )}
+                                {step.offcut && (
+                                  <p>🗑️ Offcut: {step.offcut.width.toFixed(0)}×{step.offcut.height.toFixed(0)}mm at ({step.offcut.x.toFixed(0)}, {step.offcut.y.toFixed(0)})</p>
+                                )}
+                              </div>
+                            )}
                           </div>
                         ))}
                       </div>
@@ -2073,7 +3615,9 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
               {/* Sequence Header */}
               <div className="flex justify-between items-center mb-4">
                 <h4 className="text-lg font-semibold text-brand-blue">
-                  Sheet #{seqIndex + 1} - {sequence.sheetId}
+                  {sequence.stackSheetIds
+                    ? `Stack #${seqIndex + 1} - ${sequence.stackSheetIds.join(', ')}`
+                    : `Sheet #${seqIndex + 1} - ${sequence.sheetId}`}
                 </h4>
                 <div className="flex gap-3 text-sm">
                   <span className="bg-green-100 text-green-800 px-3 py-1 rounded-full font-medium">
@@ -2127,6 +3671,18 @@ const updatePart = (index: number, field: keyof Part, value: number | string) =>
                       </div>
                     )}
                     
+                    {/* What the cut frees and cuts away */}
+                    {(step.releasedPartIds || step.offcut) && (
+                      <div className="text-sm text-gray-700 mb-2 bg-gray-50 p-2 rounded border-l-4 border-gray-300">
+                        {step.releasedPartIds && (
+                          <div><span className="font-medium">✂️ Frees:</span> {step.releasedPartIds.map(partId => step.placements.find(p => p.partId === partId)?.name || partId).join(', ')}</div>
+                        )}
+                        {step.offcut && (
+                          <div><span className="font-medium">🗑️ Offcut:</span> {step.offcut.width.toFixed(0)}×{step.offcut.height.toFixed(0)}mm at ({step.offcut.x.toFixed(0)}, {step.offcut.y.toFixed(0)})</div>
+                        )}
+                      </div>
+                    )}
+
                     {/* Safety Notes */}
                     {step.safetyNotes && step.safetyNotes.length > 0 && (
                       <div className="text-sm text-red-700 bg-red-50 p-2 rounded border-l-4 border-red-300">
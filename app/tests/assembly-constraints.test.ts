@@ -0,0 +1,171 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { UnplacedPartAnalyzer } from '../lib/unplaced-parts';
+import { LayoutValidator } from '../lib/layout-validator';
+import { FreeSpaceManager } from '../lib/free-space-manager';
+import { Stock, Part, MaterialType, Results } from '../lib/types';
+
+describe('Assembly Constraints', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sheet = (quantity: number, extra: Partial<Stock> = {}): Stock => ({
+    length: 2440,
+    width: 1220,
+    thickness: 18,
+    quantity,
+    material: 'Walnut Veneer',
+    materialType: MaterialType.Sheet,
+    ...extra
+  });
+
+  const cabinet = (assembly: string): Part[] => [
+    { length: 1100, width: 560, thickness: 18, quantity: 2, material: 'Walnut Veneer', name: `${assembly} side`, assembly },
+    { length: 760, width: 560, thickness: 18, quantity: 2, material: 'Walnut Veneer', name: `${assembly} top`, assembly }
+  ];
+
+  // Sheet and stock item of every placed part, keyed by assembly
+  const sourcesOf = (results: Results) => {
+    const sources = new Map<string, Array<{ sheetId: string; stockIndex: number }>>();
+    results.stockUsage.forEach(usage => usage.placements.forEach(placement => {
+      const part = results.sortedParts[parseInt(placement.partId.split('-')[1])];
+      if (!part.assembly) return;
+      sources.set(part.assembly, [...(sources.get(part.assembly) || []), { sheetId: usage.sheetId, stockIndex: usage.stockIndex }]);
+    }));
+    return sources;
+  };
+
+  const placedCount = (results: Results) =>
+    results.stockUsage.reduce((sum, usage) => sum + usage.placements.length, 0);
+
+  test('same-sheet keeps every part of an assembly on one sheet', () => {
+    const parts = [...cabinet('Base 1'), ...cabinet('Base 2'), ...cabinet('Base 3')];
+
+    const results = calculateOptimalCuts([sheet(4)], parts, 3, { assemblyConstraint: 'same-sheet' });
+
+    expect(results.success).toBe(true);
+    expect(placedCount(results)).toBe(12);
+    sourcesOf(results).forEach(sources => {
+      expect(sources).toHaveLength(4);
+      expect(new Set(sources.map(source => source.sheetId)).size).toBe(1);
+    });
+  });
+
+  test('an assembly too large for one sheet is reported unplaced, and the rest is cut', () => {
+    const wardrobe: Part[] = [
+      { length: 2000, width: 600, thickness: 18, quantity: 3, material: 'Walnut Veneer', name: 'Wardrobe side', assembly: 'Wardrobe' }
+    ];
+
+    const results = calculateOptimalCuts([sheet(3)], [...cabinet('Base 1'), ...wardrobe], 3, { assemblyConstraint: 'same-sheet' });
+
+    expect(results.success).toBe(false);
+    expect(results.unplacedAssemblies).toEqual(['Wardrobe']);
+    expect(results.message).toContain('assembly constraint not met for Wardrobe');
+    expect(sourcesOf(results).has('Wardrobe')).toBe(false);
+    expect(sourcesOf(results).get('Base 1')).toHaveLength(4);
+
+    // The failed results say which assembly was left out and why its parts were
+    expect(UnplacedPartAnalyzer.failureNotes(results, { assemblyConstraint: 'same-sheet' })).toEqual([
+      { title: 'Assemblies not cut', lines: ['Wardrobe cannot be cut from a single sheet with the stock available.'] },
+      { title: 'Parts not placed', lines: [expect.stringContaining('3× Wardrobe side not placed')] }
+    ]);
+  });
+
+  test('same-stock draws an assembly from a single stock item across several sheets', () => {
+    const wardrobe: Part[] = [
+      { length: 2000, width: 600, thickness: 18, quantity: 4, material: 'Walnut Veneer', name: 'Wardrobe side', assembly: 'Wardrobe' }
+    ];
+    const lots = [sheet(1, { id: 'lot-a' }), sheet(2, { id: 'lot-b' })];
+
+    const results = calculateOptimalCuts(lots, wardrobe, 3, { assemblyConstraint: 'same-stock' });
+
+    expect(results.success).toBe(true);
+    const sources = sourcesOf(results).get('Wardrobe')!;
+    expect(sources).toHaveLength(4);
+    expect(new Set(sources.map(source => source.stockIndex))).toEqual(new Set([1]));
+  });
+
+  test('an assembly no single stock item can supply is taken off the layout whole', () => {
+    const wardrobe: Part[] = [
+      { length: 2000, width: 600, thickness: 18, quantity: 4, material: 'Walnut Veneer', name: 'Wardrobe side', assembly: 'Wardrobe' }
+    ];
+    const lots = [sheet(1, { id: 'lot-a' }), sheet(1, { id: 'lot-b' })];
+
+    const results = calculateOptimalCuts(lots, [...wardrobe, { ...cabinet('Base 1')[1], assembly: undefined }], 3, { assemblyConstraint: 'same-stock' });
+
+    expect(results.success).toBe(false);
+    expect(results.unplacedAssemblies).toEqual(['Wardrobe']);
+    expect(sourcesOf(results).has('Wardrobe')).toBe(false);
+    expect(placedCount(results)).toBe(2);
+    results.stockUsage.forEach((usage, i) => {
+      expect(usage.sheetId).toBe(`Sheet-${i + 1}`);
+      expect(usage.placements.length).toBeGreaterThan(0);
+    });
+  });
+
+  test('an assembly that runs out of its stock item part way is rolled back', () => {
+    // Only one 700mm-wide side fits across a sheet, so two sheets cannot hold three
+    const wardrobe: Part[] = [
+      { length: 2000, width: 700, thickness: 18, quantity: 3, material: 'Walnut Veneer', name: 'Wardrobe side', assembly: 'Wardrobe' }
+    ];
+    const shelf: Part = { length: 400, width: 300, thickness: 18, quantity: 1, material: 'Walnut Veneer', name: 'Shelf' };
+
+    const results = calculateOptimalCuts([sheet(2)], [...wardrobe, shelf], 3, { assemblyConstraint: 'same-stock' });
+
+    expect(results.success).toBe(false);
+    expect(results.unplacedAssemblies).toEqual(['Wardrobe']);
+    expect(sourcesOf(results).has('Wardrobe')).toBe(false);
+    expect(placedCount(results)).toBe(1);
+    expect(results.stockUsage.map(usage => usage.sheetId)).toEqual(['Sheet-1']);
+    expect(results.stockUsage[0].usedArea).toBe(400 * 300);
+  });
+
+  test('the space a rolled-back assembly held is free again', () => {
+    const wardrobe: Part[] = [
+      { length: 2000, width: 700, thickness: 18, quantity: 3, material: 'Walnut Veneer', name: 'Wardrobe side', assembly: 'Wardrobe' }
+    ];
+    const shelf: Part = { length: 400, width: 300, thickness: 18, quantity: 1, material: 'Walnut Veneer', name: 'Shelf' };
+
+    const results = calculateOptimalCuts([sheet(2)], [...wardrobe, shelf], 3, { assemblyConstraint: 'same-stock' });
+    const usage = results.stockUsage[0];
+
+    // A wardrobe side, with its kerf, goes into one of the sheet's free spaces beside the shelf
+    const freed = usage.freeSpaces.find(space => FreeSpaceManager.contains(space, { x: space.x, y: space.y, width: 2003, height: 703 }));
+    expect(freed).toBeDefined();
+
+    const side = { partId: 'Part-0-0', x: freed!.x, y: freed!.y, rotated: false };
+    expect(LayoutValidator.checkPlacement(side, usage.placements, sheet(2), results.sortedParts, 3)).toEqual([]);
+  });
+
+  test('assemblies are ignored without a constraint', () => {
+    const wardrobe: Part[] = [
+      { length: 2000, width: 600, thickness: 18, quantity: 3, material: 'Walnut Veneer', name: 'Wardrobe side', assembly: 'Wardrobe' }
+    ];
+
+    const results = calculateOptimalCuts([sheet(2)], wardrobe, 3);
+
+    expect(results.success).toBe(true);
+    expect(results.unplacedAssemblies).toBeUndefined();
+    expect(new Set(sourcesOf(results).get('Wardrobe')!.map(source => source.sheetId)).size).toBe(2);
+  });
+
+  test('search mode still honours the assembly constraint', () => {
+    const parts = [...cabinet('Base 1'), ...cabinet('Base 2')];
+
+    const results = calculateOptimalCuts([sheet(3)], parts, 3, {
+      assemblyConstraint: 'same-sheet',
+      search: { maxIterations: 50, seed: 2 }
+    });
+
+    expect(results.success).toBe(true);
+    sourcesOf(results).forEach(sources => expect(new Set(sources.map(source => source.sheetId)).size).toBe(1));
+  });
+});
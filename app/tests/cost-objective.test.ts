@@ -0,0 +1,126 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { Stock, Part, MaterialType, Results, appToDbWarehouseStock, dbToAppWarehouseStock } from '../lib/types';
+
+describe('Cost Objective', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sheet = (quantity: number, unitCost?: number, extra: Partial<Stock> = {}): Stock => ({
+    length: 2440,
+    width: 1220,
+    thickness: 18,
+    quantity,
+    material: 'Plywood',
+    materialType: MaterialType.Sheet,
+    unitCost,
+    ...extra
+  });
+
+  const parts: Part[] = [{ length: 1000, width: 500, thickness: 18, quantity: 4, material: 'Plywood', name: 'Side' }];
+
+  const stocksUsed = (results: Results) => results.stockUsage.map(usage => usage.stockIndex);
+
+  test('reports cost per sheet and in total', () => {
+    const results = calculateOptimalCuts([sheet(3, 85)], [{ ...parts[0], quantity: 8 }], 3);
+
+    expect(results.success).toBe(true);
+    expect(results.stockUsage.length).toBeGreaterThan(1);
+    results.stockUsage.forEach(usage => expect(usage.cost).toBe(85));
+    expect(results.totalCost).toBe(85 * results.stockUsage.length);
+  });
+
+  test('unpriced stock leaves the cost out of the results', () => {
+    const results = calculateOptimalCuts([sheet(2)], parts, 3);
+
+    expect(results.totalCost).toBeUndefined();
+    expect(results.stockUsage[0].cost).toBeUndefined();
+  });
+
+  test('the cost objective picks the cheaper of two equivalent sheets', () => {
+    // The premium sheet is scarcer, so the efficiency objective reaches for it first
+    const stocks = [sheet(5, 40), sheet(1, 120, { material: 'Plywood' })];
+
+    const efficiency = calculateOptimalCuts(stocks, parts, 3);
+    const cost = calculateOptimalCuts(stocks, parts, 3, { objective: 'cost' });
+
+    expect(stocksUsed(efficiency)).toEqual([1]);
+    expect(efficiency.totalCost).toBe(120);
+    expect(stocksUsed(cost)).toEqual([0]);
+    expect(cost.totalCost).toBe(40);
+  });
+
+  test('the cost objective weighs price against how much of the sheet is used', () => {
+    // A half sheet is cheaper per sheet but dearer per mm², and the full sheet takes every part
+    const stocks = [sheet(2, 70, { length: 1220 }), sheet(2, 100)];
+
+    const results = calculateOptimalCuts(stocks, parts, 3, { objective: 'cost' });
+
+    expect(results.success).toBe(true);
+    expect(stocksUsed(results)).toEqual([1]);
+    expect(results.totalCost).toBe(100);
+  });
+
+  test('the cost objective uses unpriced stock only after priced stock, and warns', () => {
+    const stocks = [sheet(2), sheet(1, 120), sheet(2, 40)];
+
+    const results = calculateOptimalCuts(stocks, [{ ...parts[0], quantity: 8 }], 3, { objective: 'cost' });
+
+    expect(results.success).toBe(true);
+    expect(stocksUsed(results)).toEqual([2, 2]);
+    expect(results.totalCost).toBe(80);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('cost comparison is incomplete'));
+
+    const overflow = calculateOptimalCuts(stocks, [{ ...parts[0], quantity: 16 }], 3, { objective: 'cost' });
+
+    expect(overflow.success).toBe(true);
+    expect(stocksUsed(overflow).slice(0, 3)).toEqual([2, 2, 1]);
+    expect(stocksUsed(overflow).slice(3)).toEqual([0]);
+  });
+
+  test('the crosscut plan buys the cheaper boards under the cost objective', () => {
+    const board = (length: number, unitCost: number): Stock => ({
+      length, width: 90, thickness: 45, quantity: 2, material: 'Pine', materialType: MaterialType.Dimensional, unitCost
+    });
+    const stocks = [board(2400, 30), board(3600, 20)];
+    const rails: Part[] = [{ length: 1200, width: 90, thickness: 45, quantity: 2, material: 'Pine', materialType: MaterialType.Dimensional }];
+
+    const efficiency = calculateOptimalCuts(stocks, rails, 0);
+    expect(stocksUsed(efficiency)).toEqual([0]);
+    expect(efficiency.totalCost).toBe(30);
+
+    const cost = calculateOptimalCuts(stocks, rails, 0, { objective: 'cost' });
+    expect(stocksUsed(cost)).toEqual([1]);
+    expect(cost.totalCost).toBe(20);
+  });
+
+  test('search mode follows the cost objective', () => {
+    const stocks = [sheet(5, 40), sheet(1, 120)];
+
+    const results = calculateOptimalCuts(stocks, parts, 3, {
+      objective: 'cost',
+      search: { maxIterations: 100, seed: 4 }
+    });
+
+    expect(results.success).toBe(true);
+    expect(results.totalCost).toBe(40);
+  });
+
+  test('warehouse records round-trip the unit cost', () => {
+    const row = appToDbWarehouseStock({ ...sheet(1, 62.5), id: 'stock-1' }, 'stock-1', 1000);
+    expect(row.unit_cost).toBe(62.5);
+    expect(dbToAppWarehouseStock(row).unitCost).toBe(62.5);
+
+    const unpriced = appToDbWarehouseStock({ ...sheet(1), id: 'stock-2' }, 'stock-2', 1000);
+    expect(unpriced.unit_cost).toBeNull();
+    expect(dbToAppWarehouseStock(unpriced).unitCost).toBeUndefined();
+  });
+});
@@ -0,0 +1,138 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { Stock, Part, MaterialType, Results } from '../lib/types';
+
+describe('Dimensional Lumber 1D Cutting Stock', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const board = (length: number, quantity: number, extra: Partial<Stock> = {}): Stock => ({
+    length,
+    width: 90,
+    thickness: 45,
+    quantity,
+    material: 'Pine',
+    materialType: MaterialType.Dimensional,
+    ...extra
+  });
+
+  const piece = (length: number, quantity: number, name?: string): Part => ({
+    length,
+    width: 90,
+    thickness: 45,
+    quantity,
+    material: 'Pine',
+    materialType: MaterialType.Dimensional,
+    name
+  });
+
+  const lumberUsed = (results: Results, stocks: Stock[]) =>
+    results.stockUsage.reduce((sum, usage) => sum + stocks[usage.stockIndex].length, 0);
+
+  test('mixed lengths share a board', () => {
+    const stocks = [board(2400, 10)];
+    const parts = [piece(1500, 2, 'Leg'), piece(800, 2, 'Rail')];
+
+    const results = calculateOptimalCuts(stocks, parts, 3);
+
+    expect(results.success).toBe(true);
+    expect(results.stockUsage).toHaveLength(2);
+    results.stockUsage.forEach(usage => {
+      expect(usage.sheetId).toMatch(/^Board-/);
+      expect(usage.placements.map(p => p.name)).toEqual(['Leg', 'Rail']);
+    });
+  });
+
+  test('pattern generation beats first-fit-decreasing', () => {
+    // First-fit-decreasing needs three boards here; two are enough
+    const stocks = [board(2400, 5)];
+    const parts = [piece(1200, 1), piece(960, 1), piece(720, 3), piece(480, 1)];
+
+    const results = calculateOptimalCuts(stocks, parts, 0);
+
+    expect(results.success).toBe(true);
+    expect(results.stockUsage).toHaveLength(2);
+    results.stockUsage.forEach(usage => expect(usage.offcutLength).toBe(0));
+  });
+
+  test('chooses the board lengths that need the least lumber', () => {
+    const stocks = [board(2400, 5), board(3600, 5)];
+    const parts = [piece(1750, 2), piece(550, 2)];
+
+    const results = calculateOptimalCuts(stocks, parts, 0);
+
+    expect(results.success).toBe(true);
+    expect(lumberUsed(results, stocks)).toBe(4800);
+  });
+
+  test('kerf is taken between parts but not after a part that ends the board', () => {
+    const stocks = [board(2400, 2)];
+
+    const withKerf = calculateOptimalCuts(stocks, [piece(1200, 2)], 3);
+    expect(withKerf.stockUsage).toHaveLength(2);
+
+    const noKerf = calculateOptimalCuts(stocks, [piece(1200, 2)], 0);
+    expect(noKerf.stockUsage).toHaveLength(1);
+    expect(noKerf.stockUsage[0].placements.map(p => p.x)).toEqual([0, 1200]);
+
+    const exactFit = calculateOptimalCuts(stocks, [piece(1198.5, 2)], 3);
+    expect(exactFit.stockUsage).toHaveLength(1);
+    expect(exactFit.stockUsage[0].offcutLength).toBe(0);
+  });
+
+  test('end trim shortens the usable board', () => {
+    const stocks = [board(2400, 3, { edgeTrim: { top: 0, bottom: 0, left: 20, right: 20 } })];
+
+    const fits = calculateOptimalCuts(stocks, [piece(1180, 2)], 0);
+    expect(fits.stockUsage).toHaveLength(1);
+    expect(fits.stockUsage[0].placements.map(p => p.x)).toEqual([20, 1200]);
+
+    const tooLong = calculateOptimalCuts(stocks, [piece(1190, 2)], 0);
+    expect(tooLong.stockUsage).toHaveLength(2);
+  });
+
+  test('reports the offcut left on each board', () => {
+    const stocks = [board(2400, 1)];
+
+    const results = calculateOptimalCuts(stocks, [piece(1000, 1), piece(600, 1)], 3);
+    const usage = results.stockUsage[0];
+
+    expect(usage.offcutLength).toBe(2400 - 1000 - 600 - 2 * 3);
+    expect(usage.freeSpaces).toEqual([{ x: 1606, y: 0, width: 794, height: 90 }]);
+    expect(results.message).toContain('794mm of offcuts');
+    expect(results.cutSequences![0].sheetId).toBe('Board-1');
+  });
+
+  test('parts longer than every board are reported as unplaced', () => {
+    const results = calculateOptimalCuts([board(1000, 2)], [piece(1500, 1)], 3);
+
+    expect(results.success).toBe(false);
+    expect(results.message).toContain('Not enough suitable dimensional lumber');
+  });
+
+  test('sheet parts are laid out in 2D alongside the board plan', () => {
+    const stocks: Stock[] = [
+      board(2400, 2),
+      { length: 2440, width: 1220, thickness: 18, quantity: 1, material: 'Plywood', materialType: MaterialType.Sheet }
+    ];
+    const parts: Part[] = [
+      piece(900, 2),
+      { length: 600, width: 400, thickness: 18, quantity: 2, material: 'Plywood', materialType: MaterialType.Sheet }
+    ];
+
+    const results = calculateOptimalCuts(stocks, parts, 3);
+
+    expect(results.success).toBe(true);
+    expect(results.stockUsage.map(usage => usage.sheetId)).toEqual(['Sheet-1', 'Board-1']);
+    expect(results.totalUsedSheets).toBe(2);
+    expect(results.cutSequences).toHaveLength(2);
+  });
+});
@@ -0,0 +1,92 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { ConstraintProcessor } from '../lib/optimized-cutting-engine';
+import { Stock, Part, MaterialType } from '../lib/types';
+
+describe('Ripping Dimensional Lumber', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const stocks: Stock[] = [{
+    length: 2400,
+    width: 90,
+    thickness: 19,
+    quantity: 3,
+    material: 'Poplar',
+    materialType: MaterialType.Dimensional
+  }];
+
+  const stile: Part = { length: 800, width: 70, thickness: 19, quantity: 2, material: 'Poplar', materialType: MaterialType.Dimensional, name: 'Stile' };
+
+  test('only parts narrower than the board need a rip', () => {
+    expect(ConstraintProcessor.requiresRip(stile, stocks[0])).toBe(true);
+    expect(ConstraintProcessor.requiresRip({ ...stile, width: 90 }, stocks[0])).toBe(false);
+    expect(ConstraintProcessor.requiresRip({ ...stile, length: 90, width: 60 }, stocks[0])).toBe(false);
+    expect(ConstraintProcessor.requiresRip(stile, { ...stocks[0], materialType: MaterialType.Sheet })).toBe(false);
+  });
+
+  test('narrower parts are refused unless ripping is enabled', () => {
+    const results = calculateOptimalCuts(stocks, [stile], 3);
+
+    expect(results.success).toBe(false);
+  });
+
+  test('ripped parts are placed on the board with a rip before the crosscuts', () => {
+    const results = calculateOptimalCuts(stocks, [stile], 3, { ripDimensional: true });
+
+    expect(results.success).toBe(true);
+    expect(results.stockUsage).toHaveLength(1);
+
+    const steps = results.cutSequences![0].steps;
+    const rips = steps.filter(step => step.cutType === 'rip');
+    expect(rips).toHaveLength(1);
+    expect(rips[0].cutLine).toEqual({ start: { x: 0, y: 70 }, end: { x: 2400, y: 70 }, direction: 'horizontal' });
+    expect(rips[0].placements).toHaveLength(2);
+    expect(steps.findIndex(step => step.cutType === 'rip'))
+      .toBeLessThan(steps.findIndex(step => step.cutType === 'crosscut'));
+  });
+
+  test('edges either side of one kerf make a single rip', () => {
+    const rail: Part = { length: 600, width: 40, thickness: 19, quantity: 2, material: 'Poplar', materialType: MaterialType.Dimensional };
+
+    const results = calculateOptimalCuts([{ ...stocks[0], quantity: 1, length: 700 }], [rail], 3, { ripDimensional: true });
+
+    expect(results.success).toBe(true);
+    const rips = results.cutSequences![0].steps.filter(step => step.cutType === 'rip');
+    expect(rips.map(step => step.cutLine!.start.y)).toEqual([40, 83]);
+  });
+
+  test('rips follow the job kerf and stop at the trimmed ends', () => {
+    const rail: Part = { length: 600, width: 40, thickness: 19, quantity: 2, material: 'Poplar', materialType: MaterialType.Dimensional };
+    const board: Stock = { ...stocks[0], quantity: 1, length: 700, width: 100, edgeTrim: { top: 0, bottom: 0, left: 10, right: 10 } };
+
+    const results = calculateOptimalCuts([board], [rail], 8, { ripDimensional: true });
+
+    expect(results.success).toBe(true);
+    const rips = results.cutSequences![0].steps.filter(step => step.cutType === 'rip');
+    expect(rips.map(step => step.cutLine!.start.y)).toEqual([40, 88]);
+    rips.forEach(step => {
+      expect(step.cutLine!.start.x).toBe(10);
+      expect(step.cutLine!.end.x).toBe(690);
+    });
+  });
+
+  test('full-width parts still use the crosscut plan when ripping is on', () => {
+    const parts: Part[] = [stile, { ...stile, width: 90, name: 'Rail' }];
+
+    const results = calculateOptimalCuts(stocks, parts, 3, { ripDimensional: true });
+
+    expect(results.success).toBe(true);
+    const boards = results.stockUsage.filter(usage => usage.sheetId.startsWith('Board-'));
+    expect(boards).toHaveLength(1);
+    expect(boards[0].placements.every(p => p.name === 'Rail')).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import {
+  Stock,
+  Part,
+  MaterialType,
+  getUsableRegion,
+  appToDbWarehouseStock,
+  dbToAppWarehouseStock
+} from '../lib/types';
+
+describe('Edge Trim Margins', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const trimmedStock: Stock = {
+    length: 2440,
+    width: 1220,
+    thickness: 18,
+    quantity: 2,
+    material: 'Plywood',
+    materialType: MaterialType.Sheet,
+    edgeTrim: { top: 10, bottom: 12, left: 15, right: 5 }
+  };
+
+  const parts: Part[] = [
+    { length: 800, width: 400, thickness: 18, quantity: 4, material: 'Plywood' },
+    { length: 500, width: 300, thickness: 18, quantity: 4, material: 'Plywood' }
+  ];
+
+  const expectInsideUsableArea = (stockUsage: ReturnType<typeof calculateOptimalCuts>['stockUsage']) => {
+    const usable = getUsableRegion(trimmedStock);
+    stockUsage.forEach(usage => usage.placements.forEach(placement => {
+      const part = parts[parseInt(placement.partId.split('-')[1])];
+      const width = placement.rotated ? part.width : part.length;
+      const height = placement.rotated ? part.length : part.width;
+
+      expect(placement.x).toBeGreaterThanOrEqual(usable.x);
+      expect(placement.y).toBeGreaterThanOrEqual(usable.y);
+      expect(placement.x + width).toBeLessThanOrEqual(usable.x + usable.width);
+      expect(placement.y + height).toBeLessThanOrEqual(usable.y + usable.height);
+    }));
+  };
+
+  test('usable region removes each margin from the matching edge', () => {
+    expect(getUsableRegion(trimmedStock)).toEqual({ x: 15, y: 10, width: 2420, height: 1198 });
+    expect(getUsableRegion({ ...trimmedStock, edgeTrim: undefined })).toEqual({ x: 0, y: 0, width: 2440, height: 1220 });
+  });
+
+  test('parts are placed only inside the trimmed area', () => {
+    const result = calculateOptimalCuts([trimmedStock], parts, 3);
+
+    expect(result.success).toBe(true);
+    expectInsideUsableArea(result.stockUsage);
+  });
+
+  test('guillotine layouts start from the trimmed area', () => {
+    const result = calculateOptimalCuts([trimmedStock], parts, 3, { layoutMode: 'guillotine' });
+
+    expect(result.success).toBe(true);
+    expectInsideUsableArea(result.stockUsage);
+    expect(result.stockUsage[0].cutTree).toEqual(expect.objectContaining({ x: 15, y: 10, width: 2420, height: 1198 }));
+  });
+
+  test('a part that only fits the untrimmed sheet is rejected', () => {
+    const fullWidthPart: Part = { length: 2000, width: 1210, thickness: 18, quantity: 1, material: 'Plywood' };
+    const result = calculateOptimalCuts([trimmedStock], [fullWidthPart], 0);
+
+    expect(result.success).toBe(false);
+  });
+
+  test('cut sequence starts with the squaring cuts', () => {
+    const result = calculateOptimalCuts([trimmedStock], parts, 3);
+    const steps = result.cutSequences![0].steps;
+
+    expect(steps.slice(0, 4).map(step => step.cutType)).toEqual(['edge-trim', 'edge-trim', 'edge-trim', 'edge-trim']);
+    expect(steps.slice(4).some(step => step.cutType === 'edge-trim')).toBe(false);
+    expect(steps.map(step => step.stepNumber)).toEqual(steps.map((_, i) => i + 1));
+
+    const left = steps.find(step => step.id.endsWith('edge-trim-left'))!;
+    expect(left.cutLine).toEqual({ start: { x: 15, y: 0 }, end: { x: 15, y: 1220 }, direction: 'vertical' });
+
+    const bottom = steps.find(step => step.id.endsWith('edge-trim-bottom'))!;
+    expect(bottom.cutLine).toEqual({ start: { x: 0, y: 1208 }, end: { x: 2440, y: 1208 }, direction: 'horizontal' });
+  });
+
+  test('zero margins produce no trim steps', () => {
+    const stock: Stock = { ...trimmedStock, edgeTrim: { top: 0, bottom: 0, left: 20, right: 0 } };
+    const result = calculateOptimalCuts([stock], parts, 3);
+    const trimSteps = result.cutSequences![0].steps.filter(step => step.cutType === 'edge-trim');
+
+    expect(trimSteps).toHaveLength(1);
+    expect(trimSteps[0].id).toContain('left');
+  });
+
+  test('warehouse records round-trip the trim margins', () => {
+    const row = appToDbWarehouseStock({ ...trimmedStock, id: 'stock-1', grainDirection: 'horizontal' }, 'stock-1', 1000);
+
+    expect(row).toEqual(expect.objectContaining({ trim_top: 10, trim_bottom: 12, trim_left: 15, trim_right: 5 }));
+
+    const restored = dbToAppWarehouseStock(row);
+    expect(restored.edgeTrim).toEqual(trimmedStock.edgeTrim);
+    expect(restored.materialType).toBe(MaterialType.Sheet);
+    expect(restored.grainDirection).toBe('horizontal');
+
+    const untrimmed = dbToAppWarehouseStock({ ...row, trim_top: 0, trim_bottom: 0, trim_left: 0, trim_right: 0 });
+    expect(untrimmed.edgeTrim).toBeUndefined();
+  });
+});
@@ -0,0 +1,147 @@
+import { FreeSpaceManager } from '../lib/free-space-manager';
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { unifiedPackingEngine } from '../lib/unified-packing-engine';
+import { PlacementEngine } from '../lib/optimized-cutting-engine';
+import { Stock, Part, MaterialType, FreeSpace } from '../lib/types';
+
+describe('Maximal-Rectangles Free Space Manager', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const area = (spaces: FreeSpace[]) => spaces.reduce((sum, s) => sum + s.width * s.height, 0);
+
+  test('keeps both maximal remainders after a corner placement', () => {
+    const spaces = FreeSpaceManager.placeRectangle(
+      [{ x: 0, y: 0, width: 1000, height: 500 }],
+      { x: 0, y: 0, width: 700, height: 200 }
+    );
+
+    expect(spaces).toHaveLength(2);
+    expect(spaces).toContainEqual({ x: 700, y: 0, width: 300, height: 500 });
+    expect(spaces).toContainEqual({ x: 0, y: 200, width: 1000, height: 300 });
+  });
+
+  test('does not discard narrow strips', () => {
+    const spaces = FreeSpaceManager.placeRectangle(
+      [{ x: 0, y: 0, width: 1000, height: 500 }],
+      { x: 0, y: 0, width: 950, height: 500 }
+    );
+
+    expect(spaces).toEqual([{ x: 950, y: 0, width: 50, height: 500 }]);
+  });
+
+  test('splits every free space the placed part overlaps', () => {
+    const spaces = FreeSpaceManager.placeRectangle(
+      [
+        { x: 0, y: 0, width: 600, height: 400 },
+        { x: 300, y: 0, width: 300, height: 800 }
+      ],
+      { x: 300, y: 0, width: 100, height: 100 }
+    );
+
+    spaces.forEach(space => {
+      expect(FreeSpaceManager.intersects(space, { x: 300, y: 0, width: 100, height: 100 })).toBe(false);
+    });
+  });
+
+  test('prunes spaces contained in others', () => {
+    const pruned = FreeSpaceManager.pruneContained([
+      { x: 0, y: 0, width: 500, height: 500 },
+      { x: 100, y: 100, width: 50, height: 50 },
+      { x: 0, y: 0, width: 500, height: 500 }
+    ]);
+
+    expect(pruned).toEqual([{ x: 0, y: 0, width: 500, height: 500 }]);
+  });
+
+  test('merges spaces that share a full edge', () => {
+    const merged = FreeSpaceManager.mergeAdjacent([
+      { x: 0, y: 0, width: 200, height: 100 },
+      { x: 200, y: 0, width: 300, height: 100 },
+      { x: 0, y: 100, width: 500, height: 50 }
+    ]);
+
+    expect(merged).toEqual([{ x: 0, y: 0, width: 500, height: 150 }]);
+    expect(area(merged)).toBe(75000);
+  });
+
+  test('small parts fill the strip beside a large part', () => {
+    const stocks: Stock[] = [{
+      length: 1000,
+      width: 500,
+      thickness: 18,
+      quantity: 1,
+      material: 'Plywood',
+      materialType: MaterialType.Sheet
+    }];
+    const parts: Part[] = [
+      { length: 700, width: 500, thickness: 18, quantity: 1, material: 'Plywood', name: 'Panel' },
+      { length: 250, width: 200, thickness: 18, quantity: 2, material: 'Plywood', name: 'Block' }
+    ];
+
+    const result = calculateOptimalCuts(stocks, parts, 0);
+
+    expect(result.success).toBe(true);
+    expect(result.stockUsage).toHaveLength(1);
+    expect(result.stockUsage[0].placements).toHaveLength(3);
+  });
+
+  test('a rotated placement takes its rotated footprint out of the free spaces', () => {
+    const spaces = PlacementEngine.updateFreeSpaces(
+      [{ x: 0, y: 0, width: 1000, height: 500 }],
+      0,
+      { length: 200, width: 400 },
+      { x: 0, y: 0, rotated: true },
+      3
+    );
+
+    expect(spaces).toEqual([
+      { x: 403, y: 0, width: 597, height: 500 },
+      { x: 0, y: 203, width: 1000, height: 297 }
+    ]);
+  });
+
+  test('rotated parts leave room for the rest on the sheet', () => {
+    const stocks: Stock[] = [{ length: 2440, width: 1220, thickness: 18, quantity: 4, material: 'Plywood', materialType: MaterialType.Sheet }];
+    const parts: Part[] = [{ length: 600, width: 1100, thickness: 18, quantity: 4, material: 'Plywood', name: 'Side' }];
+
+    const result = calculateOptimalCuts(stocks, parts, 3);
+
+    expect(result.success).toBe(true);
+    expect(result.stockUsage).toHaveLength(1);
+    expect(result.stockUsage[0].placements.every(placement => placement.rotated)).toBe(true);
+  });
+
+  test('unified packing engine reports maximal free spaces', () => {
+    const stock: Stock = {
+      length: 1000,
+      width: 1000,
+      thickness: 18,
+      quantity: 1,
+      materialType: MaterialType.Sheet
+    };
+    const block: Part = { length: 600, width: 600, thickness: 18, quantity: 1 };
+
+    const result = unifiedPackingEngine.packParts(
+      [{ part: block, partIndex: 0, instanceId: 'Part-0-0' }],
+      stock,
+      0,
+      [block],
+      ['best-fit']
+    );
+
+    expect(result.placements).toHaveLength(1);
+    expect(result.freeSpaces).toHaveLength(2);
+    expect(result.freeSpaces).toContainEqual({ x: 600, y: 0, width: 400, height: 1000 });
+    expect(result.freeSpaces).toContainEqual({ x: 0, y: 600, width: 1000, height: 400 });
+  });
+});
@@ -0,0 +1,134 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { GrainGroupPlanner } from '../lib/grain-groups';
+import { Stock, Part, MaterialType, Results, Placement } from '../lib/types';
+
+describe('Grain-Continuity Groups', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sheet: Stock = {
+    length: 2440,
+    width: 1220,
+    thickness: 18,
+    quantity: 2,
+    material: 'Oak Veneer',
+    materialType: MaterialType.Sheet,
+    grainDirection: 'horizontal'
+  };
+
+  const fronts: Part[] = [
+    { length: 400, width: 150, thickness: 18, quantity: 1, material: 'Oak Veneer', grainDirection: 'horizontal', name: 'Top drawer', grainGroup: 'chest' },
+    { length: 400, width: 200, thickness: 18, quantity: 1, material: 'Oak Veneer', grainDirection: 'horizontal', name: 'Middle drawer', grainGroup: 'chest' },
+    { length: 400, width: 250, thickness: 18, quantity: 1, material: 'Oak Veneer', grainDirection: 'horizontal', name: 'Bottom drawer', grainGroup: 'chest' }
+  ];
+
+  const carcass: Part[] = [
+    { length: 1100, width: 450, thickness: 18, quantity: 2, material: 'Oak Veneer', grainDirection: 'horizontal', name: 'Side' },
+    { length: 800, width: 450, thickness: 18, quantity: 2, material: 'Oak Veneer', grainDirection: 'horizontal', name: 'Top' }
+  ];
+
+  const placementsOf = (results: Results): Array<Placement & { sheetId: string }> =>
+    results.stockUsage.flatMap(usage => usage.placements.map(placement => ({ ...placement, sheetId: usage.sheetId })));
+
+  test('a group becomes one super-part running along the grain', () => {
+    const { parts, groups } = GrainGroupPlanner.buildSuperParts([...carcass, ...fronts], 3);
+
+    expect(parts).toHaveLength(carcass.length + fronts.length + 1);
+    fronts.forEach((_, i) => expect(parts[carcass.length + i].quantity).toBe(0));
+    expect(parts[parts.length - 1]).toEqual(expect.objectContaining({
+      length: 400 * 3 + 3 * 2,
+      width: 250,
+      quantity: 1,
+      grainDirection: 'horizontal'
+    }));
+    expect(groups).toEqual([expect.objectContaining({
+      groupId: 'chest',
+      superPartIndex: parts.length - 1,
+      alongWidth: false,
+      members: [
+        { partIndex: 2, instance: 0, offset: 0 },
+        { partIndex: 3, instance: 0, offset: 403 },
+        { partIndex: 4, instance: 0, offset: 806 }
+      ]
+    })]);
+  });
+
+  test('parts without a group are passed through untouched', () => {
+    const { parts, groups } = GrainGroupPlanner.buildSuperParts(carcass, 3);
+
+    expect(parts).toBe(carcass);
+    expect(groups).toEqual([]);
+  });
+
+  test('group members are cut side by side, in order, on the same sheet', () => {
+    const results = calculateOptimalCuts([sheet], [...carcass, ...fronts], 3);
+
+    expect(results.success).toBe(true);
+    const members = placementsOf(results).filter(placement => ['Top drawer', 'Middle drawer', 'Bottom drawer'].includes(placement.name!));
+    expect(members.map(member => member.name)).toEqual(['Top drawer', 'Middle drawer', 'Bottom drawer']);
+    expect(new Set(members.map(member => member.sheetId)).size).toBe(1);
+
+    // Grain runs along x on this sheet, so each front starts a kerf after the last one ends
+    members.slice(1).forEach((member, i) => {
+      expect(member.rotated).toBe(false);
+      expect(member.y).toBe(members[0].y);
+      expect(member.x).toBe(members[i].x + 400 + 3);
+    });
+  });
+
+  test('results outline each group and no super-part leaks into the layout', () => {
+    const results = calculateOptimalCuts([sheet], [...carcass, ...fronts], 3);
+
+    expect(results.grainGroups).toEqual([expect.objectContaining({
+      groupId: 'chest',
+      length: 1206,
+      width: 250,
+      partIds: ['Part-2-0', 'Part-3-0', 'Part-4-0']
+    })]);
+    placementsOf(results).forEach(placement => {
+      expect(parseInt(placement.partId.split('-')[1])).toBeLessThan(carcass.length + fronts.length);
+    });
+    expect(results.remnants!.length).toBeGreaterThan(0);
+  });
+
+  test('vertical grain stacks the members across the part width', () => {
+    const doors: Part[] = [{
+      length: 300, width: 500, thickness: 18, quantity: 2, material: 'Oak Veneer', grainDirection: 'vertical', name: 'Door', grainGroup: 'doors'
+    }];
+
+    const results = calculateOptimalCuts([{ ...sheet, grainDirection: 'vertical' }], doors, 3);
+
+    expect(results.success).toBe(true);
+    const [first, second] = placementsOf(results);
+    expect(second.x).toBe(first.x);
+    expect(second.y).toBe(first.y + 503);
+  });
+
+  test('guillotine cut steps separate the group members', () => {
+    const results = calculateOptimalCuts([sheet], [...carcass, ...fronts], 3, { layoutMode: 'guillotine' });
+
+    expect(results.success).toBe(true);
+    const steps = results.cutSequences!.flatMap(sequence => sequence.steps);
+    const separations = steps.filter(step => step.description.startsWith('Separate grain group'));
+    expect(separations).toHaveLength(2);
+    expect(separations.map(step => step.placements.map(p => p.name))).toEqual([['Top drawer'], ['Middle drawer']]);
+  });
+
+  test('search mode keeps groups together too', () => {
+    const results = calculateOptimalCuts([sheet], [...carcass, ...fronts], 3, { search: { maxIterations: 50, seed: 7 } });
+
+    expect(results.success).toBe(true);
+    expect(results.grainGroups).toHaveLength(1);
+    const members = placementsOf(results).filter(placement => placement.name!.endsWith('drawer'));
+    expect(members).toHaveLength(3);
+  });
+});
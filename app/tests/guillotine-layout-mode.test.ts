@@ -0,0 +1,159 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { Stock, Part, MaterialType, CutTreeNode, StockUsage } from '../lib/types';
+
+describe('Guillotine Layout Mode', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const stocks: Stock[] = [{
+    length: 2440,
+    width: 1220,
+    thickness: 18,
+    quantity: 3,
+    material: 'Plywood',
+    materialType: MaterialType.Sheet
+  }];
+
+  const parts: Part[] = [
+    { length: 800, width: 400, thickness: 18, quantity: 4, material: 'Plywood', name: 'Side' },
+    { length: 600, width: 300, thickness: 18, quantity: 5, material: 'Plywood', name: 'Shelf' },
+    { length: 400, width: 200, thickness: 18, quantity: 6, material: 'Plywood', name: 'Rail' }
+  ];
+
+  const leaves = (node: CutTreeNode): CutTreeNode[] =>
+    node.stage === 3 ? [node] : node.children.flatMap(leaves);
+
+  const partSize = (usage: StockUsage, partId: string) => {
+    const placement = usage.placements.find(p => p.partId === partId)!;
+    const part = parts[parseInt(partId.split('-')[1])];
+    return {
+      placement,
+      width: placement.rotated ? part.width : part.length,
+      height: placement.rotated ? part.length : part.width
+    };
+  };
+
+  test('standard mode does not produce a cut tree', () => {
+    const result = calculateOptimalCuts(stocks, parts, 3);
+
+    expect(result.success).toBe(true);
+    result.stockUsage.forEach(usage => expect(usage.cutTree).toBeUndefined());
+  });
+
+  test('every placement is a stage 3 leaf of a three-stage cut tree', () => {
+    const result = calculateOptimalCuts(stocks, parts, 3, { layoutMode: 'guillotine' });
+
+    expect(result.success).toBe(true);
+    const totalPlaced = result.stockUsage.reduce((sum, usage) => sum + usage.placements.length, 0);
+    expect(totalPlaced).toBe(15);
+
+    result.stockUsage.forEach(usage => {
+      const tree = usage.cutTree!;
+      expect(tree).toBeDefined();
+      expect(tree.stage).toBe(0);
+
+      tree.children.forEach(strip => {
+        // Rips run the full length of the sheet
+        expect(strip.stage).toBe(1);
+        expect(strip.x).toBe(0);
+        expect(strip.width).toBe(2440);
+
+        strip.children.forEach(segment => {
+          // Crosscuts span the full height of their strip
+          expect(segment.stage).toBe(2);
+          expect(segment.y).toBe(strip.y);
+          expect(segment.height).toBe(strip.height);
+
+          segment.children.forEach(piece => {
+            expect(piece.stage).toBe(3);
+            expect(piece.width).toBe(segment.width);
+            expect(piece.y + piece.height).toBeLessThanOrEqual(segment.y + segment.height);
+          });
+        });
+      });
+
+      const leafIds = leaves(tree).map(leaf => leaf.partId).sort();
+      expect(leafIds).toEqual(usage.placements.map(p => p.partId).sort());
+
+      leaves(tree).forEach(leaf => {
+        const { placement, width, height } = partSize(usage, leaf.partId!);
+        expect(placement.x).toBe(leaf.x);
+        expect(placement.y).toBe(leaf.y);
+        expect(width).toBe(leaf.width);
+        expect(height).toBe(leaf.height);
+      });
+    });
+  });
+
+  test('strips and segments are separated by at least one kerf', () => {
+    const kerf = 4;
+    const result = calculateOptimalCuts(stocks, parts, kerf, { layoutMode: 'guillotine' });
+
+    result.stockUsage.forEach(usage => {
+      const strips = usage.cutTree!.children;
+      for (let i = 1; i < strips.length; i++) {
+        expect(strips[i].y).toBeGreaterThanOrEqual(strips[i - 1].y + strips[i - 1].height + kerf);
+      }
+      expect(strips[strips.length - 1].y + strips[strips.length - 1].height).toBeLessThanOrEqual(1220);
+
+      strips.forEach(strip => {
+        for (let i = 1; i < strip.children.length; i++) {
+          const previous = strip.children[i - 1];
+          expect(strip.children[i].x).toBeGreaterThanOrEqual(previous.x + previous.width + kerf);
+        }
+      });
+    });
+  });
+
+  test('grain-constrained parts keep their orientation', () => {
+    const grainStocks: Stock[] = [{ ...stocks[0], grainDirection: 'horizontal' }];
+    const grainParts: Part[] = [
+      { length: 300, width: 700, thickness: 18, quantity: 4, material: 'Plywood', grainDirection: 'vertical' },
+      { length: 500, width: 200, thickness: 18, quantity: 4, material: 'Plywood', grainDirection: 'horizontal' }
+    ];
+
+    const result = calculateOptimalCuts(grainStocks, grainParts, 3, { layoutMode: 'guillotine' });
+
+    expect(result.success).toBe(true);
+    result.stockUsage.forEach(usage => {
+      usage.placements.forEach(placement => {
+        const partIndex = parseInt(placement.partId.split('-')[1]);
+        expect(placement.rotated).toBe(partIndex === 0);
+      });
+    });
+  });
+
+  test('cut sequence follows the tree: rips, then crosscuts, then trims', () => {
+    const result = calculateOptimalCuts(stocks, parts, 3, { layoutMode: 'guillotine' });
+    const sequence = result.cutSequences![0];
+    const tree = result.stockUsage[0].cutTree!;
+
+    const cutTypes = sequence.steps.map(step => step.cutType);
+    const lastRip = cutTypes.lastIndexOf('rip');
+    const firstCrosscut = cutTypes.indexOf('crosscut');
+    const lastCrosscut = cutTypes.lastIndexOf('crosscut');
+    const firstTrim = cutTypes.indexOf('final-trim');
+
+    expect(lastRip).toBeGreaterThanOrEqual(0);
+    if (firstCrosscut >= 0) expect(firstCrosscut).toBeGreaterThan(lastRip);
+    if (firstTrim >= 0) expect(firstTrim).toBeGreaterThan(lastCrosscut);
+
+    // Every rip is a full-length horizontal cut at a strip boundary
+    const stripEnds = tree.children.map(strip => strip.y + strip.height);
+    sequence.steps.filter(step => step.cutType === 'rip').forEach(step => {
+      expect(step.cutLine!.direction).toBe('horizontal');
+      expect(step.cutLine!.start.x).toBe(0);
+      expect(step.cutLine!.end.x).toBe(2440);
+      expect(stripEnds).toContain(step.cutLine!.start.y);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { LayoutEditor, PlacementMove } from '../lib/layout-editor';
+import { generateOptimalCutSequence } from '../lib/cutSequenceOptimizer';
+import { Stock, Part, MaterialType, Results } from '../lib/types';
+
+describe('Layout Editor', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const stocks: Stock[] = [
+    { length: 2440, width: 1220, thickness: 18, quantity: 2, material: 'Plywood', materialType: MaterialType.Sheet },
+    { length: 2440, width: 1220, thickness: 18, quantity: 1, material: 'MDF', materialType: MaterialType.Sheet }
+  ];
+
+  const parts: Part[] = [
+    { length: 800, width: 400, thickness: 18, quantity: 2, material: 'Plywood', name: 'Shelf' },
+    { length: 600, width: 300, thickness: 18, quantity: 1, material: 'Plywood', name: 'Door' }
+  ];
+
+  const layout = (extraStocks: Stock[] = stocks, extraParts: Part[] = parts, options = {}): Results =>
+    calculateOptimalCuts(extraStocks, extraParts, 3, options);
+
+  const moveOf = (results: Results, name: string, change: Partial<PlacementMove>): PlacementMove => {
+    const placementIndex = results.stockUsage[0].placements.findIndex(placement => placement.name === name);
+    const placement = results.stockUsage[0].placements[placementIndex];
+    return { fromSheet: 0, placementIndex, toSheet: 0, x: placement.x, y: placement.y, rotated: placement.rotated, ...change };
+  };
+
+  test('a part moved into free space is placed there and the sheet is recounted', () => {
+    const results = layout();
+    const move = moveOf(results, 'Door', { x: 1800, y: 900, rotated: false });
+
+    const edited = LayoutEditor.applyMove(results, move, stocks, 3);
+
+    expect(edited.issues).toEqual([]);
+    const door = edited.results.stockUsage[0].placements.find(placement => placement.name === 'Door')!;
+    expect(door).toEqual(expect.objectContaining({ x: 1800, y: 900 }));
+    expect(edited.results.stockUsage[0].usedArea).toBe(results.stockUsage[0].usedArea);
+    expect(edited.results.stockUsage[0].freeSpaces).not.toEqual(results.stockUsage[0].freeSpaces);
+    expect(edited.results.cutSequences).toHaveLength(1);
+    expect(edited.results.cutSequences![0].steps.some(step =>
+      step.placements.some(placement => placement.name === 'Door' && placement.x === 1800)
+    )).toBe(true);
+  });
+
+  test('overlap, kerf, bounds and defects are all reported', () => {
+    const results = layout([{ ...stocks[0], defects: [{ x: 2200, y: 1000, length: 100, width: 100 }] }]);
+    const shelf = results.stockUsage[0].placements.find(placement => placement.name === 'Shelf')!;
+
+    const kinds = (change: Partial<PlacementMove>) =>
+      LayoutEditor.checkMove(results, moveOf(results, 'Door', { rotated: false, ...change }), [{ ...stocks[0], defects: [{ x: 2200, y: 1000, length: 100, width: 100 }] }], 3)
+        .map(issue => issue.kind);
+
+    expect(kinds({ x: shelf.x + 100, y: shelf.y })).toContain('overlap');
+    expect(kinds({ x: shelf.x + 801, y: shelf.y })).toEqual(['kerf']);
+    expect(kinds({ x: 2000, y: 1000 })).toEqual(['bounds', 'defect']);
+    expect(kinds({ x: 1500, y: 800 })).toEqual([]);
+  });
+
+  test('a refused edit leaves the layout as it was', () => {
+    const results = layout();
+    const shelf = results.stockUsage[0].placements.find(placement => placement.name === 'Shelf')!;
+
+    const edited = LayoutEditor.applyMove(results, moveOf(results, 'Door', { x: shelf.x, y: shelf.y }), stocks, 3);
+
+    expect(edited.issues.length).toBeGreaterThan(0);
+    expect(edited.results).toBe(results);
+  });
+
+  test('turning a part across the grain is refused', () => {
+    const grained: Stock[] = [{ ...stocks[0], grainDirection: 'horizontal' }];
+    const results = layout(grained, [{ ...parts[1], grainDirection: 'horizontal' }]);
+
+    const turned = LayoutEditor.rotate(results, 0, 0, grained, 3);
+
+    expect(turned.issues.map(issue => issue.kind)).toEqual(['grain']);
+
+    // Without grain the same part turns freely
+    const plain = layout(stocks, [parts[1]]);
+    const free = LayoutEditor.rotate(plain, 0, 0, stocks, 3);
+    expect(free.issues).toEqual([]);
+    expect(free.results.stockUsage[0].placements[0].rotated).toBe(!plain.stockUsage[0].placements[0].rotated);
+  });
+
+  test('parts can move between sheets of a suitable material only', () => {
+    // Four panels fill the first sheet and the fifth starts a second
+    const results = layout(stocks, [{ length: 1000, width: 500, thickness: 18, quantity: 5, material: 'Plywood', name: 'Panel' }]);
+    expect(results.stockUsage).toHaveLength(2);
+    const [sheetOne, sheetTwo] = results.stockUsage;
+    const move: PlacementMove = { fromSheet: 0, placementIndex: 0, toSheet: 1, x: 1200, y: 0, rotated: false };
+
+    const edited = LayoutEditor.applyMove(results, move, stocks, 3);
+
+    expect(edited.issues).toEqual([]);
+    expect(edited.results.stockUsage[0].placements).toHaveLength(sheetOne.placements.length - 1);
+    expect(edited.results.stockUsage[1].placements).toHaveLength(sheetTwo.placements.length + 1);
+    expect(edited.results.stockUsage[0].usedArea).toBe(sheetOne.usedArea - 1000 * 500);
+    expect(edited.results.stockUsage[1].usedArea).toBe(sheetTwo.usedArea + 1000 * 500);
+
+    // The same sheet pretending to be MDF no longer suits a plywood panel
+    const mdf = LayoutEditor.checkMove(results, move, [stocks[1]], 3);
+    expect(mdf.map(issue => issue.kind)).toEqual(['material']);
+  });
+
+  test('the edited layout is sequenced with the job kerf', () => {
+    const results = calculateOptimalCuts(stocks, parts, 8);
+
+    const edited = LayoutEditor.applyMove(results, moveOf(results, 'Door', { x: 1800, y: 900, rotated: false }), stocks, 8);
+
+    expect(edited.issues).toEqual([]);
+    expect(edited.results.cutSequences).toEqual(
+      generateOptimalCutSequence(edited.results.stockUsage, stocks, parts, [], 8)
+    );
+  });
+
+  test('an edited guillotine sheet drops its cut tree', () => {
+    const results = layout(stocks, parts, { layoutMode: 'guillotine' });
+    expect(results.stockUsage[0].cutTree).toBeDefined();
+
+    const edited = LayoutEditor.applyMove(results, moveOf(results, 'Door', { x: 1800, y: 900, rotated: false }), stocks, 3);
+
+    expect(edited.issues).toEqual([]);
+    expect(edited.results.stockUsage[0].cutTree).toBeUndefined();
+  });
+});
@@ -0,0 +1,97 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { validateResults } from '../lib/layout-validator';
+import { validatePlacement } from '../lib/cut-helpers';
+import { PlacementEngine, InputProcessor } from '../lib/optimized-cutting-engine';
+import { Stock, Part, MaterialType, Results, Placement } from '../lib/types';
+
+describe('Layout Validator', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const stocks: Stock[] = [
+    { length: 2440, width: 1220, thickness: 18, quantity: 2, material: 'Plywood', materialType: MaterialType.Sheet, grainDirection: 'horizontal' }
+  ];
+
+  const parts: Part[] = [
+    { length: 800, width: 400, thickness: 18, quantity: 2, material: 'Plywood', name: 'Shelf', grainDirection: 'horizontal' },
+    { length: 600, width: 300, thickness: 18, quantity: 1, material: 'Plywood', name: 'Door' }
+  ];
+
+  // One sheet laid out by hand: two shelves side by side and the door below them
+  const layout = (placements: Placement[]): Pick<Results, 'stockUsage'> => ({
+    stockUsage: [{ sheetId: 'Sheet-1', stockIndex: 0, placements, usedArea: 0, wasteArea: 0, freeSpaces: [] }]
+  });
+  const clean: Placement[] = [
+    { partId: 'Part-0-0', x: 0, y: 0, rotated: false, name: 'Shelf' },
+    { partId: 'Part-0-1', x: 803, y: 0, rotated: false, name: 'Shelf' },
+    { partId: 'Part-1-0', x: 0, y: 403, rotated: false, name: 'Door' }
+  ];
+  const kinds = (placements: Placement[], sheetStocks: Stock[] = stocks) =>
+    validateResults(layout(placements), sheetStocks, parts, 3).map(issue => issue.kind);
+
+  test('layouts from the optimiser pass and carry no violations', () => {
+    const results = calculateOptimalCuts(stocks, parts, 3);
+
+    expect(results.success).toBe(true);
+    expect(results.violations).toBeUndefined();
+    expect(validateResults(results, stocks, parts, 3)).toEqual([]);
+    expect(kinds(clean)).toEqual([]);
+  });
+
+  test('each broken rule is reported with its kind, part and sheet', () => {
+    const moved = (index: number, change: Partial<Placement>) =>
+      clean.map((placement, i) => i === index ? { ...placement, ...change } : placement);
+
+    expect(kinds(moved(1, { x: 700 }))).toEqual(['overlap']);
+    expect(kinds(moved(1, { x: 801 }))).toEqual(['kerf']);
+    expect(kinds(moved(1, { x: 1700 }))).toEqual(['bounds']);
+    expect(kinds(moved(1, { x: 1500, rotated: true }))).toEqual(['grain']);
+    expect(kinds([...clean, { partId: 'Part-1-0', x: 1500, y: 403, rotated: false, name: 'Door' }])).toEqual(['quantity', 'quantity']);
+    expect(kinds(clean.slice(0, 2))).toEqual(['quantity']);
+
+    const issues = validateResults(layout(moved(1, { x: 700 })), stocks, parts, 3);
+    expect(issues[0]).toEqual({ kind: 'overlap', partId: 'Part-0-0', sheetId: 'Sheet-1', message: 'Shelf overlaps Shelf' });
+  });
+
+  test('material and thickness are checked against the stock each part is on', () => {
+    const mdf: Stock[] = [{ ...stocks[0], material: 'MDF' }];
+    expect(kinds(clean, mdf)).toEqual(['material', 'material', 'material']);
+
+    const thin: Stock[] = [{ ...stocks[0], thickness: 12 }];
+    expect(kinds(clean, thin)).toEqual(['thickness', 'thickness', 'thickness']);
+
+    // A substitution the job allows is not a violation
+    expect(validateResults(layout(clean), mdf, parts, 3, {
+      materialSubstitutions: [{ partMaterial: 'Plywood', stockMaterial: 'MDF', penalty: 1 }]
+    })).toEqual([]);
+  });
+
+  test('collision checks size existing placements from their own part', () => {
+    const shelf = parts[0];
+    const door = parts[1];
+
+    // The door sits beside the long shelf; sized as a door the shelf would end at x 600
+    const existing = [{ partId: 'Part-0-0', x: 0, y: 0, rotated: false }];
+    expect(validatePlacement(door, 700, 0, false, 2440, 1220, existing, 3, parts)).toBe(false);
+    expect(validatePlacement(door, 803, 0, false, 2440, 1220, existing, 3, parts)).toBe(true);
+
+    // Turned, the shelf spans its width along the sheet length
+    expect(validatePlacement(shelf, 0, 0, true, 2440, 1220, [], 3, parts)).toBe(true);
+    expect(validatePlacement(shelf, 2100, 0, true, 2440, 1220, [], 3, parts)).toBe(false);
+
+    // An unknown placement blocks rather than being guessed at
+    const processedParts = InputProcessor.processRequiredParts(parts);
+    const unknown = [{ partId: 'Part-9-0', x: 2000, y: 1000, rotated: false }];
+    expect(PlacementEngine.hasCollision({ x: 0, y: 0 }, { length: 100, width: 100 }, unknown, 3, processedParts)).toBe(true);
+    expect(validatePlacement(door, 0, 0, false, 2440, 1220, unknown, 3, parts)).toBe(false);
+  });
+});
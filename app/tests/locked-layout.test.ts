@@ -0,0 +1,135 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { LayoutEditor } from '../lib/layout-editor';
+import { LockedLayoutPlanner } from '../lib/locked-layout';
+import { PlacementEngine, InputProcessor } from '../lib/optimized-cutting-engine';
+import { Stock, Part, Placement, MaterialType, Results } from '../lib/types';
+
+describe('Locked Placements', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const stocks: Stock[] = [
+    { length: 2440, width: 1220, thickness: 18, quantity: 3, material: 'Plywood', materialType: MaterialType.Sheet, unitCost: 40 }
+  ];
+
+  const parts: Part[] = [
+    { length: 800, width: 400, thickness: 18, quantity: 6, material: 'Plywood', name: 'Shelf' },
+    { length: 600, width: 300, thickness: 18, quantity: 2, material: 'Plywood', name: 'Door' }
+  ];
+
+  const lock = (results: Results, sheetIndex: number, placementIndexes: number[]): Results => ({
+    ...results,
+    stockUsage: results.stockUsage.map((usage, i) => ({
+      ...usage,
+      placements: usage.placements.map((placement, j) =>
+        i === sheetIndex && placementIndexes.includes(j) ? { ...placement, locked: true } : placement
+      )
+    }))
+  });
+
+  const expectNoCollisions = (results: Results, kerf: number) => {
+    const processedParts = InputProcessor.processRequiredParts(results.sortedParts);
+    results.stockUsage.forEach(usage => usage.placements.forEach((placement, i) => {
+      const part = results.sortedParts[parseInt(placement.partId.split('-')[1])];
+      const size = { length: placement.rotated ? part.width : part.length, width: placement.rotated ? part.length : part.width };
+      const others = usage.placements.filter((_, j) => j !== i);
+      expect(PlacementEngine.hasCollision(placement, size, others, kerf, processedParts)).toBe(false);
+    }));
+  };
+
+  // Only the locked placements of a prior layout are read
+  const priorWith = (placements: Placement[]): Partial<Results> => ({
+    stockUsage: [{ sheetId: 'Sheet-1', stockIndex: 0, placements, usedArea: 0, wasteArea: 0, freeSpaces: [] }]
+  });
+
+  test('a locked part stays put while the rest are packed around it', () => {
+    const prior = priorWith([{ partId: 'Part-1-1', x: 900, y: 450, rotated: false, name: 'Door', locked: true }]);
+
+    const results = calculateOptimalCuts(stocks, parts, 3, {}, prior);
+
+    expect(results.success).toBe(true);
+    expect(results.sortedParts).toBe(parts);
+    expect(results.stockUsage[0].sheetId).toBe('Sheet-1');
+    expect(results.stockUsage[0].placements).toContainEqual(
+      { partId: 'Part-1-1', x: 900, y: 450, rotated: false, name: 'Door', locked: true }
+    );
+    expectNoCollisions(results, 3);
+
+    // Every instance is cut exactly once, the new door numbered around the locked one
+    const ids = results.stockUsage.flatMap(usage => usage.placements.map(placement => placement.partId)).sort();
+    expect(ids).toEqual([
+      'Part-0-0', 'Part-0-1', 'Part-0-2', 'Part-0-3', 'Part-0-4', 'Part-0-5', 'Part-1-0', 'Part-1-1'
+    ]);
+    expect(results.stockUsage[0].usedArea).toBe(
+      results.stockUsage[0].placements.reduce((sum, placement) => sum + (placement.name === 'Door' ? 600 * 300 : 800 * 400), 0)
+    );
+    expect(results.cutSequences).toHaveLength(results.stockUsage.length);
+    expect(results.totalCost).toBe(40 * results.stockUsage.length);
+    expect(results.message).toContain('1 locked parts kept in place');
+  });
+
+  test('parts that no longer fit around the locked ones go on additional sheets', () => {
+    const panels: Part[] = [{ length: 1200, width: 600, thickness: 18, quantity: 4, material: 'Plywood', name: 'Panel' }];
+    expect(calculateOptimalCuts(stocks, panels, 3).stockUsage).toHaveLength(1);
+
+    // One panel pinned in the middle of the sheet leaves room for only turned panels beside it
+    const prior = priorWith([{ partId: 'Part-0-0', x: 620, y: 310, rotated: false, name: 'Panel', locked: true }]);
+    const results = calculateOptimalCuts(stocks, panels, 3, {}, prior);
+
+    expect(results.success).toBe(true);
+    expect(results.stockUsage[0].placements[0]).toEqual(expect.objectContaining({ x: 620, y: 310, locked: true }));
+    expect(results.stockUsage.map(usage => usage.sheetId)).toEqual(['Sheet-1', 'Sheet-2']);
+    expect(results.stockUsage.reduce((sum, usage) => sum + usage.placements.length, 0)).toBe(4);
+    expectNoCollisions(results, 3);
+  });
+
+  test('a layout edit can be locked and the rest re-optimised around it', () => {
+    const cabinet: Part[] = [{ ...parts[0], quantity: 2 }, { ...parts[1], quantity: 1 }];
+    const first = calculateOptimalCuts(stocks, cabinet, 3);
+    const doorIndex = first.stockUsage[0].placements.findIndex(placement => placement.name === 'Door');
+    const { results: edited, issues } = LayoutEditor.applyMove(first, {
+      fromSheet: 0, placementIndex: doorIndex, toSheet: 0, x: 1800, y: 900, rotated: false
+    }, stocks, 3);
+    expect(issues).toEqual([]);
+
+    const results = calculateOptimalCuts(stocks, cabinet, 3, {}, lock(edited, 0, [edited.stockUsage[0].placements.length - 1]));
+
+    expect(results.stockUsage[0].placements).toContainEqual(expect.objectContaining({ name: 'Door', x: 1800, y: 900, locked: true }));
+    expectNoCollisions(results, 3);
+  });
+
+  test('a locked part keeps a kerf clear on every side, within the sheet', () => {
+    const prior = priorWith([
+      { partId: 'Part-1-0', x: 0, y: 0, rotated: false, name: 'Door', locked: true },
+      { partId: 'Part-1-1', x: 900, y: 450, rotated: false, name: 'Door', locked: true },
+      { partId: 'Part-0-0', x: 1640, y: 820, rotated: false, name: 'Shelf', locked: true }
+    ]);
+
+    const locked = LockedLayoutPlanner.pin(stocks, parts, prior, 3)!;
+    const zones = locked.stocks[locked.sheets[0].layoutStockIndex].defects;
+
+    expect(zones).toEqual([
+      { x: 0, y: 0, length: 603, width: 303 },
+      { x: 897, y: 447, length: 606, width: 306 },
+      { x: 1637, y: 817, length: 803, width: 403 }
+    ]);
+  });
+
+  test('a prior layout with nothing locked is optimised afresh', () => {
+    const first = calculateOptimalCuts(stocks, parts, 3);
+
+    const again = calculateOptimalCuts(stocks, parts, 3, {}, first);
+
+    expect(again.stockUsage).toEqual(first.stockUsage);
+    expect(again.message).toBe(first.message);
+  });
+});
@@ -0,0 +1,116 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { ConstraintProcessor } from '../lib/optimized-cutting-engine';
+import { Stock, Part, MaterialType, Results, OptimizationOptions } from '../lib/types';
+
+describe('Material Matching and Substitutions', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sheet = (material: string, quantity: number): Stock => ({
+    length: 2440,
+    width: 1220,
+    thickness: 18,
+    quantity,
+    material,
+    materialType: MaterialType.Sheet
+  });
+
+  const materialsUsed = (results: Results, stocks: Stock[]) =>
+    results.stockUsage.map(usage => stocks[usage.stockIndex].material);
+
+  const substitutions: OptimizationOptions = {
+    materialSubstitutions: [
+      { partMaterial: 'Poplar Ply', stockMaterial: 'Birch Ply', penalty: 10 },
+      { partMaterial: 'Poplar Ply', stockMaterial: 'MDF', penalty: 50 }
+    ]
+  };
+
+  test('penalty lookup is case-insensitive and strict by default', () => {
+    const part: Part = { length: 500, width: 400, thickness: 18, quantity: 1, material: 'poplar ply' };
+
+    expect(ConstraintProcessor.getMaterialPenalty(part, sheet('POPLAR PLY', 1))).toBe(0);
+    expect(ConstraintProcessor.getMaterialPenalty(part, sheet('Birch Ply', 1))).toBeNull();
+    expect(ConstraintProcessor.getMaterialPenalty(part, sheet('Birch Ply', 1), substitutions)).toBe(10);
+    expect(ConstraintProcessor.getMaterialPenalty(part, sheet('Oak', 1), { materialMatching: 'any' })).toBe(0);
+    expect(ConstraintProcessor.getMaterialPenalty({ ...part, material: undefined }, sheet('Oak', 1))).toBe(0);
+  });
+
+  test('parts are never cut from a different material without a substitution', () => {
+    const stocks = [sheet('Pine Ply', 2)];
+    const parts: Part[] = [{ length: 600, width: 400, thickness: 18, quantity: 2, material: 'Oak Ply' }];
+
+    const strict = calculateOptimalCuts(stocks, parts, 3);
+    expect(strict.success).toBe(false);
+    expect(strict.stockUsage).toHaveLength(0);
+
+    const relaxed = calculateOptimalCuts(stocks, parts, 3, { materialMatching: 'any' });
+    expect(relaxed.success).toBe(true);
+    expect(relaxed.materialSubstitutions).toEqual([
+      expect.objectContaining({ partIndex: 0, partMaterial: 'Oak Ply', stockMaterial: 'Pine Ply', quantity: 2, penalty: 0 })
+    ]);
+  });
+
+  test('exact material is used before any substitute', () => {
+    const stocks = [sheet('Birch Ply', 2), sheet('Poplar Ply', 1)];
+    const parts: Part[] = [{ length: 600, width: 400, thickness: 18, quantity: 4, material: 'Poplar Ply' }];
+
+    const results = calculateOptimalCuts(stocks, parts, 3, substitutions);
+
+    expect(results.success).toBe(true);
+    expect(materialsUsed(results, stocks)).toEqual(['Poplar Ply']);
+    expect(results.materialSubstitutions).toBeUndefined();
+  });
+
+  test('substitutes with the lowest penalty take the overflow and are reported', () => {
+    const stocks = [sheet('MDF', 2), sheet('Birch Ply', 1), sheet('Poplar Ply', 1)];
+    const parts: Part[] = [{ length: 2000, width: 1000, thickness: 18, quantity: 3, material: 'Poplar Ply', name: 'Carcass Side' }];
+
+    const results = calculateOptimalCuts(stocks, parts, 3, substitutions);
+
+    expect(results.success).toBe(true);
+    expect(materialsUsed(results, stocks).sort()).toEqual(['Birch Ply', 'MDF', 'Poplar Ply']);
+    expect(results.materialSubstitutions).toEqual(expect.arrayContaining([
+      { partIndex: 0, partName: 'Carcass Side', partMaterial: 'Poplar Ply', stockIndex: 1, stockMaterial: 'Birch Ply', quantity: 1, penalty: 10 },
+      { partIndex: 0, partName: 'Carcass Side', partMaterial: 'Poplar Ply', stockIndex: 0, stockMaterial: 'MDF', quantity: 1, penalty: 50 }
+    ]));
+  });
+
+  test('dimensional lumber follows the same material rules', () => {
+    const stocks: Stock[] = [
+      { length: 2400, width: 90, thickness: 45, quantity: 3, material: 'Pine', materialType: MaterialType.Dimensional },
+      { length: 2400, width: 90, thickness: 45, quantity: 1, material: 'Oak', materialType: MaterialType.Dimensional }
+    ];
+    const parts: Part[] = [{ length: 1000, width: 90, thickness: 45, quantity: 2, material: 'Oak', materialType: MaterialType.Dimensional }];
+
+    const results = calculateOptimalCuts(stocks, parts, 0);
+
+    expect(results.success).toBe(true);
+    expect(materialsUsed(results, stocks)).toEqual(['Oak']);
+  });
+
+  test('search mode keeps the material constraint', () => {
+    const stocks = [sheet('Birch Ply', 3), sheet('Poplar Ply', 1)];
+    const parts: Part[] = [
+      { length: 1100, width: 550, thickness: 18, quantity: 6, material: 'Poplar Ply' },
+      { length: 700, width: 300, thickness: 18, quantity: 4, material: 'Birch Ply' }
+    ];
+
+    const results = calculateOptimalCuts(stocks, parts, 3, { ...substitutions, search: { maxIterations: 150, seed: 4 } });
+
+    expect(results.success).toBe(true);
+    results.stockUsage.forEach(usage => usage.placements.forEach(placement => {
+      const part = parts[parseInt(placement.partId.split('-')[1])];
+      const stockMaterial = stocks[usage.stockIndex].material;
+      expect(stockMaterial === part.material || (part.material === 'Poplar Ply' && stockMaterial === 'Birch Ply')).toBe(true);
+    }));
+  });
+});
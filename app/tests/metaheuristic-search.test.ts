@@ -0,0 +1,152 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { MetaheuristicOptimizer, createSeededRandom } from '../lib/metaheuristic-optimizer';
+import { validateResults } from '../lib/layout-validator';
+import { Stock, Part, MaterialType, Results } from '../lib/types';
+
+describe('Metaheuristic Search', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const stocks: Stock[] = [{
+    length: 2440,
+    width: 1220,
+    thickness: 18,
+    quantity: 6,
+    material: 'Plywood',
+    materialType: MaterialType.Sheet
+  }];
+
+  const parts: Part[] = [
+    { length: 900, width: 550, thickness: 18, quantity: 5, material: 'Plywood', name: 'Side' },
+    { length: 700, width: 320, thickness: 18, quantity: 7, material: 'Plywood', name: 'Shelf' },
+    { length: 450, width: 450, thickness: 18, quantity: 4, material: 'Plywood', name: 'Door' },
+    { length: 1200, width: 100, thickness: 18, quantity: 6, material: 'Plywood', name: 'Rail' }
+  ];
+
+  const totalPlaced = (results: Results) =>
+    results.stockUsage.reduce((sum, usage) => sum + usage.placements.length, 0);
+
+  const expectNoOverlaps = (results: Results, kerf: number) => {
+    results.stockUsage.forEach(usage => {
+      const rects = usage.placements.map(placement => {
+        const part = parts[parseInt(placement.partId.split('-')[1])];
+        const width = placement.rotated ? part.width : part.length;
+        const height = placement.rotated ? part.length : part.width;
+        return { x: placement.x, y: placement.y, width, height };
+      });
+
+      rects.forEach((a, i) => {
+        expect(a.x + a.width).toBeLessThanOrEqual(2440);
+        expect(a.y + a.height).toBeLessThanOrEqual(1220);
+        rects.slice(i + 1).forEach(b => {
+          const separated =
+            a.x + a.width + kerf <= b.x + 0.01 || b.x + b.width + kerf <= a.x + 0.01 ||
+            a.y + a.height + kerf <= b.y + 0.01 || b.y + b.height + kerf <= a.y + 0.01;
+          expect(separated).toBe(true);
+        });
+      });
+    });
+  };
+
+  test('seeded random generator is reproducible', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const c = createSeededRandom(43);
+
+    const seqA = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(seqA);
+    expect([c(), c(), c()]).not.toEqual(seqA);
+    seqA.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  test('never uses more sheets than the greedy pass', () => {
+    const greedy = calculateOptimalCuts(stocks, parts, 3);
+    const searched = calculateOptimalCuts(stocks, parts, 3, { search: { maxIterations: 300, seed: 7 } });
+
+    expect(searched.success).toBe(true);
+    expect(totalPlaced(searched)).toBe(22);
+    expect(searched.totalUsedSheets).toBeLessThanOrEqual(greedy.totalUsedSheets);
+    expect(searched.searchStats).toEqual(expect.objectContaining({ seed: 7, iterations: 300 }));
+    expect(searched.cutSequences!.length).toBe(searched.stockUsage.length);
+    expectNoOverlaps(searched, 3);
+  });
+
+  test('same seed and iteration budget give the same layout', () => {
+    const budget = { maxIterations: 150, seed: 11 };
+    const first = MetaheuristicOptimizer.optimize(stocks, parts, 3, budget);
+    const second = MetaheuristicOptimizer.optimize(stocks, parts, 3, budget);
+
+    expect(second.stockUsage).toEqual(first.stockUsage);
+  });
+
+  test('stops when the time budget runs out', () => {
+    const start = Date.now();
+    const results = MetaheuristicOptimizer.optimize(stocks, parts, 3, { timeLimitMs: 300, seed: 3 });
+
+    expect(Date.now() - start).toBeLessThan(3000);
+    expect(results.searchStats!.iterations).toBeGreaterThan(0);
+    expect(results.success).toBe(true);
+  });
+
+  test('keeps grain-constrained parts in their required orientation', () => {
+    const grainStocks: Stock[] = [{ ...stocks[0], grainDirection: 'horizontal' }];
+    const grainParts: Part[] = [
+      { length: 400, width: 800, thickness: 18, quantity: 6, material: 'Plywood', grainDirection: 'vertical' },
+      { length: 600, width: 300, thickness: 18, quantity: 6, material: 'Plywood', grainDirection: 'horizontal' }
+    ];
+
+    const results = MetaheuristicOptimizer.optimize(grainStocks, grainParts, 3, { maxIterations: 200, seed: 5 });
+
+    expect(results.success).toBe(true);
+    results.stockUsage.forEach(usage => usage.placements.forEach(placement => {
+      const partIndex = parseInt(placement.partId.split('-')[1]);
+      expect(placement.rotated).toBe(partIndex === 0);
+    }));
+  });
+
+  test('parts that fill a sheet exactly need no kerf at its edges', () => {
+    // Two by two with a kerf between them leaves nothing over at the far edges
+    const panels: Part[] = [{ length: 1218.5, width: 608.5, thickness: 18, quantity: 4, material: 'Plywood', name: 'Panel' }];
+
+    const results = MetaheuristicOptimizer.optimize(stocks, panels, 3, { maxIterations: 50, seed: 9 });
+
+    expect(results.success).toBe(true);
+    expect(results.stockUsage).toHaveLength(1);
+    expect(results.stockUsage[0].placements.map(placement => [placement.x, placement.y]).sort()).toEqual([
+      [0, 0], [0, 611.5], [1221.5, 0], [1221.5, 611.5]
+    ]);
+  });
+
+  test('searched layouts keep a kerf between parts', () => {
+    // With the first two side by side, the third fits under the first on the same sheet
+    // only by closing up the kerf left of the second
+    const square: Stock[] = [{ ...stocks[0], length: 1000, width: 1000, quantity: 3 }];
+    const gapParts: Part[] = [
+      { length: 600, width: 100, thickness: 18, quantity: 1, material: 'Plywood' },
+      { length: 397, width: 500, thickness: 18, quantity: 1, material: 'Plywood' },
+      { length: 603, width: 897, thickness: 18, quantity: 1, material: 'Plywood' }
+    ];
+
+    const jobs: Array<[Stock[], Part[]]> = [[square, gapParts], [stocks, parts]];
+    jobs.forEach(([jobStocks, jobParts]) => {
+      [1, 2, 3].forEach(seed => {
+        const results = MetaheuristicOptimizer.optimize(jobStocks, jobParts, 3, { maxIterations: 100, seed });
+
+        expect(results.success).toBe(true);
+        expect(validateResults(results, jobStocks, jobParts, 3)).toEqual([]);
+      });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { EfficiencyOptimizer } from '../lib/optimized-cutting-engine';
+import { profileCandidates } from '../lib/optimization-profiles';
+import { Stock, Part, MaterialType, Results, ProfileWeights, SavedCalculation, appToDbCalculation, dbToAppCalculation } from '../lib/types';
+
+describe('Optimization Profiles', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sheet = (quantity: number, unitCost?: number): Stock => ({
+    length: 2440, width: 1220, thickness: 18, quantity, material: 'Plywood', materialType: MaterialType.Sheet, unitCost
+  });
+
+  const parts: Part[] = [
+    { length: 900, width: 450, thickness: 18, quantity: 3, material: 'Plywood', name: 'Side' },
+    { length: 700, width: 350, thickness: 18, quantity: 4, material: 'Plywood', name: 'Shelf' },
+    { length: 500, width: 300, thickness: 18, quantity: 3, material: 'Plywood', name: 'Door' }
+  ];
+
+  const only = (measure: keyof ProfileWeights): ProfileWeights =>
+    ({ sheets: 0, waste: 0, cuts: 0, remnant: 0, cost: 0, [measure]: 1 });
+
+  const measure = (results: Results, stocks: Stock[], weights: ProfileWeights) =>
+    EfficiencyOptimizer.scoreLayout(results.stockUsage, stocks, parts, 3, weights).score;
+
+  test('without a profile there is one run and no profile score', () => {
+    const results = calculateOptimalCuts([sheet(3)], parts, 3);
+
+    expect(profileCandidates({}, false)).toEqual([{}]);
+    expect(results.success).toBe(true);
+    expect(results.profileScore).toBeUndefined();
+  });
+
+  test('a profile packs both layout modes under its objective and the efficiency one', () => {
+    expect(profileCandidates({ profile: 'largest-remnant' }, false).map(options => `${options.objective}/${options.layoutMode}`))
+      .toEqual(['remnants/standard', 'remnants/guillotine', 'efficiency/standard', 'efficiency/guillotine']);
+    expect(profileCandidates({ profile: 'fewest-cuts', layoutMode: 'guillotine' }, false)).toHaveLength(2);
+
+    // A search is too costly to repeat per objective
+    expect(profileCandidates({ profile: 'largest-remnant' }, true)).toHaveLength(2);
+  });
+
+  test('the profile picks the candidate that scores best on what it weighs', () => {
+    const stocks = [sheet(3)];
+    const standard = calculateOptimalCuts(stocks, parts, 3, { layoutMode: 'standard' });
+    const guillotine = calculateOptimalCuts(stocks, parts, 3, { layoutMode: 'guillotine' });
+    const bestCuts = Math.max(measure(standard, stocks, only('cuts')), measure(guillotine, stocks, only('cuts')));
+
+    const results = calculateOptimalCuts(stocks, parts, 3, { profile: 'custom', profileWeights: only('cuts') });
+
+    expect(results.success).toBe(true);
+    expect(results.profileScore).toEqual(expect.objectContaining({ profile: 'custom', weights: only('cuts'), candidates: 2 }));
+    expect(results.profileScore!.score).toBeCloseTo(bestCuts);
+    expect(results.profileScore!.measures.cuts).toBeCloseTo(bestCuts);
+  });
+
+  test('the lowest-cost profile packs under the cost objective', () => {
+    // The dearer sheet is scarcer, so the efficiency objective reaches for it first
+    const stocks = [sheet(5, 40), sheet(1, 120)];
+    const small: Part[] = [{ length: 1000, width: 500, thickness: 18, quantity: 4, material: 'Plywood', name: 'Side' }];
+
+    const results = calculateOptimalCuts(stocks, small, 3, { profile: 'lowest-cost' });
+
+    expect(results.stockUsage.map(usage => usage.stockIndex)).toEqual([0]);
+    expect(results.totalCost).toBe(40);
+    expect(results.profileScore!.measures.cost).toBeCloseTo(100 * (4 * 1000 * 500) / (2440 * 1220));
+  });
+
+  test('the profile is saved with the calculation', () => {
+    const options = { profile: 'custom' as const, profileWeights: only('remnant') };
+    const results = calculateOptimalCuts([sheet(3)], parts, 3, options);
+    const calculation: SavedCalculation = {
+      id: 'calc-1',
+      name: 'Cabinet',
+      description: '',
+      kerfThickness: 3,
+      availableStocks: [sheet(3)],
+      requiredParts: parts,
+      results,
+      optimizationOptions: options,
+      dateCreated: 0,
+      dateModified: 0
+    };
+
+    const restored = dbToAppCalculation(appToDbCalculation(calculation));
+    expect(restored.optimizationOptions).toEqual(options);
+    expect(restored.results!.profileScore!.profile).toBe('custom');
+  });
+});
@@ -0,0 +1,101 @@
+import { handleOptimizerRequest, OptimizerRequest, OptimizerRunRequest, OptimizerResponse } from '../lib/optimizer-worker';
+import { Stock, Part, MaterialType, CatalogueItem } from '../lib/types';
+
+describe('Optimizer Worker', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const stocks: Stock[] = [
+    { length: 2440, width: 1220, thickness: 18, quantity: 3, material: 'Plywood', materialType: MaterialType.Sheet }
+  ];
+
+  const parts: Part[] = [
+    { length: 1200, width: 600, thickness: 18, quantity: 6, material: 'Plywood', name: 'Panel' }
+  ];
+
+  const request = (extra: Partial<OptimizerRunRequest> = {}): OptimizerRunRequest => ({
+    type: 'run',
+    runId: 7,
+    availableStocks: stocks,
+    requiredParts: parts,
+    kerfThickness: 3,
+    options: {},
+    ...extra
+  });
+
+  const run = (runRequest: OptimizerRequest) => {
+    const responses: OptimizerResponse[] = [];
+    handleOptimizerRequest(runRequest, response => responses.push(response));
+    return responses;
+  };
+
+  test('progress is reported phase by phase before the results', () => {
+    const responses = run(request());
+
+    const progress = responses.filter(response => response.type === 'progress').map(response => response.progress);
+    expect(progress[0]).toEqual({ phase: 'dimensional', sheetsDone: 0, bestEfficiency: 0 });
+    expect(progress.filter(event => event.phase === 'layout').map(event => event.sheetsDone)).toEqual([0, 1, 2]);
+    expect(progress.slice(-2).map(event => event.phase)).toEqual(['sequencing', 'complete']);
+
+    const last = responses[responses.length - 1];
+    expect(last.type).toBe('result');
+    expect(last.runId).toBe(7);
+    if (last.type === 'result') {
+      expect(last.results.success).toBe(true);
+      expect(progress[progress.length - 1].bestEfficiency).toBeCloseTo(6 * 1200 * 600 / (2 * 2440 * 1220) * 100);
+    }
+    expect(responses.every(response => response.runId === 7)).toBe(true);
+  });
+
+  test('the search reports the best layout it has found as it goes', () => {
+    const responses = run(request({ options: { search: { maxIterations: 300, seed: 1 } } }));
+
+    const searching = responses.filter(response => response.type === 'progress' && response.progress.phase === 'search');
+    expect(searching).toHaveLength(3);
+    expect(responses[responses.length - 1].type).toBe('result');
+  });
+
+  test('the engine logging is muted unless asked for, and errors are posted back', () => {
+    run(request());
+    expect(console.log).not.toHaveBeenCalled();
+
+    run(request({ verbose: true }));
+    expect(console.log).toHaveBeenCalled();
+
+    const failed = run(request({ requiredParts: [undefined as unknown as Part] }));
+    expect(failed[failed.length - 1]).toEqual(expect.objectContaining({ type: 'error', runId: 7 }));
+  });
+
+  test('a purchase plan is worked out in the worker, without a search', () => {
+    const catalogue: CatalogueItem[] = [
+      { length: 2440, width: 1220, thickness: 18, material: 'Plywood', materialType: MaterialType.Sheet, price: 80 }
+    ];
+    const responses = run({
+      type: 'plan',
+      runId: 8,
+      availableStocks: [{ ...stocks[0], quantity: 1 }],
+      requiredParts: parts,
+      kerfThickness: 3,
+      catalogue,
+      options: { search: { maxIterations: 300, seed: 1 } }
+    });
+
+    expect(responses[0]).toEqual({ type: 'progress', runId: 8, progress: { phase: 'purchasing', sheetsDone: 0, bestEfficiency: 0 } });
+    const last = responses[responses.length - 1];
+    expect(last.type).toBe('plan');
+    if (last.type === 'plan') {
+      expect(last.plan.success).toBe(true);
+      expect(last.plan.purchases).toEqual([{ item: catalogue[0], quantity: 1, cost: 80 }]);
+      expect(last.plan.results!.searchStats).toBeUndefined();
+    }
+  });
+});
@@ -0,0 +1,62 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { PatternStacker } from '../lib/pattern-stacking';
+import { Stock, Part, MaterialType } from '../lib/types';
+
+describe('Pattern Stacking', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const plywood: Stock = { length: 2440, width: 1220, thickness: 18, quantity: 10, material: 'Plywood', materialType: MaterialType.Sheet };
+
+  // Four panels fill a sheet, so twelve lay out the same way on three sheets
+  const panels: Part[] = [{ length: 1200, width: 600, thickness: 18, quantity: 12, material: 'Plywood', name: 'Panel' }];
+
+  test('identical sheets are one pattern, cut in stacks of up to the stack height', () => {
+    const single = calculateOptimalCuts([plywood], [{ ...panels[0], quantity: 4 }], 3);
+    const results = calculateOptimalCuts([plywood], panels, 3, { stackHeight: 2 });
+
+    expect(results.success).toBe(true);
+    expect(results.patterns).toEqual([
+      { patternId: 'A', stockIndex: 0, sheetIds: ['Sheet-1', 'Sheet-2', 'Sheet-3'], stacks: [['Sheet-1', 'Sheet-2'], ['Sheet-3']] }
+    ]);
+
+    // One sequence per stack, the stacked one taking a little longer to handle
+    expect(results.cutSequences!.map(sequence => sequence.stockUsageIndex)).toEqual([0, 2]);
+    expect(results.cutSequences![0].stackSheetIds).toEqual(['Sheet-1', 'Sheet-2']);
+    expect(results.cutSequences![1].stackSheetIds).toBeUndefined();
+    expect(results.cutSequences![0].estimatedTime).toBeCloseTo(single.cutSequences![0].estimatedTime + 3);
+  });
+
+  test('patterns are reported without a stack height, each sheet cut on its own', () => {
+    const results = calculateOptimalCuts([plywood], panels, 3);
+
+    expect(results.patterns).toHaveLength(1);
+    expect(results.patterns![0].stacks).toEqual([['Sheet-1'], ['Sheet-2'], ['Sheet-3']]);
+    expect(results.cutSequences).toHaveLength(3);
+    expect(results.cutSequences!.every(sequence => !sequence.stackSheetIds)).toBe(true);
+  });
+
+  test('favouring repeats copies the best sheet while the parts last', () => {
+    const parts: Part[] = [
+      { length: 1500, width: 600, thickness: 18, quantity: 6, material: 'Plywood', name: 'Side' },
+      { length: 900, width: 600, thickness: 18, quantity: 6, material: 'Plywood', name: 'Shelf' }
+    ];
+    const results = calculateOptimalCuts([plywood], parts, 3, { stackHeight: 3, favourRepeats: true });
+    const partIds = results.stockUsage.flatMap(usage => usage.placements.map(placement => placement.partId));
+
+    expect(results.success).toBe(true);
+    expect(results.violations).toBeUndefined();
+    expect(new Set(partIds).size).toBe(12);
+    expect(results.patterns).toEqual([expect.objectContaining({ sheetIds: ['Sheet-1', 'Sheet-2', 'Sheet-3'], stacks: [['Sheet-1', 'Sheet-2', 'Sheet-3']] })]);
+    expect(PatternStacker.detectPatterns(results.stockUsage, 3)).toEqual(results.patterns);
+  });
+});
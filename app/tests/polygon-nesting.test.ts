@@ -0,0 +1,172 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { NestingEngine } from '../lib/nesting-engine';
+import { PolygonGeometry } from '../lib/polygon-geometry';
+import { InputProcessor } from '../lib/optimized-cutting-engine';
+import { Stock, Part, MaterialType, Results, PartOutline } from '../lib/types';
+
+describe('Polygon Nesting', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sheet = (length: number, width: number, extra: Partial<Stock> = {}): Stock => ({
+    length,
+    width,
+    thickness: 18,
+    quantity: 1,
+    material: 'Birch Ply',
+    materialType: MaterialType.Sheet,
+    ...extra
+  });
+
+  // L-shaped bracket with 300mm legs
+  const bracket: PartOutline = {
+    points: [
+      { x: 0, y: 0 }, { x: 600, y: 0 }, { x: 600, y: 300 },
+      { x: 300, y: 300 }, { x: 300, y: 600 }, { x: 0, y: 600 }
+    ]
+  };
+
+  const placedOutlines = (results: Results) => results.stockUsage.flatMap(usage => usage.placements.map(placement =>
+    PolygonGeometry.placedOutline(results.sortedParts[parseInt(placement.partId.split('-')[1])], placement)
+  ));
+
+  test('arcs become polylines within the chord tolerance, and holes reduce the area', () => {
+    const arc = PolygonGeometry.arcToPolyline({ x: 0, y: 0 }, 100, 0, 90, 0.5);
+
+    expect(arc[0]).toEqual({ x: 100, y: 0 });
+    expect(arc[arc.length - 1].x).toBeCloseTo(0);
+    expect(arc[arc.length - 1].y).toBeCloseTo(100);
+    // Midpoint of every chord stays within half a millimetre of the arc
+    arc.slice(1).forEach((point, i) => {
+      const mid = { x: (point.x + arc[i].x) / 2, y: (point.y + arc[i].y) / 2 };
+      expect(100 - Math.hypot(mid.x, mid.y)).toBeLessThanOrEqual(0.5);
+    });
+
+    const frame: PartOutline = {
+      points: [{ x: 0, y: 0 }, { x: 400, y: 0 }, { x: 400, y: 400 }, { x: 0, y: 400 }],
+      holes: [[{ x: 100, y: 100 }, { x: 300, y: 100 }, { x: 300, y: 300 }, { x: 100, y: 300 }]]
+    };
+    expect(PolygonGeometry.area(frame)).toBe(400 * 400 - 200 * 200);
+    expect(PolygonGeometry.parseOutline(PolygonGeometry.formatOutline(frame))).toEqual(frame);
+    expect(PolygonGeometry.parseOutline('0,0 10,0')).toBeUndefined();
+  });
+
+  test('rasterising leaves a hole open and grows the outline by the margin', () => {
+    const frame: PartOutline = {
+      points: [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }],
+      holes: [[{ x: 30, y: 30 }, { x: 70, y: 30 }, { x: 70, y: 70 }, { x: 30, y: 70 }]]
+    };
+
+    const footprint = NestingEngine.rasterise(frame, 0, 10);
+    expect(footprint.filter(span => span.row === 0)).toEqual([{ row: 0, start: 0, end: 9 }]);
+    expect(footprint.filter(span => span.row === 5)).toEqual([
+      { row: 5, start: 0, end: 2 },
+      { row: 5, start: 7, end: 9 }
+    ]);
+
+    const clearance = NestingEngine.rasterise(frame, 3, 10);
+    expect(clearance.filter(span => span.row === 5)).toEqual([
+      { row: 5, start: -1, end: 3 },
+      { row: 5, start: 6, end: 10 }
+    ]);
+  });
+
+  test('interlocking shapes share a sheet their boxes could not', () => {
+    const brackets: Part[] = [{ length: 600, width: 600, thickness: 18, quantity: 2, material: 'Birch Ply', name: 'Bracket', outline: bracket }];
+
+    const results = calculateOptimalCuts([sheet(1000, 610)], brackets, 3);
+
+    expect(results.success).toBe(true);
+    expect(results.stockUsage).toHaveLength(1);
+    expect(results.stockUsage[0].placements.map(({ x, y, angle }) => ({ x, y, angle }))).toEqual([
+      { x: 0, y: 0, angle: 0 },
+      { x: 305, y: 5, angle: 180 }
+    ]);
+    expect(results.stockUsage[0].usedArea).toBe(2 * PolygonGeometry.area(bracket));
+
+    // Packed as rectangles the same brackets need a second sheet
+    const boxed = calculateOptimalCuts([sheet(1000, 610)], [{ ...brackets[0], outline: undefined }], 3);
+    expect(boxed.success).toBe(false);
+  });
+
+  test('settings nesting cannot honour are reported with the results', () => {
+    const brackets: Part[] = [{ length: 600, width: 600, thickness: 18, quantity: 2, material: 'Birch Ply', name: 'Bracket', outline: bracket, assembly: 'Shelf' }];
+
+    const results = calculateOptimalCuts([sheet(1000, 610)], brackets, 3, {
+      layoutMode: 'guillotine',
+      assemblyConstraint: 'same-sheet',
+      search: { maxIterations: 50, seed: 1 }
+    });
+
+    expect(results.success).toBe(true);
+    expect(results.ignoredSettings).toEqual([
+      { setting: 'search', message: 'The layout search was skipped: outlined parts are nested by shape' },
+      { setting: 'layoutMode', message: 'Guillotine cuts were not kept: outlined parts are nested by shape' },
+      { setting: 'assemblyConstraint', message: 'Assemblies were not kept together: outlined parts are nested by shape' }
+    ]);
+
+    // Rectangles honour all three
+    expect(calculateOptimalCuts([sheet(2440, 1220)], [{ ...brackets[0], outline: undefined }], 3, { layoutMode: 'guillotine' }).ignoredSettings)
+      .toBeUndefined();
+  });
+
+  test('small parts are nested inside the cut-out of a larger one', () => {
+    const parts: Part[] = [
+      {
+        length: 800, width: 800, thickness: 18, quantity: 1, material: 'Birch Ply', name: 'Frame',
+        outline: {
+          points: [{ x: 0, y: 0 }, { x: 800, y: 0 }, { x: 800, y: 800 }, { x: 0, y: 800 }],
+          holes: [[{ x: 100, y: 100 }, { x: 700, y: 100 }, { x: 700, y: 700 }, { x: 100, y: 700 }]]
+        }
+      },
+      { length: 300, width: 300, thickness: 18, quantity: 1, material: 'Birch Ply', name: 'Panel' }
+    ];
+
+    const results = calculateOptimalCuts([sheet(900, 900)], parts, 3);
+
+    expect(results.success).toBe(true);
+    const panel = results.stockUsage[0].placements.find(placement => placement.name === 'Panel')!;
+    expect(panel.x).toBeGreaterThanOrEqual(103);
+    expect(panel.y).toBeGreaterThanOrEqual(103);
+    expect(panel.x + 300).toBeLessThanOrEqual(697);
+    expect(panel.y + 300).toBeLessThanOrEqual(697);
+  });
+
+  test('nested discs never come closer than the kerf', () => {
+    const disc: PartOutline = { points: PolygonGeometry.arcToPolyline({ x: 150, y: 150 }, 150, 0, 360).slice(0, -1) };
+    const parts: Part[] = [{ length: 300, width: 300, thickness: 18, quantity: 10, material: 'Birch Ply', name: 'Disc', outline: disc }];
+
+    const results = calculateOptimalCuts([sheet(1220, 1220, { quantity: 2 })], parts, 4, { nesting: { rotationStep: 45 } });
+
+    expect(results.success).toBe(true);
+    const outlines = placedOutlines(results);
+    expect(outlines).toHaveLength(10);
+    outlines.forEach((a, i) => outlines.slice(i + 1).forEach(b => {
+      // Closest approach of two polygons is always at a vertex of one of them
+      [...a.points.map(point => PolygonGeometry.distanceToEdge(b, point)), ...b.points.map(point => PolygonGeometry.distanceToEdge(a, point))]
+        .forEach(distance => expect(distance).toBeGreaterThanOrEqual(4 - 1e-6));
+      expect(PolygonGeometry.contains(b, a.points[0])).toBe(false);
+    }));
+    expect(results.remnants).toBeDefined();
+  });
+
+  test('grain limits an outlined part to the turns that keep it aligned', () => {
+    const [stock] = InputProcessor.processStockInventory([sheet(2440, 1220, { grainDirection: 'horizontal' })]);
+    const [part] = InputProcessor.processRequiredParts([
+      { length: 600, width: 600, thickness: 18, quantity: 1, grainDirection: 'vertical', outline: bracket }
+    ]);
+
+    expect(NestingEngine.allowedAngles(part, stock, 45)).toEqual([90, 270]);
+    expect(NestingEngine.allowedAngles({ ...part, grainDirection: undefined }, stock, 45)).toEqual([0, 45, 90, 135, 180, 225, 270, 315]);
+    expect(NestingEngine.allowedAngles({ ...part, outline: undefined, grainDirection: undefined }, stock, 45)).toEqual([0]);
+  });
+});
@@ -0,0 +1,80 @@
+import { PurchasePlanner } from '../lib/purchase-planner';
+import { Stock, Part, MaterialType, CatalogueItem } from '../lib/types';
+
+describe('Purchase Planner', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const onHand: Stock[] = [{
+    length: 2440, width: 1220, thickness: 18, quantity: 1, material: 'Plywood', materialType: MaterialType.Sheet
+  }];
+
+  const catalogue: CatalogueItem[] = [
+    { length: 2440, width: 1220, thickness: 18, material: 'Plywood', materialType: MaterialType.Sheet, price: 80, supplier: 'Timber Co' },
+    { length: 1220, width: 1220, thickness: 18, material: 'Plywood', materialType: MaterialType.Sheet, price: 45, supplier: 'Timber Co' },
+    { length: 2440, width: 1220, thickness: 18, material: 'MDF', materialType: MaterialType.Sheet, price: 20 }
+  ];
+
+  const side: Part = { length: 1100, width: 550, thickness: 18, quantity: 4, material: 'Plywood', name: 'Side' };
+
+  test('no purchases when the stock on hand completes the job', () => {
+    const plan = PurchasePlanner.plan(onHand, [side], 3, catalogue);
+
+    expect(plan.success).toBe(true);
+    expect(plan.purchases).toEqual([]);
+    expect(plan.totalCost).toBe(0);
+  });
+
+  test('buys the cheapest size that finishes the job and proves it', () => {
+    // One more part than the sheet on hand holds: a half sheet is enough
+    const parts = [{ ...side, quantity: 5 }];
+
+    const plan = PurchasePlanner.plan(onHand, parts, 3, catalogue);
+
+    expect(plan.success).toBe(true);
+    expect(plan.purchases).toEqual([{ item: catalogue[1], quantity: 1, cost: 45 }]);
+    expect(plan.totalCost).toBe(45);
+    expect(plan.results!.success).toBe(true);
+    expect(plan.results!.stockUsage.reduce((sum, usage) => sum + usage.placements.length, 0)).toBe(5);
+  });
+
+  test('full sheets are bought when they are cheaper for the shortfall', () => {
+    const parts = [{ ...side, quantity: 8 }];
+
+    const plan = PurchasePlanner.plan(onHand, parts, 3, catalogue);
+
+    expect(plan.success).toBe(true);
+    expect(plan.purchases).toEqual([{ item: catalogue[0], quantity: 1, cost: 80 }]);
+    expect(plan.results!.success).toBe(true);
+  });
+
+  test('the material of the catalogue item must suit the parts', () => {
+    const plan = PurchasePlanner.plan(onHand, [{ ...side, quantity: 5 }], 3, [catalogue[2]]);
+
+    expect(plan.success).toBe(false);
+    expect(plan.purchases).toEqual([]);
+    expect(plan.message).toContain('cannot complete the job');
+  });
+
+  test('purchased items become priced stock', () => {
+    expect(PurchasePlanner.toStock(catalogue[1], 2)).toEqual({
+      length: 1220,
+      width: 1220,
+      thickness: 18,
+      quantity: 2,
+      material: 'Plywood',
+      materialType: MaterialType.Sheet,
+      grainDirection: undefined,
+      unitCost: 45
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { RemnantAnalyzer } from '../lib/remnant-analyzer';
+import { Stock, Part, MaterialType, Results, FreeSpace } from '../lib/types';
+
+describe('Remnant Objective', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sheet: Stock = {
+    length: 2440,
+    width: 1220,
+    thickness: 18,
+    quantity: 2,
+    material: 'Plywood',
+    materialType: MaterialType.Sheet,
+    grainDirection: 'horizontal'
+  };
+
+  const parts: Part[] = [
+    { length: 700, width: 400, thickness: 18, quantity: 4, material: 'Plywood', name: 'Shelf' },
+    { length: 500, width: 300, thickness: 18, quantity: 3, material: 'Plywood', name: 'Divider' }
+  ];
+
+  const largestRemnant = (results: Results) =>
+    (results.remnants || []).reduce((largest, remnant) => Math.max(largest, remnant.length * remnant.width), 0);
+
+  const overlaps = (a: FreeSpace, b: FreeSpace) =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+  test('overlapping free spaces are carved into disjoint keepable offcuts', () => {
+    const freeSpaces: FreeSpace[] = [
+      { x: 1000, y: 0, width: 1440, height: 1220 },
+      { x: 0, y: 800, width: 2440, height: 420 },
+      { x: 0, y: 0, width: 250, height: 80 }
+    ];
+
+    const remnants = RemnantAnalyzer.extractRemnants(freeSpaces, { length: 300, width: 100 });
+
+    expect(remnants[0]).toEqual(freeSpaces[0]);
+    expect(remnants.length).toBeGreaterThan(1);
+    remnants.forEach((remnant, i) => {
+      expect(RemnantAnalyzer.qualifies(remnant, { length: 300, width: 100 })).toBe(true);
+      remnants.slice(i + 1).forEach(other => expect(overlaps(remnant, other)).toBe(false));
+    });
+  });
+
+  test('the minimum size applies in either orientation', () => {
+    const space: FreeSpace = { x: 0, y: 0, width: 120, height: 500 };
+
+    expect(RemnantAnalyzer.qualifies(space, { length: 300, width: 100 })).toBe(true);
+    expect(RemnantAnalyzer.qualifies(space, { length: 600, width: 100 })).toBe(false);
+    expect(RemnantAnalyzer.qualifies(space, { length: 300, width: 150 })).toBe(false);
+  });
+
+  test('results list each offcut with its stock details', () => {
+    const results = calculateOptimalCuts([sheet], parts, 3);
+
+    expect(results.success).toBe(true);
+    expect(results.remnants!.length).toBeGreaterThan(0);
+    results.remnants!.forEach(remnant => {
+      expect(remnant.sheetId).toBe('Sheet-1');
+      expect(remnant.stockIndex).toBe(0);
+      expect(remnant.thickness).toBe(18);
+      expect(remnant.material).toBe('Plywood');
+      expect(remnant.grainDirection).toBe('horizontal');
+      expect(remnant.x + remnant.length).toBeLessThanOrEqual(sheet.length);
+      expect(remnant.y + remnant.width).toBeLessThanOrEqual(sheet.width);
+    });
+  });
+
+  test('a higher minimum filters out smaller offcuts', () => {
+    const results = calculateOptimalCuts([sheet], parts, 3, { minRemnant: { length: 5000, width: 5000 } });
+
+    expect(results.success).toBe(true);
+    expect(results.remnants).toBeUndefined();
+  });
+
+  test('board offcuts from the crosscut plan are reported', () => {
+    const board: Stock = { length: 2400, width: 90, thickness: 45, quantity: 1, material: 'Pine', materialType: MaterialType.Dimensional };
+    const leg: Part = { length: 1000, width: 90, thickness: 45, quantity: 1, material: 'Pine', materialType: MaterialType.Dimensional };
+
+    const results = calculateOptimalCuts([board], [leg], 3, { minRemnant: { length: 300, width: 50 } });
+
+    expect(results.remnants).toEqual([expect.objectContaining({
+      sheetId: 'Board-1',
+      x: 1003,
+      y: 0,
+      length: 1397,
+      width: 90
+    })]);
+  });
+
+  test('the remnant objective keeps at least as large an offcut as the efficiency objective', () => {
+    const efficiency = calculateOptimalCuts([sheet], parts, 3);
+    const remnants = calculateOptimalCuts([sheet], parts, 3, { objective: 'remnants' });
+
+    expect(remnants.success).toBe(true);
+    expect(remnants.stockUsage).toHaveLength(efficiency.stockUsage.length);
+    expect(largestRemnant(remnants)).toBeGreaterThanOrEqual(largestRemnant(efficiency));
+  });
+
+  test('search mode follows the remnant objective', () => {
+    const results = calculateOptimalCuts([sheet], parts, 3, {
+      objective: 'remnants',
+      search: { maxIterations: 100, seed: 3 }
+    });
+
+    expect(results.success).toBe(true);
+    expect(largestRemnant(results)).toBeGreaterThanOrEqual(largestRemnant(calculateOptimalCuts([sheet], parts, 3)));
+  });
+});
@@ -0,0 +1,136 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { RemnantAnalyzer } from '../lib/remnant-analyzer';
+import {
+  Stock,
+  Part,
+  MaterialType,
+  SavedCalculation,
+  appToDbWarehouseStock,
+  dbToAppWarehouseStock,
+  appToDbCalculation,
+  dbToAppCalculation
+} from '../lib/types';
+
+describe('Returning Offcuts to the Warehouse', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const stocks: Stock[] = [{
+    id: 'stock-1',
+    length: 2440,
+    width: 1220,
+    thickness: 18,
+    quantity: 2,
+    material: 'Birch Ply',
+    materialType: MaterialType.Sheet,
+    grainDirection: 'horizontal',
+    location: 'Rack A'
+  }];
+
+  const parts: Part[] = [{ length: 1200, width: 1000, thickness: 18, quantity: 3, material: 'Birch Ply', name: 'Panel' }];
+
+  const savedCalculation = (): SavedCalculation => {
+    const results = calculateOptimalCuts(stocks, parts, 3);
+    return {
+      id: 'calc-1',
+      name: 'Wardrobe',
+      description: '',
+      kerfThickness: 3,
+      availableStocks: stocks,
+      requiredParts: parts,
+      results,
+      dateCreated: 1,
+      dateModified: 1
+    };
+  };
+
+  const markCut = (calculation: SavedCalculation, sheetId: string): SavedCalculation => ({
+    ...calculation,
+    results: {
+      ...calculation.results!,
+      stockUsage: calculation.results!.stockUsage.map(usage => usage.sheetId !== sheetId ? usage : {
+        ...usage,
+        placements: usage.placements.map(placement => ({ ...placement, cut: true }))
+      })
+    }
+  });
+
+  test('nothing is returned until every part on a sheet is cut', () => {
+    const calculation = savedCalculation();
+    expect(calculation.results!.stockUsage).toHaveLength(2);
+    expect(RemnantAnalyzer.pendingReturns(calculation)).toEqual([]);
+
+    const partlyCut = savedCalculation();
+    partlyCut.results!.stockUsage[0].placements[0].cut = true;
+    expect(RemnantAnalyzer.pendingReturns(partlyCut)).toEqual([]);
+  });
+
+  test('offcuts of fully cut sheets are offered once', () => {
+    const calculation = markCut(savedCalculation(), 'Sheet-2');
+
+    const pending = RemnantAnalyzer.pendingReturns(calculation);
+    expect(pending.length).toBeGreaterThan(0);
+    expect(pending.every(remnant => remnant.sheetId === 'Sheet-2')).toBe(true);
+
+    expect(RemnantAnalyzer.pendingReturns({ ...calculation, returnedRemnantSheets: ['Sheet-2'] })).toEqual([]);
+  });
+
+  test('offcuts already in the warehouse from a return that stopped part way are not offered again', () => {
+    const calculation = markCut(markCut(savedCalculation(), 'Sheet-1'), 'Sheet-2');
+    const pending = RemnantAnalyzer.pendingReturns(calculation);
+    const [first] = pending;
+    const returned = RemnantAnalyzer.toWarehouseStock(first, { calculationId: 'calc-1', calculationName: 'Wardrobe', sheetId: first.sheetId });
+
+    expect(RemnantAnalyzer.pendingReturns(calculation, [returned])).toEqual(pending.slice(1));
+
+    // Offcuts of another calculation, or of another sheet, do not count
+    const otherJob = { ...returned, remnantOf: { calculationId: 'calc-2', calculationName: 'Desk', sheetId: first.sheetId } };
+    const otherSheet = { ...returned, remnantOf: { calculationId: 'calc-1', calculationName: 'Wardrobe', sheetId: 'Sheet-9' } };
+    expect(RemnantAnalyzer.pendingReturns(calculation, [otherJob, otherSheet])).toEqual(pending);
+  });
+
+  test('offcuts are recomputed for calculations saved without a remnant list', () => {
+    const calculation = markCut(savedCalculation(), 'Sheet-1');
+    const withList = RemnantAnalyzer.pendingReturns(calculation);
+
+    const { remnants, ...resultsWithoutList } = calculation.results!;
+    expect(remnants).toBeDefined();
+    expect(RemnantAnalyzer.pendingReturns({ ...calculation, results: resultsWithoutList })).toEqual(withList);
+  });
+
+  test('a returned offcut becomes stock that references its calculation', () => {
+    const [remnant] = RemnantAnalyzer.pendingReturns(markCut(savedCalculation(), 'Sheet-1'));
+
+    const stock = RemnantAnalyzer.toWarehouseStock(remnant, { calculationId: 'calc-1', calculationName: 'Wardrobe' }, 'Offcut bin');
+
+    expect(stock).toEqual({
+      length: remnant.length,
+      width: remnant.width,
+      thickness: 18,
+      quantity: 1,
+      material: 'Birch Ply',
+      materialType: MaterialType.Sheet,
+      grainDirection: 'horizontal',
+      location: 'Offcut bin',
+      remnantOf: { calculationId: 'calc-1', calculationName: 'Wardrobe' }
+    });
+  });
+
+  test('remnant references and returned sheets survive the database round trip', () => {
+    const stock: Stock = { ...stocks[0], id: 'stock-2', remnantOf: { calculationId: 'calc-1', calculationName: 'Wardrobe' } };
+    expect(dbToAppWarehouseStock(appToDbWarehouseStock(stock, 'stock-2', 1000)).remnantOf).toEqual(stock.remnantOf);
+    expect(appToDbWarehouseStock(stocks[0], 'stock-1', 1000).remnant_of).toBeNull();
+
+    const calculation = { ...savedCalculation(), returnedRemnantSheets: ['Sheet-1'] };
+    expect(dbToAppCalculation(appToDbCalculation(calculation)).returnedRemnantSheets).toEqual(['Sheet-1']);
+  });
+});
@@ -0,0 +1,113 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { Stock, Part, MaterialType, Results } from '../lib/types';
+
+describe('Re-plan Remaining', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sheets = (quantity: number): Stock[] => [
+    { length: 2440, width: 1220, thickness: 18, quantity, material: 'Plywood', materialType: MaterialType.Sheet }
+  ];
+
+  // Four panels fill a sheet
+  const panels: Part[] = [{ length: 1200, width: 600, thickness: 18, quantity: 6, material: 'Plywood', name: 'Panel' }];
+
+  const markCut = (results: Results, cut: string[]): Results => ({
+    ...results,
+    stockUsage: results.stockUsage.map(usage => ({
+      ...usage,
+      placements: usage.placements.map(placement => ({ ...placement, cut: cut.includes(`${usage.sheetId}/${placement.partId}`) }))
+    }))
+  });
+
+  const placedIds = (results: Results) =>
+    results.stockUsage.flatMap(usage => usage.placements.map(placement => placement.partId)).sort();
+
+  test('parts already cut are kept as history and the rest are planned again', () => {
+    const plan = calculateOptimalCuts(sheets(2), panels, 3);
+    expect(plan.stockUsage.map(usage => usage.placements.length)).toEqual([4, 2]);
+    const firstSheet = plan.stockUsage[0].placements;
+
+    // Two panels cut from the first sheet; the second sheet is untouched
+    const progress = markCut(plan, [`Sheet-1/${firstSheet[0].partId}`, `Sheet-1/${firstSheet[1].partId}`]);
+    const replanned = calculateOptimalCuts(sheets(2), panels, 3, {}, progress);
+
+    expect(replanned.success).toBe(true);
+    expect(replanned.stockUsage[0].sheetId).toBe('Sheet-1');
+    expect(replanned.stockUsage[0].placements.slice(0, 2)).toEqual([
+      { ...firstSheet[0], cut: true },
+      { ...firstSheet[1], cut: true }
+    ]);
+    expect(placedIds(replanned)).toEqual(placedIds(plan));
+    expect(replanned.stockUsage.flatMap(usage => usage.placements).filter(placement => placement.cut)).toHaveLength(2);
+    expect(replanned.message).toContain('2 cut parts kept as history');
+  });
+
+  test('a damaged sheet and a recut part are planned onto the stock that is left', () => {
+    const plan = calculateOptimalCuts(sheets(3), panels, 3);
+    const firstSheet = plan.stockUsage[0].placements;
+    const secondSheet = plan.stockUsage[1].placements;
+
+    // Two panels cut from the first sheet (a third was spoilt, so it is unmarked to be cut
+    // again) and one from the second sheet, which is then damaged and set aside
+    const progress = markCut(plan, [
+      `Sheet-1/${firstSheet[0].partId}`,
+      `Sheet-1/${firstSheet[1].partId}`,
+      `Sheet-2/${secondSheet[0].partId}`
+    ]);
+    const remaining = { ...progress, stockUsage: progress.stockUsage.slice(0, 1) };
+
+    // The damaged sheet and its panel leave the plan: the partly cut sheet and one new one remain
+    const replanned = calculateOptimalCuts(sheets(2), panels, 3, {}, remaining);
+
+    expect(replanned.success).toBe(true);
+    expect(replanned.stockUsage.map(usage => usage.sheetId)).toEqual(['Sheet-1', 'Sheet-2']);
+    expect(replanned.stockUsage[0].placements.filter(placement => placement.cut)).toHaveLength(2);
+    expect(replanned.stockUsage.reduce((sum, usage) => sum + usage.placements.length, 0)).toBe(6);
+  });
+
+  test('a sheet marked unusable is used up, keeping only the parts already cut from it', () => {
+    const plan = calculateOptimalCuts(sheets(3), panels, 3);
+    const firstSheet = plan.stockUsage[0].placements;
+    const secondSheet = plan.stockUsage[1].placements;
+
+    // One panel cut from each sheet before the second is damaged
+    const progress = markCut(plan, [`Sheet-1/${firstSheet[0].partId}`, `Sheet-2/${secondSheet[0].partId}`]);
+    const damaged = { ...progress, stockUsage: progress.stockUsage.map(usage => usage.sheetId === 'Sheet-2' ? { ...usage, unusable: true } : usage) };
+
+    const replanned = calculateOptimalCuts(sheets(3), panels, 3, {}, damaged);
+
+    expect(replanned.success).toBe(true);
+    expect(replanned.stockUsage.map(usage => usage.sheetId)).toEqual(['Sheet-1', 'Sheet-2', 'Sheet-3']);
+    expect(replanned.stockUsage[1]).toEqual(expect.objectContaining({ unusable: true, placements: [{ ...secondSheet[0], cut: true }] }));
+    expect(placedIds(replanned)).toEqual(placedIds(plan));
+    expect(replanned.message).toContain('1 unusable sheets set aside');
+  });
+
+  test('an unusable sheet nothing was cut from leaves the plan and its id is not reused', () => {
+    const plan = calculateOptimalCuts(sheets(3), panels, 3);
+    const firstSheet = plan.stockUsage[0].placements;
+
+    const progress = markCut(plan, [`Sheet-1/${firstSheet[0].partId}`]);
+    const damaged = { ...progress, stockUsage: progress.stockUsage.map(usage => usage.sheetId === 'Sheet-2' ? { ...usage, unusable: true } : usage) };
+
+    const replanned = calculateOptimalCuts(sheets(3), panels, 3, {}, damaged);
+
+    expect(replanned.success).toBe(true);
+    expect(replanned.stockUsage.map(usage => usage.sheetId)).toEqual(['Sheet-1', 'Sheet-3']);
+    expect(replanned.stockUsage.some(usage => usage.unusable)).toBe(false);
+    expect(placedIds(replanned)).toEqual(placedIds(plan));
+
+    // With no stock left beyond the damaged sheet the rest cannot be planned
+    expect(calculateOptimalCuts(sheets(2), panels, 3, {}, damaged).success).toBe(false);
+  });
+});
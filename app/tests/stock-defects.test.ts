@@ -0,0 +1,160 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { FreeSpaceManager } from '../lib/free-space-manager';
+import { DimensionalOptimizer } from '../lib/dimensional-optimizer';
+import {
+  Stock,
+  Part,
+  MaterialType,
+  Results,
+  FreeSpace,
+  getDefectZones,
+  appToDbWarehouseStock,
+  dbToAppWarehouseStock
+} from '../lib/types';
+
+describe('Stock Defects and End Checks', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const sheet: Stock = {
+    length: 2440,
+    width: 1220,
+    thickness: 18,
+    quantity: 2,
+    material: 'Plywood',
+    materialType: MaterialType.Sheet,
+    defects: [{ x: 1000, y: 500, length: 200, width: 200, note: 'Split' }]
+  };
+
+  const board: Stock = {
+    length: 2400,
+    width: 90,
+    thickness: 45,
+    quantity: 2,
+    material: 'Pine',
+    materialType: MaterialType.Dimensional
+  };
+
+  const overlaps = (a: FreeSpace, b: FreeSpace) =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+  // Every placed part as a rectangle in stock coordinates
+  const partRects = (results: Results, stockIndex: number): FreeSpace[] =>
+    results.stockUsage
+      .filter(usage => usage.stockIndex === stockIndex)
+      .flatMap(usage => usage.placements.map(placement => {
+        const part = results.sortedParts[parseInt(placement.partId.split('-')[1])];
+        return {
+          x: placement.x,
+          y: placement.y,
+          width: placement.rotated ? part.width : part.length,
+          height: placement.rotated ? part.length : part.width
+        };
+      }));
+
+  test('defect zones include full-width strips for end checks', () => {
+    expect(getDefectZones({ ...board, defects: [{ x: 900, y: 0, length: 50, width: 40 }], endChecks: { start: 150, end: 80 } })).toEqual([
+      { x: 900, y: 0, width: 50, height: 40 },
+      { x: 0, y: 0, width: 150, height: 90 },
+      { x: 2320, y: 0, width: 80, height: 90 }
+    ]);
+  });
+
+  test('free space seeding carves the defects out of the usable region', () => {
+    const spaces = FreeSpaceManager.forStock(sheet);
+
+    expect(spaces.length).toBeGreaterThan(1);
+    spaces.forEach(space => expect(overlaps(space, { x: 1000, y: 500, width: 200, height: 200 })).toBe(false));
+    expect(FreeSpaceManager.forStock({ ...sheet, defects: undefined })).toEqual([{ x: 0, y: 0, width: 2440, height: 1220 }]);
+  });
+
+  test('sheet parts are laid out around a defect', () => {
+    const parts: Part[] = [{ length: 600, width: 400, thickness: 18, quantity: 8, material: 'Plywood', name: 'Shelf' }];
+
+    const results = calculateOptimalCuts([sheet], parts, 3);
+
+    expect(results.stockUsage.reduce((sum, usage) => sum + usage.placements.length, 0)).toBe(8);
+    partRects(results, 0).forEach(rect => expect(overlaps(rect, { x: 1000, y: 500, width: 200, height: 200 })).toBe(false));
+  });
+
+  test('guillotine layouts avoid defects too', () => {
+    const parts: Part[] = [{ length: 600, width: 400, thickness: 18, quantity: 6, material: 'Plywood', name: 'Shelf' }];
+
+    const results = calculateOptimalCuts([sheet], parts, 3, { layoutMode: 'guillotine' });
+
+    expect(results.stockUsage.reduce((sum, usage) => sum + usage.placements.length, 0)).toBe(6);
+    partRects(results, 0).forEach(rect => expect(overlaps(rect, { x: 1000, y: 500, width: 200, height: 200 })).toBe(false));
+  });
+
+  test('a board splits into clear segments around checks and defects', () => {
+    expect(DimensionalOptimizer.boardSegments(board)).toEqual([{ start: 0, length: 2400 }]);
+    expect(DimensionalOptimizer.boardSegments({
+      ...board,
+      endChecks: { start: 100, end: 50 },
+      defects: [{ x: 1200, y: 20, length: 40, width: 30 }]
+    })).toEqual([
+      { start: 100, length: 1100 },
+      { start: 1240, length: 1110 }
+    ]);
+  });
+
+  test('crosscut parts are cut clear of checked ends and defects', () => {
+    const checked: Stock = {
+      ...board,
+      quantity: 1,
+      endChecks: { start: 100, end: 50 },
+      defects: [{ x: 1200, y: 20, length: 40, width: 30 }]
+    };
+    const rails: Part[] = [{ length: 1000, width: 90, thickness: 45, quantity: 2, material: 'Pine', materialType: MaterialType.Dimensional }];
+
+    const results = calculateOptimalCuts([checked], rails, 3);
+
+    expect(results.success).toBe(true);
+    expect(results.stockUsage).toHaveLength(1);
+    expect(results.stockUsage[0].placements.map(placement => placement.x)).toEqual([100, 1240]);
+    // Each clear segment loses one kerf after its rail
+    expect(results.stockUsage[0].offcutLength).toBe((1100 - 1003) + (1110 - 1003));
+
+    // Without the defect both rails would come from the first stretch of a longer board
+    const long = calculateOptimalCuts([{ ...checked, defects: undefined }], rails, 3);
+    expect(long.stockUsage[0].placements.map(placement => placement.x)).toEqual([100, 1103]);
+  });
+
+  test('a part longer than any clear segment is not cut from the board', () => {
+    const results = calculateOptimalCuts(
+      [{ ...board, quantity: 1, defects: [{ x: 1000, y: 0, length: 100, width: 90 }] }],
+      [{ length: 1500, width: 90, thickness: 45, quantity: 1, material: 'Pine', materialType: MaterialType.Dimensional }],
+      3
+    );
+
+    expect(results.success).toBe(false);
+  });
+
+  test('defects and end checks survive the warehouse round trip', () => {
+    const stock: Stock = {
+      ...board,
+      id: 'stock-1',
+      defects: [{ x: 600, y: 10, length: 30, width: 30, note: 'Knot' }],
+      endChecks: { start: 120, end: 0 }
+    };
+
+    const row = appToDbWarehouseStock(stock, 'stock-1', 1000);
+    expect(row.end_check_start).toBe(120);
+    const restored = dbToAppWarehouseStock(row);
+    expect(restored.defects).toEqual(stock.defects);
+    expect(restored.endChecks).toEqual({ start: 120, end: 0 });
+
+    const plain = dbToAppWarehouseStock(appToDbWarehouseStock({ ...board, id: 'stock-2' }, 'stock-2', 1000));
+    expect(plain.defects).toBeUndefined();
+    expect(plain.endChecks).toBeUndefined();
+  });
+});
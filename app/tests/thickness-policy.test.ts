@@ -0,0 +1,109 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { ConstraintProcessor } from '../lib/optimized-cutting-engine';
+import { Stock, Part, MaterialType, Results } from '../lib/types';
+
+describe('Thickness Policy and Milling', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const board = (thickness: number, quantity: number): Stock => ({
+    length: 1200,
+    width: 600,
+    thickness,
+    quantity,
+    material: 'Oak',
+    materialType: MaterialType.Sheet
+  });
+
+  const part: Part = { length: 500, width: 250, thickness: 12, quantity: 2, material: 'Oak', name: 'Drawer Side' };
+
+  const thicknessesUsed = (results: Results, stocks: Stock[]) =>
+    results.stockUsage.map(usage => stocks[usage.stockIndex].thickness);
+
+  test('removal depends on the policy', () => {
+    expect(ConstraintProcessor.getThicknessRemoval(part, board(12, 1))).toBe(0);
+    expect(ConstraintProcessor.getThicknessRemoval(part, board(25, 1))).toBe(13);
+    expect(ConstraintProcessor.getThicknessRemoval(part, board(11, 1))).toBeNull();
+
+    expect(ConstraintProcessor.getThicknessRemoval(part, board(12, 1), { thicknessPolicy: 'exact' })).toBe(0);
+    expect(ConstraintProcessor.getThicknessRemoval(part, board(12.5, 1), { thicknessPolicy: 'exact' })).toBeNull();
+
+    expect(ConstraintProcessor.getThicknessRemoval(part, board(12.4, 1), { thicknessPolicy: 'tolerance' })).toBe(0);
+    expect(ConstraintProcessor.getThicknessRemoval(part, board(11.6, 1), { thicknessPolicy: 'tolerance' })).toBe(0);
+    expect(ConstraintProcessor.getThicknessRemoval(part, board(13, 1), { thicknessPolicy: 'tolerance' })).toBeNull();
+    expect(ConstraintProcessor.getThicknessRemoval(part, board(13, 1), { thicknessPolicy: 'tolerance', thicknessTolerance: 1 })).toBe(0);
+  });
+
+  test('exact and tolerance policies refuse thicker stock', () => {
+    const stocks = [board(25, 1)];
+
+    expect(calculateOptimalCuts(stocks, [part], 3, { thicknessPolicy: 'exact' }).success).toBe(false);
+    expect(calculateOptimalCuts(stocks, [part], 3, { thicknessPolicy: 'tolerance' }).success).toBe(false);
+  });
+
+  test('stock of the right thickness is used before stock that needs milling', () => {
+    const stocks = [board(25, 2), board(12, 1)];
+
+    const results = calculateOptimalCuts(stocks, [part], 3);
+
+    expect(results.success).toBe(true);
+    expect(thicknessesUsed(results, stocks)).toEqual([12]);
+    expect(results.millingOperations).toBeUndefined();
+  });
+
+  test('thicker stock adds milling to the results and the cut sequence', () => {
+    const stocks = [board(15, 1)];
+
+    const results = calculateOptimalCuts(stocks, [part], 3);
+
+    expect(results.success).toBe(true);
+    expect(results.millingOperations).toEqual([{
+      sheetId: 'Sheet-1',
+      stockIndex: 0,
+      partIndex: 0,
+      partName: 'Drawer Side',
+      quantity: 2,
+      fromThickness: 15,
+      toThickness: 12,
+      method: 'plane',
+      estimatedMinutes: 2 * ConstraintProcessor.estimateMillingMinutes(3)
+    }]);
+
+    const sequence = results.cutSequences![0];
+    const millSteps = sequence.steps.filter(step => step.cutType === 'mill');
+    expect(millSteps).toHaveLength(1);
+    expect(sequence.steps[sequence.steps.length - 1]).toBe(millSteps[0]);
+    expect(millSteps[0].placements).toHaveLength(2);
+    expect(sequence.steps.map(step => step.stepNumber)).toEqual(sequence.steps.map((_, i) => i + 1));
+  });
+
+  test('milling time is included in the sequence estimate', () => {
+    const thick = calculateOptimalCuts([board(25, 1)], [part], 3);
+    const exact = calculateOptimalCuts([board(12, 1)], [part], 3);
+
+    expect(thick.millingOperations![0].method).toBe('resaw');
+    expect(thick.cutSequences![0].estimatedTime - exact.cutSequences![0].estimatedTime)
+      .toBe(thick.millingOperations![0].estimatedMinutes);
+  });
+
+  test('search mode follows the thickness policy', () => {
+    const stocks = [board(25, 3), board(12, 1)];
+    const parts: Part[] = [{ ...part, quantity: 6 }];
+
+    const results = calculateOptimalCuts(stocks, parts, 3, {
+      thicknessPolicy: 'exact',
+      search: { maxIterations: 100, seed: 2 }
+    });
+
+    expect(thicknessesUsed(results, stocks).every(thickness => thickness === 12)).toBe(true);
+  });
+});
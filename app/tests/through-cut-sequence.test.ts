@@ -0,0 +1,121 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { generateOptimalCutSequence } from '../lib/cutSequenceOptimizer';
+import { LayoutValidator } from '../lib/layout-validator';
+import { Stock, Part, MaterialType, StockUsage } from '../lib/types';
+
+describe('Through-Cut Sequence', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const plywood: Stock = { length: 2440, width: 1220, thickness: 18, quantity: 5, material: 'Plywood', materialType: MaterialType.Sheet };
+
+  test('a lone part is ripped and crosscut free, each cut leaving its offcut', () => {
+    const parts: Part[] = [{ length: 1000, width: 500, thickness: 18, quantity: 1, material: 'Plywood', name: 'Lid' }];
+    const results = calculateOptimalCuts([plywood], parts, 3);
+    const [rip, crosscut] = results.cutSequences![0].steps;
+
+    expect(results.stockUsage[0].placements[0]).toEqual(expect.objectContaining({ x: 0, y: 0, rotated: false }));
+    expect(results.cutSequences![0].steps).toHaveLength(2);
+    expect(rip).toEqual(expect.objectContaining({
+      cutType: 'rip',
+      cutLine: { start: { x: 0, y: 500 }, end: { x: 2440, y: 500 }, direction: 'horizontal' },
+      offcut: { x: 0, y: 500, width: 2440, height: 720 }
+    }));
+    expect(rip.releasedPartIds).toBeUndefined();
+    expect(crosscut).toEqual(expect.objectContaining({
+      cutType: 'crosscut',
+      cutLine: { start: { x: 1000, y: 0 }, end: { x: 1000, y: 500 }, direction: 'vertical' },
+      offcut: { x: 1000, y: 0, width: 1440, height: 500 },
+      releasedPartIds: ['Part-0-0']
+    }));
+  });
+
+  test('no cut crosses a part and every part is released once', () => {
+    const parts: Part[] = [
+      { length: 900, width: 450, thickness: 18, quantity: 5, material: 'Plywood', name: 'Side' },
+      { length: 700, width: 350, thickness: 18, quantity: 6, material: 'Plywood', name: 'Shelf' },
+      { length: 500, width: 300, thickness: 18, quantity: 5, material: 'Plywood', name: 'Door' }
+    ];
+    const results = calculateOptimalCuts([plywood], parts, 3);
+    expect(results.success).toBe(true);
+
+    results.stockUsage.forEach((usage, usageIndex) => {
+      const sequence = results.cutSequences!.find(candidate => candidate.stockUsageIndex === usageIndex)!;
+      const boxes = usage.placements.map(placement =>
+        LayoutValidator.footprint(placement, parts[parseInt(placement.partId.split('-')[1])]));
+
+      sequence.steps.forEach(step => {
+        const line = step.cutLine!;
+        boxes.forEach(box => {
+          const crosses = line.direction === 'horizontal'
+            ? line.start.y > box.y + 0.1 && line.start.y < box.y + box.height - 0.1 &&
+              line.start.x < box.x + box.width && line.end.x > box.x
+            : line.start.x > box.x + 0.1 && line.start.x < box.x + box.width - 0.1 &&
+              line.start.y < box.y + box.height && line.end.y > box.y;
+          expect(crosses).toBe(false);
+        });
+      });
+
+      const released = sequence.steps.flatMap(step => step.releasedPartIds || []);
+      expect(released.sort()).toEqual(usage.placements.map(placement => placement.partId).sort());
+    });
+  });
+
+  test('interlocking parts are cut out when no through-cut separates them', () => {
+    // Four parts in a pinwheel round an empty centre
+    const parts: Part[] = [{ length: 600, width: 400, thickness: 18, quantity: 4, material: 'Plywood', name: 'Blade' }];
+    const stock: Stock = { ...plywood, length: 1000, width: 1000, quantity: 1 };
+    const usage: StockUsage = {
+      stockIndex: 0,
+      sheetId: 'Sheet-1',
+      placements: [
+        { partId: 'Part-0-0', x: 0, y: 0, rotated: false },
+        { partId: 'Part-0-1', x: 600, y: 0, rotated: true },
+        { partId: 'Part-0-2', x: 400, y: 600, rotated: false },
+        { partId: 'Part-0-3', x: 0, y: 400, rotated: true }
+      ],
+      freeSpaces: [],
+      usedArea: 960000,
+      wasteArea: 40000
+    };
+
+    const [sequence] = generateOptimalCutSequence([usage], [stock], parts);
+
+    expect(sequence.steps).toHaveLength(1);
+    expect(sequence.steps[0].cutLine).toBeUndefined();
+    expect(sequence.steps[0].releasedPartIds).toEqual(['Part-0-0', 'Part-0-1', 'Part-0-2', 'Part-0-3']);
+  });
+
+  test('a kerf wider than the old fixed gap still makes one cut between neighbouring parts', () => {
+    const parts: Part[] = [{ length: 1000, width: 500, thickness: 18, quantity: 2, material: 'Plywood', name: 'Lid' }];
+    const usage: StockUsage = {
+      stockIndex: 0,
+      sheetId: 'Sheet-1',
+      placements: [
+        { partId: 'Part-0-0', x: 0, y: 0, rotated: false },
+        { partId: 'Part-0-1', x: 1008, y: 0, rotated: false }
+      ],
+      freeSpaces: [],
+      usedArea: 1000000,
+      wasteArea: 1976800
+    };
+
+    const [sequence] = generateOptimalCutSequence([usage], [plywood], parts, [], 8);
+    const crosscuts = sequence.steps.filter(step => step.cutLine?.direction === 'vertical');
+
+    expect(crosscuts.map(step => step.cutLine!.start.x)).toEqual([1000, 2008]);
+    expect(sequence.steps.flatMap(step => step.releasedPartIds || []).sort()).toEqual(['Part-0-0', 'Part-0-1']);
+    sequence.steps.forEach(step => {
+      if (step.offcut) expect(Math.min(step.offcut.width, step.offcut.height)).toBeGreaterThan(8);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { calculateOptimalCuts } from '../lib/calculateOptimalCuts';
+import { UnplacedPartAnalyzer } from '../lib/unplaced-parts';
+import { Stock, Part, MaterialType } from '../lib/types';
+
+describe('Unplaced Part Diagnostics', () => {
+  beforeEach(() => {
+    // Mock console methods to reduce noise during tests
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'time').mockImplementation();
+    jest.spyOn(console, 'timeEnd').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const plywood: Stock = { length: 2440, width: 1220, thickness: 18, quantity: 1, material: 'Plywood', materialType: MaterialType.Sheet, grainDirection: 'horizontal' };
+
+  test('a job that fits has no unplaced parts', () => {
+    const results = calculateOptimalCuts([plywood], [{ length: 1200, width: 600, thickness: 18, quantity: 4, material: 'Plywood', name: 'Panel' }], 3);
+
+    expect(results.success).toBe(true);
+    expect(results.unplacedParts).toBeUndefined();
+    expect(UnplacedPartAnalyzer.failureNotes(results)).toEqual([]);
+  });
+
+  test('running out of sheets is told apart from parts no stock could take', () => {
+    // Only one panel fits a sheet, so the third is left for want of a third sheet
+    const parts: Part[] = [
+      { length: 1300, width: 700, thickness: 18, quantity: 3, material: 'Plywood', name: 'Panel' },
+      { length: 3000, width: 400, thickness: 18, quantity: 1, material: 'Plywood', name: 'Top' },
+      { length: 500, width: 300, thickness: 18, quantity: 2, material: 'Oak', name: 'Face' },
+      { length: 500, width: 300, thickness: 25, quantity: 1, material: 'Plywood', name: 'Block' }
+    ];
+    const results = calculateOptimalCuts([{ ...plywood, quantity: 2 }], parts, 3);
+
+    expect(results.success).toBe(false);
+    expect(results.stockUsage).toHaveLength(2);
+    expect(results.unplacedParts).toEqual([
+      expect.objectContaining({ partIndex: 0, partName: 'Panel', count: 1, reasons: ['out-of-stock'], closestStockIndex: 0 }),
+      expect.objectContaining({ partIndex: 1, partName: 'Top', count: 1, reasons: ['too-large'], closestStockIndex: 0 }),
+      expect.objectContaining({ partIndex: 2, partName: 'Face', count: 2, reasons: ['material'], closestStockIndex: 0 }),
+      expect.objectContaining({ partIndex: 3, partName: 'Block', count: 1, reasons: ['thickness'], closestStockIndex: 0 })
+    ]);
+    expect(results.unplacedParts![2].message).toBe('2× Face not placed — closest stock 18mm × 1220mm × 2440mm Plywood: Plywood cannot stand in for Oak');
+  });
+
+  test('the closest stock is the one with the fewest obstacles', () => {
+    const stocks: Stock[] = [
+      { ...plywood, material: 'Oak', thickness: 12 },
+      { ...plywood, material: 'Oak', length: 1000, width: 800 }
+    ];
+
+    // Grain along the 1000mm length of the small sheet is only possible turned, which does not fit
+    const parts: Part[] = [{ length: 900, width: 700, thickness: 18, quantity: 1, material: 'Oak', name: 'Lid', grainDirection: 'vertical' }];
+    const results = calculateOptimalCuts(stocks, parts, 3);
+
+    expect(results.unplacedParts).toEqual([
+      expect.objectContaining({ partIndex: 0, count: 1, reasons: ['grain'], closestStockIndex: 1 })
+    ]);
+  });
+
+  test('a failed calculation lists the reasons behind each unplaced part', () => {
+    const parts: Part[] = [
+      { length: 1300, width: 700, thickness: 18, quantity: 2, material: 'Plywood', name: 'Panel' },
+      { length: 500, width: 300, thickness: 18, quantity: 2, material: 'Oak', name: 'Face' }
+    ];
+    const results = calculateOptimalCuts([plywood], parts, 3);
+
+    expect(results.success).toBe(false);
+    expect(UnplacedPartAnalyzer.failureNotes(results)).toEqual([{
+      title: 'Parts not placed',
+      lines: [
+        '1× Panel not placed — closest stock 18mm × 1220mm × 2440mm Plywood: all of it is used',
+        '2× Face not placed — closest stock 18mm × 1220mm × 2440mm Plywood: Plywood cannot stand in for Oak'
+      ]
+    }]);
+  });
+});
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect } from "react";
-import { Stock, MaterialType, formatDimensions } from "../lib/types";
+import { Stock, MaterialType, EdgeTrim, EndChecks, DefectZone, formatDimensions } from "../lib/types";
 import {
   fetchWarehouseStock,
   createWarehouseStockItem,
@@ -75,6 +75,12 @@ export default function WarehousePage() {
         ...currentItem,
         [name]: parseFloat(value) || 0,
       });
+    } else if (name === "unitCost") {
+      const cost = parseFloat(value);
+      setCurrentItem({
+        ...currentItem,
+        unitCost: isNaN(cost) || cost < 0 ? undefined : cost,
+      });
     } else {
       setCurrentItem({
         ...currentItem,
@@ -83,6 +89,53 @@ export default function WarehousePage() {
     }
   };
 
+  const handleTrimChange = (edge: keyof EdgeTrim, value: string) => {
+    const numValue = parseFloat(value);
+    const edgeTrim = {
+      ...(currentItem.edgeTrim || { top: 0, bottom: 0, left: 0, right: 0 }),
+      [edge]: isNaN(numValue) || numValue < 0 ? 0 : numValue,
+    };
+    setCurrentItem({
+      ...currentItem,
+      edgeTrim: Object.values(edgeTrim).some((v) => v > 0) ? edgeTrim : undefined,
+    });
+  };
+
+  const handleEndCheckChange = (end: keyof EndChecks, value: string) => {
+    const numValue = parseFloat(value);
+    const endChecks = {
+      ...(currentItem.endChecks || { start: 0, end: 0 }),
+      [end]: isNaN(numValue) || numValue < 0 ? 0 : numValue,
+    };
+    setCurrentItem({
+      ...currentItem,
+      endChecks: endChecks.start > 0 || endChecks.end > 0 ? endChecks : undefined,
+    });
+  };
+
+  const addDefect = () => {
+    setCurrentItem({
+      ...currentItem,
+      defects: [...(currentItem.defects || []), { x: 0, y: 0, length: 0, width: 0 }],
+    });
+  };
+
+  const handleDefectChange = (defectIndex: number, field: keyof DefectZone, value: string) => {
+    const defects = [...(currentItem.defects || [])];
+    if (field === "note") {
+      defects[defectIndex] = { ...defects[defectIndex], note: value || undefined };
+    } else {
+      const numValue = parseFloat(value);
+      defects[defectIndex] = { ...defects[defectIndex], [field]: isNaN(numValue) || numValue < 0 ? 0 : numValue };
+    }
+    setCurrentItem({ ...currentItem, defects });
+  };
+
+  const removeDefect = (defectIndex: number) => {
+    const defects = (currentItem.defects || []).filter((_, i) => i !== defectIndex);
+    setCurrentItem({ ...currentItem, defects: defects.length > 0 ? defects : undefined });
+  };
+
   const validateInputs = (): boolean => {
     setErrorMessage(null);
     if (currentItem.length <= 0) {
@@ -368,6 +421,23 @@ export default function WarehousePage() {
                 placeholder="e.g., Rack A, Shelf 2"
               />
             </div>
+
+            <div>
+              <label htmlFor="unitCost" className="block text-sm font-medium text-gray-700 mb-1">
+                Unit Cost
+              </label>
+              <input
+                id="unitCost"
+                type="number"
+                name="unitCost"
+                value={currentItem.unitCost ?? ""}
+                onChange={handleInputChange}
+                className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-orange focus:border-brand-orange sm:text-sm text-gray-700"
+                min="0"
+                step="0.01"
+                placeholder="Price per sheet or board"
+              />
+            </div>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
@@ -393,6 +463,95 @@ export default function WarehousePage() {
             )}
           </div>
 
+          {/* Squaring margins trimmed off before any part is cut */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-6">
+            {(["top", "bottom", "left", "right"] as const).map((edge) => (
+              <div key={edge}>
+                <label htmlFor={`trim-${edge}`} className="block text-sm font-medium text-gray-700 mb-1">
+                  {edge.charAt(0).toUpperCase() + edge.slice(1)} Edge Trim (mm)
+                </label>
+                <input
+                  id={`trim-${edge}`}
+                  type="number"
+                  min="0"
+                  value={currentItem.edgeTrim?.[edge] || ""}
+                  onChange={(e) => handleTrimChange(edge, e.target.value)}
+                  className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-orange focus:border-brand-orange sm:text-sm text-gray-700"
+                  placeholder="0"
+                />
+              </div>
+            ))}
+          </div>
+
+          {/* Checked board ends, cut off and discarded before any part is cut */}
+          {currentItem.materialType === MaterialType.Dimensional && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-6">
+              {(["start", "end"] as const).map((end) => (
+                <div key={end}>
+                  <label htmlFor={`check-${end}`} className="block text-sm font-medium text-gray-700 mb-1">
+                    {end === "start" ? "Start" : "End"} Check (mm)
+                  </label>
+                  <input
+                    id={`check-${end}`}
+                    type="number"
+                    min="0"
+                    value={currentItem.endChecks?.[end] || ""}
+                    onChange={(e) => handleEndCheckChange(end, e.target.value)}
+                    className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-orange focus:border-brand-orange sm:text-sm text-gray-700"
+                    placeholder="0"
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Defects no part may be cut from, measured from the start corner */}
+          <div className="mb-6">
+            {(currentItem.defects || []).map((defect, dIndex) => (
+              <div key={dIndex} className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-3 items-end">
+                {(["x", "y", "length", "width"] as const).map((field) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Defect {field === "x" || field === "y" ? field.toUpperCase() : field.charAt(0).toUpperCase() + field.slice(1)} (mm)
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={defect[field] || ""}
+                      onChange={(e) => handleDefectChange(dIndex, field, e.target.value)}
+                      className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-orange focus:border-brand-orange sm:text-sm text-gray-700"
+                      placeholder="0"
+                    />
+                  </div>
+                ))}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Note</label>
+                  <input
+                    type="text"
+                    value={defect.note || ""}
+                    onChange={(e) => handleDefectChange(dIndex, "note", e.target.value)}
+                    className="mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-brand-orange focus:border-brand-orange sm:text-sm text-gray-700"
+                    placeholder="e.g. Loose knot"
+                  />
+                </div>
+                <button
+                  type="button"
+                  onClick={() => removeDefect(dIndex)}
+                  className="text-sm text-red-600 hover:text-red-800 pb-2 text-left"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={addDefect}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Add defect
+            </button>
+          </div>
+
           {/* Tailwind flex classes */}
           <div className="flex flex-col sm:flex-row justify-between items-center mt-6 pt-4 border-t border-gray-200">
             <div className="flex space-x-2 mb-4 sm:mb-0">
@@ -547,13 +706,37 @@ export default function WarehousePage() {
                     {/* Tailwind td styles */}
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 border-b border-gray-300">
                       {formatDimensions(item)}
+                      {item.edgeTrim && (
+                        <div className="text-xs text-gray-500">
+                          Trim T{item.edgeTrim.top} B{item.edgeTrim.bottom} L{item.edgeTrim.left} R{item.edgeTrim.right}
+                        </div>
+                      )}
+                      {(!!item.defects?.length || !!item.endChecks) && (
+                        <div className="text-xs text-red-600">
+                          {item.defects?.length ? `${item.defects.length} defect${item.defects.length === 1 ? "" : "s"}` : ""}
+                          {item.defects?.length && item.endChecks ? ", " : ""}
+                          {item.endChecks ? `Checks ${item.endChecks.start}/${item.endChecks.end}` : ""}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 border-b border-gray-300">
+                      {item.material || "—"}
+                      {item.remnantOf && (
+                        <div className="text-xs text-green-700">
+                          Remnant of {item.remnantOf.calculationName}
+                        </div>
+                      )}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 border-b border-gray-300">{item.material || "—"}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 border-b border-gray-300">
                       {item.materialType === MaterialType.Sheet ? "Sheet" : 
                        item.materialType === MaterialType.Dimensional ? "Dimensional" : "—"}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 border-b border-gray-300">{item.quantity}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 border-b border-gray-300">
+                      {item.quantity}
+                      {item.unitCost !== undefined && (
+                        <div className="text-xs text-gray-500">@ {item.unitCost.toFixed(2)}</div>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 border-b border-gray-300">{item.location || "—"}</td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700 border-b border-gray-300">
                       {item.dateAdded
@@ -0,0 +1,6 @@
+-- Migration for wooder-calculations databases created before the optimizer settings column was in schema.sql
+-- Run once against an existing database, e.g.
+--   npx wrangler d1 execute wooder-calculations --remote --file=db/migrations/0001_add_calculation_optimization_options.sql
+-- A database created from a schema.sql that already has it must not run it.
+
+ALTER TABLE calculations ADD COLUMN optimization_options TEXT;      -- JSON string of optimizer settings or NULL
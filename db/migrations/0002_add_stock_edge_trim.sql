@@ -0,0 +1,9 @@
+-- Migration for wooder-calculations databases created before the edge trim columns were in schema.sql
+-- Run once against an existing database, e.g.
+--   npx wrangler d1 execute wooder-calculations --remote --file=db/migrations/0002_add_stock_edge_trim.sql
+-- A database created from a schema.sql that already has them must not run it.
+
+ALTER TABLE warehouse_stock ADD COLUMN trim_top REAL DEFAULT 0;     -- Edge trim margins in mm
+ALTER TABLE warehouse_stock ADD COLUMN trim_bottom REAL DEFAULT 0;
+ALTER TABLE warehouse_stock ADD COLUMN trim_left REAL DEFAULT 0;
+ALTER TABLE warehouse_stock ADD COLUMN trim_right REAL DEFAULT 0;
@@ -0,0 +1,7 @@
+-- Migration for wooder-calculations databases created before the offcut return columns were in schema.sql
+-- Run once against an existing database, e.g.
+--   npx wrangler d1 execute wooder-calculations --remote --file=db/migrations/0003_add_offcut_return.sql
+-- A database created from a schema.sql that already has them must not run it.
+
+ALTER TABLE calculations ADD COLUMN returned_remnant_sheets TEXT;   -- JSON array of sheet IDs whose offcuts were returned to the warehouse
+ALTER TABLE warehouse_stock ADD COLUMN remnant_of TEXT;             -- JSON {calculationId, calculationName, sheetId} for returned offcuts
@@ -0,0 +1,6 @@
+-- Migration for wooder-calculations databases created before the stock price column was in schema.sql
+-- Run once against an existing database, e.g.
+--   npx wrangler d1 execute wooder-calculations --remote --file=db/migrations/0004_add_stock_unit_cost.sql
+-- A database created from a schema.sql that already has it must not run it.
+
+ALTER TABLE warehouse_stock ADD COLUMN unit_cost REAL;              -- Price per sheet or board, NULL when unpriced
@@ -0,0 +1,8 @@
+-- Migration for wooder-calculations databases created before the defect and end check columns were in schema.sql
+-- Run once against an existing database, e.g.
+--   npx wrangler d1 execute wooder-calculations --remote --file=db/migrations/0005_add_stock_defects.sql
+-- A database created from a schema.sql that already has them must not run it.
+
+ALTER TABLE warehouse_stock ADD COLUMN defects TEXT;                -- JSON array of {x, y, length, width, note} defect zones
+ALTER TABLE warehouse_stock ADD COLUMN end_check_start REAL DEFAULT 0; -- Checked board end lengths in mm
+ALTER TABLE warehouse_stock ADD COLUMN end_check_end REAL DEFAULT 0;
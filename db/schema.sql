@@ -1,4 +1,6 @@
 -- Schema for wooder-calculations database
+-- Databases created before a column was added here are brought up to date by the
+-- ALTER TABLE statements in db/migrations/, applied in order.
 
 -- Create a table for storing calculation data
 CREATE TABLE IF NOT EXISTS calculations (
@@ -9,6 +11,8 @@ CREATE TABLE IF NOT EXISTS calculations (
   available_stocks TEXT NOT NULL, -- JSON string of stock objects
   required_parts TEXT NOT NULL,   -- JSON string of part objects
   results TEXT,                   -- JSON string of results or NULL
+  optimization_options TEXT,      -- JSON string of optimizer settings or NULL
+  returned_remnant_sheets TEXT,   -- JSON array of sheet IDs whose offcuts were returned to the warehouse
   date_created INTEGER NOT NULL,
   date_modified INTEGER NOT NULL,
   user_id TEXT                    -- For future multi-user support
@@ -25,6 +29,15 @@ CREATE TABLE IF NOT EXISTS warehouse_stock (
   material_type TEXT,              -- 'sheet' or 'dimensional'
   location TEXT,
   grain_direction TEXT,            -- Added to match the type definition
+  trim_top REAL DEFAULT 0,         -- Edge trim margins in mm
+  trim_bottom REAL DEFAULT 0,
+  trim_left REAL DEFAULT 0,
+  trim_right REAL DEFAULT 0,
+  remnant_of TEXT,                 -- JSON {calculationId, calculationName, sheetId} for returned offcuts
+  unit_cost REAL,                  -- Price per sheet or board, NULL when unpriced
+  defects TEXT,                    -- JSON array of {x, y, length, width, note} defect zones
+  end_check_start REAL DEFAULT 0,  -- Checked board end lengths in mm
+  end_check_end REAL DEFAULT 0,
   date_added INTEGER NOT NULL,
   date_modified INTEGER NOT NULL,
   user_id TEXT                     -- For future multi-user support